@@ -0,0 +1,64 @@
+import { getChunksByIds, searchChunksByKeyword } from './db';
+import { buildKeywordQuery } from './retrieval';
+import { contentTerms } from './text';
+import type { MarbleBindings, RetrievalScope } from '../types';
+
+export type ChatMode = 'general' | 'knowledge';
+
+export interface ChatModeDecision {
+  mode: ChatMode;
+  reason: 'small-talk' | 'workspace-reference' | 'keyword-match' | 'no-match';
+}
+
+const SMALL_TALK_PATTERN =
+  /^(hi|hello|hey|yo|thanks|thank you|cheers|good (morning|afternoon|evening)|how are you|who are you|what can you do)\b[\s!?.,]*/i;
+
+const WORKSPACE_PATTERN =
+  /\b(my|our|the|these|uploaded|shared)\s+(files?|docs?|documents?|notes?|folders?|uploads?|handbook|runbooks?|wiki|workspace)\b|\baccording to\b|\bin (my|our) (files?|docs?|notes?)\b/i;
+
+/** How many keyword hits to inspect, and the share of question terms one of them must contain. */
+const PROBE_LIMIT = 3;
+const PROBE_COVERAGE = 0.5;
+
+/**
+ * Decides whether an `auto` question needs retrieval without calling a model: small talk stays
+ * general, explicit references to the user's files go to knowledge, and anything else goes to
+ * knowledge only when a keyword probe finds a chunk covering most of the question's terms.
+ */
+export async function classifyChatMode(
+  env: MarbleBindings,
+  options: { question: string; userId: string; scope?: RetrievalScope },
+): Promise<ChatModeDecision> {
+  const question = options.question.trim();
+  if (SMALL_TALK_PATTERN.test(question) && contentTerms(question).length <= 3) {
+    return { mode: 'general', reason: 'small-talk' };
+  }
+  if (WORKSPACE_PATTERN.test(question)) {
+    return { mode: 'knowledge', reason: 'workspace-reference' };
+  }
+
+  const terms = new Set(contentTerms(question));
+  const match = buildKeywordQuery(question);
+  if (!match || !terms.size) {
+    return { mode: 'general', reason: 'no-match' };
+  }
+
+  try {
+    const hits = await searchChunksByKeyword(env, {
+      match,
+      ownerId: options.userId,
+      limit: PROBE_LIMIT,
+      scope: options.scope,
+    });
+    const chunks = await getChunksByIds(env, hits.map((hit) => hit.id), options.userId, options.scope);
+    const needed = Math.max(1, Math.ceil(terms.size * PROBE_COVERAGE));
+    const covered = chunks.some((chunk) => {
+      const chunkTerms = new Set(contentTerms(chunk.content));
+      return Array.from(terms).filter((term) => chunkTerms.has(term)).length >= needed;
+    });
+    return covered ? { mode: 'knowledge', reason: 'keyword-match' } : { mode: 'general', reason: 'no-match' };
+  } catch (err) {
+    console.error('Chat mode probe failed', err);
+    return { mode: 'general', reason: 'no-match' };
+  }
+}
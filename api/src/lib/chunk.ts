@@ -1,6 +1,16 @@
-interface ChunkOptions {
+import { sha256Hex } from './text';
+
+export const CHUNK_STRATEGIES = ['fixed-char', 'line', 'paragraph', 'markdown-heading', 'code-block', 'token'] as const;
+
+export type ChunkStrategyName = (typeof CHUNK_STRATEGIES)[number];
+
+export interface ChunkOptions {
+  /** Characters per chunk, and shared between neighbors, for every strategy but `token`. */
   chunkSize: number;
   overlap: number;
+  /** Tokens per chunk, and shared between neighbors, for the `token` strategy. */
+  maxTokens?: number;
+  overlapTokens?: number;
 }
 
 export interface TextChunk {
@@ -8,6 +18,13 @@ export interface TextChunk {
   startLine: number;
   endLine: number;
   index: number;
+  /** Strategy that produced the chunk; absent for chunks from custom pipeline stages. */
+  strategy?: ChunkStrategyName;
+  /** Page and paragraph (within the page) the chunk starts at, for PDF and DOCX uploads. */
+  page?: number;
+  paragraph?: number;
+  /** {@link hashChunkContent} of `content`; re-ingests keep chunks whose hash is unchanged. */
+  contentHash?: string;
 }
 
 function buildLineOffsets(source: string): number[] {
@@ -70,3 +87,249 @@ export function chunkText(source: string, options: ChunkOptions): TextChunk[] {
   }
   return chunks;
 }
+
+const DEFAULT_MAX_TOKENS = 350;
+const DEFAULT_OVERLAP_TOKENS = 50;
+
+const HEADING_PATTERN = /^ {0,3}#{1,6}(\s|$)/;
+const FENCE_PATTERN = /^ {0,3}(```|~~~)/;
+const BLOCK_CLOSER_PATTERN = /^([\])}]|end\b)/;
+
+/** Words and punctuation marks: closer to what embedding tokenizers count than characters / 4. */
+export function countTokens(text: string): number {
+  return text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)?.length ?? 0;
+}
+
+/** A contiguous run of the source; a document's units concatenate back to it exactly. */
+interface TextUnit {
+  text: string;
+  startLine: number;
+  endLine: number;
+  /** A blank line follows, ending a paragraph. */
+  breakAfter: boolean;
+}
+
+type Measure = (text: string) => number;
+type ChunkSpan = Omit<TextChunk, 'index' | 'strategy'>;
+
+const characters: Measure = (text) => text.length;
+
+function lineCount(text: string): number {
+  return text.split('\n').length;
+}
+
+/**
+ * One unit per non-blank line. Blank lines ride along with the line before them (or the first
+ * line, at the top of the file), so no chunk ends up holding only whitespace.
+ */
+function lineUnits(source: string): TextUnit[] {
+  const lines = source.split('\n');
+  const units: TextUnit[] = [];
+  let leading = '';
+  lines.forEach((line, index) => {
+    const text = index < lines.length - 1 ? `${line}\n` : line;
+    const lineNumber = index + 1;
+    const last = units[units.length - 1];
+    if (!line.trim()) {
+      if (last) {
+        last.text += text;
+        last.endLine = lineNumber;
+        last.breakAfter = true;
+      } else {
+        leading += text;
+      }
+      return;
+    }
+    units.push({ text: leading + text, startLine: leading ? 1 : lineNumber, endLine: lineNumber, breakAfter: false });
+    leading = '';
+  });
+  return units;
+}
+
+function mergeUnits(units: TextUnit[]): TextUnit {
+  return {
+    text: units.map((unit) => unit.text).join(''),
+    startLine: units[0].startLine,
+    endLine: units[units.length - 1].endLine,
+    breakAfter: units[units.length - 1].breakAfter,
+  };
+}
+
+/** Cuts a unit that is too big on its own at word boundaries (or anywhere, for giant words). */
+function splitUnit(unit: TextUnit, limit: number, measure: Measure): TextUnit[] {
+  const words = unit.text.match(/\s*\S+|\s+$/g) ?? [unit.text];
+  const pieces: string[] = [];
+  let current = '';
+  words.forEach((word) => {
+    if (current && measure(current + word) > limit) {
+      pieces.push(current);
+      current = '';
+    }
+    while (measure(word) > limit && measure === characters) {
+      pieces.push(word.slice(0, limit));
+      word = word.slice(limit);
+    }
+    current += word;
+  });
+  if (current) pieces.push(current);
+
+  let line = unit.startLine;
+  return pieces.map((text, index) => {
+    const startLine = line;
+    line += lineCount(text) - 1;
+    // A piece ending in a newline still ends on the line that newline closes
+    const endLine = text.endsWith('\n') ? line - 1 : line;
+    return { text, startLine, endLine: Math.max(startLine, endLine), breakAfter: index === pieces.length - 1 && unit.breakAfter };
+  });
+}
+
+/**
+ * Greedily fills chunks with whole units up to `limit`, then starts the next chunk with as
+ * many trailing units as fit in `overlap` (always advancing by at least one unit).
+ */
+function packUnits(units: TextUnit[], limit: number, overlap: number, measure: Measure, lastLine: number): ChunkSpan[] {
+  const sized = units.flatMap((unit) => (measure(unit.text) > limit ? splitUnit(unit, limit, measure) : [unit]));
+  const spans: ChunkSpan[] = [];
+  let start = 0;
+  while (start < sized.length) {
+    let end = start;
+    let size = 0;
+    while (end < sized.length && (end === start || size + measure(sized[end].text) <= limit)) {
+      size += measure(sized[end].text);
+      end += 1;
+    }
+
+    const merged = mergeUnits(sized.slice(start, end));
+    // Units carry their line's newline; the chunk shouldn't end with the next line's start
+    const content = merged.endLine < lastLine ? merged.text.replace(/\n$/, '') : merged.text;
+    spans.push({ content, startLine: merged.startLine, endLine: merged.endLine });
+    if (end >= sized.length) break;
+
+    let next = end;
+    let carried = 0;
+    while (next - 1 > start && carried + measure(sized[next - 1].text) <= overlap) {
+      carried += measure(sized[next - 1].text);
+      next -= 1;
+    }
+    start = next;
+  }
+  return spans;
+}
+
+/** Consecutive lines up to a blank line form a paragraph. */
+function paragraphGroups(units: TextUnit[]): TextUnit[][] {
+  const paragraphs: TextUnit[][] = [[]];
+  units.forEach((unit) => {
+    paragraphs[paragraphs.length - 1].push(unit);
+    if (unit.breakAfter) paragraphs.push([]);
+  });
+  return paragraphs.filter((paragraph) => paragraph.length);
+}
+
+/**
+ * A top-level block starts at an unindented line after a blank line, so a function and the
+ * comment above it stay together. Closing brackets and `end` at column 0 don't start one.
+ */
+function codeBlockGroups(units: TextUnit[]): TextUnit[][] {
+  const blocks: TextUnit[][] = [[]];
+  units.forEach((unit, index) => {
+    const line = unit.text.replace(/^\s*\n/, '').split('\n')[0];
+    if (units[index - 1]?.breakAfter && /^\S/.test(line) && !BLOCK_CLOSER_PATTERN.test(line)) {
+      blocks.push([]);
+    }
+    blocks[blocks.length - 1].push(unit);
+  });
+  return blocks.filter((block) => block.length);
+}
+
+/** Each group becomes a single unit; groups too big to fit fall back to their lines. */
+function groupedUnits(groups: TextUnit[][], limit: number, measure: Measure): TextUnit[] {
+  return groups.flatMap((group) => {
+    const merged = mergeUnits(group);
+    return measure(merged.text) > limit ? group : [merged];
+  });
+}
+
+/** Splits line units into sections, each starting at a Markdown heading outside code fences. */
+function headingSections(units: TextUnit[]): TextUnit[][] {
+  const sections: TextUnit[][] = [[]];
+  let fenced = false;
+  units.forEach((unit) => {
+    const line = unit.text.replace(/^\s*\n/, '').split('\n')[0];
+    if (!fenced && HEADING_PATTERN.test(line) && sections[sections.length - 1].length) {
+      sections.push([]);
+    }
+    if (FENCE_PATTERN.test(line)) fenced = !fenced;
+    sections[sections.length - 1].push(unit);
+  });
+  return sections.filter((section) => section.length);
+}
+
+const STRATEGIES: Record<ChunkStrategyName, (source: string, options: ChunkOptions) => ChunkSpan[]> = {
+  'fixed-char': (source, options) => chunkText(source, options),
+  line: (source, { chunkSize, overlap }) =>
+    packUnits(lineUnits(source), chunkSize, overlap, characters, lineCount(source)),
+  paragraph: (source, { chunkSize, overlap }) =>
+    packUnits(
+      groupedUnits(paragraphGroups(lineUnits(source)), chunkSize, characters),
+      chunkSize,
+      overlap,
+      characters,
+      lineCount(source),
+    ),
+  // Sections never share a chunk, so each chunk sits under a single heading
+  'markdown-heading': (source, { chunkSize, overlap }) =>
+    headingSections(lineUnits(source)).flatMap((section) =>
+      packUnits(section, chunkSize, overlap, characters, lineCount(source)),
+    ),
+  // Small blocks share a chunk, but a block is only cut when it can't fit in one
+  'code-block': (source, { chunkSize, overlap }) =>
+    packUnits(
+      groupedUnits(codeBlockGroups(lineUnits(source)), chunkSize, characters),
+      chunkSize,
+      overlap,
+      characters,
+      lineCount(source),
+    ),
+  token: (source, { maxTokens = DEFAULT_MAX_TOKENS, overlapTokens = DEFAULT_OVERLAP_TOKENS }) =>
+    packUnits(lineUnits(source), maxTokens, overlapTokens, countTokens, lineCount(source)),
+};
+
+/**
+ * SHA-256 of a chunk's content after Unicode (NFC), line-ending and trailing-whitespace
+ * normalization, so edits that only touch those don't count as changed content.
+ */
+export function hashChunkContent(content: string): Promise<string> {
+  const normalized = content
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+  return sha256Hex(normalized);
+}
+
+export function isChunkStrategy(value: unknown): value is ChunkStrategyName {
+  return CHUNK_STRATEGIES.includes(value as ChunkStrategyName);
+}
+
+export function resolveChunkStrategy(value: string | null | undefined): ChunkStrategyName {
+  const name = (value ?? 'fixed-char').trim().toLowerCase();
+  if (!isChunkStrategy(name)) {
+    throw new Error(`Unknown chunk strategy "${value}"; expected one of ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+  return name;
+}
+
+/** Chunks `source` with the named strategy, numbering chunks in order and tagging each with it. */
+export function chunkWithStrategy(strategy: ChunkStrategyName, source: string, options: ChunkOptions): TextChunk[] {
+  if (options.chunkSize <= 0) {
+    throw new Error('chunkSize must be > 0');
+  }
+  return STRATEGIES[strategy](source, options).map((span, index) => ({
+    content: span.content,
+    startLine: span.startLine,
+    endLine: span.endLine,
+    index,
+    strategy,
+  }));
+}
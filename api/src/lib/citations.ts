@@ -0,0 +1,148 @@
+import { keepsSourceLines, resolveFormat } from './extractors';
+import type { ContextBlock } from './providers';
+import { contentTerms } from './text';
+import type { ChatCitation, ChatResult, GroundingReport } from '../types';
+
+/** `[2]` or `[1, 3]`: how streamed answers point at the numbered sources in their prompt. */
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/** Runs of text ending in sentence punctuation or a line break. */
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+/** Share of a sentence's content terms that must appear in the cited text for it to count as supported. */
+const SUPPORT_COVERAGE = 0.5;
+
+/** Source numbers referenced by markers in `answer`, in order of first mention. */
+export function citedSourceNumbers(answer: string): number[] {
+  const numbers: number[] = [];
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    match[1].split(',').forEach((part) => {
+      const value = Number.parseInt(part.trim(), 10);
+      if (!numbers.includes(value)) numbers.push(value);
+    });
+  }
+  return numbers;
+}
+
+function citeContext(context: ContextBlock, lines: [number, number] = [context.startLine, context.endLine]): ChatCitation {
+  return {
+    folder: context.folderName,
+    file: context.fileName,
+    lines,
+    ...(context.page ? { page: context.page } : {}),
+    ...(context.chunkId ? { chunkId: context.chunkId } : {}),
+    ...(context.fileVersion ? { fileVersion: context.fileVersion } : {}),
+  };
+}
+
+/** Maps source markers onto the contexts they number, dropping any that point past the list. */
+export function citationsFromMarkers(answer: string, contexts: ContextBlock[]): ChatCitation[] {
+  return citedSourceNumbers(answer)
+    .filter((value) => value >= 1 && value <= contexts.length)
+    .map((value) => citeContext(contexts[value - 1]));
+}
+
+/** Models sometimes cite `Folder/file.md` or change case; compare on the trailing path segment. */
+function sameName(cited: string, actual: string): boolean {
+  const normalize = (value: string) => value.trim().toLowerCase().split('/').pop() ?? '';
+  return normalize(cited) === normalize(actual);
+}
+
+function citedRange(lines: unknown): [number, number] | null {
+  if (!Array.isArray(lines) || lines.length < 1) return null;
+  const start = Number(lines[0]);
+  const end = Number(lines.length > 1 ? lines[1] : lines[0]);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  return start <= end ? [start, end] : [end, start];
+}
+
+/**
+ * Checks citations against the contexts the answer was generated from. Citations of files that
+ * weren't retrieved are dropped. A range overlapping a retrieved chunk is clamped to that chunk;
+ * one overlapping none (or missing) is moved onto the file's nearest retrieved chunk. Every kept
+ * citation carries the `chunkId` it was matched to, and duplicates collapse.
+ */
+export function validateCitations(citations: ChatCitation[], contexts: ContextBlock[]): ChatCitation[] {
+  const validated: ChatCitation[] = [];
+  const seen = new Set<string>();
+
+  citations.forEach((citation) => {
+    const sameFile = contexts.filter((context) => sameName(citation.file, context.fileName));
+    const sameFolder = sameFile.filter((context) => sameName(citation.folder, context.folderName));
+    const candidates = sameFolder.length ? sameFolder : sameFile;
+    if (!candidates.length) return;
+
+    const range = citedRange(citation.lines);
+    let repaired: ChatCitation;
+    if (!range) {
+      repaired = citeContext(candidates[0]);
+    } else {
+      const [start, end] = range;
+      const overlap = (context: ContextBlock) =>
+        Math.min(end, context.endLine) - Math.max(start, context.startLine) + 1;
+      const distance = (context: ContextBlock) =>
+        Math.max(context.startLine - end, start - context.endLine, 0);
+
+      const best = candidates.reduce((current, context) => (overlap(context) > overlap(current) ? context : current));
+      if (overlap(best) > 0) {
+        repaired = citeContext(best, [Math.max(start, best.startLine), Math.min(end, best.endLine)]);
+      } else {
+        const nearest = candidates.reduce((current, context) =>
+          distance(context) < distance(current) ? context : current,
+        );
+        repaired = citeContext(nearest);
+      }
+    }
+
+    const key = `${repaired.chunkId ?? repaired.file}:${repaired.lines[0]}-${repaired.lines[1]}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    validated.push(repaired);
+  });
+
+  return validated;
+}
+
+/**
+ * The lines of a context a citation points at. Citations count lines of the uploaded file, which
+ * are the chunk's own lines only for formats indexed as uploaded, and only when the chunk holds
+ * every line of its range once (no split long lines). Any other chunk is taken whole.
+ */
+function citedText(citation: ChatCitation, contexts: ContextBlock[]): string {
+  const context = contexts.find((entry) => entry.chunkId !== undefined && entry.chunkId === citation.chunkId);
+  if (!context) return '';
+  const format = resolveFormat(context.fileName);
+  const lines = context.content.split('\n');
+  if (!format || !keepsSourceLines(format) || lines.length !== context.endLine - context.startLine + 1) {
+    return context.content;
+  }
+  return lines.slice(citation.lines[0] - context.startLine, citation.lines[1] - context.startLine + 1).join('\n');
+}
+
+/**
+ * Scores how much of an answer its citations back up: a sentence is supported when at least half
+ * of its content terms appear in the cited lines. Sentences without content terms aren't counted.
+ */
+export function scoreGrounding(answer: string, citations: ChatCitation[], contexts: ContextBlock[]): GroundingReport {
+  const cited = new Set(contentTerms(citations.map((citation) => citedText(citation, contexts)).join('\n')));
+  const sentences = (answer.replace(MARKER_PATTERN, ' ').match(SENTENCE_PATTERN) ?? [])
+    .map((sentence) => new Set(contentTerms(sentence)))
+    .filter((terms) => terms.size > 0);
+
+  const supported = sentences.filter((terms) => {
+    const matched = Array.from(terms).filter((term) => cited.has(term)).length;
+    return matched >= terms.size * SUPPORT_COVERAGE;
+  }).length;
+
+  return {
+    score: sentences.length ? Math.round((supported / sentences.length) * 100) / 100 : 0,
+    sentences: sentences.length,
+    supported,
+  };
+}
+
+/** Validates a knowledge answer's citations and attaches its grounding score. */
+export function groundResult(result: ChatResult, contexts: ContextBlock[]): ChatResult {
+  const citations = validateCitations(result.citations ?? [], contexts);
+  return { ...result, citations, grounding: scoreGrounding(result.answer, citations, contexts) };
+}
@@ -0,0 +1,392 @@
+import {
+  completeConsistencyRun,
+  createConsistencyRun,
+  failConsistencyRun,
+  findExistingChunkIds,
+  findKnownObjects,
+  getConsistencyRun,
+  getFile,
+  listChunksAfter,
+  listFilesAfter,
+  listNamespaceOwners,
+  markVectorIndexPurged,
+  type ConsistencyChunkRow,
+} from './db';
+import { envNumber } from './env';
+import { purgeFile } from './files';
+import { createEmbeddings } from './providers';
+import {
+  deleteObject,
+  derivedTextFileId,
+  ingestPlanFileId,
+  listObjects,
+  objectExists,
+  versionObjectFileId,
+} from './storage';
+import {
+  chunkVectorMetadata,
+  getVectorStore,
+  privateNamespace,
+  publicNamespace,
+  resolveActiveVectorIndex,
+  timestampToEpochMs,
+  unpurgedVectorIndexes,
+  type VectorIndexTarget,
+  type VectorLocation,
+  type VectorStore,
+} from './vectorize';
+import type {
+  ConsistencyFinding,
+  ConsistencyMode,
+  ConsistencyReport,
+  ConsistencyRunRecord,
+  ConsistencyTrigger,
+  MarbleBindings,
+  VectorIndexRecord,
+} from '../types';
+
+/**
+ * D1, Vectorize and R2 are written one after another with no transaction across them, so a
+ * failure part-way through a delete or an ingest leaves them disagreeing. The consistency check
+ * looks for the ways they drift apart and, in `repair` mode, fixes each one:
+ *
+ * - files whose R2 object is gone are purged, since nothing can be re-ingested from them;
+ * - R2 objects no file row points at are deleted;
+ * - chunks of ingested files without a vector in the active generation are re-embedded;
+ * - vectors whose chunk is gone are deleted;
+ * - retired generations of the vector index are emptied.
+ *
+ * Anything written within the grace period is left alone, since an upload or ingest may still
+ * be on its way through the stores.
+ */
+
+const PAGE_SIZE = 100;
+/** Vectorize returns at most 20 vectors per `getByIds` and 20 matches per query with metadata. */
+const VECTOR_BATCH_SIZE = 20;
+const REPORT_ITEMS = 100;
+const DEFAULT_GRACE_MINUTES = 60;
+const DEFAULT_VECTOR_PROBES = 3;
+
+interface CheckContext {
+  env: MarbleBindings;
+  repair: boolean;
+  report: ConsistencyReport;
+  /** Epoch ms; anything written after it is still settling and is skipped. */
+  cutoff: number;
+}
+
+function emptyFinding(): ConsistencyFinding {
+  return { found: 0, repaired: 0, items: [] };
+}
+
+function record(finding: ConsistencyFinding, item: string) {
+  finding.found += 1;
+  if (finding.items.length < REPORT_ITEMS) finding.items.push(item);
+}
+
+/** Runs one repair, noting a failure in the report instead of ending the run. */
+async function attempt(context: CheckContext, label: string, repair: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await repair();
+    return true;
+  } catch (error) {
+    const message = (error as Error)?.message || String(error);
+    console.warn('Consistency repair failed', { repair: label, error: message });
+    context.report.errors.push(`${label}: ${message}`);
+    return false;
+  }
+}
+
+async function checkFiles(context: CheckContext): Promise<void> {
+  const { env } = context;
+  const finding = context.report.filesMissingObjects;
+  for (let after = ''; ; ) {
+    const files = await listFilesAfter(env, after, PAGE_SIZE);
+    if (!files.length) return;
+    after = files[files.length - 1].id;
+
+    for (const file of files) {
+      if (timestampToEpochMs(file.created_at) > context.cutoff) continue;
+      if (await objectExists(env, file.r2_key)) continue;
+      // A rename or move writes the new object before the row points at it; look again
+      const current = await getFile(env, file.id);
+      if (current && current.r2_key !== file.r2_key && (await objectExists(env, current.r2_key))) continue;
+
+      record(finding, file.id);
+      if (context.repair && (await attempt(context, `purge file ${file.id}`, () => purgeFile(env, file)))) {
+        finding.repaired += 1;
+      }
+    }
+  }
+}
+
+async function checkObjects(context: CheckContext): Promise<void> {
+  const { env } = context;
+  const finding = context.report.objectsWithoutFiles;
+  let cursor: string | undefined;
+  do {
+    const page = await listObjects(env, cursor);
+    cursor = page.cursor;
+
+    const settled = page.objects.filter((object) => object.uploaded.getTime() <= context.cutoff);
+    // Derived text, archived versions and ingest plans belong to their file for as long as it has a row
+    const derivedFrom = new Map(
+      settled.map((object) => [
+        object.key,
+        derivedTextFileId(object.key) ?? versionObjectFileId(object.key) ?? ingestPlanFileId(object.key),
+      ]),
+    );
+    const known = await findKnownObjects(
+      env,
+      settled.filter((object) => !derivedFrom.get(object.key)).map((object) => object.key),
+      Array.from(derivedFrom.values()).filter((fileId): fileId is string => Boolean(fileId)),
+    );
+
+    for (const { key } of settled) {
+      const fileId = derivedFrom.get(key);
+      if (fileId ? known.fileIds.has(fileId) : known.keys.has(key)) continue;
+      record(finding, key);
+      if (context.repair && (await attempt(context, `delete object ${key}`, () => deleteObject(env, key)))) {
+        finding.repaired += 1;
+      }
+    }
+  } while (cursor);
+}
+
+async function reembedChunks(
+  context: CheckContext,
+  store: VectorStore,
+  dimensions: number | null,
+  rows: ConsistencyChunkRow[],
+): Promise<void> {
+  const finding = context.report.chunksMissingVectors;
+  const repaired = await attempt(context, `re-embed ${rows.length} chunks`, async () => {
+    const embeddings = await createEmbeddings(context.env, rows.map((row) => row.content));
+    const mismatched = dimensions ? embeddings.find((embedding) => embedding.length !== dimensions) : undefined;
+    if (mismatched) {
+      throw new Error(`Embeddings have ${mismatched.length} dimensions but the active index holds ${dimensions}`);
+    }
+    await store.upsert(rows.map((row, index) => ({ id: row.id, values: embeddings[index], metadata: chunkVectorMetadata(row) })));
+  });
+  if (repaired) finding.repaired += rows.length;
+}
+
+/** Returns the index's dimensions, read off a stored vector when the index hasn't recorded them. */
+async function checkChunks(context: CheckContext, store: VectorStore, index: VectorIndexTarget): Promise<number | null> {
+  const finding = context.report.chunksMissingVectors;
+  let dimensions = index.dimensions;
+  for (let after = ''; ; ) {
+    const rows = await listChunksAfter(context.env, after, PAGE_SIZE);
+    if (!rows.length) return dimensions;
+    after = rows[rows.length - 1].id;
+
+    // Chunks of a file that is gone, unfinished or still being ingested may rightly have no vector yet
+    const settled = rows.filter(
+      (row) =>
+        row.file_name !== null &&
+        row.folder_name !== null &&
+        row.file_status === 'ready' &&
+        !row.ingesting &&
+        timestampToEpochMs(row.file_updated_at ?? '') <= context.cutoff,
+    );
+    const missing: ConsistencyChunkRow[] = [];
+    for (let start = 0; start < settled.length; start += VECTOR_BATCH_SIZE) {
+      const group = settled.slice(start, start + VECTOR_BATCH_SIZE);
+      const stored = await store.getByIds(group.map((row) => row.id));
+      dimensions ??= stored[0]?.values.length ?? null;
+      const found = new Set(stored.map((vector) => vector.id));
+      missing.push(...group.filter((row) => !found.has(row.id)));
+    }
+
+    missing.forEach((row) => record(finding, row.id));
+    if (context.repair && missing.length) {
+      await reembedChunks(context, store, dimensions, missing);
+    }
+  }
+}
+
+function randomUnitVector(dimensions: number): number[] {
+  const values = Array.from(crypto.getRandomValues(new Uint32Array(dimensions)), (value) => value / 0xffffffff - 0.5);
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return values.map((value) => value / norm);
+}
+
+/**
+ * Collects stored vectors with where they live. Local stores list everything; Vectorize can't be
+ * listed, so each namespace is queried with `CONSISTENCY_VECTOR_PROBES` random vectors and the
+ * matches are what gets checked. Repeated runs cover more of the index.
+ */
+async function collectVectors(
+  context: CheckContext,
+  store: VectorStore,
+  dimensions: number | null,
+): Promise<{ scan: ConsistencyReport['vectorScan']; vectors: Map<string, VectorLocation> }> {
+  const vectors = new Map<string, VectorLocation>();
+  if (store.list) {
+    for (const { id, metadata } of await store.list()) {
+      vectors.set(metadata.chunkId ?? id, { visibility: metadata.visibility, ownerId: metadata.ownerId });
+    }
+    return { scan: 'full', vectors };
+  }
+  if (!dimensions) {
+    return { scan: 'skipped', vectors };
+  }
+
+  const probes = Math.max(1, envNumber(context.env.CONSISTENCY_VECTOR_PROBES, DEFAULT_VECTOR_PROBES));
+  const owners = await listNamespaceOwners(context.env);
+  const namespaces = [publicNamespace(), ...owners.map(privateNamespace)];
+  for (const namespace of namespaces) {
+    const fallback: VectorLocation =
+      namespace === publicNamespace()
+        ? { visibility: 'public', ownerId: '' }
+        : { visibility: 'private', ownerId: namespace.slice('user:'.length) };
+    for (let probe = 0; probe < probes; probe += 1) {
+      const matches = await store.query({ vector: randomUnitVector(dimensions), topK: VECTOR_BATCH_SIZE, namespace });
+      for (const match of matches) {
+        const metadata = match.metadata ?? {};
+        vectors.set(metadata.chunkId ?? match.id, {
+          visibility: metadata.visibility ?? fallback.visibility,
+          ownerId: metadata.ownerId ?? fallback.ownerId,
+        });
+      }
+    }
+  }
+  return { scan: 'sampled', vectors };
+}
+
+async function checkVectors(
+  context: CheckContext,
+  store: VectorStore,
+  dimensions: number | null,
+): Promise<ConsistencyReport['vectorScan']> {
+  const finding = context.report.orphanedVectors;
+  const { scan, vectors } = await collectVectors(context, store, dimensions);
+  const ids = Array.from(vectors.keys());
+  for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+    const page = ids.slice(start, start + PAGE_SIZE);
+    const existing = await findExistingChunkIds(context.env, page);
+    for (const id of page.filter((candidate) => !existing.has(candidate))) {
+      record(finding, id);
+      if (context.repair && (await attempt(context, `delete vector ${id}`, () => store.delete([id], vectors.get(id)!)))) {
+        finding.repaired += 1;
+      }
+    }
+  }
+  return scan;
+}
+
+/** Deletes every vector a retired generation holds, then records it as purged. */
+async function purgeGeneration(env: MarbleBindings, index: VectorIndexRecord): Promise<void> {
+  const store = getVectorStore(env, index);
+  const groups = new Map<string, { location: VectorLocation; ids: string[] }>();
+  const add = (id: string, location: VectorLocation) => {
+    const key = `${location.visibility}:${location.ownerId}`;
+    const group = groups.get(key) ?? { location, ids: [] };
+    group.ids.push(id);
+    groups.set(key, group);
+  };
+
+  if (store.list) {
+    for (const { id, metadata } of await store.list()) {
+      add(id, { visibility: metadata.visibility, ownerId: metadata.ownerId });
+    }
+  } else {
+    // Vectorize can't be listed; deletes and moves have kept the generation in step with the chunks
+    for (let after = ''; ; ) {
+      const rows = await listChunksAfter(env, after, PAGE_SIZE);
+      if (!rows.length) break;
+      after = rows[rows.length - 1].id;
+      rows.forEach((row) => add(row.id, { visibility: row.visibility, ownerId: row.owner_id }));
+    }
+  }
+
+  for (const { location, ids } of groups.values()) {
+    for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+      await store.delete(ids.slice(start, start + PAGE_SIZE), location);
+    }
+  }
+  await markVectorIndexPurged(env, index.generation);
+}
+
+async function checkRetiredGenerations(context: CheckContext): Promise<void> {
+  const finding = context.report.retiredVectors;
+  for (const index of await unpurgedVectorIndexes(context.env)) {
+    record(finding, String(index.generation));
+    if (
+      context.repair &&
+      (await attempt(context, `purge generation ${index.generation}`, () => purgeGeneration(context.env, index)))
+    ) {
+      finding.repaired += 1;
+    }
+  }
+}
+
+/** Checks the stores against each other, and repairs what it finds in `repair` mode. */
+export async function checkConsistency(env: MarbleBindings, mode: ConsistencyMode): Promise<ConsistencyReport> {
+  const index = await resolveActiveVectorIndex(env);
+  const store = getVectorStore(env, index);
+  const report: ConsistencyReport = {
+    mode,
+    generation: index.generation,
+    vectorScan: 'skipped',
+    orphanedVectors: emptyFinding(),
+    chunksMissingVectors: emptyFinding(),
+    retiredVectors: emptyFinding(),
+    filesMissingObjects: emptyFinding(),
+    objectsWithoutFiles: emptyFinding(),
+    errors: [],
+  };
+  const graceMinutes = Math.max(0, envNumber(env.CONSISTENCY_GRACE_MINUTES, DEFAULT_GRACE_MINUTES));
+  const context: CheckContext = { env, repair: mode === 'repair', report, cutoff: Date.now() - graceMinutes * 60_000 };
+
+  // Files go first: purging one takes its chunks and vectors along, so they aren't reported twice
+  await checkFiles(context);
+  await checkObjects(context);
+  const dimensions = await checkChunks(context, store, index);
+  report.vectorScan = await checkVectors(context, store, dimensions);
+  await checkRetiredGenerations(context);
+  return report;
+}
+
+export interface ConsistencyRunOptions {
+  mode: ConsistencyMode;
+  trigger: ConsistencyTrigger;
+  createdBy?: string | null;
+}
+
+/** Records a run, checks the stores, and stores the report (or the error) on the run. */
+export async function runConsistencyCheck(env: MarbleBindings, options: ConsistencyRunOptions): Promise<ConsistencyRunRecord> {
+  const id = crypto.randomUUID();
+  await createConsistencyRun(env, { id, mode: options.mode, trigger: options.trigger, created_by: options.createdBy ?? null });
+
+  try {
+    const report = await checkConsistency(env, options.mode);
+    await completeConsistencyRun(env, id, report);
+    console.log('Consistency check completed', {
+      id,
+      mode: options.mode,
+      trigger: options.trigger,
+      orphanedVectors: report.orphanedVectors.found,
+      chunksMissingVectors: report.chunksMissingVectors.found,
+      retiredVectors: report.retiredVectors.found,
+      filesMissingObjects: report.filesMissingObjects.found,
+      objectsWithoutFiles: report.objectsWithoutFiles.found,
+      errors: report.errors.length,
+    });
+  } catch (error) {
+    const message = (error as Error)?.message || String(error);
+    console.error('Consistency check failed', { id, error: message });
+    await failConsistencyRun(env, id, message);
+  }
+
+  const run = await getConsistencyRun(env, id);
+  if (!run) {
+    throw new Error('Unable to load consistency run');
+  }
+  return run;
+}
+
+/** `CONSISTENCY_CRON_MODE`: scheduled runs only report unless it is set to `repair`. */
+export function consistencyCronMode(env: MarbleBindings): ConsistencyMode {
+  return env.CONSISTENCY_CRON_MODE?.trim().toLowerCase() === 'repair' ? 'repair' : 'report';
+}
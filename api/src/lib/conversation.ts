@@ -0,0 +1,103 @@
+import { estimateTokens } from './embeddings';
+import { envNumber } from './env';
+import { getChatProvider, type ChatMessage } from './providers';
+import { contentTerms } from './text';
+import type { MarbleBindings, MessageRecord } from '../types';
+
+export const DEFAULT_HISTORY_TOKENS = 2000;
+const CONVERSATION_TITLE_LENGTH = 80;
+/** Assistant turns are clipped to this many characters when shown to the query rewriter. */
+const REWRITE_ANSWER_CHARS = 400;
+
+const FOLLOW_UP_PATTERN =
+  /\b(it|its|they|them|their|this|that|these|those|he|she|him|his|her|one|ones|there|same|above|former|latter|previous|else|more)\b/i;
+
+const REWRITE_INSTRUCTIONS =
+  'You rewrite follow-up questions into standalone search queries. Using the conversation for context, replace pronouns and references with the things they refer to. Put only the rewritten query in the answer field, without commentary, and leave citations empty. If the question already stands alone, repeat it unchanged.';
+
+export function historyBudgetFromEnv(env: MarbleBindings): number {
+  return envNumber(env.CHAT_HISTORY_TOKENS, DEFAULT_HISTORY_TOKENS, { min: 0 });
+}
+
+export function stripLookupPrefix(question: string): string {
+  return question.replace(/^\/lookup\s*/i, '');
+}
+
+export function conversationTitle(question: string): string {
+  const text = stripLookupPrefix(question).replace(/\s+/g, ' ').trim();
+  return text.length > CONVERSATION_TITLE_LENGTH ? `${text.slice(0, CONVERSATION_TITLE_LENGTH - 1)}…` : text || 'New conversation';
+}
+
+/**
+ * Replays stored messages as user/assistant turns, newest first until `budget` tokens are
+ * spent, so long threads keep their most recent context instead of their opening lines.
+ */
+export function buildHistory(messages: MessageRecord[], budget: number): ChatMessage[] {
+  const turns: ChatMessage[][] = [];
+  let used = 0;
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const question = stripLookupPrefix(messages[index].question);
+    const answer = messages[index].answer;
+    const cost = estimateTokens(question) + estimateTokens(answer);
+    if (used + cost > budget) break;
+    used += cost;
+    turns.unshift([
+      { role: 'user', content: question },
+      { role: 'assistant', content: answer },
+    ]);
+  }
+  return turns.flat();
+}
+
+/**
+ * Offline rewrite: when the question leans on earlier turns (pronouns, or too few terms of
+ * its own), borrow the content terms of the previous user question that it doesn't mention.
+ */
+export function expandFollowUp(history: ChatMessage[], question: string): string {
+  const previous = [...history].reverse().find((message) => message.role === 'user');
+  if (!previous) return question;
+
+  const own = new Set(contentTerms(question));
+  if (own.size > 2 && !FOLLOW_UP_PATTERN.test(question)) return question;
+
+  const borrowed = Array.from(new Set(contentTerms(previous.content))).filter((term) => !own.has(term));
+  return borrowed.length ? `${question} ${borrowed.join(' ')}` : question;
+}
+
+/**
+ * Turns a follow-up into a standalone retrieval query. Hosted chat providers rewrite it with
+ * the conversation as context; the local provider, and any failed rewrite, fall back to
+ * `expandFollowUp`.
+ */
+export async function rewriteQuery(env: MarbleBindings, history: ChatMessage[], question: string): Promise<string> {
+  if (!history.length) return question;
+
+  const provider = getChatProvider(env);
+  if (provider.name === 'local') {
+    return expandFollowUp(history, question);
+  }
+
+  const transcript = history
+    .map((message) => {
+      const content =
+        message.role === 'assistant' && message.content.length > REWRITE_ANSWER_CHARS
+          ? `${message.content.slice(0, REWRITE_ANSWER_CHARS)}…`
+          : message.content;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n');
+
+  try {
+    const result = await provider.generate({
+      messages: [
+        { role: 'system', content: REWRITE_INSTRUCTIONS },
+        { role: 'user', content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}` },
+      ],
+    });
+    const rewritten = result.answer.trim();
+    return rewritten || expandFollowUp(history, question);
+  } catch (err) {
+    console.warn('Query rewrite failed; expanding follow-up locally', err);
+    return expandFollowUp(history, question);
+  }
+}
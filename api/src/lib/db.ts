@@ -2,9 +2,19 @@ import { HTTPException } from 'hono/http-exception';
 import type {
   AuthenticatedUser,
   ChunkRecord,
+  ConsistencyMode,
+  ConsistencyReport,
+  ConsistencyRunRecord,
+  ConsistencyTrigger,
+  ConversationRecord,
   FileRecord,
+  FileVersionRecord,
   FolderRecord,
+  IngestJobRecord,
   MarbleBindings,
+  MessageRecord,
+  RetrievalScope,
+  VectorIndexRecord,
   Visibility,
 } from '../types';
 
@@ -25,9 +35,9 @@ export async function ensureUser(env: MarbleBindings, user: AuthenticatedUser):
 
 export async function getFolder(env: MarbleBindings, folderId: string): Promise<FolderRecord | null> {
   const result = await env.MARBLE_DB.prepare(
-    `SELECT id, name, visibility, owner_id, created_at
+    `SELECT id, tenant, owner_id, name, visibility, created_at, updated_at, chunk_strategy
      FROM folders
-     WHERE id = ?1`,
+     WHERE id = ?1 AND deleted_at IS NULL`,
   )
     .bind(folderId)
     .first<FolderRecord>();
@@ -43,42 +53,252 @@ export function assertFolderVisibility(folder: FolderRecord, userId: string): vo
   }
 }
 
-export async function createFileRecord(
+export interface FolderWithOwner extends FolderRecord {
+  owner_email: string | null;
+  owner_display_name: string | null;
+}
+
+export interface FolderSummaryRow extends FolderWithOwner {
+  file_count: number;
+}
+
+export interface ListFoldersFilters {
+  tenant: string;
+  ownerId: string;
+  visibility: Visibility | 'all';
+}
+
+export async function listFolders(env: MarbleBindings, filters: ListFoldersFilters): Promise<FolderSummaryRow[]> {
+  const bindings: unknown[] = [filters.tenant];
+  let scope: string;
+  if (filters.visibility === 'public') {
+    scope = `f.visibility = 'public'`;
+  } else if (filters.visibility === 'private') {
+    scope = `f.visibility = 'private' AND f.owner_id = ?2`;
+    bindings.push(filters.ownerId);
+  } else {
+    scope = `(f.visibility = 'public' OR (f.visibility = 'private' AND f.owner_id = ?2))`;
+    bindings.push(filters.ownerId);
+  }
+
+  const statement = `SELECT f.id, f.tenant, f.owner_id, f.name, f.visibility, f.chunk_strategy, f.created_at, f.updated_at,
+        u.email as owner_email, u.display_name as owner_display_name,
+        (SELECT COUNT(*) FROM files fi WHERE fi.folder_id = f.id AND fi.deleted_at IS NULL) as file_count
+      FROM folders f
+      LEFT JOIN users u ON u.id = f.owner_id
+      WHERE f.tenant = ?1 AND f.deleted_at IS NULL AND ${scope}
+      ORDER BY f.name COLLATE NOCASE ASC`;
+
+  const results = await env.MARBLE_DB.prepare(statement).bind(...bindings).all<FolderSummaryRow>();
+  return results.results ?? [];
+}
+
+export async function getFolderById(env: MarbleBindings, folderId: string): Promise<FolderWithOwner | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT f.id, f.tenant, f.owner_id, f.name, f.visibility, f.chunk_strategy, f.created_at, f.updated_at,
+            u.email as owner_email, u.display_name as owner_display_name
+     FROM folders f
+     LEFT JOIN users u ON u.id = f.owner_id
+     WHERE f.id = ?1 AND f.deleted_at IS NULL`,
+  )
+    .bind(folderId)
+    .first<FolderWithOwner>();
+  return result ?? null;
+}
+
+export function assertFolderAccess<T extends FolderRecord>(
+  folder: T | null,
+  user: Pick<AuthenticatedUser, 'id' | 'tenant'>,
+): asserts folder is T {
+  if (!folder || folder.tenant !== user.tenant) {
+    throw new HTTPException(404, { message: 'Folder not found' });
+  }
+  assertFolderVisibility(folder, user.id);
+}
+
+export function assertFolderOwner(folder: FolderRecord, userId: string): void {
+  if (folder.owner_id !== userId) {
+    throw new HTTPException(403, { message: 'Only the folder owner can change it' });
+  }
+}
+
+export async function createFolder(
   env: MarbleBindings,
-  data: Pick<FileRecord, 'id' | 'folder_id' | 'owner_id' | 'visibility' | 'file_name' | 'r2_key' | 'size' | 'status'>,
+  data: {
+    id: string;
+    tenant: string;
+    ownerId: string | null;
+    name: string;
+    visibility: Visibility;
+    chunkStrategy?: string | null;
+  },
 ): Promise<void> {
   await env.MARBLE_DB.prepare(
-    `INSERT INTO files (id, folder_id, owner_id, visibility, file_name, r2_key, size, status)
-     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`,
+    `INSERT INTO folders (id, tenant, owner_id, name, visibility, chunk_strategy)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6)`,
+  )
+    .bind(data.id, data.tenant, data.ownerId, data.name, data.visibility, data.chunkStrategy ?? null)
+    .run();
+}
+
+export async function updateFolder(
+  env: MarbleBindings,
+  data: {
+    id: string;
+    tenant: string;
+    ownerId: string;
+    name?: string;
+    visibility?: Visibility;
+    /** `null` goes back to the workspace default. */
+    chunkStrategy?: string | null;
+  },
+): Promise<{ previous: FolderRecord; next: FolderRecord }> {
+  const previous = await getFolder(env, data.id);
+  assertFolderAccess(previous, { id: data.ownerId, tenant: data.tenant });
+  assertFolderOwner(previous, data.ownerId);
+
+  const next: FolderRecord = {
+    ...previous,
+    name: data.name ?? previous.name,
+    visibility: data.visibility ?? previous.visibility,
+    chunk_strategy: data.chunkStrategy !== undefined ? data.chunkStrategy : previous.chunk_strategy ?? null,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (next.visibility === 'private' && previous.visibility !== 'private') {
+    // Their files would turn private to them inside a folder only the owner can open
+    const files = await listFolderFiles(env, previous.id);
+    if (files.some((file) => file.owner_id !== data.ownerId)) {
+      throw new HTTPException(409, { message: 'Other users have files in this folder, so it cannot be made private' });
+    }
+  }
+
+  await env.MARBLE_DB.prepare(
+    `UPDATE folders SET name = ?2, visibility = ?3, chunk_strategy = ?4, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
   )
-    .bind(
+    .bind(next.id, next.name, next.visibility, next.chunk_strategy)
+    .run();
+
+  return { previous, next };
+}
+
+export async function deleteFolder(env: MarbleBindings, folderId: string): Promise<void> {
+  await env.MARBLE_DB.prepare('DELETE FROM folders WHERE id = ?1').bind(folderId).run();
+}
+
+const FILE_COLUMNS = `f.id, f.tenant, f.folder_id, f.owner_id, f.visibility, f.file_name, f.r2_key, f.size, f.mime_type, f.status,
+        f.created_at, f.updated_at, f.deleted_at, f.current_version`;
+
+export async function createFileRecord(
+  env: MarbleBindings,
+  data: Pick<
+    FileRecord,
+    'id' | 'tenant' | 'folder_id' | 'owner_id' | 'visibility' | 'file_name' | 'r2_key' | 'size' | 'mime_type' | 'status'
+  >,
+): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `INSERT INTO files (id, tenant, folder_id, owner_id, file_name, r2_key, visibility, size, mime_type, status, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, CURRENT_TIMESTAMP)`,
+    ).bind(
       data.id,
+      data.tenant,
       data.folder_id,
       data.owner_id,
-      data.visibility,
       data.file_name,
       data.r2_key,
+      data.visibility,
       data.size,
+      data.mime_type,
       data.status,
-    )
-    .run();
+    ),
+    env.MARBLE_DB.prepare(
+      `INSERT INTO file_versions (file_id, version, size, mime_type, created_by) VALUES (?1, 1, ?2, ?3, ?4)`,
+    ).bind(data.id, data.size, data.mime_type, data.owner_id),
+  ]);
+}
+
+const FILE_VERSION_COLUMNS = 'file_id, version, r2_key, size, mime_type, restored_from, created_by, created_at';
+
+/** Every version of a file, newest first. */
+export async function listFileVersions(env: MarbleBindings, fileId: string): Promise<FileVersionRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT ${FILE_VERSION_COLUMNS} FROM file_versions WHERE file_id = ?1 ORDER BY version DESC`,
+  )
+    .bind(fileId)
+    .all<FileVersionRecord>();
+  return results.results ?? [];
+}
+
+export async function getFileVersion(
+  env: MarbleBindings,
+  fileId: string,
+  version: number,
+): Promise<FileVersionRecord | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT ${FILE_VERSION_COLUMNS} FROM file_versions WHERE file_id = ?1 AND version = ?2`,
+  )
+    .bind(fileId, version)
+    .first<FileVersionRecord>();
+  return result ?? null;
+}
+
+/**
+ * Makes `next` the file's current version: the version it replaces is pointed at the key its
+ * object was archived under, and the file takes the new size and type and waits for its ingest.
+ * Fails on the primary key when another upload claimed the same version number first.
+ */
+export async function recordFileVersion(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'id'> & { current_version: number },
+  archivedKey: string,
+  next: Pick<FileVersionRecord, 'version' | 'size' | 'mime_type' | 'restored_from' | 'created_by'>,
+): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `INSERT INTO file_versions (file_id, version, size, mime_type, restored_from, created_by)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)`,
+    ).bind(file.id, next.version, next.size, next.mime_type, next.restored_from, next.created_by),
+    env.MARBLE_DB.prepare(`UPDATE file_versions SET r2_key = ?3 WHERE file_id = ?1 AND version = ?2`).bind(
+      file.id,
+      file.current_version,
+      archivedKey,
+    ),
+    env.MARBLE_DB.prepare(
+      `UPDATE files SET current_version = ?2, size = ?3, mime_type = ?4, status = 'uploading', updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?1`,
+    ).bind(file.id, next.version, next.size, next.mime_type),
+  ]);
+}
+
+export async function deleteFileVersions(env: MarbleBindings, fileId: string): Promise<void> {
+  await env.MARBLE_DB.prepare('DELETE FROM file_versions WHERE file_id = ?1').bind(fileId).run();
 }
 
 export async function updateFileStatus(env: MarbleBindings, fileId: string, status: FileRecord['status']): Promise<void> {
-  await env.MARBLE_DB.prepare(`UPDATE files SET status = ?2 WHERE id = ?1`).bind(fileId, status).run();
+  await env.MARBLE_DB.prepare(`UPDATE files SET status = ?2, updated_at = CURRENT_TIMESTAMP WHERE id = ?1`)
+    .bind(fileId, status)
+    .run();
 }
 
 export interface FileWithFolder extends FileRecord {
   folder_name: string;
+  folder_visibility: Visibility;
+  folder_chunk_strategy?: string | null;
+  owner_email: string;
+  owner_display_name: string | null;
 }
 
 export async function getFile(env: MarbleBindings, fileId: string): Promise<FileWithFolder | null> {
   const result = await env.MARBLE_DB.prepare(
-    `SELECT f.id, f.folder_id, f.owner_id, f.visibility, f.file_name, f.r2_key, f.size, f.status, f.created_at,
-            d.name as folder_name
+    `SELECT ${FILE_COLUMNS},
+            d.name as folder_name, d.visibility as folder_visibility, d.chunk_strategy as folder_chunk_strategy,
+            u.email as owner_email, u.display_name as owner_display_name
      FROM files f
      JOIN folders d ON d.id = f.folder_id
-     WHERE f.id = ?1`,
+     LEFT JOIN users u ON u.id = f.owner_id
+     WHERE f.id = ?1 AND f.deleted_at IS NULL`,
   )
     .bind(fileId)
     .first<FileWithFolder>();
@@ -86,54 +306,263 @@ export async function getFile(env: MarbleBindings, fileId: string): Promise<File
 }
 
 export interface ListFilesFilters {
+  tenant: string;
+  ownerId: string;
+  visibility: Visibility | 'all';
   folderId?: string;
-  visibility?: Visibility;
-  ownerId?: string;
 }
 
 export async function listFiles(env: MarbleBindings, filters: ListFilesFilters): Promise<FileWithFolder[]> {
-  const clauses: string[] = [];
-  const bindings: unknown[] = [];
+  const clauses: string[] = ['f.tenant = ?1', 'f.deleted_at IS NULL'];
+  const bindings: unknown[] = [filters.tenant];
 
   if (filters.folderId) {
-    clauses.push('f.folder_id = ?' + (bindings.length + 1));
     bindings.push(filters.folderId);
+    clauses.push(`f.folder_id = ?${bindings.length}`);
   }
-  if (filters.visibility) {
-    clauses.push('f.visibility = ?' + (bindings.length + 1));
-    bindings.push(filters.visibility);
-  }
-  if (filters.ownerId) {
-    clauses.push('f.owner_id = ?' + (bindings.length + 1));
+
+  if (filters.visibility === 'public') {
+    clauses.push(`f.visibility = 'public'`);
+  } else {
     bindings.push(filters.ownerId);
+    const ownerClause = `f.visibility = 'private' AND f.owner_id = ?${bindings.length}`;
+    clauses.push(filters.visibility === 'private' ? ownerClause : `(f.visibility = 'public' OR (${ownerClause}))`);
   }
 
-  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
-
-  const statement = `SELECT f.id, f.folder_id, f.owner_id, f.visibility, f.file_name, f.r2_key, f.size, f.status, f.created_at,
-        d.name as folder_name
+  const statement = `SELECT ${FILE_COLUMNS},
+        d.name as folder_name, d.visibility as folder_visibility,
+        u.email as owner_email, u.display_name as owner_display_name
       FROM files f
       JOIN folders d ON d.id = f.folder_id
-      ${where}
+      LEFT JOIN users u ON u.id = f.owner_id
+      WHERE ${clauses.join(' AND ')}
       ORDER BY datetime(f.created_at) DESC`;
 
   const results = await env.MARBLE_DB.prepare(statement).bind(...bindings).all<FileWithFolder>();
   return results.results ?? [];
 }
 
+export async function updateFileRecord(
+  env: MarbleBindings,
+  fileId: string,
+  data: Pick<FileRecord, 'file_name' | 'visibility' | 'folder_id' | 'r2_key'>,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files SET file_name = ?1, visibility = ?2, folder_id = ?3, r2_key = ?4, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?5`,
+  )
+    .bind(data.file_name, data.visibility, data.folder_id, data.r2_key, fileId)
+    .run();
+}
+
 export async function deleteFile(env: MarbleBindings, fileId: string): Promise<void> {
   await env.MARBLE_DB.prepare('DELETE FROM files WHERE id = ?1').bind(fileId).run();
 }
 
+export async function listFolderFiles(env: MarbleBindings, folderId: string): Promise<FileRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, tenant, folder_id, owner_id, visibility, file_name, r2_key, size, mime_type, status,
+            created_at, updated_at, deleted_at
+     FROM files
+     WHERE folder_id = ?1 AND deleted_at IS NULL`,
+  )
+    .bind(folderId)
+    .all<FileRecord>();
+  return results.results ?? [];
+}
+
+export async function trashFile(env: MarbleBindings, fileId: string): Promise<void> {
+  await env.MARBLE_DB.prepare(`UPDATE files SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?1 AND deleted_at IS NULL`)
+    .bind(fileId)
+    .run();
+}
+
+export async function restoreFile(env: MarbleBindings, fileId: string): Promise<void> {
+  await env.MARBLE_DB.prepare(`UPDATE files SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?1`)
+    .bind(fileId)
+    .run();
+}
+
+/**
+ * Trashes a folder and the files still in it. The files take the folder's `deleted_at`, which is
+ * how a restore tells them apart from files that were trashed on their own beforehand.
+ */
+export async function trashFolder(env: MarbleBindings, folderId: string): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(`UPDATE folders SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?1 AND deleted_at IS NULL`).bind(
+      folderId,
+    ),
+    env.MARBLE_DB.prepare(
+      `UPDATE files SET deleted_at = (SELECT deleted_at FROM folders WHERE id = ?1)
+       WHERE folder_id = ?1 AND deleted_at IS NULL`,
+    ).bind(folderId),
+  ]);
+}
+
+/** Restores a folder along with the files that were trashed with it. */
+export async function restoreFolder(env: MarbleBindings, folderId: string): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `UPDATE files SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE folder_id = ?1 AND deleted_at = (SELECT deleted_at FROM folders WHERE id = ?1)`,
+    ).bind(folderId),
+    env.MARBLE_DB.prepare(`UPDATE folders SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?1`).bind(folderId),
+  ]);
+}
+
+export interface TrashedFileRow extends FileWithFolder {
+  deleted_at: string;
+  /** Set when the folder is in the trash too; the file can only come back with it. */
+  folder_deleted_at: string | null;
+}
+
+export async function getTrashedFile(env: MarbleBindings, fileId: string): Promise<TrashedFileRow | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT ${FILE_COLUMNS},
+            d.name as folder_name, d.visibility as folder_visibility, d.deleted_at as folder_deleted_at,
+            u.email as owner_email, u.display_name as owner_display_name
+     FROM files f
+     JOIN folders d ON d.id = f.folder_id
+     LEFT JOIN users u ON u.id = f.owner_id
+     WHERE f.id = ?1 AND f.deleted_at IS NOT NULL`,
+  )
+    .bind(fileId)
+    .first<TrashedFileRow>();
+  return result ?? null;
+}
+
+/** The owner's trashed files, leaving out those that went to the trash with their folder. */
+export async function listTrashedFiles(env: MarbleBindings, tenant: string, ownerId: string): Promise<TrashedFileRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT ${FILE_COLUMNS},
+            d.name as folder_name, d.visibility as folder_visibility, d.deleted_at as folder_deleted_at,
+            u.email as owner_email, u.display_name as owner_display_name
+     FROM files f
+     JOIN folders d ON d.id = f.folder_id
+     LEFT JOIN users u ON u.id = f.owner_id
+     WHERE f.tenant = ?1 AND f.owner_id = ?2 AND f.deleted_at IS NOT NULL
+       AND (d.deleted_at IS NULL OR d.deleted_at != f.deleted_at)
+     ORDER BY datetime(f.deleted_at) DESC`,
+  )
+    .bind(tenant, ownerId)
+    .all<TrashedFileRow>();
+  return results.results ?? [];
+}
+
+export interface TrashedFolderRow extends FolderRecord {
+  deleted_at: string;
+  /** Files that went to the trash with the folder. */
+  file_count: number;
+}
+
+export async function getTrashedFolder(env: MarbleBindings, folderId: string): Promise<TrashedFolderRow | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT f.id, f.tenant, f.owner_id, f.name, f.visibility, f.chunk_strategy, f.created_at, f.updated_at, f.deleted_at,
+        (SELECT COUNT(*) FROM files fi WHERE fi.folder_id = f.id AND fi.deleted_at = f.deleted_at) as file_count
+     FROM folders f
+     WHERE f.id = ?1 AND f.deleted_at IS NOT NULL`,
+  )
+    .bind(folderId)
+    .first<TrashedFolderRow>();
+  return result ?? null;
+}
+
+export async function listTrashedFolders(env: MarbleBindings, tenant: string, ownerId: string): Promise<TrashedFolderRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT f.id, f.tenant, f.owner_id, f.name, f.visibility, f.chunk_strategy, f.created_at, f.updated_at, f.deleted_at,
+        (SELECT COUNT(*) FROM files fi WHERE fi.folder_id = f.id AND fi.deleted_at = f.deleted_at) as file_count
+     FROM folders f
+     WHERE f.tenant = ?1 AND f.owner_id = ?2 AND f.deleted_at IS NOT NULL
+     ORDER BY datetime(f.deleted_at) DESC`,
+  )
+    .bind(tenant, ownerId)
+    .all<TrashedFolderRow>();
+  return results.results ?? [];
+}
+
+/** The next page of files, across every tenant, that were trashed at or before `cutoff`. */
+export async function listExpiredTrashedFiles(
+  env: MarbleBindings,
+  cutoff: string,
+  afterId: string,
+  limit: number,
+): Promise<FileRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, tenant, folder_id, owner_id, visibility, file_name, r2_key, size, mime_type, status,
+            created_at, updated_at, deleted_at
+     FROM files
+     WHERE deleted_at IS NOT NULL AND datetime(deleted_at) <= datetime(?1) AND id > ?2
+     ORDER BY id
+     LIMIT ?3`,
+  )
+    .bind(cutoff, afterId, limit)
+    .all<FileRecord>();
+  return results.results ?? [];
+}
+
+/** The next page of folders, across every tenant, that were trashed at or before `cutoff`. */
+export async function listExpiredTrashedFolders(
+  env: MarbleBindings,
+  cutoff: string,
+  afterId: string,
+  limit: number,
+): Promise<FolderRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, tenant, owner_id, name, visibility, chunk_strategy, created_at, updated_at
+     FROM folders
+     WHERE deleted_at IS NOT NULL AND datetime(deleted_at) <= datetime(?1) AND id > ?2
+     ORDER BY id
+     LIMIT ?3`,
+  )
+    .bind(cutoff, afterId, limit)
+    .all<FolderRecord>();
+  return results.results ?? [];
+}
+
 export async function insertChunk(
   env: MarbleBindings,
-  record: Pick<ChunkRecord, 'id' | 'file_id' | 'folder_id' | 'owner_id' | 'visibility' | 'chunk_index' | 'start_line' | 'end_line' | 'content'>,
+  record: Pick<
+    ChunkRecord,
+    'id' | 'file_id' | 'folder_id' | 'owner_id' | 'visibility' | 'chunk_index' | 'start_line' | 'end_line' | 'content'
+  > &
+    Partial<
+      Pick<
+        ChunkRecord,
+        | 'chunk_strategy'
+        | 'ingest_job_id'
+        | 'page'
+        | 'paragraph'
+        | 'content_hash'
+        | 'embedding_model'
+        | 'embedding_dimensions'
+        | 'vector_generation'
+      >
+    >,
 ): Promise<void> {
-  await env.MARBLE_DB.prepare(
-    `INSERT INTO chunks (id, file_id, folder_id, owner_id, visibility, chunk_index, start_line, end_line, content)
-     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`,
-  )
-    .bind(
+  // Upsert so a retried ingest batch can safely rewrite the chunks it already stored. The FTS
+  // row shares the chunk's rowid (kept by ON CONFLICT DO UPDATE), so it is replaced in step.
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `INSERT INTO chunks (id, file_id, folder_id, owner_id, visibility, chunk_index, start_line, end_line, content, ingest_job_id, chunk_strategy, page, paragraph, content_hash,
+         embedding_model, embedding_dimensions, vector_generation)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17)
+       ON CONFLICT(id) DO UPDATE SET
+         folder_id = excluded.folder_id,
+         owner_id = excluded.owner_id,
+         visibility = excluded.visibility,
+         chunk_index = excluded.chunk_index,
+         start_line = excluded.start_line,
+         end_line = excluded.end_line,
+         content = excluded.content,
+         ingest_job_id = excluded.ingest_job_id,
+         chunk_strategy = excluded.chunk_strategy,
+         page = excluded.page,
+         paragraph = excluded.paragraph,
+         content_hash = excluded.content_hash,
+         embedding_model = excluded.embedding_model,
+         embedding_dimensions = excluded.embedding_dimensions,
+         vector_generation = excluded.vector_generation`,
+    ).bind(
       record.id,
       record.file_id,
       record.folder_id,
@@ -143,7 +572,42 @@ export async function insertChunk(
       record.start_line,
       record.end_line,
       record.content,
-    )
+      record.ingest_job_id ?? null,
+      record.chunk_strategy ?? null,
+      record.page ?? null,
+      record.paragraph ?? null,
+      record.content_hash ?? null,
+      record.embedding_model ?? null,
+      record.embedding_dimensions ?? null,
+      record.vector_generation ?? 1,
+    ),
+    env.MARBLE_DB.prepare(`DELETE FROM chunks_fts WHERE rowid = (SELECT rowid FROM chunks WHERE id = ?1)`).bind(record.id),
+    env.MARBLE_DB.prepare(`INSERT INTO chunks_fts (rowid, content) SELECT rowid, content FROM chunks WHERE id = ?1`).bind(
+      record.id,
+    ),
+  ]);
+}
+
+export async function getChunksForFile(env: MarbleBindings, fileId: string): Promise<ChunkRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, file_id, folder_id, owner_id, visibility, chunk_index, start_line, end_line, content, chunk_strategy,
+            page, paragraph, content_hash, embedding_model, embedding_dimensions, vector_generation, ingest_job_id, created_at
+     FROM chunks
+     WHERE file_id = ?1
+     ORDER BY chunk_index ASC`,
+  )
+    .bind(fileId)
+    .all<ChunkRecord>();
+  return results.results ?? [];
+}
+
+export async function updateChunksForFile(
+  env: MarbleBindings,
+  fileId: string,
+  data: Pick<ChunkRecord, 'folder_id' | 'visibility'>,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(`UPDATE chunks SET folder_id = ?2, visibility = ?3 WHERE file_id = ?1`)
+    .bind(fileId, data.folder_id, data.visibility)
     .run();
 }
 
@@ -152,48 +616,891 @@ export async function deleteChunksForFile(env: MarbleBindings, fileId: string):
     .bind(fileId)
     .all<{ id: string }>();
 
-  await env.MARBLE_DB.prepare('DELETE FROM chunks WHERE file_id = ?1').bind(fileId).run();
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare('DELETE FROM chunks_fts WHERE rowid IN (SELECT rowid FROM chunks WHERE file_id = ?1)').bind(fileId),
+    env.MARBLE_DB.prepare('DELETE FROM chunks WHERE file_id = ?1').bind(fileId),
+  ]);
+  return (chunkIds.results ?? []).map((row) => row.id);
+}
+
+/**
+ * Hands chunks of an earlier ingest over to `jobId` at their new positions, so the job's
+ * stale-chunk sweep keeps them along with their vectors.
+ */
+export async function retainChunks(
+  env: MarbleBindings,
+  jobId: string,
+  chunks: Array<
+    Pick<ChunkRecord, 'id' | 'chunk_index' | 'start_line' | 'end_line'> &
+      Partial<Pick<ChunkRecord, 'chunk_strategy' | 'page' | 'paragraph' | 'content_hash'>>
+  >,
+): Promise<void> {
+  if (!chunks.length) {
+    return;
+  }
+  await env.MARBLE_DB.batch(
+    chunks.map((chunk) =>
+      env.MARBLE_DB.prepare(
+        `UPDATE chunks SET chunk_index = ?2, start_line = ?3, end_line = ?4, chunk_strategy = ?5, page = ?6,
+           paragraph = ?7, content_hash = ?8, ingest_job_id = ?9
+         WHERE id = ?1`,
+      ).bind(
+        chunk.id,
+        chunk.chunk_index,
+        chunk.start_line,
+        chunk.end_line,
+        chunk.chunk_strategy ?? null,
+        chunk.page ?? null,
+        chunk.paragraph ?? null,
+        chunk.content_hash ?? null,
+        jobId,
+      ),
+    ),
+  );
+}
+
+/** Deletes chunks for a file that were not written by the given ingest job. */
+export async function deleteStaleChunksForFile(env: MarbleBindings, fileId: string, jobId: string): Promise<string[]> {
+  const chunkIds = await env.MARBLE_DB.prepare(
+    `SELECT id FROM chunks WHERE file_id = ?1 AND (ingest_job_id IS NULL OR ingest_job_id != ?2)`,
+  )
+    .bind(fileId, jobId)
+    .all<{ id: string }>();
+
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `DELETE FROM chunks_fts
+       WHERE rowid IN (SELECT rowid FROM chunks WHERE file_id = ?1 AND (ingest_job_id IS NULL OR ingest_job_id != ?2))`,
+    ).bind(fileId, jobId),
+    env.MARBLE_DB.prepare(
+      `DELETE FROM chunks WHERE file_id = ?1 AND (ingest_job_id IS NULL OR ingest_job_id != ?2)`,
+    ).bind(fileId, jobId),
+  ]);
   return (chunkIds.results ?? []).map((row) => row.id);
 }
 
+/**
+ * Retrieval scope as SQL over `c` (chunks) and `f` (files), using five parameters from `?first`:
+ * folder ids and file ids as JSON arrays, visibility, and the created-after/before bounds.
+ * Unset parameters are NULL and match everything.
+ */
+function scopeConditions(first: number): string {
+  const [folders, files, visibility, after, before] = [0, 1, 2, 3, 4].map((offset) => `?${first + offset}`);
+  return `(${folders} IS NULL OR c.folder_id IN (SELECT value FROM json_each(${folders})))
+       AND (${files} IS NULL OR c.file_id IN (SELECT value FROM json_each(${files})))
+       AND (${visibility} IS NULL OR c.visibility = ${visibility})
+       AND (${after} IS NULL OR julianday(f.created_at) >= julianday(${after}))
+       AND (${before} IS NULL OR julianday(f.created_at) <= julianday(${before}))`;
+}
+
+function scopeBindings(scope: RetrievalScope | undefined): Array<string | null> {
+  return [
+    scope?.folderIds?.length ? JSON.stringify(scope.folderIds) : null,
+    scope?.fileIds?.length ? JSON.stringify(scope.fileIds) : null,
+    scope?.visibility && scope.visibility !== 'all' ? scope.visibility : null,
+    scope?.createdAfter ?? null,
+    scope?.createdBefore ?? null,
+  ];
+}
+
+export interface KeywordMatch {
+  id: string;
+  /** bm25() rank: lower (more negative) is a better match. */
+  rank: number;
+}
+
+/**
+ * Full-text search over chunk content with FTS5/BM25, limited to public chunks and the
+ * caller's private chunks of files that aren't in the trash. `match` must already be a valid FTS5 query.
+ */
+export async function searchChunksByKeyword(
+  env: MarbleBindings,
+  options: { match: string; ownerId: string; limit: number; scope?: RetrievalScope },
+): Promise<KeywordMatch[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT c.id, bm25(chunks_fts) AS rank
+     FROM chunks_fts
+     JOIN chunks c ON c.rowid = chunks_fts.rowid
+     JOIN files f ON f.id = c.file_id
+     WHERE chunks_fts MATCH ?1
+       AND f.deleted_at IS NULL
+       AND (c.visibility = 'public' OR (c.visibility = 'private' AND c.owner_id = ?2))
+       AND ${scopeConditions(4)}
+     ORDER BY rank
+     LIMIT ?3`,
+  )
+    .bind(options.match, options.ownerId, options.limit, ...scopeBindings(options.scope))
+    .all<KeywordMatch>();
+  return results.results ?? [];
+}
+
 export interface ChunkWithContext extends ChunkRecord {
   file_name: string;
   folder_name: string;
+  /** Version of the file the chunk was last ingested from. */
+  file_version: number;
 }
 
-export async function getChunksByIds(env: MarbleBindings, chunkIds: string[]): Promise<ChunkWithContext[]> {
+/**
+ * Loads chunks with their file and folder names. Chunks of trashed files are left out, as are
+ * other users' private chunks and chunks outside `scope`, so a vector store that ignored part of
+ * the filter (or still holds vectors for the trash) can't leak them into an answer.
+ */
+export async function getChunksByIds(
+  env: MarbleBindings,
+  chunkIds: string[],
+  ownerId: string,
+  scope?: RetrievalScope,
+): Promise<ChunkWithContext[]> {
   if (!chunkIds.length) {
     return [];
   }
-  const placeholders = chunkIds.map((_, idx) => `?${idx + 1}`).join(',');
-  const statement = `SELECT c.id, c.file_id, c.folder_id, c.owner_id, c.visibility, c.chunk_index, c.start_line, c.end_line, c.content, c.created_at,
-        f.file_name, d.name as folder_name
+  const statement = `SELECT c.id, c.file_id, c.folder_id, c.owner_id, c.visibility, c.chunk_index, c.start_line, c.end_line, c.content, c.chunk_strategy, c.page, c.paragraph, c.created_at,
+        f.file_name, d.name as folder_name, COALESCE(j.file_version, 1) as file_version
       FROM chunks c
       JOIN files f ON f.id = c.file_id
       JOIN folders d ON d.id = c.folder_id
-      WHERE c.id IN (${placeholders})`;
-  const results = await env.MARBLE_DB.prepare(statement).bind(...chunkIds).all<ChunkWithContext>();
+      LEFT JOIN ingest_jobs j ON j.id = c.ingest_job_id
+      WHERE c.id IN (SELECT value FROM json_each(?1))
+        AND f.deleted_at IS NULL
+        AND (c.visibility = 'public' OR (c.visibility = 'private' AND c.owner_id = ?2))
+        AND ${scopeConditions(3)}`;
+  const results = await env.MARBLE_DB.prepare(statement)
+    .bind(JSON.stringify(chunkIds), ownerId, ...scopeBindings(scope))
+    .all<ChunkWithContext>();
+  return results.results ?? [];
+}
+
+export type ChunkSpanRow = Pick<
+  ChunkRecord,
+  'id' | 'file_id' | 'chunk_index' | 'start_line' | 'end_line' | 'content' | 'page'
+>;
+
+/** Loads every chunk whose `chunk_index` falls inside one of the `[from, to]` windows of its file. */
+export async function getChunkWindows(
+  env: MarbleBindings,
+  windows: Array<{ fileId: string; from: number; to: number }>,
+): Promise<ChunkSpanRow[]> {
+  if (!windows.length) {
+    return [];
+  }
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT DISTINCT c.id, c.file_id, c.chunk_index, c.start_line, c.end_line, c.content, c.page
+     FROM chunks c
+     JOIN json_each(?1) w ON c.file_id = json_extract(w.value, '$.fileId')
+       AND c.chunk_index BETWEEN json_extract(w.value, '$.from') AND json_extract(w.value, '$.to')
+     ORDER BY c.file_id, c.chunk_index`,
+  )
+    .bind(JSON.stringify(windows))
+    .all<ChunkSpanRow>();
   return results.results ?? [];
 }
 
 export async function recordChat(
   env: MarbleBindings,
-  data: { id: string; user_id: string; question: string; answer: string; citations: string },
+  data: {
+    id: string;
+    user_id: string;
+    question: string;
+    answer: string;
+    citations: string;
+    conversation_id?: string | null;
+    retrieval_query?: string | null;
+  },
+): Promise<void> {
+  const insert = env.MARBLE_DB.prepare(
+    `INSERT INTO messages (id, user_id, question, answer, citations, conversation_id, retrieval_query)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)`,
+  ).bind(
+    data.id,
+    data.user_id,
+    data.question,
+    data.answer,
+    data.citations,
+    data.conversation_id ?? null,
+    data.retrieval_query ?? null,
+  );
+
+  if (!data.conversation_id) {
+    await insert.run();
+    return;
+  }
+
+  await env.MARBLE_DB.batch([
+    insert,
+    env.MARBLE_DB.prepare(`UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?1`).bind(
+      data.conversation_id,
+    ),
+  ]);
+}
+
+export async function createConversation(
+  env: MarbleBindings,
+  data: Pick<ConversationRecord, 'id' | 'user_id' | 'title'>,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO conversations (id, user_id, title)
+     VALUES (?1, ?2, ?3)`,
+  )
+    .bind(data.id, data.user_id, data.title)
+    .run();
+}
+
+/** Conversations are private to their creator; anyone else gets null. */
+export async function getConversation(
+  env: MarbleBindings,
+  id: string,
+  userId: string,
+): Promise<ConversationRecord | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT id, user_id, title, created_at, updated_at
+     FROM conversations
+     WHERE id = ?1 AND user_id = ?2`,
+  )
+    .bind(id, userId)
+    .first<ConversationRecord>();
+  return result ?? null;
+}
+
+export type ConversationSummary = ConversationRecord & { message_count: number };
+
+export async function listConversations(env: MarbleBindings, userId: string): Promise<ConversationSummary[]> {
+  const { results } = await env.MARBLE_DB.prepare(
+    `SELECT c.id, c.user_id, c.title, c.created_at, c.updated_at,
+            (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+     FROM conversations c
+     WHERE c.user_id = ?1
+     ORDER BY c.updated_at DESC`,
+  )
+    .bind(userId)
+    .all<ConversationSummary>();
+  return results ?? [];
+}
+
+/** Oldest first; rowid breaks ties between messages written in the same second. */
+export async function listConversationMessages(env: MarbleBindings, conversationId: string): Promise<MessageRecord[]> {
+  const { results } = await env.MARBLE_DB.prepare(
+    `SELECT id, user_id, conversation_id, question, answer, citations, retrieval_query, created_at
+     FROM messages
+     WHERE conversation_id = ?1
+     ORDER BY created_at, rowid`,
+  )
+    .bind(conversationId)
+    .all<MessageRecord>();
+  return results ?? [];
+}
+
+export async function renameConversation(env: MarbleBindings, id: string, title: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE conversations SET title = ?2, updated_at = CURRENT_TIMESTAMP WHERE id = ?1`,
+  )
+    .bind(id, title)
+    .run();
+}
+
+export async function deleteConversation(env: MarbleBindings, id: string): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(`DELETE FROM messages WHERE conversation_id = ?1`).bind(id),
+    env.MARBLE_DB.prepare(`DELETE FROM conversations WHERE id = ?1`).bind(id),
+  ]);
+}
+
+export async function ensureFolder(
+  env: MarbleBindings,
+  folderId: string,
+  name: string,
+  visibility: Visibility,
+  ownerId: string | null,
+  tenant: string,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO folders (id, tenant, owner_id, name, visibility)
+     VALUES (?1, ?2, ?3, ?4, ?5)
+     ON CONFLICT(id) DO NOTHING`,
+  )
+    .bind(folderId, tenant, ownerId, name, visibility)
+    .run();
+}
+
+/**
+ * The folder an upload names by id, created on first use. An existing folder is never rewritten:
+ * one in the trash has to be restored first, and one in another tenant or private to another
+ * user is refused like any other folder the caller can't see.
+ */
+export async function resolveUploadFolder(
+  env: MarbleBindings,
+  user: Pick<AuthenticatedUser, 'id' | 'tenant'>,
+  folder: { id: string; name: string; visibility: Visibility },
+): Promise<FolderRecord> {
+  let existing = await getFolder(env, folder.id);
+  if (!existing) {
+    await ensureFolder(env, folder.id, folder.name, folder.visibility, folder.visibility === 'public' ? null : user.id, user.tenant);
+    existing = await getFolder(env, folder.id);
+  }
+  if (!existing) {
+    // The id is taken by a folder in the trash
+    const trashed = await getTrashedFolder(env, folder.id);
+    if (trashed && trashed.tenant === user.tenant && trashed.owner_id === user.id) {
+      throw new HTTPException(409, { message: `Restore the folder "${trashed.name}" first` });
+    }
+    throw new HTTPException(404, { message: 'Folder not found' });
+  }
+  assertFolderAccess(existing, user);
+  return existing;
+}
+
+export async function createIngestJob(
+  env: MarbleBindings,
+  data: Pick<IngestJobRecord, 'id' | 'file_id' | 'owner_id' | 'tenant'>,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO ingest_jobs (id, file_id, owner_id, tenant, status, file_version)
+     VALUES (?1, ?2, ?3, ?4, 'queued', (SELECT current_version FROM files WHERE id = ?2))`,
+  )
+    .bind(data.id, data.file_id, data.owner_id, data.tenant)
+    .run();
+}
+
+export async function getIngestJob(env: MarbleBindings, jobId: string): Promise<IngestJobRecord | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT id, file_id, owner_id, tenant, status, total_chunks, processed_chunks, unchanged_chunks, removed_chunks,
+            file_version, attempts, error, created_at, updated_at, started_at, completed_at
+     FROM ingest_jobs
+     WHERE id = ?1`,
+  )
+    .bind(jobId)
+    .first<IngestJobRecord>();
+  return result ?? null;
+}
+
+/** The file's queued or running job for its current version, if there is one. */
+export async function getActiveIngestJob(env: MarbleBindings, fileId: string): Promise<IngestJobRecord | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT j.id, j.file_id, j.owner_id, j.tenant, j.status, j.total_chunks, j.processed_chunks, j.unchanged_chunks,
+            j.removed_chunks, j.file_version, j.attempts, j.error, j.created_at, j.updated_at, j.started_at, j.completed_at
+     FROM ingest_jobs j
+     JOIN files f ON f.id = j.file_id
+     WHERE j.file_id = ?1 AND j.status IN ('queued', 'running') AND j.file_version = f.current_version
+     ORDER BY j.created_at DESC
+     LIMIT 1`,
+  )
+    .bind(fileId)
+    .first<IngestJobRecord>();
+  return result ?? null;
+}
+
+export async function markIngestJobRunning(
+  env: MarbleBindings,
+  jobId: string,
+  counts: Pick<IngestJobRecord, 'total_chunks' | 'unchanged_chunks' | 'removed_chunks'>,
 ): Promise<void> {
   await env.MARBLE_DB.prepare(
-    `INSERT INTO messages (id, user_id, question, answer, citations)
-     VALUES (?1, ?2, ?3, ?4, ?5)`,
+    `UPDATE ingest_jobs SET status = 'running', total_chunks = ?2, unchanged_chunks = ?3, removed_chunks = ?4,
+       started_at = COALESCE(started_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
   )
-    .bind(data.id, data.user_id, data.question, data.answer, data.citations)
+    .bind(jobId, counts.total_chunks, counts.unchanged_chunks, counts.removed_chunks)
     .run();
 }
 
-export async function ensureFolder(env: MarbleBindings, folderId: string, name: string, visibility: Visibility, ownerId: string | null): Promise<void> {
+export async function updateIngestJobProgress(env: MarbleBindings, jobId: string, processedChunks: number): Promise<void> {
   await env.MARBLE_DB.prepare(
-    `INSERT INTO folders (id, name, visibility, owner_id)
-     VALUES (?1, ?2, ?3, ?4)
-     ON CONFLICT(id) DO UPDATE SET name = excluded.name, visibility = excluded.visibility, owner_id = excluded.owner_id`,
+    `UPDATE ingest_jobs SET processed_chunks = ?2, error = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
   )
-    .bind(folderId, name, visibility, ownerId)
+    .bind(jobId, processedChunks)
     .run();
 }
+
+export async function recordIngestJobAttempt(env: MarbleBindings, jobId: string, error: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingest_jobs SET attempts = attempts + 1, error = ?2, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(jobId, error)
+    .run();
+}
+
+export async function completeIngestJob(env: MarbleBindings, jobId: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingest_jobs SET status = 'succeeded', error = NULL, completed_at = CURRENT_TIMESTAMP,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(jobId)
+    .run();
+}
+
+export async function failIngestJob(env: MarbleBindings, jobId: string, error: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingest_jobs SET status = 'failed', error = ?2, completed_at = CURRENT_TIMESTAMP,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(jobId, error)
+    .run();
+}
+
+export interface ChunkVectorRow {
+  id: string;
+  visibility: Visibility;
+  owner_id: string;
+  /** JSON-encoded number[] */
+  embedding: string;
+  /** JSON-encoded VectorMetadata */
+  metadata: string;
+}
+
+export async function upsertChunkVectorRow(env: MarbleBindings, row: ChunkVectorRow): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO chunk_vectors (id, visibility, owner_id, embedding, metadata, updated_at)
+     VALUES (?1, ?2, ?3, ?4, ?5, CURRENT_TIMESTAMP)
+     ON CONFLICT(id) DO UPDATE SET visibility = excluded.visibility, owner_id = excluded.owner_id,
+       embedding = excluded.embedding, metadata = excluded.metadata, updated_at = CURRENT_TIMESTAMP`,
+  )
+    .bind(row.id, row.visibility, row.owner_id, row.embedding, row.metadata)
+    .run();
+}
+
+export async function deleteChunkVectorRows(env: MarbleBindings, ids: string[]): Promise<void> {
+  if (!ids.length) return;
+  const placeholders = ids.map((_, idx) => `?${idx + 1}`).join(',');
+  await env.MARBLE_DB.prepare(`DELETE FROM chunk_vectors WHERE id IN (${placeholders})`)
+    .bind(...ids)
+    .run();
+}
+
+export async function getChunkVectorRows(env: MarbleBindings, ids: string[]): Promise<ChunkVectorRow[]> {
+  if (!ids.length) return [];
+  const placeholders = ids.map((_, idx) => `?${idx + 1}`).join(',');
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, visibility, owner_id, embedding, metadata FROM chunk_vectors WHERE id IN (${placeholders})`,
+  )
+    .bind(...ids)
+    .all<ChunkVectorRow>();
+  return results.results ?? [];
+}
+
+/** Candidate rows for a brute-force search, narrowed by visibility/owner when known. */
+export async function listChunkVectorRows(
+  env: MarbleBindings,
+  scope: { visibility?: Visibility; ownerId?: string },
+): Promise<ChunkVectorRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, visibility, owner_id, embedding, metadata FROM chunk_vectors
+     WHERE (?1 IS NULL OR visibility = ?1) AND (?2 IS NULL OR owner_id = ?2)`,
+  )
+    .bind(scope.visibility ?? null, scope.ownerId ?? null)
+    .all<ChunkVectorRow>();
+  return results.results ?? [];
+}
+
+export interface EmbeddingCacheEntry {
+  contentHash: string;
+  embedding: number[];
+}
+
+export interface EmbeddingCacheStatsRow {
+  model: string;
+  hits: number;
+  misses: number;
+  entries: number;
+  updated_at: string | null;
+}
+
+/** Cached embeddings of `model` for the given content hashes, each marked as just used. */
+export async function getCachedEmbeddings(
+  env: MarbleBindings,
+  model: string,
+  contentHashes: string[],
+): Promise<Map<string, number[]>> {
+  if (!contentHashes.length) return new Map();
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT content_hash, embedding FROM embedding_cache
+     WHERE model = ?1 AND content_hash IN (SELECT value FROM json_each(?2))`,
+  )
+    .bind(model, JSON.stringify(contentHashes))
+    .all<{ content_hash: string; embedding: string }>();
+  const rows = results.results ?? [];
+  if (rows.length) {
+    await env.MARBLE_DB.prepare(
+      `UPDATE embedding_cache SET hits = hits + 1, last_used_at = CURRENT_TIMESTAMP
+       WHERE model = ?1 AND content_hash IN (SELECT value FROM json_each(?2))`,
+    )
+      .bind(model, JSON.stringify(rows.map((row) => row.content_hash)))
+      .run();
+  }
+  return new Map(rows.map((row) => [row.content_hash, JSON.parse(row.embedding) as number[]]));
+}
+
+export async function putCachedEmbeddings(env: MarbleBindings, model: string, entries: EmbeddingCacheEntry[]): Promise<void> {
+  if (!entries.length) return;
+  await env.MARBLE_DB.batch(
+    entries.map((entry) =>
+      env.MARBLE_DB.prepare(
+        `INSERT INTO embedding_cache (model, content_hash, dimensions, embedding, created_at, last_used_at)
+         VALUES (?1, ?2, ?3, ?4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+         ON CONFLICT(model, content_hash) DO UPDATE SET dimensions = excluded.dimensions,
+           embedding = excluded.embedding, last_used_at = CURRENT_TIMESTAMP`,
+      ).bind(model, entry.contentHash, entry.embedding.length, JSON.stringify(entry.embedding)),
+    ),
+  );
+}
+
+/**
+ * Drops every entry made by a model other than `model` that no active or building vector
+ * index uses, then the least recently used entries beyond `maxEntries`.
+ */
+export async function evictEmbeddingCache(env: MarbleBindings, model: string, maxEntries: number): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `DELETE FROM embedding_cache WHERE model != ?1
+         AND model NOT IN (SELECT model FROM vector_indexes WHERE status IN ('active', 'building'))`,
+    ).bind(model),
+    env.MARBLE_DB.prepare(
+      `DELETE FROM embedding_cache WHERE rowid IN (
+         SELECT rowid FROM embedding_cache ORDER BY last_used_at DESC, rowid DESC LIMIT -1 OFFSET ?1
+       )`,
+    ).bind(maxEntries),
+  ]);
+}
+
+export async function recordEmbeddingCacheLookups(
+  env: MarbleBindings,
+  model: string,
+  hits: number,
+  misses: number,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO embedding_cache_stats (model, hits, misses, updated_at) VALUES (?1, ?2, ?3, CURRENT_TIMESTAMP)
+     ON CONFLICT(model) DO UPDATE SET hits = hits + excluded.hits, misses = misses + excluded.misses,
+       updated_at = CURRENT_TIMESTAMP`,
+  )
+    .bind(model, hits, misses)
+    .run();
+}
+
+/** Lookup counts and current entry count per model, busiest first. */
+export async function getEmbeddingCacheStats(env: MarbleBindings): Promise<EmbeddingCacheStatsRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT s.model, s.hits, s.misses, s.updated_at,
+       (SELECT COUNT(*) FROM embedding_cache e WHERE e.model = s.model) AS entries
+     FROM embedding_cache_stats s
+     ORDER BY s.hits + s.misses DESC`,
+  ).all<EmbeddingCacheStatsRow>();
+  return results.results ?? [];
+}
+
+const VECTOR_INDEX_COLUMNS = `generation, model, dimensions, binding, status, total_chunks, processed_chunks, attempts, error,
+  created_by, created_at, updated_at, started_at, activated_at, retired_at, purged_at`;
+
+/** The generation serving queries; null until one is recorded. */
+export async function getActiveVectorIndex(env: MarbleBindings): Promise<VectorIndexRecord | null> {
+  const result = await env.MARBLE_DB.prepare(
+    `SELECT ${VECTOR_INDEX_COLUMNS} FROM vector_indexes WHERE status = 'active' ORDER BY generation DESC LIMIT 1`,
+  ).first<VectorIndexRecord>();
+  return result ?? null;
+}
+
+export async function getVectorIndex(env: MarbleBindings, generation: number): Promise<VectorIndexRecord | null> {
+  const result = await env.MARBLE_DB.prepare(`SELECT ${VECTOR_INDEX_COLUMNS} FROM vector_indexes WHERE generation = ?1`)
+    .bind(generation)
+    .first<VectorIndexRecord>();
+  return result ?? null;
+}
+
+/** Every generation, newest first. */
+export async function listVectorIndexes(env: MarbleBindings): Promise<VectorIndexRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT ${VECTOR_INDEX_COLUMNS} FROM vector_indexes ORDER BY generation DESC`,
+  ).all<VectorIndexRecord>();
+  return results.results ?? [];
+}
+
+/**
+ * Records generation 1 as the active index built with `model`, unless an index is already
+ * recorded, and attributes the chunks stored before models were recorded to it.
+ */
+export async function createInitialVectorIndex(
+  env: MarbleBindings,
+  index: Pick<VectorIndexRecord, 'model' | 'dimensions' | 'binding'>,
+): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `INSERT INTO vector_indexes (generation, model, dimensions, binding, status, activated_at)
+       SELECT 1, ?1, ?2, ?3, 'active', CURRENT_TIMESTAMP
+       WHERE NOT EXISTS (SELECT 1 FROM vector_indexes)`,
+    ).bind(index.model, index.dimensions, index.binding),
+    env.MARBLE_DB.prepare(
+      `UPDATE chunks SET embedding_model = ?1, embedding_dimensions = ?2
+       WHERE vector_generation = 1 AND embedding_model IS NULL
+         AND EXISTS (SELECT 1 FROM vector_indexes WHERE generation = 1 AND model = ?1)`,
+    ).bind(index.model, index.dimensions),
+  ]);
+}
+
+/** Sets the dimensions of a generation that has none recorded yet. */
+export async function recordVectorIndexDimensions(env: MarbleBindings, generation: number, dimensions: number): Promise<void> {
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `UPDATE vector_indexes SET dimensions = ?2, updated_at = CURRENT_TIMESTAMP
+       WHERE generation = ?1 AND dimensions IS NULL`,
+    ).bind(generation, dimensions),
+    env.MARBLE_DB.prepare(
+      `UPDATE chunks SET embedding_dimensions = ?2
+       WHERE vector_generation = ?1 AND embedding_dimensions IS NULL
+         AND EXISTS (SELECT 1 FROM vector_indexes WHERE generation = ?1 AND status = 'active')`,
+    ).bind(generation, dimensions),
+  ]);
+}
+
+export async function createVectorIndex(
+  env: MarbleBindings,
+  index: Pick<VectorIndexRecord, 'generation' | 'model' | 'dimensions' | 'binding' | 'created_by'>,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO vector_indexes (generation, model, dimensions, binding, status, created_by)
+     VALUES (?1, ?2, ?3, ?4, 'building', ?5)`,
+  )
+    .bind(index.generation, index.model, index.dimensions, index.binding, index.created_by)
+    .run();
+}
+
+export async function countChunksToReindex(env: MarbleBindings, generation: number): Promise<number> {
+  const result = await env.MARBLE_DB.prepare(`SELECT COUNT(*) AS count FROM chunks WHERE vector_generation < ?1`)
+    .bind(generation)
+    .first<{ count: number }>();
+  return result?.count ?? 0;
+}
+
+export async function markVectorIndexBuilding(env: MarbleBindings, generation: number, totalChunks: number): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE vector_indexes SET total_chunks = ?2, started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+       updated_at = CURRENT_TIMESTAMP
+     WHERE generation = ?1`,
+  )
+    .bind(generation, totalChunks)
+    .run();
+}
+
+export interface ReindexChunkRow
+  extends Pick<ChunkRecord, 'id' | 'file_id' | 'folder_id' | 'owner_id' | 'visibility' | 'start_line' | 'end_line' | 'content'> {
+  /** Null when the chunk's file or folder is gone. */
+  file_name: string | null;
+  file_created_at: string | null;
+  folder_name: string | null;
+}
+
+/** The next chunks without a vector in `generation`, in id order. */
+export async function listChunksToReindex(
+  env: MarbleBindings,
+  generation: number,
+  limit: number,
+): Promise<ReindexChunkRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT c.id, c.file_id, c.folder_id, c.owner_id, c.visibility, c.start_line, c.end_line, c.content,
+            f.file_name, f.created_at AS file_created_at, d.name AS folder_name
+     FROM chunks c
+     LEFT JOIN files f ON f.id = c.file_id
+     LEFT JOIN folders d ON d.id = c.folder_id
+     WHERE c.vector_generation < ?1
+     ORDER BY c.id
+     LIMIT ?2`,
+  )
+    .bind(generation, limit)
+    .all<ReindexChunkRow>();
+  return results.results ?? [];
+}
+
+export async function markChunksReindexed(env: MarbleBindings, generation: number, chunkIds: string[]): Promise<void> {
+  if (!chunkIds.length) return;
+  await env.MARBLE_DB.prepare(
+    `UPDATE chunks SET vector_generation = ?1 WHERE id IN (SELECT value FROM json_each(?2)) AND vector_generation < ?1`,
+  )
+    .bind(generation, JSON.stringify(chunkIds))
+    .run();
+}
+
+export async function updateVectorIndexProgress(env: MarbleBindings, generation: number, processedChunks: number): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE vector_indexes SET processed_chunks = ?2, total_chunks = MAX(total_chunks, ?2), error = NULL,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE generation = ?1`,
+  )
+    .bind(generation, processedChunks)
+    .run();
+}
+
+export async function recordVectorIndexAttempt(env: MarbleBindings, generation: number, error: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE vector_indexes SET attempts = attempts + 1, error = ?2, updated_at = CURRENT_TIMESTAMP
+     WHERE generation = ?1`,
+  )
+    .bind(generation, error)
+    .run();
+}
+
+export async function failVectorIndex(env: MarbleBindings, generation: number, error: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE vector_indexes SET status = 'failed', error = ?2, updated_at = CURRENT_TIMESTAMP
+     WHERE generation = ?1 AND status = 'building'`,
+  )
+    .bind(generation, error)
+    .run();
+}
+
+/**
+ * Swaps a built generation in for the active one in a single transaction: the old generation is
+ * retired, the new one activated, and every chunk attributed to its model. Nothing changes while
+ * some chunk still lacks a vector in the new generation (say, one ingested since the last batch).
+ */
+export async function activateVectorIndex(env: MarbleBindings, generation: number): Promise<void> {
+  const ready = `NOT EXISTS (SELECT 1 FROM chunks WHERE vector_generation < ?1)
+    AND EXISTS (SELECT 1 FROM vector_indexes WHERE generation = ?1 AND status = 'building')`;
+  await env.MARBLE_DB.batch([
+    env.MARBLE_DB.prepare(
+      `UPDATE chunks SET embedding_model = (SELECT model FROM vector_indexes WHERE generation = ?1),
+         embedding_dimensions = (SELECT dimensions FROM vector_indexes WHERE generation = ?1)
+       WHERE vector_generation = ?1 AND ${ready}`,
+    ).bind(generation),
+    env.MARBLE_DB.prepare(
+      `UPDATE vector_indexes SET status = 'retired', retired_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'active' AND generation != ?1 AND ${ready}`,
+    ).bind(generation),
+    env.MARBLE_DB.prepare(
+      `UPDATE vector_indexes SET status = 'active', activated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE generation = ?1 AND ${ready}`,
+    ).bind(generation),
+  ]);
+}
+
+/** Records that a retired generation's vectors are gone. */
+export async function markVectorIndexPurged(env: MarbleBindings, generation: number): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE vector_indexes SET purged_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE generation = ?1 AND status = 'retired'`,
+  )
+    .bind(generation)
+    .run();
+}
+
+export interface ConsistencyChunkRow extends ReindexChunkRow {
+  file_status: FileRecord['status'] | null;
+  file_updated_at: string | null;
+  /** 1 while an ingest job for the file is queued or running and may not have indexed it yet. */
+  ingesting: number;
+}
+
+/** The next page of chunks after `afterId`, in id order, with what the consistency check needs of their file. */
+export async function listChunksAfter(env: MarbleBindings, afterId: string, limit: number): Promise<ConsistencyChunkRow[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT c.id, c.file_id, c.folder_id, c.owner_id, c.visibility, c.start_line, c.end_line, c.content,
+            f.file_name, f.created_at AS file_created_at, f.status AS file_status, f.updated_at AS file_updated_at,
+            d.name AS folder_name,
+            EXISTS (SELECT 1 FROM ingest_jobs j WHERE j.file_id = c.file_id AND j.status IN ('queued', 'running')) AS ingesting
+     FROM chunks c
+     LEFT JOIN files f ON f.id = c.file_id
+     LEFT JOIN folders d ON d.id = c.folder_id
+     WHERE c.id > ?1
+     ORDER BY c.id
+     LIMIT ?2`,
+  )
+    .bind(afterId, limit)
+    .all<ConsistencyChunkRow>();
+  return results.results ?? [];
+}
+
+export async function findExistingChunkIds(env: MarbleBindings, ids: string[]): Promise<Set<string>> {
+  if (!ids.length) return new Set();
+  const results = await env.MARBLE_DB.prepare(`SELECT id FROM chunks WHERE id IN (SELECT value FROM json_each(?1))`)
+    .bind(JSON.stringify(ids))
+    .all<{ id: string }>();
+  return new Set((results.results ?? []).map((row) => row.id));
+}
+
+/** Everyone who may own a private vector namespace: signed-in users and the owners of stored files. */
+export async function listNamespaceOwners(env: MarbleBindings): Promise<string[]> {
+  const results = await env.MARBLE_DB.prepare(`SELECT id AS owner_id FROM users UNION SELECT owner_id FROM files`).all<{
+    owner_id: string;
+  }>();
+  return (results.results ?? []).map((row) => row.owner_id);
+}
+
+/** The next page of files after `afterId`, in id order, trashed ones included. */
+export async function listFilesAfter(env: MarbleBindings, afterId: string, limit: number): Promise<FileRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, tenant, folder_id, owner_id, visibility, file_name, r2_key, size, mime_type, status,
+            created_at, updated_at, deleted_at
+     FROM files
+     WHERE id > ?1
+     ORDER BY id
+     LIMIT ?2`,
+  )
+    .bind(afterId, limit)
+    .all<FileRecord>();
+  return results.results ?? [];
+}
+
+/** Which of `keys` a file row points at, and which of `fileIds` still have a row. */
+export async function findKnownObjects(
+  env: MarbleBindings,
+  keys: string[],
+  fileIds: string[],
+): Promise<{ keys: Set<string>; fileIds: Set<string> }> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, r2_key FROM files
+     WHERE r2_key IN (SELECT value FROM json_each(?1)) OR id IN (SELECT value FROM json_each(?2))`,
+  )
+    .bind(JSON.stringify(keys), JSON.stringify(fileIds))
+    .all<{ id: string; r2_key: string }>();
+  const rows = results.results ?? [];
+  return { keys: new Set(rows.map((row) => row.r2_key)), fileIds: new Set(rows.map((row) => row.id)) };
+}
+
+const CONSISTENCY_RUN_COLUMNS = 'id, mode, trigger, status, report, error, created_by, started_at, completed_at';
+
+export async function createConsistencyRun(
+  env: MarbleBindings,
+  data: { id: string; mode: ConsistencyMode; trigger: ConsistencyTrigger; created_by: string | null },
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO consistency_runs (id, mode, trigger, status, created_by)
+     VALUES (?1, ?2, ?3, 'running', ?4)`,
+  )
+    .bind(data.id, data.mode, data.trigger, data.created_by)
+    .run();
+}
+
+export async function completeConsistencyRun(env: MarbleBindings, id: string, report: ConsistencyReport): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE consistency_runs SET status = 'succeeded', report = ?2, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(id, JSON.stringify(report))
+    .run();
+}
+
+export async function failConsistencyRun(env: MarbleBindings, id: string, error: string): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE consistency_runs SET status = 'failed', error = ?2, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(id, error)
+    .run();
+}
+
+export async function getConsistencyRun(env: MarbleBindings, id: string): Promise<ConsistencyRunRecord | null> {
+  const result = await env.MARBLE_DB.prepare(`SELECT ${CONSISTENCY_RUN_COLUMNS} FROM consistency_runs WHERE id = ?1`)
+    .bind(id)
+    .first<ConsistencyRunRecord>();
+  return result ?? null;
+}
+
+export async function listConsistencyRuns(env: MarbleBindings, limit: number): Promise<ConsistencyRunRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT ${CONSISTENCY_RUN_COLUMNS} FROM consistency_runs ORDER BY started_at DESC, rowid DESC LIMIT ?1`,
+  )
+    .bind(limit)
+    .all<ConsistencyRunRecord>();
+  return results.results ?? [];
+}
@@ -0,0 +1,185 @@
+/** Unchanged lines kept around each change, as in `diff -u`. */
+const CONTEXT_LINES = 3;
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  /** 1-based line numbers; `oldLine` is null for added lines and `newLine` for removed ones. */
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+/** A run of changes with their context; starts and counts follow unified diff headers. */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface LineDiff {
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+}
+
+/** The two texts differ by more edits than the diff is allowed to look for. */
+export class DiffTooLargeError extends Error {
+  constructor(readonly maxEdits: number) {
+    super(`The versions differ by more than ${maxEdits} lines`);
+    this.name = 'DiffTooLargeError';
+  }
+}
+
+type Edit = { type: DiffLine['type']; oldIndex: number; newIndex: number };
+
+/**
+ * Myers' shortest edit script between `a` and `b`. Each round's furthest-reaching paths are kept
+ * only for the diagonals that round could reach, so memory grows with the square of the edit
+ * count rather than with the length of the files.
+ */
+function shortestEdit(a: string[], b: string[], maxEdits: number): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d += 1) {
+    if (d > maxEdits) {
+      throw new DiffTooLargeError(maxEdits);
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const round = trace[d];
+    const at = (k: number) => round[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x -= 1;
+      y -= 1;
+      edits.push({ type: 'context', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: 'add', oldIndex: x, newIndex: y - 1 });
+      else edits.push({ type: 'remove', oldIndex: x - 1, newIndex: y });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
+
+/**
+ * Line diff of `before` against `after`, grouped into hunks with {@link CONTEXT_LINES} of context.
+ * Lines both sides start and end with are matched up front, so edits to a long document only
+ * cost as much as the region they touch. Throws {@link DiffTooLargeError} past `maxEdits`.
+ */
+export function diffLines(before: string[], after: string[], maxEdits = 2000): LineDiff {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const middle = shortestEdit(
+    before.slice(prefix, before.length - suffix),
+    after.slice(prefix, after.length - suffix),
+    maxEdits,
+  );
+  const lines: DiffLine[] = [];
+  for (let index = 0; index < prefix; index += 1) {
+    lines.push({ type: 'context', text: before[index], oldLine: index + 1, newLine: index + 1 });
+  }
+  for (const edit of middle) {
+    const oldIndex = prefix + edit.oldIndex;
+    const newIndex = prefix + edit.newIndex;
+    lines.push({
+      type: edit.type,
+      text: edit.type === 'add' ? after[newIndex] : before[oldIndex],
+      oldLine: edit.type === 'add' ? null : oldIndex + 1,
+      newLine: edit.type === 'remove' ? null : newIndex + 1,
+    });
+  }
+  for (let index = suffix; index > 0; index -= 1) {
+    lines.push({
+      type: 'context',
+      text: before[before.length - index],
+      oldLine: before.length - index + 1,
+      newLine: after.length - index + 1,
+    });
+  }
+
+  return {
+    added: lines.filter((line) => line.type === 'add').length,
+    removed: lines.filter((line) => line.type === 'remove').length,
+    hunks: groupHunks(lines),
+  };
+}
+
+function groupHunks(lines: DiffLine[]): DiffHunk[] {
+  const changed = lines.flatMap((line, index) => (line.type === 'context' ? [] : [index]));
+  const hunks: DiffHunk[] = [];
+  // Old and new lines before `counted`, advanced hunk by hunk
+  let counted = 0;
+  let oldBefore = 0;
+  let newBefore = 0;
+  let next = 0;
+  while (next < changed.length) {
+    const start = Math.max(0, changed[next] - CONTEXT_LINES);
+    let last = changed[next];
+    // Changes whose context would touch or overlap share a hunk
+    while (next + 1 < changed.length && changed[next + 1] - last <= 2 * CONTEXT_LINES + 1) {
+      next += 1;
+      last = changed[next];
+    }
+    next += 1;
+
+    const hunkLines = lines.slice(start, Math.min(lines.length, last + CONTEXT_LINES + 1));
+    for (; counted < start; counted += 1) {
+      if (lines[counted].oldLine !== null) oldBefore += 1;
+      if (lines[counted].newLine !== null) newBefore += 1;
+    }
+    const oldLines = hunkLines.filter((line) => line.oldLine !== null).length;
+    const newLines = hunkLines.filter((line) => line.newLine !== null).length;
+    hunks.push({
+      // An empty side starts at the line before the hunk, as in unified diffs
+      oldStart: oldLines ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    });
+  }
+  return hunks;
+}
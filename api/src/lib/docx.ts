@@ -0,0 +1,188 @@
+import { inflate } from './binary';
+
+/**
+ * Reads the text of a Word (.docx) file: unzips `word/document.xml` and walks its paragraphs.
+ * Word doesn't store page layout, so pages come from the breaks Word last rendered
+ * (`w:lastRenderedPageBreak`) when it saved them, and from explicit page and section breaks otherwise.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** End-of-central-directory record plus the longest possible archive comment. */
+const MAX_TRAILER = 22 + 0xffff;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const XML_TOKEN = /<(\/?)([\w:]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+
+/** The uncompressed bytes of one archive member, or `null` when the archive doesn't have it. */
+async function readZipEntry(bytes: Uint8Array, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - MAX_TRAILER); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let index = 0; index < entries && offset + 46 <= bytes.length; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflate(data, 'deflate-raw');
+    throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+  return null;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? Number.parseInt(name.slice(2), 16) : Number.parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`${name}\\s*=\\s*"([^"]*)"`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+function isOn(attributes: string): boolean {
+  const value = attribute(attributes, 'w:val');
+  return value === null || !['0', 'false', 'off'].includes(value);
+}
+
+/**
+ * Paragraphs become text separated by blank lines, headings (`Heading1`…, `Title`) become
+ * Markdown headings, list paragraphs `- ` bullets and table rows `a | b` lines.
+ */
+function readDocument(xml: string): string[] {
+  const rendered = xml.includes('<w:lastRenderedPageBreak');
+  const pages: string[][] = [[]];
+  let paragraph = '';
+  let prefix = '';
+  let inText = false;
+  let sectionBreak = false;
+  const rows: string[][][] = [];
+
+  const emit = (text: string) => {
+    const trimmed = text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (!trimmed) return;
+    if (rows.length) {
+      const row = rows[rows.length - 1];
+      row[row.length - 1]?.push(trimmed.replace(/\n/g, ' '));
+    } else {
+      pages[pages.length - 1].push(prefix + trimmed);
+    }
+  };
+  const newPage = () => {
+    emit(paragraph);
+    paragraph = '';
+    if (pages[pages.length - 1].length) pages.push([]);
+  };
+
+  for (const [, closing, tag, attributes, selfClosing, text] of xml.matchAll(XML_TOKEN)) {
+    if (text !== undefined) {
+      if (inText) paragraph += decodeXml(text);
+      continue;
+    }
+    const opening = !closing;
+    switch (tag) {
+      case 'w:p':
+        if (opening && !selfClosing) {
+          if (sectionBreak) newPage();
+          paragraph = '';
+          prefix = '';
+          sectionBreak = false;
+        } else if (closing) {
+          emit(paragraph);
+          paragraph = '';
+        }
+        break;
+      case 'w:t':
+        inText = opening && !selfClosing;
+        break;
+      case 'w:tab':
+        if (opening) paragraph += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (attribute(attributes, 'w:type') === 'page') {
+          if (!rendered) newPage();
+        } else if (opening) {
+          paragraph += '\n';
+        }
+        break;
+      case 'w:lastRenderedPageBreak':
+        newPage();
+        break;
+      case 'w:pageBreakBefore':
+        // Paragraph properties come before any text, so the page can start right here
+        if (!rendered && isOn(attributes)) newPage();
+        break;
+      case 'w:sectPr':
+        // A section ending inside a paragraph's properties starts the next section on a new page
+        if (opening && !rendered) sectionBreak = true;
+        break;
+      case 'w:type':
+        if (attribute(attributes, 'w:val') === 'continuous') sectionBreak = false;
+        break;
+      case 'w:pStyle': {
+        const style = attribute(attributes, 'w:val') ?? '';
+        const level = /^heading(\d)$/i.exec(style)?.[1];
+        if (level) prefix = `${'#'.repeat(Math.min(6, Number(level)))} `;
+        else if (/^title$/i.test(style)) prefix = '# ';
+        break;
+      }
+      case 'w:numPr':
+        if (opening && !prefix) prefix = '- ';
+        break;
+      case 'w:tr':
+        if (opening) rows.push([]);
+        else {
+          const cells = (rows.pop() ?? []).map((cell) => cell.join(' ')).filter(Boolean);
+          if (cells.length) emit(cells.join(' | '));
+        }
+        break;
+      case 'w:tc':
+        if (opening && rows.length) rows[rows.length - 1].push([]);
+        break;
+    }
+  }
+  emit(paragraph);
+
+  return pages.map((page) => page.join('\n\n'));
+}
+
+/** Extracts the text of every page, in order, with paragraphs separated by blank lines. */
+export async function extractDocxPages(bytes: Uint8Array): Promise<string[]> {
+  const document = await readZipEntry(bytes, 'word/document.xml');
+  if (!document) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+  return readDocument(new TextDecoder().decode(document));
+}
@@ -0,0 +1,71 @@
+import { evictEmbeddingCache, getCachedEmbeddings, putCachedEmbeddings, recordEmbeddingCacheLookups } from './db';
+import { envNumber } from './env';
+import { sha256Hex } from './text';
+import type { MarbleBindings } from '../types';
+
+/**
+ * Embeddings are cached in D1 under `(model, sha256(text))`: the same text embedded by the
+ * same model always gives the same vector, so re-ingests, repeated questions and identical
+ * chunks across files only pay for the provider once. Entries of any other model are dropped
+ * as soon as the new one writes, which is what invalidates the cache when the model changes;
+ * the models of the active vector index and of one being built are both kept.
+ */
+
+export const DEFAULT_EMBEDDING_CACHE_ENTRIES = 20_000;
+
+/** `EMBEDDING_CACHE_MAX_ENTRIES`; `0` turns the cache off. */
+export function embeddingCacheLimit(env: MarbleBindings): number {
+  return Math.max(0, envNumber(env.EMBEDDING_CACHE_MAX_ENTRIES, DEFAULT_EMBEDDING_CACHE_ENTRIES));
+}
+
+/**
+ * Returns embeddings for `input` in order, taking what it can from the cache and sending each
+ * distinct missing text to `embed` once. A cache that can't be read or written (say, before
+ * its migration has run) is skipped rather than failing the request.
+ */
+export async function withEmbeddingCache(
+  env: MarbleBindings,
+  model: string,
+  input: string[],
+  embed: (texts: string[]) => Promise<number[][]>,
+): Promise<number[][]> {
+  const maxEntries = embeddingCacheLimit(env);
+  if (!maxEntries || !input.length) {
+    return embed(input);
+  }
+
+  const hashes = await Promise.all(input.map((text) => sha256Hex(text)));
+  let cached = new Map<string, number[]>();
+  try {
+    cached = await getCachedEmbeddings(env, model, Array.from(new Set(hashes)));
+  } catch (error) {
+    console.warn('Embedding cache lookup failed; embedding everything', { model, error: String(error) });
+    return embed(input);
+  }
+
+  const missing = new Map<string, string>();
+  hashes.forEach((hash, index) => {
+    if (!cached.has(hash)) missing.set(hash, input[index]);
+  });
+  const misses = hashes.filter((hash) => missing.has(hash)).length;
+  const hits = input.length - misses;
+
+  const fresh = missing.size ? await embed(Array.from(missing.values())) : [];
+  const entries = Array.from(missing.keys(), (contentHash, index) => ({ contentHash, embedding: fresh[index] }));
+  entries.forEach((entry) => cached.set(entry.contentHash, entry.embedding));
+
+  try {
+    await recordEmbeddingCacheLookups(env, model, hits, misses);
+    if (entries.length) {
+      await putCachedEmbeddings(env, model, entries);
+      await evictEmbeddingCache(env, model, maxEntries);
+    }
+  } catch (error) {
+    console.warn('Embedding cache update failed', { model, error: String(error) });
+  }
+  if (input.length > 1) {
+    console.log('Embedding cache', { model, hits, misses, hitRate: Number((hits / input.length).toFixed(3)) });
+  }
+
+  return hashes.map((hash) => cached.get(hash)!);
+}
@@ -0,0 +1,156 @@
+import { envNumber } from './env';
+import type { MarbleBindings } from '../types';
+
+export interface EmbeddingBatchProgress {
+  /** 1-based index of the batch that just finished. */
+  batch: number;
+  batches: number;
+  embedded: number;
+  total: number;
+}
+
+export interface EmbeddingOptions {
+  onProgress?: (progress: EmbeddingBatchProgress) => void | Promise<void>;
+}
+
+export interface EmbeddingBatchLimits {
+  maxItems: number;
+  maxTokens: number;
+}
+
+/** An error raised by a provider request; `status` and `retryAfterMs` drive the retry policy. */
+export interface ProviderRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+const DEFAULT_MAX_ITEMS = 96;
+const DEFAULT_MAX_TOKENS = 50_000;
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Rough token count (≈4 characters per token) for batch sizing and prompt budgets. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function batchLimitsFromEnv(env: MarbleBindings): EmbeddingBatchLimits {
+  return {
+    maxItems: Math.max(1, envNumber(env.EMBEDDING_BATCH_SIZE, DEFAULT_MAX_ITEMS)),
+    maxTokens: Math.max(1, envNumber(env.EMBEDDING_BATCH_TOKENS, DEFAULT_MAX_TOKENS)),
+  };
+}
+
+/**
+ * Splits inputs into contiguous batches that stay under both the item and estimated token
+ * limits. An input that is larger than the token limit on its own still gets a batch.
+ */
+export function planEmbeddingBatches(input: string[], limits: EmbeddingBatchLimits): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const text of input) {
+    const cost = estimateTokens(text);
+    if (current.length && (current.length >= limits.maxItems || tokens + cost > limits.maxTokens)) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(text);
+    tokens += cost;
+  }
+  if (current.length) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/** Reads `retry-after-ms`, or `Retry-After` as either seconds or an HTTP date. */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number.parseFloat(headers.get('retry-after-ms') ?? '');
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number.parseFloat(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isTransient(error: ProviderRequestError): boolean {
+  if (error.status === undefined) {
+    // fetch rejects with a TypeError when the connection itself fails
+    return error instanceof TypeError;
+  }
+  return error.status === 429 || error.status >= 500;
+}
+
+/** Full-jitter exponential backoff, never sooner than the server asked for. */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  return retryAfterMs === undefined ? jittered : Math.max(retryAfterMs, jittered);
+}
+
+async function withRetries<T>(maxRetries: number, request: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await request();
+    } catch (error) {
+      const failure = error as ProviderRequestError;
+      if (attempt >= maxRetries || !isTransient(failure)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, failure.retryAfterMs);
+      console.warn('Embedding request failed, retrying', {
+        attempt: attempt + 1,
+        status: failure.status,
+        delayMs: Math.round(delay),
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Embeds `input` in batches through `request`, retrying transient failures per batch.
+ * Results come back in input order regardless of how the inputs were split.
+ */
+export async function embedInBatches(
+  env: MarbleBindings,
+  input: string[],
+  request: (batch: string[]) => Promise<number[][]>,
+  options: EmbeddingOptions = {},
+): Promise<number[][]> {
+  const batches = planEmbeddingBatches(input, batchLimitsFromEnv(env));
+  const maxRetries = Math.max(0, envNumber(env.EMBEDDING_MAX_RETRIES, DEFAULT_MAX_RETRIES));
+  const embeddings: number[][] = [];
+
+  for (let index = 0; index < batches.length; index += 1) {
+    const batch = batches[index];
+    const vectors = await withRetries(maxRetries, () => request(batch));
+    if (vectors.length !== batch.length) {
+      throw new Error(`Embedding count mismatch: got ${vectors.length}, expected ${batch.length}`);
+    }
+    embeddings.push(...vectors);
+    await options.onProgress?.({
+      batch: index + 1,
+      batches: batches.length,
+      embedded: embeddings.length,
+      total: input.length,
+    });
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,15 @@
+export interface EnvNumberOptions {
+  /** Values below this fall back too, rather than being clamped. */
+  min?: number;
+  /** Parse a fraction rather than an integer. */
+  float?: boolean;
+}
+
+/**
+ * A numeric setting from a Worker var. Unset and unparseable values, and ones below `min`,
+ * give `fallback`.
+ */
+export function envNumber(value: string | undefined, fallback: number, options: EnvNumberOptions = {}): number {
+  const parsed = value ? (options.float ? Number.parseFloat(value) : Number.parseInt(value, 10)) : Number.NaN;
+  return Number.isFinite(parsed) && parsed >= (options.min ?? -Infinity) ? parsed : fallback;
+}
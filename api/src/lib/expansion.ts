@@ -0,0 +1,184 @@
+import { getChunkWindows, type ChunkSpanRow, type ChunkWithContext } from './db';
+import { estimateTokens } from './embeddings';
+import { envNumber } from './env';
+import type { MarbleBindings } from '../types';
+
+export interface ExpansionConfig {
+  /** Neighbors to add on each side of a hit, by `chunk_index`; 0 keeps hits as they are. */
+  radius: number;
+  /** Estimated tokens across all contexts handed to the model. */
+  tokenBudget: number;
+  /** Characters adjacent chunks were cut to share (`CHUNK_OVERLAP`). */
+  overlap: number;
+}
+
+export interface ExpandedContext {
+  /** Best-ranked hit in the span; citations map back to it. */
+  chunkId: string;
+  /** Every chunk merged into the span, in file order. */
+  chunkIds: string[];
+  folderName: string;
+  fileName: string;
+  startLine: number;
+  endLine: number;
+  /** Page of a PDF or DOCX file the span is on; spans never cross pages. */
+  page: number | null;
+  /** Version of the file the span's chunks were ingested from. */
+  fileVersion: number;
+  content: string;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+/** Overlaps shorter than this aren't trusted when the configured overlap doesn't match. */
+const MIN_DETECTED_OVERLAP = 16;
+
+export function expansionConfigFromEnv(env: MarbleBindings): ExpansionConfig {
+  return {
+    radius: envNumber(env.CONTEXT_EXPANSION_RADIUS, 0, { min: 0 }),
+    tokenBudget: envNumber(env.CONTEXT_TOKEN_BUDGET, DEFAULT_CONTEXT_TOKEN_BUDGET, { min: 0 }),
+    overlap: envNumber(env.CHUNK_OVERLAP, 200, { min: 0 }),
+  };
+}
+
+/** Characters at the start of `next` that repeat the end of `previous`. */
+function sharedLength(previous: string, next: string, expected: number): number {
+  if (expected > 0 && expected <= Math.min(previous.length, next.length) && previous.endsWith(next.slice(0, expected))) {
+    return expected;
+  }
+  // Chunks ingested under a different CHUNK_OVERLAP: look for the longest real overlap instead
+  for (let length = Math.min(previous.length, next.length); length >= MIN_DETECTED_OVERLAP; length -= 1) {
+    if (previous.endsWith(next.slice(0, length))) return length;
+  }
+  return 0;
+}
+
+/** Joins adjacent chunks, writing their shared overlap once. */
+export function joinOverlapping(previous: string, next: string, expected: number): string {
+  return previous + next.slice(sharedLength(previous, next, expected));
+}
+
+/**
+ * Merges consecutive chunks into one span and trims a partial first or last line, so excerpts
+ * start and end on whole lines. `before`/`after` are the chunks just outside the span; they
+ * tell whether its edges fall mid-line.
+ */
+export function mergeChunkSpan(
+  chunks: ChunkSpanRow[],
+  overlap: number,
+  { before, after }: { before?: ChunkSpanRow; after?: ChunkSpanRow } = {},
+): { startLine: number; endLine: number; content: string } {
+  const first = chunks[0];
+  let content = chunks.slice(1).reduce((text, chunk) => joinOverlapping(text, chunk.content, overlap), first.content);
+  let startLine = first.start_line;
+
+  let partialStart = first.chunk_index > 0;
+  if (partialStart && before) {
+    const cut = before.content.length - sharedLength(before.content, first.content, overlap);
+    partialStart = cut > 0 && before.content[cut - 1] !== '\n';
+  }
+  const partialEnd = !content.endsWith('\n') && after !== undefined;
+
+  if (partialStart && content.includes('\n')) {
+    content = content.slice(content.indexOf('\n') + 1);
+    startLine += 1;
+  }
+  if (partialEnd && content.replace(/\n$/, '').includes('\n')) {
+    content = content.slice(0, content.lastIndexOf('\n') + 1);
+  }
+
+  content = content.replace(/\n$/, '');
+  const endLine = startLine + (content.match(/\n/g)?.length ?? 0);
+  return { startLine, endLine, content };
+}
+
+function hitContext(hit: ChunkWithContext): ExpandedContext {
+  return {
+    chunkId: hit.id,
+    chunkIds: [hit.id],
+    folderName: hit.folder_name,
+    fileName: hit.file_name,
+    startLine: hit.start_line,
+    endLine: hit.end_line,
+    page: hit.page ?? null,
+    fileVersion: hit.file_version,
+    content: hit.content,
+  };
+}
+
+interface HitGroup {
+  hits: ChunkWithContext[];
+  from: number;
+  to: number;
+}
+
+/** Hits in the same file whose windows touch become one group, ranked by its best hit. */
+function groupHits(hits: ChunkWithContext[], radius: number): HitGroup[] {
+  const groups: HitGroup[] = [];
+  hits.forEach((hit) => {
+    const from = Math.max(0, hit.chunk_index - radius);
+    const to = hit.chunk_index + radius;
+    const touching = groups.filter(
+      (group) => group.hits[0].file_id === hit.file_id && from <= group.to + 1 && to >= group.from - 1,
+    );
+    if (!touching.length) {
+      groups.push({ hits: [hit], from, to });
+      return;
+    }
+    const [target, ...rest] = touching;
+    target.hits.push(hit, ...rest.flatMap((group) => group.hits));
+    target.from = Math.min(from, ...touching.map((group) => group.from));
+    target.to = Math.max(to, ...touching.map((group) => group.to));
+    rest.forEach((group) => groups.splice(groups.indexOf(group), 1));
+  });
+  return groups;
+}
+
+/**
+ * Widens ranked hits with their neighbors by `chunk_index`, merging hits whose windows touch,
+ * then keeps contexts in rank order until the token budget runs out. A span that doesn't fit
+ * falls back to its hit alone; the top hit is always kept so lookup never loses its best match.
+ */
+export async function expandContexts(
+  env: MarbleBindings,
+  hits: ChunkWithContext[],
+  config: ExpansionConfig,
+): Promise<ExpandedContext[]> {
+  let candidates: Array<{ expanded: ExpandedContext; fallback: ExpandedContext }>;
+
+  if (config.radius > 0 && hits.length) {
+    const groups = groupHits(hits, config.radius);
+    const rows = await getChunkWindows(
+      env,
+      groups.map((group) => ({ fileId: group.hits[0].file_id, from: Math.max(0, group.from - 1), to: group.to + 1 })),
+    );
+
+    candidates = groups.map((group) => {
+      const [best] = group.hits;
+      // Neighbors on other pages stay out, so the span can be cited with a single page
+      const inFile = rows.filter((row) => row.file_id === best.file_id && (row.page ?? null) === (best.page ?? null));
+      const inWindow = inFile.filter((row) => row.chunk_index >= group.from && row.chunk_index <= group.to);
+      const span = inWindow.length ? inWindow : [best];
+      const merged = mergeChunkSpan(span, config.overlap, {
+        before: inFile.find((row) => row.chunk_index === group.from - 1),
+        after: inFile.find((row) => row.chunk_index === group.to + 1),
+      });
+      return {
+        expanded: { ...hitContext(best), ...merged, chunkIds: span.map((row) => row.id) },
+        fallback: hitContext(best),
+      };
+    });
+  } else {
+    candidates = hits.map((hit) => ({ expanded: hitContext(hit), fallback: hitContext(hit) }));
+  }
+
+  const selected: ExpandedContext[] = [];
+  let used = 0;
+  candidates.forEach(({ expanded, fallback }, index) => {
+    const fits = [expanded, fallback].find((context) => used + estimateTokens(context.content) <= config.tokenBudget);
+    const context = fits ?? (index === 0 ? fallback : undefined);
+    if (!context) return;
+    used += estimateTokens(context.content);
+    selected.push(context);
+  });
+  return selected;
+}
@@ -0,0 +1,519 @@
+import { HTTPException } from 'hono/http-exception';
+import type { ChunkStrategyName, TextChunk } from './chunk';
+import { extractDocxPages } from './docx';
+import { extractPdfPages } from './pdf';
+
+export type DocumentFormat = 'text' | 'markdown' | 'csv' | 'json' | 'html' | 'code' | 'pdf' | 'docx';
+
+/** Inclusive range of lines in the original file that one extracted line came from. */
+export type LineSpan = [start: number, end: number];
+
+export interface ExtractedText {
+  text: string;
+  format: DocumentFormat;
+  /** One span per line of `text`; `null` when extracted lines are the original lines. */
+  lineMap: LineSpan[] | null;
+  /** One position per line of `text`, for formats laid out in pages. */
+  positions?: TextPosition[] | null;
+}
+
+/** Where a line of extracted text sits in a paged document; both numbers are 1-based. */
+export interface TextPosition {
+  page: number;
+  /** Counted within the page; blank lines belong to the paragraph before them. */
+  paragraph: number;
+}
+
+interface Extractor {
+  format: DocumentFormat;
+  /** The first one is what `files.mime_type` records when the upload's type isn't listed. */
+  mimeTypes: string[];
+  extensions: string[];
+  /** Used when the folder doesn't set a chunking strategy. */
+  chunkStrategy?: ChunkStrategyName;
+  /** Text formats: the upload decoded as UTF-8 with line endings folded. */
+  extract?(source: string): Omit<ExtractedText, 'format'>;
+  /** Binary formats: the text of each page, read straight from the uploaded bytes. */
+  extractPages?(bytes: Uint8Array): Promise<string[]>;
+}
+
+const identity = (source: string) => ({ text: source, lineMap: null });
+
+/** Languages get their own MIME type so `files.mime_type` says more than "code". */
+const CODE_MIME_TYPES: Record<string, string> = {
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  cjs: 'text/javascript',
+  jsx: 'text/javascript',
+  ts: 'text/x-typescript',
+  tsx: 'text/x-typescript',
+  py: 'text/x-python',
+  go: 'text/x-go',
+  rs: 'text/x-rust',
+  java: 'text/x-java',
+  kt: 'text/x-kotlin',
+  rb: 'text/x-ruby',
+  php: 'text/x-php',
+  c: 'text/x-c',
+  h: 'text/x-c',
+  cpp: 'text/x-c++',
+  hpp: 'text/x-c++',
+  cs: 'text/x-csharp',
+  swift: 'text/x-swift',
+  sh: 'text/x-shellscript',
+  sql: 'application/sql',
+  css: 'text/css',
+  scss: 'text/x-scss',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  toml: 'application/toml',
+};
+
+const EXTRACTORS: Extractor[] = [
+  { format: 'text', mimeTypes: ['text/plain'], extensions: ['txt', 'text', 'log'], extract: identity },
+  {
+    format: 'markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown', 'mdx'],
+    chunkStrategy: 'markdown-heading',
+    extract: identity,
+  },
+  {
+    format: 'csv',
+    mimeTypes: ['text/csv', 'text/tab-separated-values'],
+    extensions: ['csv', 'tsv'],
+    chunkStrategy: 'line',
+    extract: (source) => extractDelimited(source, detectDelimiter(source)),
+  },
+  {
+    format: 'json',
+    mimeTypes: ['application/json'],
+    extensions: ['json'],
+    chunkStrategy: 'line',
+    extract: (source) => flattenJson(source) ?? identity(source),
+  },
+  {
+    format: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    chunkStrategy: 'markdown-heading',
+    extract: (source) => extractHtml(source),
+  },
+  {
+    format: 'code',
+    mimeTypes: Array.from(new Set(Object.values(CODE_MIME_TYPES))),
+    extensions: Object.keys(CODE_MIME_TYPES),
+    chunkStrategy: 'code-block',
+    extract: identity,
+  },
+  {
+    format: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    chunkStrategy: 'paragraph',
+    extractPages: extractPdfPages,
+  },
+  {
+    format: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    chunkStrategy: 'paragraph',
+    extractPages: extractDocxPages,
+  },
+];
+
+export const SUPPORTED_EXTENSIONS = EXTRACTORS.flatMap((extractor) => extractor.extensions);
+
+function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+function baseMimeType(contentType: string | null | undefined): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * The extension decides first, since browsers label many of these files
+ * `application/octet-stream`; the MIME type covers files without a known extension.
+ */
+function resolveExtractor(fileName: string, contentType?: string | null): Extractor | null {
+  const extension = fileExtension(fileName);
+  const mimeType = baseMimeType(contentType);
+  return (
+    EXTRACTORS.find((extractor) => extractor.extensions.includes(extension)) ??
+    EXTRACTORS.find((extractor) => extractor.mimeTypes.includes(mimeType)) ??
+    null
+  );
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  return EXTRACTORS.some((extractor) => extractor.extensions.includes(fileExtension(fileName)));
+}
+
+export function assertSupportedFile(fileName: string): void {
+  if (!isSupportedFile(fileName)) {
+    const extensions = SUPPORTED_EXTENSIONS.map((extension) => `.${extension}`).join(', ');
+    throw new HTTPException(400, { message: `Unsupported file type; upload one of ${extensions}` });
+  }
+}
+
+/** What `files.mime_type` records: the upload's own type when it fits the format, otherwise the format's. */
+export function mimeTypeForFile(fileName: string, declared?: string | null): string {
+  const extractor = resolveExtractor(fileName, declared);
+  const mimeType = baseMimeType(declared);
+  if (!extractor) return mimeType || 'application/octet-stream';
+  if (extractor.mimeTypes.includes(mimeType)) return mimeType;
+  return CODE_MIME_TYPES[fileExtension(fileName)] ?? extractor.mimeTypes[0];
+}
+
+export function defaultChunkStrategy(format: DocumentFormat): ChunkStrategyName | undefined {
+  return EXTRACTORS.find((extractor) => extractor.format === format)?.chunkStrategy;
+}
+
+export function resolveFormat(fileName: string, contentType?: string | null): DocumentFormat | null {
+  return resolveExtractor(fileName, contentType)?.format ?? null;
+}
+
+/** Formats read from the uploaded bytes with {@link extractPagedText} rather than from UTF-8 text. */
+export function isPagedFormat(format: DocumentFormat): boolean {
+  return Boolean(EXTRACTORS.find((extractor) => extractor.format === format)?.extractPages);
+}
+
+/** Formats indexed as uploaded, so each extracted line is the file's line of the same number. */
+export function keepsSourceLines(format: DocumentFormat): boolean {
+  return EXTRACTORS.find((extractor) => extractor.format === format)?.extract === identity;
+}
+
+/**
+ * Picks the extractor for a text file and runs it, or returns `null` for formats we can't read
+ * as text (including paged ones).
+ */
+export function extractDocument(fileName: string, contentType: string | null, source: string): ExtractedText | null {
+  const extractor = resolveExtractor(fileName, contentType);
+  if (!extractor?.extract) return null;
+  return { format: extractor.format, ...extractor.extract(source) };
+}
+
+/**
+ * Extracts a paged document as plain text with a form feed opening every page after the first,
+ * the way `pdftotext` lays pages out. This is the text cached next to the original upload.
+ */
+export async function extractPagedText(format: DocumentFormat, bytes: Uint8Array): Promise<string> {
+  const extractor = EXTRACTORS.find((candidate) => candidate.format === format);
+  if (!extractor?.extractPages) {
+    throw new Error(`${format} is not a paged format`);
+  }
+  const pages = await extractor.extractPages(bytes);
+  return pages.map((page) => page.replace(/\f/g, '').replace(/\s+$/, '')).join('\n\f');
+}
+
+/** Splits text from {@link extractPagedText} back into lines with the page and paragraph of each. */
+export function fromPagedText(format: DocumentFormat, paged: string): ExtractedText {
+  const positions: TextPosition[] = [];
+  let page = 1;
+  let paragraph = 0;
+  let afterBlank = true;
+  const lines = paged.split('\n').map((line) => {
+    if (line.startsWith('\f')) {
+      page += 1;
+      paragraph = 0;
+      afterBlank = true;
+      line = line.slice(1);
+    }
+    const blank = !line.trim();
+    if (!blank && afterBlank) paragraph += 1;
+    afterBlank = blank;
+    positions.push({ page, paragraph: Math.max(paragraph, 1) });
+    return line;
+  });
+  return { format, text: lines.join('\n'), lineMap: null, positions };
+}
+
+/** Moves chunk line numbers from the extracted text back onto the original file. */
+export function mapChunkLines(chunks: TextChunk[], lineMap: LineSpan[] | null): TextChunk[] {
+  if (!lineMap?.length) return chunks;
+  const spanAt = (line: number) => lineMap[Math.min(Math.max(line, 1), lineMap.length) - 1];
+  return chunks.map((chunk) => {
+    const spans = Array.from({ length: chunk.endLine - chunk.startLine + 1 }, (_, offset) =>
+      spanAt(chunk.startLine + offset),
+    );
+    return {
+      ...chunk,
+      startLine: Math.min(...spans.map(([start]) => start)),
+      endLine: Math.max(...spans.map(([, end]) => end)),
+    };
+  });
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function detectDelimiter(source: string): string {
+  const header = source.slice(0, source.indexOf('\n') === -1 ? undefined : source.indexOf('\n'));
+  return (header.match(/\t/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? '\t' : ',';
+}
+
+/** RFC 4180 records with the lines each one spans; quoted cells may hold delimiters and newlines. */
+function parseDelimited(source: string, delimiter: string): Array<{ cells: string[]; span: LineSpan }> {
+  const records: Array<{ cells: string[]; span: LineSpan }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    records.push({ cells, span: [start, line] });
+    cells = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRecord();
+      line += 1;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length) endRecord();
+  return records;
+}
+
+/** One line per row, each cell prefixed with its column header: `name: Ada; team: Infra`. */
+function extractDelimited(source: string, delimiter: string): Omit<ExtractedText, 'format'> {
+  const [header, ...rows] = parseDelimited(source, delimiter);
+  if (!header) return { text: '', lineMap: [] };
+  const columns = header.cells.map((name, index) => collapseWhitespace(name) || `column ${index + 1}`);
+
+  const lines: string[] = [];
+  const lineMap: LineSpan[] = [];
+  rows.forEach(({ cells, span }) => {
+    const fields = cells
+      .map((value, index) => [columns[index] ?? `column ${index + 1}`, collapseWhitespace(value)])
+      .filter(([, value]) => value)
+      .map(([name, value]) => `${name}: ${value}`);
+    if (!fields.length) return;
+    lines.push(fields.join('; '));
+    lineMap.push(span);
+  });
+  return { text: lines.join('\n'), lineMap };
+}
+
+const JSON_STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const JSON_LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+const JSON_IDENTIFIER = /^[A-Za-z_$][\w$-]*$/;
+
+/**
+ * One `path: value` line per leaf (`server.ports[0]: 8080`), mapped to the lines the leaf
+ * occupies in the file. Returns `null` for invalid JSON so it can be indexed as plain text.
+ */
+function flattenJson(source: string): Omit<ExtractedText, 'format'> | null {
+  let position = 0;
+  let line = 1;
+  const lines: string[] = [];
+  const lineMap: LineSpan[] = [];
+
+  const skipWhitespace = () => {
+    while (position < source.length && /\s/.test(source[position])) {
+      if (source[position] === '\n') line += 1;
+      position += 1;
+    }
+  };
+  const token = (pattern: RegExp): string => {
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) throw new SyntaxError(`Unexpected JSON at offset ${position}`);
+    position += match[0].length;
+    return match[0];
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (source[position] !== char) throw new SyntaxError(`Expected "${char}" at offset ${position}`);
+    position += 1;
+  };
+  const emit = (path: string, value: string, start: number) => {
+    lines.push(path ? `${path}: ${value}` : value);
+    lineMap.push([start, line]);
+  };
+  const child = (path: string, key: string) =>
+    JSON_IDENTIFIER.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+
+  const value = (path: string, start: number) => {
+    skipWhitespace();
+    const char = source[position];
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      position += 1;
+      skipWhitespace();
+      if (source[position] === close) {
+        position += 1;
+        emit(path, `${char}${close}`, start);
+        return;
+      }
+      for (let index = 0; ; index++) {
+        skipWhitespace();
+        const entryStart = line;
+        if (char === '{') {
+          const key = JSON.parse(token(JSON_STRING)) as string;
+          expect(':');
+          value(child(path, key), entryStart);
+        } else {
+          value(`${path}[${index}]`, entryStart);
+        }
+        skipWhitespace();
+        if (source[position] === close) break;
+        expect(',');
+      }
+      position += 1;
+    } else if (char === '"') {
+      emit(path, collapseWhitespace(JSON.parse(token(JSON_STRING)) as string), start);
+    } else {
+      emit(path, token(JSON_LITERAL), start);
+    }
+  };
+
+  try {
+    value('', 1);
+    skipWhitespace();
+    if (position < source.length) return null;
+  } catch {
+    return null;
+  }
+  return { text: lines.join('\n'), lineMap };
+}
+
+const HTML_SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'svg']);
+const HTML_BLOCKS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'br', 'caption', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'li', 'main',
+  'nav', 'ol', 'p', 'pre', 'section', 'table', 'title', 'tr', 'ul',
+]);
+/** Closing one of these leaves a blank line, so paragraphs stay paragraphs. */
+const HTML_PARAGRAPHS = new Set(['blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ol', 'p', 'pre', 'table', 'ul']);
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+const HTML_TOKEN = /<!--[\s\S]*?(?:-->|$)|<[!?][^>]*>|<(\/?)([a-zA-Z][\w-]*)\b[^>]*>|[^<]+|</g;
+
+function countNewlines(text: string): number {
+  return text.match(/\n/g)?.length ?? 0;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? Number.parseInt(name.slice(2), 16) : Number.parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Readable text from HTML: markup, scripts and styles are dropped, block elements become lines,
+ * headings become Markdown headings, list items `- ` bullets and table rows `a | b` lines.
+ * `<pre>` keeps its line breaks.
+ */
+function extractHtml(source: string): Omit<ExtractedText, 'format'> {
+  const lines: string[] = [];
+  const lineMap: LineSpan[] = [];
+  let current = '';
+  let span: LineSpan | null = null;
+  let prefix = '';
+  let skipping: string | null = null;
+  let preformatted = 0;
+  let blankPending = false;
+  let line = 1;
+
+  const flush = () => {
+    const text = current.trim();
+    if (text && span) {
+      if (blankPending && lines.length) {
+        lines.push('');
+        lineMap.push([lineMap[lineMap.length - 1][1], lineMap[lineMap.length - 1][1]]);
+      }
+      lines.push(prefix + (preformatted ? current.replace(/\s+$/, '') : text));
+      lineMap.push(span);
+      blankPending = false;
+    }
+    current = '';
+    span = null;
+  };
+  const append = (text: string, start: number, end: number) => {
+    if (!text.trim()) {
+      if (current) current += text;
+      return;
+    }
+    current += text;
+    span = span ? [span[0], end] : [start, end];
+  };
+
+  for (const match of source.matchAll(HTML_TOKEN)) {
+    const [token, closing, rawTag] = match;
+    const tag = rawTag?.toLowerCase();
+
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+    } else if (token.startsWith('<!') || token.startsWith('<?')) {
+      // Comments, doctypes and processing instructions carry no text
+    } else if (tag && HTML_SKIPPED.has(tag)) {
+      if (!closing && !token.endsWith('/>')) skipping = tag;
+    } else if (tag === 'td' || tag === 'th') {
+      if (!closing && current.trim()) current = `${current.trimEnd()} | `;
+    } else if (tag && HTML_BLOCKS.has(tag)) {
+      flush();
+      if (closing) {
+        prefix = '';
+        if (tag === 'pre') preformatted = Math.max(0, preformatted - 1);
+        if (HTML_PARAGRAPHS.has(tag)) blankPending = true;
+      } else if (/^h[1-6]$/.test(tag)) {
+        prefix = `${'#'.repeat(Number(tag[1]))} `;
+        blankPending = true;
+      } else if (tag === 'li') {
+        prefix = '- ';
+      } else if (tag === 'pre') {
+        preformatted += 1;
+        blankPending = true;
+      } else if (HTML_PARAGRAPHS.has(tag)) {
+        blankPending = true;
+      }
+    } else if (!tag) {
+      const text = decodeEntities(token);
+      if (preformatted) {
+        text.split('\n').forEach((piece, index) => {
+          if (index > 0) {
+            flush();
+            line += 1;
+          }
+          append(piece, line, line);
+        });
+        continue;
+      }
+      const start = line + countNewlines(token.slice(0, token.length - token.trimStart().length));
+      append(text.replace(/\s+/g, ' '), start, start + countNewlines(token.trim()));
+    }
+    line += countNewlines(token);
+  }
+  flush();
+  return { text: lines.join('\n'), lineMap };
+}
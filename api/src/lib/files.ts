@@ -0,0 +1,151 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  assertFolderAccess,
+  deleteChunksForFile,
+  deleteFile,
+  deleteFileVersions,
+  getChunksForFile,
+  getFile,
+  getFolder,
+  listFileVersions,
+  listFolderFiles,
+  updateChunksForFile,
+  updateFileRecord,
+  type FileWithFolder,
+} from './db';
+import { assertSupportedFile } from './extractors';
+import { createEmbeddings } from './providers';
+import { buildObjectKey, deleteObject, derivedTextKey, moveObject } from './storage';
+import {
+  deleteChunkVectors,
+  relocateChunkVectors,
+  timestampToEpochMs,
+  upsertChunkVector,
+  type VectorMetadata,
+} from './vectorize';
+import type { AuthenticatedUser, FileRecord, MarbleBindings, Visibility } from '../types';
+
+/**
+ * Removes a file from every store: the R2 object, its archived versions and any text derived
+ * from it, its D1 chunks, versions and row, and the vectors that were indexed for those chunks.
+ */
+export async function purgeFile(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'id' | 'r2_key' | 'visibility' | 'owner_id'>,
+): Promise<{ chunks: number }> {
+  await deleteObject(env, file.r2_key);
+  await deleteObject(env, derivedTextKey(file.id));
+  for (const version of await listFileVersions(env, file.id)) {
+    if (version.r2_key) await deleteObject(env, version.r2_key);
+  }
+  const chunkIds = await deleteChunksForFile(env, file.id);
+  await deleteFileVersions(env, file.id);
+  await deleteFile(env, file.id);
+  if (chunkIds.length) {
+    await deleteChunkVectors(env, chunkIds, file.visibility, file.owner_id);
+  }
+  return { chunks: chunkIds.length };
+}
+
+export interface FileChanges {
+  name?: string;
+  visibility?: Visibility;
+  folderId?: string;
+}
+
+/**
+ * Renames, moves or re-scopes a file. The R2 object follows its key prefix, D1 rows are
+ * updated, and vectors are re-written so they are only searchable from the new namespace.
+ */
+export async function applyFileChanges(
+  env: MarbleBindings,
+  file: FileWithFolder,
+  changes: FileChanges,
+  user: Pick<AuthenticatedUser, 'id' | 'tenant'>,
+): Promise<void> {
+  let folderName = file.folder_name;
+  if (changes.folderId && changes.folderId !== file.folder_id) {
+    const folder = await getFolder(env, changes.folderId);
+    assertFolderAccess(folder, user);
+    folderName = folder.name;
+  }
+
+  const next = {
+    file_name: changes.name ?? file.file_name,
+    visibility: changes.visibility ?? file.visibility,
+    folder_id: changes.folderId ?? file.folder_id,
+  };
+  assertSupportedFile(next.file_name);
+
+  const r2Key = buildObjectKey({
+    visibility: next.visibility,
+    ownerId: file.owner_id,
+    folderId: next.folder_id,
+    fileId: file.id,
+    fileName: next.file_name,
+  });
+  await moveObject(env, file.r2_key, r2Key);
+
+  await updateFileRecord(env, file.id, { ...next, r2_key: r2Key });
+  await updateChunksForFile(env, file.id, { folder_id: next.folder_id, visibility: next.visibility });
+
+  const chunks = await getChunksForFile(env, file.id);
+  const metadata: VectorMetadata[] = chunks.map((chunk) => ({
+    chunkId: chunk.id,
+    fileId: file.id,
+    folderId: next.folder_id,
+    folderName,
+    fileName: next.file_name,
+    startLine: chunk.start_line,
+    endLine: chunk.end_line,
+    visibility: next.visibility,
+    ownerId: file.owner_id,
+    createdAt: timestampToEpochMs(file.created_at),
+  }));
+
+  const { missing } = await relocateChunkVectors(env, metadata, {
+    visibility: file.visibility,
+    ownerId: file.owner_id,
+  });
+
+  if (missing.length) {
+    // Stored values were unavailable, so re-embed from the chunk text instead
+    const contentById = new Map(chunks.map((chunk) => [chunk.id, chunk.content]));
+    const embeddings = await createEmbeddings(
+      env,
+      missing.map((entry) => contentById.get(entry.chunkId) ?? ''),
+    );
+    for (let index = 0; index < missing.length; index += 1) {
+      await upsertChunkVector(env, missing[index].chunkId, embeddings[index], missing[index]);
+    }
+  }
+
+  console.log('File updated', {
+    fileId: file.id,
+    visibility: next.visibility,
+    folderId: next.folder_id,
+    chunks: chunks.length,
+    reembedded: missing.length,
+  });
+}
+
+/**
+ * Gives every file in a folder (outside the trash) the folder's visibility, moving each one's
+ * object and vectors with applyFileChanges(). Files that already have it are skipped, so setting
+ * the visibility again finishes a change that failed part-way.
+ */
+export async function applyFolderVisibility(
+  env: MarbleBindings,
+  folderId: string,
+  visibility: Visibility,
+  user: Pick<AuthenticatedUser, 'id' | 'tenant'>,
+): Promise<{ files: number }> {
+  let files = 0;
+  for (const { id } of await listFolderFiles(env, folderId)) {
+    const file = await getFile(env, id);
+    if (!file || file.visibility === visibility) continue;
+    await applyFileChanges(env, file, { visibility }, user);
+    files += 1;
+  }
+  return { files };
+}
@@ -1,155 +1,306 @@
 import { HTTPException } from 'hono/http-exception';
-import { chunkText } from './chunk';
-import { createEmbeddings, OpenAIError } from './openai';
+import { hashChunkContent, type TextChunk } from './chunk';
 import {
-  deleteChunksForFile,
-  getFileById,
-  insertChunk,
+  completeIngestJob,
+  createIngestJob,
+  deleteStaleChunksForFile,
+  failIngestJob,
+  getActiveIngestJob,
+  getChunksForFile,
+  getFile,
+  getIngestJob,
+  markIngestJobRunning,
+  recordIngestJobAttempt,
+  retainChunks,
   updateFileStatus,
+  updateIngestJobProgress,
+  type FileWithFolder,
 } from './db';
-import { deleteChunkVectors, upsertChunkVector } from './vectorize';
-import type { MarbleBindings } from '../types';
+import { envNumber } from './env';
+import {
+  chunkVectorMetadata,
+  defaultIngestPipeline,
+  ingestChunks,
+  IngestStageError,
+  prepareDocument,
+  type IngestContext,
+  type IngestPipeline,
+} from './pipeline';
+import { deleteIngestPlan, getIngestPlan, putIngestPlan } from './storage';
+import { deleteChunkVectors, relocateChunkVectors, resolveActiveVectorIndex } from './vectorize';
+import { handleReindexMessage } from './reindex';
+import type { ChunkRecord, IngestJobRecord, IngestMessage, MarbleBindings, QueueMessage, ReindexMessage } from '../types';
 
-function parseNumber(value: string | undefined, fallback: number): number {
-  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
-  return Number.isFinite(parsed) ? parsed : fallback;
-}
+const MAX_INGEST_ATTEMPTS = 3;
 
-// Normalize whatever the embeddings provider returns to number[][]
-function normalizeEmbeddings(maybe: any): number[][] {
-  if (maybe && Array.isArray(maybe.data)) {
-    return maybe.data.map((d: any) => d.embedding);
+/**
+ * Creates an ingest job for the file and hands it to the queue. Without a queue binding
+ * (e.g. `wrangler dev` with no queues) the job runs to completion inline. A file has at most one
+ * queued or running job per version, since each job ends by deleting the chunks it didn't write;
+ * asking again while one is in flight returns that job.
+ */
+export async function enqueueIngest(
+  env: MarbleBindings,
+  file: Pick<FileWithFolder, 'id' | 'owner_id' | 'tenant'>,
+): Promise<IngestJobRecord> {
+  const active = await getActiveIngestJob(env, file.id);
+  if (active) {
+    return active;
   }
-  if (Array.isArray(maybe) && Array.isArray(maybe[0])) {
-    return maybe as number[][];
+
+  const jobId = crypto.randomUUID();
+  try {
+    await createIngestJob(env, { id: jobId, file_id: file.id, owner_id: file.owner_id, tenant: file.tenant });
+  } catch (error) {
+    // Another request created the job between the lookup and the insert
+    const raced = await getActiveIngestJob(env, file.id);
+    if (raced) {
+      return raced;
+    }
+    throw error;
   }
-  if (Array.isArray(maybe) && typeof maybe[0] === 'number') {
-    return [maybe as number[]];
+
+  if (env.MARBLE_INGEST_QUEUE) {
+    await env.MARBLE_INGEST_QUEUE.send({ jobId, fileId: file.id } satisfies IngestMessage);
+  } else {
+    await runIngestJob(env, jobId);
   }
-  if (maybe && Array.isArray(maybe.vectors)) {
-    return maybe.vectors as number[][];
+
+  const job = await getIngestJob(env, jobId);
+  if (!job) {
+    throw new HTTPException(500, { message: 'Unable to load ingest job' });
   }
-  throw new Error('Embedding response not in a known format');
+  return job;
 }
 
-export async function ingestFileById(env: MarbleBindings, fileId: string, actingUserId: string): Promise<{ chunks: number }>
-{
-  const file = await getFileById(env, fileId);
-  if (!file) {
-    throw new HTTPException(404, { message: 'File not found' });
-  }
-  if (file.owner_id !== actingUserId) {
-    throw new HTTPException(403, { message: 'You can only ingest your own files' });
+/** Processes every remaining batch of a job in the current invocation. */
+export async function runIngestJob(env: MarbleBindings, jobId: string): Promise<void> {
+  for (;;) {
+    const job = await getIngestJob(env, jobId);
+    if (!job || job.status === 'succeeded' || job.status === 'failed') {
+      return;
+    }
+    try {
+      const { done } = await processIngestBatch(env, job);
+      if (done) return;
+    } catch (error) {
+      const message = (error as Error)?.message || String(error);
+      console.error('Inline ingest failed', { jobId, error: message });
+      await abandonIngestJob(env, job, message);
+      return;
+    }
   }
+}
+
+/**
+ * Queue consumer. Each message advances its job by one batch and re-enqueues itself until
+ * the job is complete, so a failure only replays the batch that was in flight. Re-index
+ * messages share the queue and are handed to the re-index.
+ */
+export async function handleIngestQueue(batch: MessageBatch<QueueMessage>, env: MarbleBindings): Promise<void> {
+  for (const message of batch.messages) {
+    if ('reindexGeneration' in message.body) {
+      await handleReindexMessage(message as Message<ReindexMessage>, env);
+      continue;
+    }
+    const { jobId } = message.body;
+    const job = await getIngestJob(env, jobId);
+    if (!job || job.status === 'succeeded' || job.status === 'failed') {
+      message.ack();
+      continue;
+    }
 
-  const object = await env.MARBLE_FILES.get(file.r2_key);
-  if (!object) {
-    throw new HTTPException(404, { message: 'Uploaded object not found in R2' });
+    try {
+      const { done } = await processIngestBatch(env, job);
+      if (!done && env.MARBLE_INGEST_QUEUE) {
+        await env.MARBLE_INGEST_QUEUE.send({ jobId, fileId: job.file_id });
+      }
+      message.ack();
+    } catch (error) {
+      const reason = (error as Error)?.message || String(error);
+      console.error('Ingest batch failed', { jobId, attempts: message.attempts, error: reason });
+      if (error instanceof IngestStageError || message.attempts >= MAX_INGEST_ATTEMPTS) {
+        await abandonIngestJob(env, job, reason);
+        message.ack();
+      } else {
+        await recordIngestJobAttempt(env, jobId, reason);
+        message.retry({ delaySeconds: 2 ** message.attempts * 5 });
+      }
+    }
   }
+}
+
+/** Fails the job and drops the plan its batches were paging through. */
+async function abandonIngestJob(env: MarbleBindings, job: IngestJobRecord, reason: string): Promise<void> {
+  await failIngestJob(env, job.id, reason);
+  await deleteIngestPlan(env, job.file_id, job.id);
+}
 
-  const text = await object.text();
-  const chunkSize = parseNumber(env.CHUNK_SIZE, 1500);
-  const overlap = parseNumber(env.CHUNK_OVERLAP, 200);
-  const chunks = chunkText(text, { chunkSize, overlap });
+/** The part of a stored chunk a diff keeps; the rest stays in D1. */
+type StoredChunk = Pick<ChunkRecord, 'id' | 'start_line' | 'end_line'>;
 
-  if (!chunks.length) {
-    throw new HTTPException(400, { message: 'No content found to ingest' });
+interface ChunkDiff {
+  /** New or changed chunks; the job embeds these. */
+  added: TextChunk[];
+  /** Chunks an earlier ingest already stored, paired with the stored row they keep. */
+  unchanged: Array<{ chunk: TextChunk; previous: StoredChunk }>;
+  /** Stored chunks the document no longer has. */
+  removed: StoredChunk[];
+}
+
+/**
+ * Matches the document's chunks to the file's stored chunks by content hash; repeated content
+ * pairs off with stored copies in order. Chunks the job wrote itself are left out, so every batch
+ * of a job sees the same diff.
+ */
+async function diffChunks(env: MarbleBindings, fileId: string, jobId: string, chunks: TextChunk[]): Promise<ChunkDiff> {
+  const stored = (await getChunksForFile(env, fileId)).filter((row) => !row.id.startsWith(`${jobId}:`));
+  const byHash = new Map<string, ChunkRecord[]>();
+  for (const row of stored) {
+    // Chunks stored before hashes were recorded are hashed on the fly
+    const hash = row.content_hash ?? (await hashChunkContent(row.content));
+    byHash.set(hash, [...(byHash.get(hash) ?? []), row]);
   }
 
-  let rawEmbeddings: number[][] | any;
-  try {
-    rawEmbeddings = await createEmbeddings(
-      env,
-      chunks.map((chunk) => chunk.content),
-    );
-  } catch (error) {
-    console.error('Embedding generation failed', error);
-    if (error instanceof OpenAIError) {
-      throw new HTTPException(502, { message: error.message });
+  const pick = ({ id, start_line, end_line }: ChunkRecord): StoredChunk => ({ id, start_line, end_line });
+  const diff: ChunkDiff = { added: [], unchanged: [], removed: [] };
+  for (const chunk of chunks) {
+    const previous = byHash.get(chunk.contentHash ?? (await hashChunkContent(chunk.content)))?.shift();
+    if (previous) diff.unchanged.push({ chunk, previous: pick(previous) });
+    else diff.added.push(chunk);
+  }
+  const kept = new Set(diff.unchanged.map(({ previous }) => previous.id));
+  diff.removed = stored.filter((row) => !kept.has(row.id)).map(pick);
+  return diff;
+}
+
+/**
+ * The job's chunk diff. The first batch prepares and diffs the file once and stores the result in
+ * R2, and later batches page through that copy. A plan that has gone missing is worked out again,
+ * which gives the same diff since chunks the job wrote are left out of it.
+ */
+async function loadIngestPlan(pipeline: IngestPipeline, context: IngestContext, job: IngestJobRecord): Promise<ChunkDiff> {
+  const { env, file } = context;
+  if (job.status !== 'queued') {
+    const stored = await getIngestPlan(env, file.id, job.id);
+    if (stored) {
+      return JSON.parse(stored) as ChunkDiff;
     }
-    throw new HTTPException(500, { message: (error as Error)?.message || String(error) });
   }
+  const diff = await diffChunks(env, file.id, job.id, await prepareDocument(pipeline, context));
+  await putIngestPlan(env, file.id, job.id, JSON.stringify(diff));
+  return diff;
+}
 
-  let embeddings: number[][];
-  try {
-    embeddings = normalizeEmbeddings(rawEmbeddings);
-  } catch (e: any) {
-    console.error('normalizeEmbeddings failed', e);
-    throw new HTTPException(500, {
-      message: `Failed to parse embeddings: ${e?.message || String(e)}`,
-    });
+/**
+ * Unchanged chunks keep their vectors, but vector metadata carries line numbers, so chunks that
+ * moved are re-written in place. Vectors the store can't read back are embedded again.
+ */
+async function reindexMovedChunks(
+  pipeline: IngestPipeline,
+  context: IngestContext,
+  unchanged: ChunkDiff['unchanged'],
+): Promise<void> {
+  const moved = unchanged
+    .filter(({ chunk, previous }) => chunk.startLine !== previous.start_line || chunk.endLine !== previous.end_line)
+    .map(({ chunk, previous }) => ({ ...chunk, id: previous.id }));
+  if (!moved.length) {
+    return;
   }
 
-  if (embeddings.length !== chunks.length) {
-    throw new HTTPException(500, {
-      message: `Embedding count mismatch: got ${embeddings.length}, expected ${chunks.length}`,
-    });
+  const { file } = context;
+  const { missing } = await relocateChunkVectors(
+    context.env,
+    moved.map((chunk) => chunkVectorMetadata(file, chunk)),
+    { visibility: file.visibility, ownerId: file.owner_id },
+  );
+  if (missing.length) {
+    const missingIds = new Set(missing.map((entry) => entry.chunkId));
+    const lost = moved.filter((chunk) => missingIds.has(chunk.id));
+    const embedded = await pipeline.embed(context, lost);
+    await pipeline.index(
+      context,
+      embedded.map((chunk, index) => ({ ...chunk, id: lost[index].id })),
+    );
   }
+}
 
-  const existing = await deleteChunksForFile(env, file.id);
-  if (existing.length) {
-    try {
-      await deleteChunkVectors(env, existing, file.visibility, file.owner_id);
-    } catch (error) {
-      console.error('Vector delete failed', { fileId: file.id, error });
-      throw error;
-    }
+/**
+ * Loads the job's chunk diff (see {@link loadIngestPlan}), then embeds, persists and indexes the
+ * next `INGEST_BATCH_SIZE` new or changed chunks after the job's recorded progress. Once the final
+ * batch lands, unchanged chunks are carried over at their new positions and chunks the document
+ * no longer has are swapped out.
+ */
+export async function processIngestBatch(
+  env: MarbleBindings,
+  job: IngestJobRecord,
+  pipeline: IngestPipeline = defaultIngestPipeline,
+): Promise<{ done: boolean }> {
+  const file = await getFile(env, job.file_id);
+  if (!file) {
+    throw new IngestStageError('fetch', 'File not found');
+  }
+  // A newer upload replaced the object this job was queued for; its own job ingests it
+  if (job.file_version && (file.current_version ?? 1) > job.file_version) {
+    await abandonIngestJob(env, job, `Superseded by version ${file.current_version}`);
+    return { done: true };
   }
 
-  let insertedChunks = 0;
-  for (let index = 0; index < chunks.length; index += 1) {
-    const chunk = chunks[index];
-    const chunkId = crypto.randomUUID();
+  const context: IngestContext = { env, file, jobId: job.id, vectorIndex: await resolveActiveVectorIndex(env) };
+  const diff = await loadIngestPlan(pipeline, context, job);
 
-    await insertChunk(env, {
-      id: chunkId,
-      file_id: file.id,
-      folder_id: file.folder_id,
-      owner_id: file.owner_id,
-      visibility: file.visibility,
-      chunk_index: index,
-      start_line: chunk.startLine,
-      end_line: chunk.endLine,
-      content: chunk.content,
+  if (job.status === 'queued') {
+    await markIngestJobRunning(env, job.id, {
+      total_chunks: diff.added.length,
+      unchanged_chunks: diff.unchanged.length,
+      removed_chunks: diff.removed.length,
     });
+  }
 
-    try {
-      await upsertChunkVector(env, chunkId, embeddings[index], {
-        chunkId,
-        fileId: file.id,
-        folderId: file.folder_id,
-        folderName: file.folder_name,
-        fileName: file.file_name,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        visibility: file.visibility,
-        ownerId: file.owner_id,
-      });
-    } catch (error) {
-      console.error('Vector upsert failed for chunk', chunkId, error);
-      throw error;
-    }
+  const batchSize = Math.max(1, envNumber(env.INGEST_BATCH_SIZE, 50));
+  const batch = diff.added.slice(job.processed_chunks, job.processed_chunks + batchSize);
+  await ingestChunks(pipeline, context, batch);
 
-    if (index === 0) {
-      console.log('First chunk upserted', {
-        fileId: file.id,
-        chunkId,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        visibility: file.visibility,
-      });
-    }
+  const processed = job.processed_chunks + batch.length;
+  await updateIngestJobProgress(env, job.id, processed);
+
+  if (processed < diff.added.length) {
+    return { done: false };
+  }
+
+  await retainChunks(
+    env,
+    job.id,
+    diff.unchanged.map(({ chunk, previous }) => ({
+      id: previous.id,
+      chunk_index: chunk.index,
+      start_line: chunk.startLine,
+      end_line: chunk.endLine,
+      chunk_strategy: chunk.strategy ?? null,
+      page: chunk.page ?? null,
+      paragraph: chunk.paragraph ?? null,
+      content_hash: chunk.contentHash ?? null,
+    })),
+  );
+  await reindexMovedChunks(pipeline, context, diff.unchanged);
 
-    insertedChunks += 1;
+  const stale = await deleteStaleChunksForFile(env, file.id, job.id);
+  if (stale.length) {
+    await deleteChunkVectors(env, stale, file.visibility, file.owner_id);
   }
 
   await updateFileStatus(env, file.id, 'ready');
+  await completeIngestJob(env, job.id);
+  await deleteIngestPlan(env, file.id, job.id);
 
   console.log('Ingest completed', {
     fileId: file.id,
-    chunks: insertedChunks,
+    jobId: job.id,
+    added: processed,
+    unchanged: diff.unchanged.length,
+    removed: stale.length,
     visibility: file.visibility,
   });
 
-  return { chunks: insertedChunks };
+  return { done: true };
 }
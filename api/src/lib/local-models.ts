@@ -0,0 +1,131 @@
+import type { ChatProvider, ChatRequest, ContextBlock, EmbeddingProvider } from './providers';
+import { contentTerms, tokenize } from './text';
+import type { ChatCitation, ChatResult } from '../types';
+
+/**
+ * Offline stand-ins for the hosted models. Both are deterministic so the whole RAG loop
+ * (ingest → retrieve → answer) can run in CI and without network access.
+ */
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 1536;
+
+/** 32-bit FNV-1a. */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+/**
+ * Feature-hashes unigrams and bigrams into a fixed-size, L2-normalised vector. Texts that
+ * share vocabulary end up with a high cosine similarity, which is all retrieval needs.
+ */
+export function hashEmbedding(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const terms = tokenize(text);
+  const features = [...terms, ...terms.slice(1).map((term, index) => `${terms[index]} ${term}`)];
+
+  for (const feature of features) {
+    const bucket = hash(feature);
+    const sign = bucket & 0x80000000 ? -1 : 1;
+    vector[bucket % dimensions] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+}
+
+export function createLocalEmbeddingProvider(dimensions = LOCAL_EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: `local-hash-${dimensions}`,
+    embed: async (input) => input.map((text) => hashEmbedding(text, dimensions)),
+  };
+}
+
+const MAX_EXTRACTED_LINES = 3;
+
+interface ScoredLine {
+  context: ContextBlock;
+  line: number;
+  text: string;
+  score: number;
+}
+
+/**
+ * Picks the source lines that share the most terms with the question and cites them. With
+ * `markers`, each line also ends in its `[n]` source marker, as streamed answers do.
+ */
+export function extractiveAnswer(question: string, contexts: ContextBlock[], { markers = false } = {}): ChatResult {
+  const terms = new Set(contentTerms(question));
+  const scored: ScoredLine[] = [];
+
+  contexts.forEach((context) => {
+    context.content.split('\n').forEach((text, offset) => {
+      const score = contentTerms(text).filter((term) => terms.has(term)).length;
+      if (score > 0) {
+        scored.push({ context, line: context.startLine + offset, text: text.trim(), score });
+      }
+    });
+  });
+
+  const picked = scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EXTRACTED_LINES)
+    .sort((a, b) => contexts.indexOf(a.context) - contexts.indexOf(b.context) || a.line - b.line);
+
+  if (!picked.length) {
+    return { answer: "I couldn't find anything relevant in your Marble files.", citations: [] };
+  }
+
+  const citations: ChatCitation[] = [];
+  picked.forEach(({ context, line }) => {
+    const existing = citations.find(
+      (citation) => citation.folder === context.folderName && citation.file === context.fileName && citation.lines[1] === line - 1,
+    );
+    if (existing) {
+      existing.lines = [existing.lines[0], line];
+    } else {
+      citations.push({ folder: context.folderName, file: context.fileName, lines: [line, line] });
+    }
+  });
+
+  return {
+    answer: picked
+      .map(({ context, text }) => (markers ? `${text} [${contexts.indexOf(context) + 1}]` : text))
+      .join('\n'),
+    citations,
+  };
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  return [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+}
+
+/** Answers from the supplied sources when there are any, otherwise echoes the user back. */
+export function createLocalChatProvider(): ChatProvider {
+  return {
+    name: 'local',
+    model: 'local-extractive',
+    async generate(request) {
+      const question = lastUserMessage(request);
+      if (request.contexts?.length) {
+        return extractiveAnswer(question, request.contexts);
+      }
+      return { answer: `You said: ${question}`, citations: [] };
+    },
+    async *stream(request) {
+      const question = lastUserMessage(request);
+      const answer = request.contexts?.length
+        ? extractiveAnswer(question, request.contexts, { markers: true }).answer
+        : `You said: ${question}`;
+      // Word by word, so the streaming path behaves like a hosted model's
+      for (const piece of answer.match(/\S+\s*/g) ?? []) {
+        yield piece;
+      }
+    },
+  };
+}
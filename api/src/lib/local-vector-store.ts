@@ -0,0 +1,154 @@
+import { deleteChunkVectorRows, getChunkVectorRows, listChunkVectorRows, upsertChunkVectorRow } from './db';
+import {
+  filterFromNamespace,
+  type RawVectorMatch,
+  type StoredVector,
+  type VectorFilter,
+  type VectorFilterCondition,
+  type VectorMetadata,
+  type VectorQuery,
+  type VectorStore,
+} from './vectorize';
+import type { MarbleBindings, Visibility } from '../types';
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function matchesCondition(value: unknown, condition: VectorFilterCondition): boolean {
+  if (condition === null || typeof condition !== 'object') {
+    return value === condition;
+  }
+  if ('$eq' in condition && value !== condition.$eq) return false;
+  if ('$ne' in condition && value === condition.$ne) return false;
+  // A missing field matches a null entry in $in/$nin
+  if (condition.$in && !condition.$in.includes((value ?? null) as never)) return false;
+  if (condition.$nin && condition.$nin.includes((value ?? null) as never)) return false;
+  if (value === undefined || value === null) {
+    return condition.$lt === undefined && condition.$lte === undefined && condition.$gt === undefined && condition.$gte === undefined;
+  }
+  const comparable = value as string | number;
+  if (condition.$lt !== undefined && !(comparable < condition.$lt)) return false;
+  if (condition.$lte !== undefined && !(comparable <= condition.$lte)) return false;
+  if (condition.$gt !== undefined && !(comparable > condition.$gt)) return false;
+  if (condition.$gte !== undefined && !(comparable >= condition.$gte)) return false;
+  return true;
+}
+
+/** Applies a Vectorize-style metadata filter (implicit `$eq`, plus `$ne`, `$in`, `$nin` and ranges). */
+export function matchesFilter(metadata: Partial<VectorMetadata> | Record<string, unknown>, filter: VectorFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) =>
+    matchesCondition((metadata as Record<string, unknown>)[key], condition),
+  );
+}
+
+function rank(candidates: StoredVector[], query: VectorQuery): RawVectorMatch[] {
+  const filter = { ...filterFromNamespace(query.namespace), ...query.filter };
+  return candidates
+    .filter((candidate) => matchesFilter(candidate.metadata, filter))
+    .map((candidate) => ({
+      id: candidate.id,
+      score: cosineSimilarity(query.vector, candidate.values),
+      metadata: candidate.metadata,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, query.topK);
+}
+
+const memoryStores = new WeakMap<MarbleBindings, Map<string, StoredVector>>();
+
+/**
+ * Keeps vectors in a Map for the lifetime of the bindings object (one per isolate in
+ * `wrangler dev`, one per `createTestEnv()` in tests). Nothing survives a restart.
+ */
+export function createMemoryVectorStore(env: MarbleBindings): VectorStore {
+  let vectors = memoryStores.get(env);
+  if (!vectors) {
+    vectors = new Map();
+    memoryStores.set(env, vectors);
+  }
+  const store = vectors;
+
+  return {
+    kind: 'memory',
+    namespaced: false,
+    async upsert(entries) {
+      entries.forEach((entry) => store.set(entry.id, { ...entry, values: [...entry.values] }));
+    },
+    async delete(ids) {
+      ids.forEach((id) => store.delete(id));
+    },
+    async getByIds(ids) {
+      return ids
+        .map((id) => store.get(id))
+        .filter((entry): entry is StoredVector => Boolean(entry))
+        .map((entry) => ({ id: entry.id, values: [...entry.values] }));
+    },
+    async query(query) {
+      return rank(Array.from(store.values()), query);
+    },
+    async list() {
+      return Array.from(store.values(), ({ id, metadata }) => ({ id, metadata }));
+    },
+  };
+}
+
+function fromRow(row: { id: string; embedding: string; metadata: string }): StoredVector {
+  return {
+    id: row.id,
+    values: JSON.parse(row.embedding) as number[],
+    metadata: JSON.parse(row.metadata) as VectorMetadata,
+  };
+}
+
+/** Persists vectors as JSON in the `chunk_vectors` table and scores them in the Worker. */
+export function createD1VectorStore(env: MarbleBindings): VectorStore {
+  return {
+    kind: 'd1',
+    namespaced: false,
+    async upsert(entries) {
+      for (const entry of entries) {
+        await upsertChunkVectorRow(env, {
+          id: entry.id,
+          visibility: entry.metadata.visibility,
+          owner_id: entry.metadata.ownerId,
+          embedding: JSON.stringify(entry.values),
+          metadata: JSON.stringify(entry.metadata),
+        });
+      }
+    },
+    async delete(ids) {
+      await deleteChunkVectorRows(env, ids);
+    },
+    async getByIds(ids) {
+      return (await getChunkVectorRows(env, ids)).map((row) => {
+        const { id, values } = fromRow(row);
+        return { id, values };
+      });
+    },
+    async query(query) {
+      const filter = filterFromNamespace(query.namespace);
+      // Narrow in SQL with the columns we index; the full filter is re-applied in rank()
+      const rows = await listChunkVectorRows(env, {
+        visibility: typeof filter.visibility === 'string' ? (filter.visibility as Visibility) : undefined,
+        ownerId: typeof filter.ownerId === 'string' ? filter.ownerId : undefined,
+      });
+      return rank(rows.map(fromRow), query);
+    },
+    async list() {
+      return (await listChunkVectorRows(env, {})).map((row) => {
+        const { id, metadata } = fromRow(row);
+        return { id, metadata };
+      });
+    },
+  };
+}
@@ -1,52 +1,159 @@
-import type { ChatResult, MarbleBindings } from '../types';
+import { parseRetryAfter } from './embeddings';
+import { readServerSentEvents } from './sse';
+import type { ChatProvider, ChatRequest, EmbeddingProvider, ProviderName } from './providers';
+import type { ChatResult } from '../types';
 
 export class OpenAIError extends Error {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
     super(message);
     this.name = 'OpenAIError';
   }
 }
 
+/** Connection details for api.openai.com or any server that speaks the same API. */
+export interface OpenAIClientConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
 interface EmbeddingResponse {
-  data: Array<{ embedding: number[] }>;
+  data: Array<{ embedding: number[]; index?: number }>;
 }
 
-export async function createEmbeddings(env: MarbleBindings, input: string[]): Promise<number[][]> {
-  if (!env.OPENAI_API_KEY) {
-    throw new OpenAIError('Missing OPENAI_API_KEY binding');
+async function send(config: OpenAIClientConfig, path: string, body: Record<string, unknown>, label: string) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
   }
 
-  const model = env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-3-small';
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}${path}`, {
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      input,
-    }),
+    headers,
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new OpenAIError(`Embedding request failed: ${response.status} ${error}`);
+    throw new OpenAIError(
+      `${label} request failed: ${response.status} ${error}`,
+      response.status,
+      parseRetryAfter(response.headers),
+    );
   }
 
-  const payload = (await response.json()) as EmbeddingResponse;
-  return payload.data.map((item) => item.embedding);
+  return response;
+}
+
+async function post(config: OpenAIClientConfig, path: string, body: Record<string, unknown>, label: string) {
+  const response = await send(config, path, body, label);
+  return (await response.json()) as Record<string, unknown>;
+}
+
+/** POSTs with `stream: true` and yields each parsed `data:` payload until `[DONE]`. */
+async function* postStream(
+  config: OpenAIClientConfig,
+  path: string,
+  body: Record<string, unknown>,
+  label: string,
+): AsyncGenerator<Record<string, unknown>> {
+  const response = await send(config, path, { ...body, stream: true }, label);
+  if (!response.body) {
+    throw new OpenAIError(`${label} stream returned no body`);
+  }
+  for await (const event of readServerSentEvents(response.body)) {
+    if (event.data === '[DONE]') return;
+    yield JSON.parse(event.data) as Record<string, unknown>;
+  }
+}
+
+/** Embeddings through `/embeddings`; works for OpenAI and OpenAI-compatible servers alike. */
+export function createOpenAIEmbeddingProvider(config: OpenAIClientConfig, name: ProviderName = 'openai'): EmbeddingProvider {
+  return {
+    name,
+    model: config.model,
+    async embed(input) {
+      const payload = (await post(config, '/embeddings', { model: config.model, input }, 'Embedding')) as unknown as EmbeddingResponse;
+      // The API documents `index` on each item; sort by it rather than trusting response order
+      return [...payload.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item) => item.embedding);
+    },
+  };
 }
 
-interface ContextBlock {
-  folderName: string;
-  fileName: string;
-  startLine: number;
-  endLine: number;
-  content: string;
+/** Chat through the Responses API with a strict JSON schema for structured answers. */
+export function createOpenAIChatProvider(config: OpenAIClientConfig): ChatProvider {
+  return {
+    name: 'openai',
+    model: config.model,
+    generate: (request) =>
+      callResponses(config, {
+        model: config.model,
+        input: request.messages,
+        text: {
+          format: JSON_SCHEMA_FORMAT,
+        },
+      }),
+    async *stream(request) {
+      for await (const event of postStream(config, '/responses', { model: config.model, input: request.messages }, 'Chat')) {
+        if (event.type === 'response.output_text.delta' && typeof event.delta === 'string') {
+          yield event.delta;
+        } else if (event.type === 'error' || event.type === 'response.failed') {
+          const failure = (event.error ?? (event.response as { error?: unknown } | undefined)?.error) as
+            | { message?: string }
+            | undefined;
+          throw new OpenAIError(`Chat stream failed: ${failure?.message ?? 'unknown error'}`);
+        }
+      }
+    },
+  };
 }
 
-const RESPONSES_ENDPOINT = 'https://api.openai.com/v1/responses';
+/**
+ * Chat through `/chat/completions`, which most self-hosted and third-party gateways implement.
+ * JSON mode support varies, so the schema is spelled out in a system message instead.
+ */
+export function createOpenAICompatibleChatProvider(config: OpenAIClientConfig): ChatProvider {
+  return {
+    name: 'openai-compatible',
+    model: config.model,
+    async generate(request: ChatRequest) {
+      const payload = await post(
+        config,
+        '/chat/completions',
+        {
+          model: config.model,
+          messages: [...request.messages, { role: 'system', content: JSON_ANSWER_INSTRUCTIONS }],
+          response_format: { type: 'json_object' },
+        },
+        'Chat',
+      );
+      const choices = Array.isArray(payload.choices) ? payload.choices : [];
+      const content = (choices[0] as { message?: { content?: unknown } } | undefined)?.message?.content;
+      return parseChatResultText(typeof content === 'string' ? content : '');
+    },
+    async *stream(request) {
+      const events = postStream(config, '/chat/completions', { model: config.model, messages: request.messages }, 'Chat');
+      for await (const event of events) {
+        const choices = Array.isArray(event.choices) ? event.choices : [];
+        const content = (choices[0] as { delta?: { content?: unknown } } | undefined)?.delta?.content;
+        if (typeof content === 'string' && content) {
+          yield content;
+        }
+      }
+    },
+  };
+}
+
+export const JSON_ANSWER_INSTRUCTIONS =
+  'Respond with a single JSON object of the form {"answer": string, "citations": [{"folder": string, "file": string, "lines": [start, end]}]} and nothing else.';
 
 const JSON_SCHEMA_FORMAT = {
   type: 'json_schema',
@@ -79,26 +186,8 @@ const JSON_SCHEMA_FORMAT = {
   },
 } as const;
 
-async function callResponses(env: MarbleBindings, body: Record<string, unknown>): Promise<ChatResult> {
-  if (!env.OPENAI_API_KEY) {
-    throw new OpenAIError('Missing OPENAI_API_KEY binding');
-  }
-
-  const response = await fetch(RESPONSES_ENDPOINT, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new OpenAIError(`Chat request failed: ${response.status} ${error}`);
-  }
-
-  const payload = (await response.json()) as Record<string, unknown>;
+async function callResponses(config: OpenAIClientConfig, body: Record<string, unknown>): Promise<ChatResult> {
+  const payload = await post(config, '/responses', body, 'Chat');
 
   const candidates: unknown[] = [];
   const stringCandidates: string[] = [];
@@ -239,66 +328,14 @@ function normalizeChatResult(candidate: Record<string, unknown>): ChatResult | n
   };
 }
 
-export async function generateStructuredAnswer(
-  env: MarbleBindings,
-  question: string,
-  contexts: ContextBlock[],
-): Promise<ChatResult> {
-  if (!contexts.length) {
-    return {
-      answer: "I couldn't find anything relevant in your Marble files.",
+/** Parses model text that should hold an answer object, falling back to the raw text. */
+export function parseChatResultText(text: string): ChatResult {
+  // Smaller models like to wrap JSON in a markdown fence
+  const unfenced = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  return (
+    extractChatResultFromCandidates([], [unfenced]) ?? {
+      answer: 'I had trouble parsing the model response.',
       citations: [],
-    };
-  }
-
-  const model = env.OPENAI_MODEL ?? 'gpt-4.1-mini';
-  const contextMessage = contexts
-    .map((ctx, index) => {
-      return `Source ${index + 1} [${ctx.folderName} / ${ctx.fileName} : lines ${ctx.startLine}-${ctx.endLine}]
-${ctx.content}`;
-    })
-    .join('\n\n');
-
-  return callResponses(env, {
-    model,
-    input: [
-      {
-        role: 'system',
-        content:
-          'You are Marble, an assistant that answers questions about uploaded .txt files. Do not fabricate information. When citing, ensure the citations array includes the exact folder, file, and inclusive line range used.',
-      },
-      {
-        role: 'system',
-        content: `Context:\n${contextMessage}`,
-      },
-      {
-        role: 'user',
-        content: question,
-      },
-    ],
-    text: {
-      format: JSON_SCHEMA_FORMAT,
-    },
-  });
-}
-
-export async function generateGeneralAnswer(env: MarbleBindings, question: string): Promise<ChatResult> {
-  const model = env.OPENAI_MODEL ?? 'gpt-4.1-mini';
-  return callResponses(env, {
-    model,
-    input: [
-      {
-        role: 'system',
-        content:
-          'You are Marble, a friendly assistant. Answer conversationally. If you are not explicitly given lookup context, respond from general knowledge and set the citations array to empty.',
-      },
-      {
-        role: 'user',
-        content: question,
-      },
-    ],
-    text: {
-      format: JSON_SCHEMA_FORMAT,
-    },
-  });
+    }
+  );
 }
@@ -0,0 +1,522 @@
+import { bytesToLatin1, inflate, latin1ToBytes } from './binary';
+
+/**
+ * A small PDF text reader that runs in the Worker: it walks the page tree, inflates content
+ * streams and follows text-showing operators, decoding glyphs through each font's `ToUnicode`
+ * map. Layout is approximated from vertical text positions: a new baseline starts a line and a
+ * large gap starts a paragraph. Scanned pages (images only) come back empty.
+ */
+
+interface PdfName {
+  name: string;
+}
+interface PdfString {
+  /** Raw bytes, one character per byte. */
+  bytes: string;
+}
+interface PdfRef {
+  ref: number;
+}
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  /** Still-encoded stream data, one character per byte. */
+  stream?: string;
+}
+
+type Token =
+  | { kind: 'number'; value: number; end: number }
+  | { kind: 'name'; value: string; end: number }
+  | { kind: 'string'; value: string; end: number }
+  | { kind: 'delimiter'; value: '[' | ']' | '<<' | '>>'; end: number }
+  | { kind: 'keyword'; value: string; end: number };
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const LITERAL_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+/** TJ offsets below this (thousandths of an em) are word gaps rather than kerning. */
+const WORD_GAP = -200;
+/** CMap ranges are clamped so a malformed file can't make us build millions of entries. */
+const MAX_CMAP_RANGE = 0x10000;
+
+function hexToLatin1(hex: string): string {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let value = '';
+  for (let index = 0; index < padded.length; index += 2) {
+    value += String.fromCharCode(Number.parseInt(padded.slice(index, index + 2), 16));
+  }
+  return value;
+}
+
+function readLiteral(text: string, start: number): [string, number] {
+  let depth = 1;
+  let value = '';
+  let position = start + 1;
+  while (position < text.length) {
+    const char = text[position++];
+    if (char === '\\') {
+      const next = text[position++] ?? '';
+      if (next in LITERAL_ESCAPES) {
+        value += LITERAL_ESCAPES[next];
+      } else if (/[0-7]/.test(next)) {
+        let digits = next;
+        while (digits.length < 3 && /[0-7]/.test(text[position] ?? '')) digits += text[position++];
+        value += String.fromCharCode(Number.parseInt(digits, 8) & 0xff);
+      } else if (next === '\r') {
+        if (text[position] === '\n') position += 1;
+      } else if (next !== '\n') {
+        value += next;
+      }
+      continue;
+    }
+    if (char === '(') depth += 1;
+    if (char === ')' && --depth === 0) break;
+    value += char;
+  }
+  return [value, position];
+}
+
+function* tokenize(text: string, start = 0): Generator<Token> {
+  let position = start;
+  while (position < text.length) {
+    const char = text[position];
+    if (WHITESPACE.includes(char)) {
+      position += 1;
+    } else if (char === '%') {
+      while (position < text.length && text[position] !== '\n' && text[position] !== '\r') position += 1;
+    } else if (char === '(') {
+      const [value, end] = readLiteral(text, position);
+      position = end;
+      yield { kind: 'string', value, end };
+    } else if (char === '<' && text[position + 1] === '<') {
+      position += 2;
+      yield { kind: 'delimiter', value: '<<', end: position };
+    } else if (char === '<') {
+      const close = text.indexOf('>', position);
+      const end = close === -1 ? text.length : close + 1;
+      const value = hexToLatin1(text.slice(position + 1, end - 1));
+      position = end;
+      yield { kind: 'string', value, end };
+    } else if (char === '>') {
+      position += text[position + 1] === '>' ? 2 : 1;
+      yield { kind: 'delimiter', value: '>>', end: position };
+    } else if (char === '[' || char === ']') {
+      position += 1;
+      yield { kind: 'delimiter', value: char, end: position };
+    } else {
+      let end = position + 1;
+      while (end < text.length && !WHITESPACE.includes(text[end]) && !DELIMITERS.includes(text[end])) end += 1;
+      const word = text.slice(position, end);
+      position = end;
+      if (char === '/') {
+        const value = word.slice(1).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+        yield { kind: 'name', value, end };
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        yield { kind: 'number', value: Number(word), end };
+      } else if (!DELIMITERS.includes(char)) {
+        yield { kind: 'keyword', value: word, end };
+        if (word === 'ID') {
+          // Inline image data runs up to the next standalone EI
+          const imageEnd = /\sEI(?=\s|$)/g;
+          imageEnd.lastIndex = position;
+          const found = imageEnd.exec(text);
+          position = found ? found.index + found[0].length : text.length;
+        }
+      }
+    }
+  }
+}
+
+class TokenReader {
+  private readonly buffer: Token[] = [];
+
+  constructor(private readonly tokens: Iterator<Token>) {}
+
+  peek(offset = 0): Token | undefined {
+    while (this.buffer.length <= offset) {
+      const next = this.tokens.next();
+      if (next.done) return undefined;
+      this.buffer.push(next.value);
+    }
+    return this.buffer[offset];
+  }
+
+  next(): Token | undefined {
+    const token = this.peek();
+    this.buffer.shift();
+    return token;
+  }
+}
+
+function isDelimiter(token: Token | undefined, value: string): boolean {
+  return token?.kind === 'delimiter' && token.value === value;
+}
+
+function readValue(reader: TokenReader): PdfValue {
+  const token = reader.next();
+  if (!token) return null;
+  switch (token.kind) {
+    case 'number': {
+      const generation = reader.peek();
+      const marker = reader.peek(1);
+      if (generation?.kind === 'number' && marker?.kind === 'keyword' && marker.value === 'R') {
+        reader.next();
+        reader.next();
+        return { ref: token.value };
+      }
+      return token.value;
+    }
+    case 'name':
+      return { name: token.value };
+    case 'string':
+      return { bytes: token.value };
+    case 'keyword':
+      return token.value === 'true' ? true : token.value === 'false' ? false : null;
+    case 'delimiter':
+      if (token.value === '[') {
+        const items: PdfValue[] = [];
+        while (reader.peek() && !isDelimiter(reader.peek(), ']')) items.push(readValue(reader));
+        reader.next();
+        return items;
+      }
+      if (token.value === '<<') {
+        const dict: PdfDict = new Map();
+        while (reader.peek() && !isDelimiter(reader.peek(), '>>')) {
+          const key = reader.next()!;
+          if (key.kind === 'name') dict.set(key.value, readValue(reader));
+        }
+        reader.next();
+        return dict;
+      }
+      return null;
+  }
+}
+
+function isRef(value: PdfValue): value is PdfRef {
+  return typeof value === 'object' && value !== null && 'ref' in value;
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return typeof value === 'object' && value !== null && 'name' in value ? value.name : null;
+}
+
+class PdfFile {
+  readonly objects = new Map<number, PdfObject>();
+
+  constructor(private readonly text: string) {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text))) {
+      const reader = new TokenReader(tokenize(text, match.index + match[0].length));
+      const value = readValue(reader);
+      const next = reader.peek();
+      const object: PdfObject = { value };
+      if (next?.kind === 'keyword' && next.value === 'stream') {
+        const start = next.end + (text[next.end] === '\r' ? 2 : 1);
+        const length = value instanceof Map ? value.get('Length') : undefined;
+        const declaredEnd = typeof length === 'number' ? start + length : -1;
+        const end =
+          declaredEnd > start && /^\s*endstream/.test(text.slice(declaredEnd, declaredEnd + 20))
+            ? declaredEnd
+            : text.indexOf('endstream', start);
+        const streamEnd = end === -1 ? text.length : end;
+        object.stream = text.slice(start, streamEnd).replace(/\r?\n$/, '');
+        header.lastIndex = streamEnd;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue {
+    if (value === undefined) return null;
+    if (isRef(value) && depth < 32) return this.resolve(this.objects.get(value.ref)?.value ?? null, depth + 1);
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : null;
+  }
+
+  /** Objects packed into compressed object streams (PDF 1.5+) join the table. */
+  async unpackObjectStreams(): Promise<void> {
+    for (const object of Array.from(this.objects.values())) {
+      if (!(object.value instanceof Map) || nameOf(object.value.get('Type')) !== 'ObjStm') continue;
+      const data = await this.decodeStream(object);
+      const first = object.value.get('First');
+      const count = object.value.get('N');
+      if (data === null || typeof first !== 'number' || typeof count !== 'number') continue;
+
+      const offsets = Array.from(tokenize(data.slice(0, first)))
+        .filter((token) => token.kind === 'number')
+        .map((token) => token.value as number);
+      for (let index = 0; index + 1 < offsets.length && index / 2 < count; index += 2) {
+        if (this.objects.has(offsets[index])) continue;
+        const value = readValue(new TokenReader(tokenize(data, first + offsets[index + 1])));
+        this.objects.set(offsets[index], { value });
+      }
+    }
+  }
+
+  /** Stream bytes after applying its filters; `null` when a filter isn't one we can undo. */
+  async decodeStream(object: PdfObject | undefined): Promise<string | null> {
+    if (!object?.stream || !(object.value instanceof Map)) return null;
+    const filter = this.resolve(object.value.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((entry) => nameOf(this.resolve(entry)));
+    let bytes = latin1ToBytes(object.stream);
+    for (const name of filters) {
+      if (name !== 'FlateDecode' && name !== 'Fl') return null;
+      try {
+        bytes = await inflate(bytes, 'deflate');
+      } catch {
+        return null;
+      }
+    }
+    return bytesToLatin1(bytes);
+  }
+
+  async streamOf(value: PdfValue | undefined): Promise<string | null> {
+    return isRef(value ?? null) ? this.decodeStream(this.objects.get((value as PdfRef).ref)) : null;
+  }
+
+  /** Pages in reading order, each with the resources it inherits from the page tree. */
+  pages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | null, inherited: PdfDict | null) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const resources = this.dict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(this.dict(kid), resources));
+      } else if (nameOf(node.get('Type')) !== 'Pages') {
+        pages.push({ page: node, resources });
+      }
+    };
+
+    const catalog = Array.from(this.objects.values()).find(
+      (object) => object.value instanceof Map && nameOf(object.value.get('Type')) === 'Catalog',
+    );
+    walk(catalog ? this.dict((catalog.value as PdfDict).get('Pages')) : null, null);
+    if (pages.length) return pages;
+
+    // No usable page tree: fall back to page objects in object-number order
+    return Array.from(this.objects.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, object]) => object.value)
+      .filter((value): value is PdfDict => value instanceof Map && nameOf(value.get('Type')) === 'Page')
+      .map((page) => ({ page, resources: this.dict(page.get('Resources')) }));
+  }
+}
+
+interface FontDecoder {
+  /** Bytes per character code. */
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+}
+
+function utf16FromHex(hex: string): string {
+  const units: number[] = [];
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(Number.parseInt(hex.slice(index, index + 4), 16));
+  }
+  if (!units.length && hex.length) units.push(Number.parseInt(hex, 16));
+  return String.fromCharCode(...units);
+}
+
+/** Reads `bfchar` and `bfrange` entries from a ToUnicode CMap. */
+function parseToUnicode(cmap: string): { codeLength: number; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeLength = codespace ? Math.max(1, Math.ceil(codespace[1].length / 2)) : 1;
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(Number.parseInt(source, 16), utf16FromHex(target));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const from = Number.parseInt(low, 16);
+      const to = Math.min(Number.parseInt(high, 16), from + MAX_CMAP_RANGE);
+      if (target.startsWith('[')) {
+        Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g)).forEach(([, hex], offset) => {
+          if (from + offset <= to) map.set(from + offset, utf16FromHex(hex));
+        });
+      } else {
+        const base = utf16FromHex(target.slice(1, -1));
+        for (let code = from; code <= to; code++) {
+          const last = base.charCodeAt(base.length - 1) + (code - from);
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+        }
+      }
+    }
+  }
+  return { codeLength, map };
+}
+
+async function loadFonts(pdf: PdfFile, resources: PdfDict | null, cache: Map<PdfDict, FontDecoder>) {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDict = pdf.dict(resources?.get('Font'));
+  for (const [name, value] of fontDict ?? []) {
+    const font = pdf.dict(value);
+    if (!font) continue;
+    let decoder = cache.get(font);
+    if (!decoder) {
+      const cmap = await pdf.streamOf(font.get('ToUnicode'));
+      const parsed = cmap ? parseToUnicode(cmap) : null;
+      decoder = {
+        codeLength: parsed?.codeLength ?? (nameOf(font.get('Subtype')) === 'Type0' ? 2 : 1),
+        toUnicode: parsed?.map ?? null,
+      };
+      cache.set(font, decoder);
+    }
+    fonts.set(name, decoder);
+  }
+  return fonts;
+}
+
+function decodeGlyphs(bytes: string, font: FontDecoder | undefined): string {
+  if (!font?.toUnicode) {
+    // Without a map, two-byte codes are glyph ids we can't read; one-byte codes are close to Latin-1
+    return font && font.codeLength > 1 ? '' : bytes.replace(/[\0-\x1f\x7f-\x9f]/g, '');
+  }
+  let text = '';
+  for (let index = 0; index + font.codeLength <= bytes.length; index += font.codeLength) {
+    let code = 0;
+    for (let byte = 0; byte < font.codeLength; byte++) code = code * 256 + bytes.charCodeAt(index + byte);
+    text += font.toUnicode.get(code) ?? '';
+  }
+  return text;
+}
+
+/** Text of one page: a line per baseline, with a blank line where the gap suggests a new paragraph. */
+function readContent(content: string, fonts: Map<string, FontDecoder>): string {
+  const lines: string[] = [];
+  let current = '';
+  let font: FontDecoder | undefined;
+  let fontSize = 12;
+  let scale = 1;
+  let leading = 0;
+  let y = 0;
+  let shownY: number | null = null;
+  let moved = false;
+
+  const show = (text: string) => {
+    if (!text) return;
+    if (shownY !== null) {
+      const drop = shownY - y;
+      const height = Math.abs(fontSize * scale) || 12;
+      if (Math.abs(drop) > height * 0.5) {
+        lines.push(current);
+        // Jumping back up the page means a new column or block
+        if (drop > height * 1.8 || drop < 0) lines.push('');
+        current = '';
+      } else if (moved && current && !/\s$/.test(current) && !/^\s/.test(text)) {
+        current += ' ';
+      }
+    }
+    current += text;
+    shownY = y;
+    moved = false;
+  };
+  const nextLine = () => {
+    y -= leading * scale;
+    moved = true;
+  };
+
+  const reader = new TokenReader(tokenize(content));
+  let operands: PdfValue[] = [];
+  while (reader.peek()) {
+    const token = reader.peek()!;
+    if (token.kind !== 'keyword' || ['true', 'false', 'null'].includes(token.value)) {
+      operands.push(readValue(reader));
+      continue;
+    }
+    reader.next();
+    const numbers = operands.filter((operand): operand is number => typeof operand === 'number');
+    switch (token.value) {
+      case 'Tf':
+        font = fonts.get(nameOf(operands[0]) ?? '');
+        fontSize = numbers[0] ?? fontSize;
+        break;
+      case 'Tm':
+        if (numbers.length >= 6) {
+          scale = Math.hypot(numbers[2], numbers[3]) || 1;
+          y = numbers[5];
+          moved = true;
+        }
+        break;
+      case 'Td':
+      case 'TD':
+        if (numbers.length >= 2) {
+          y += numbers[1] * scale;
+          if (token.value === 'TD') leading = -numbers[1];
+          moved = true;
+        }
+        break;
+      case 'TL':
+        leading = numbers[0] ?? leading;
+        break;
+      case 'T*':
+        nextLine();
+        break;
+      case 'Tj':
+        show(decodeGlyphs((operands[0] as PdfString | undefined)?.bytes ?? '', font));
+        break;
+      case "'":
+      case '"': {
+        nextLine();
+        const text = operands[operands.length - 1] as PdfString | undefined;
+        show(decodeGlyphs(text?.bytes ?? '', font));
+        break;
+      }
+      case 'TJ': {
+        const parts = Array.isArray(operands[0]) ? operands[0] : [];
+        show(
+          parts
+            .map((part) => (typeof part === 'number' ? (part < WORD_GAP ? ' ' : '') : decodeGlyphs((part as PdfString).bytes ?? '', font)))
+            .join(''),
+        );
+        break;
+      }
+    }
+    operands = [];
+  }
+  lines.push(current);
+
+  return lines
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Extracts the text of every page, in order, with paragraphs separated by blank lines. */
+export async function extractPdfPages(bytes: Uint8Array): Promise<string[]> {
+  const text = bytesToLatin1(bytes);
+  if (!text.startsWith('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+  if (/\/Encrypt\b/.test(text)) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  const pdf = new PdfFile(text);
+  await pdf.unpackObjectStreams();
+  const fontCache = new Map<PdfDict, FontDecoder>();
+
+  const pages: string[] = [];
+  for (const { page, resources } of pdf.pages()) {
+    const contents = pdf.resolve(page.get('Contents'));
+    const refs = Array.isArray(contents) ? contents : [page.get('Contents') ?? null];
+    const streams = await Promise.all(refs.map((ref) => pdf.streamOf(ref)));
+    const fonts = await loadFonts(pdf, resources, fontCache);
+    pages.push(readContent(streams.filter((stream): stream is string => stream !== null).join('\n'), fonts));
+  }
+  return pages;
+}
@@ -0,0 +1,354 @@
+import { chunkWithStrategy, hashChunkContent, resolveChunkStrategy, type ChunkStrategyName, type TextChunk } from './chunk';
+import { createInitialVectorIndex, insertChunk, recordVectorIndexDimensions, type FileWithFolder } from './db';
+import { envNumber } from './env';
+import {
+  defaultChunkStrategy,
+  extractDocument,
+  extractPagedText,
+  fromPagedText,
+  isPagedFormat,
+  mapChunkLines,
+  resolveFormat,
+  type DocumentFormat,
+  type ExtractedText,
+  type TextPosition,
+} from './extractors';
+import { configuredEmbeddingModel, createEmbeddings } from './providers';
+import { getDerivedText, putDerivedText } from './storage';
+import {
+  resolveActiveVectorIndex,
+  timestampToEpochMs,
+  upsertChunkVector,
+  type VectorIndexTarget,
+  type VectorMetadata,
+} from './vectorize';
+import type { MarbleBindings } from '../types';
+
+/** Shared state handed to every stage of a single ingest run. */
+export interface IngestContext {
+  env: MarbleBindings;
+  file: FileWithFolder;
+  jobId: string;
+  /** The format the extract stage recognized; set for the chunk stage. */
+  format?: DocumentFormat;
+  /** The vector index generation the chunks go into; the active one when unset. */
+  vectorIndex?: VectorIndexTarget;
+}
+
+export interface SourceDocument {
+  body: ArrayBuffer;
+  contentType: string | null;
+  /** Identifies this version of the upload; text derived from it is cached against it. */
+  etag?: string;
+}
+
+export interface EmbeddedChunk extends TextChunk {
+  embedding: number[];
+  /** Model key the embedding came from. */
+  embeddingModel?: string;
+}
+
+export interface PersistedChunk extends EmbeddedChunk {
+  id: string;
+}
+
+export type IngestStage<Input, Output> = (context: IngestContext, input: Input) => Output | Promise<Output>;
+
+/**
+ * The ingest pipeline, one replaceable step per stage:
+ * fetch → extract → normalize → chunk → embed → persist → index.
+ * The first four prepare the whole document; the last three run per batch of chunks.
+ */
+export interface IngestPipeline {
+  fetch: IngestStage<void, SourceDocument>;
+  extract: IngestStage<SourceDocument, ExtractedText>;
+  normalize: IngestStage<ExtractedText, ExtractedText>;
+  chunk: IngestStage<string, TextChunk[]>;
+  embed: IngestStage<TextChunk[], EmbeddedChunk[]>;
+  persist: IngestStage<EmbeddedChunk[], PersistedChunk[]>;
+  index: IngestStage<PersistedChunk[], void>;
+}
+
+/** Failures that retrying the same input cannot fix (missing file, empty document, ...). */
+export class IngestStageError extends Error {
+  constructor(
+    readonly stage: keyof IngestPipeline,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'IngestStageError';
+  }
+}
+
+export const fetchFromR2: IngestPipeline['fetch'] = async ({ env, file }) => {
+  const object = await env.MARBLE_FILES.get(file.r2_key);
+  if (!object) {
+    throw new IngestStageError('fetch', 'Uploaded object not found in R2');
+  }
+  return {
+    body: await object.arrayBuffer(),
+    contentType: object.httpMetadata?.contentType ?? file.mime_type,
+    etag: object.etag,
+  };
+};
+
+export function foldLineEndings(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/** Reads the cached text of a PDF or DOCX upload, extracting and caching it on a miss. */
+async function readPagedText(
+  { env, file }: IngestContext,
+  format: DocumentFormat,
+  document: SourceDocument,
+): Promise<string> {
+  const cached = document.etag ? await getDerivedText(env, file.id, document.etag) : null;
+  if (cached !== null) {
+    return cached;
+  }
+  let text: string;
+  try {
+    text = await extractPagedText(format, new Uint8Array(document.body));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new IngestStageError('extract', `Could not read ${file.file_name}: ${reason}`);
+  }
+  if (document.etag) {
+    await putDerivedText(env, file.id, document.etag, text);
+  }
+  return text;
+}
+
+/**
+ * Turns the file into text with the extractor registered for its extension or MIME type. Line
+ * endings are folded first so the line map points at lines as editors show them. PDF and DOCX
+ * uploads are read from their bytes and keep the page and paragraph of every line.
+ */
+export const extractText: IngestPipeline['extract'] = async (context, document) => {
+  const { file } = context;
+  const format = resolveFormat(file.file_name, document.contentType);
+  if (format && isPagedFormat(format)) {
+    return fromPagedText(format, await readPagedText(context, format, document));
+  }
+  const source = foldLineEndings(new TextDecoder().decode(document.body));
+  const extracted = extractDocument(file.file_name, document.contentType, source);
+  if (!extracted) {
+    throw new IngestStageError('extract', `Unsupported file type: ${file.file_name}`);
+  }
+  return extracted;
+};
+
+/** Strips a byte-order mark and folds CRLF/CR line endings left by custom extract stages. */
+export const normalizeText: IngestPipeline['normalize'] = (_context, document) => ({
+  ...document,
+  text: foldLineEndings(document.text),
+});
+
+/**
+ * The folder's chunking strategy when it has one, then the format's (headings for Markdown and
+ * HTML, top-level blocks for code, one record per line for CSV and JSON), otherwise
+ * `CHUNK_STRATEGY` (default `fixed-char`).
+ */
+export const chunkByStrategy: IngestPipeline['chunk'] = ({ env, file, format }, text) => {
+  let strategy: ChunkStrategyName;
+  try {
+    strategy = resolveChunkStrategy(
+      file.folder_chunk_strategy ?? (format && defaultChunkStrategy(format)) ?? env.CHUNK_STRATEGY,
+    );
+  } catch (err) {
+    throw new IngestStageError('chunk', err instanceof Error ? err.message : String(err));
+  }
+  return chunkWithStrategy(strategy, text, {
+    chunkSize: envNumber(env.CHUNK_SIZE, 1500),
+    overlap: envNumber(env.CHUNK_OVERLAP, 200),
+    maxTokens: envNumber(env.CHUNK_TOKENS, 350),
+    overlapTokens: envNumber(env.CHUNK_OVERLAP_TOKENS, 50),
+  });
+};
+
+/**
+ * Embeds with the model of the vector index the chunks go into, which records the model and
+ * dimensions the first time it is written to. Vectors of any other length are refused.
+ */
+export const embedWithProvider: IngestPipeline['embed'] = async ({ env, file, jobId, vectorIndex }, chunks) => {
+  const index = vectorIndex ?? (await resolveActiveVectorIndex(env));
+  const model = index.model ?? configuredEmbeddingModel(env);
+  const embeddings = await createEmbeddings(
+    env,
+    chunks.map((chunk) => chunk.content),
+    {
+      model,
+      onProgress: (progress) => {
+        if (progress.batches > 1) {
+          console.log('Embedding batch completed', { fileId: file.id, jobId, ...progress });
+        }
+      },
+    },
+  );
+  if (embeddings.length !== chunks.length) {
+    throw new Error(`Embedding count mismatch: got ${embeddings.length}, expected ${chunks.length}`);
+  }
+
+  const dimensions = embeddings[0]?.length ?? 0;
+  const mismatched = embeddings.find((embedding) => embedding.length !== (index.dimensions ?? dimensions));
+  if (mismatched) {
+    throw new IngestStageError(
+      'embed',
+      `${model} returned ${mismatched.length}-dimensional vectors but vector index generation ${index.generation}` +
+        ` holds ${index.dimensions ?? dimensions}; re-index to change embedding models`,
+    );
+  }
+  if (!index.model) {
+    await createInitialVectorIndex(env, { model, dimensions, binding: index.binding });
+  } else if (!index.dimensions) {
+    await recordVectorIndexDimensions(env, index.generation, dimensions);
+  }
+
+  return chunks.map((chunk, position) => ({ ...chunk, embedding: embeddings[position], embeddingModel: model }));
+};
+
+/** Chunk ids are derived from the job so replaying a batch overwrites rather than duplicates. */
+export const persistToD1: IngestPipeline['persist'] = async ({ env, file, jobId, vectorIndex }, chunks) => {
+  const { generation } = vectorIndex ?? (await resolveActiveVectorIndex(env));
+  const persisted: PersistedChunk[] = [];
+  for (const chunk of chunks) {
+    const id = `${jobId}:${chunk.index}`;
+    await insertChunk(env, {
+      id,
+      file_id: file.id,
+      folder_id: file.folder_id,
+      owner_id: file.owner_id,
+      visibility: file.visibility,
+      chunk_index: chunk.index,
+      start_line: chunk.startLine,
+      end_line: chunk.endLine,
+      content: chunk.content,
+      chunk_strategy: chunk.strategy ?? null,
+      ingest_job_id: jobId,
+      page: chunk.page ?? null,
+      paragraph: chunk.paragraph ?? null,
+      content_hash: chunk.contentHash ?? (await hashChunkContent(chunk.content)),
+      embedding_model: chunk.embeddingModel ?? null,
+      embedding_dimensions: chunk.embedding.length || null,
+      vector_generation: generation,
+    });
+    persisted.push({ ...chunk, id });
+  }
+  return persisted;
+};
+
+/** The metadata a chunk's vector is stored with. */
+export function chunkVectorMetadata(
+  file: FileWithFolder,
+  chunk: Pick<PersistedChunk, 'id' | 'startLine' | 'endLine'>,
+): VectorMetadata {
+  return {
+    chunkId: chunk.id,
+    fileId: file.id,
+    folderId: file.folder_id,
+    folderName: file.folder_name,
+    fileName: file.file_name,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    visibility: file.visibility,
+    ownerId: file.owner_id,
+    createdAt: timestampToEpochMs(file.created_at),
+  };
+}
+
+export const indexInVectorize: IngestPipeline['index'] = async ({ env, file, vectorIndex }, chunks) => {
+  const index = vectorIndex ?? (await resolveActiveVectorIndex(env));
+  for (const chunk of chunks) {
+    await upsertChunkVector(env, chunk.id, chunk.embedding, chunkVectorMetadata(file, chunk), index);
+  }
+};
+
+export const defaultIngestPipeline: IngestPipeline = {
+  fetch: fetchFromR2,
+  extract: extractText,
+  normalize: normalizeText,
+  chunk: chunkByStrategy,
+  embed: embedWithProvider,
+  persist: persistToD1,
+  index: indexInVectorize,
+};
+
+/** Builds a pipeline from the defaults with some stages swapped out. */
+export function createIngestPipeline(overrides: Partial<IngestPipeline> = {}): IngestPipeline {
+  return { ...defaultIngestPipeline, ...overrides };
+}
+
+/**
+ * Chunks a paged document one page at a time so no chunk spans a page break, then numbers the
+ * chunks and their lines across the whole document.
+ */
+async function chunkPages(
+  pipeline: IngestPipeline,
+  context: IngestContext,
+  text: string,
+  positions: TextPosition[],
+): Promise<TextChunk[]> {
+  const lines = text.split('\n');
+  const chunks: TextChunk[] = [];
+  let first = 0;
+  while (first < lines.length) {
+    const page = positions[first]?.page;
+    let last = first;
+    while (last + 1 < lines.length && positions[last + 1]?.page === page) last += 1;
+
+    const pageText = lines.slice(first, last + 1).join('\n');
+    if (pageText.trim()) {
+      for (const chunk of await pipeline.chunk(context, pageText)) {
+        const startLine = chunk.startLine + first;
+        chunks.push({
+          ...chunk,
+          index: chunks.length,
+          startLine,
+          endLine: chunk.endLine + first,
+          page,
+          paragraph: positions[startLine - 1]?.paragraph,
+        });
+      }
+    }
+    first = last + 1;
+  }
+  return chunks;
+}
+
+/**
+ * Runs fetch → extract → normalize → chunk and returns every chunk of the document, with line
+ * numbers mapped back onto the original file and a content hash on each.
+ */
+export async function prepareDocument(pipeline: IngestPipeline, context: IngestContext): Promise<TextChunk[]> {
+  const source = await pipeline.fetch(context);
+  const extracted = await pipeline.extract(context, source);
+  const document = await pipeline.normalize(context, extracted);
+  const chunkContext = { ...context, format: document.format };
+  const chunks = document.positions?.length
+    ? await chunkPages(pipeline, chunkContext, document.text, document.positions)
+    : await pipeline.chunk(chunkContext, document.text);
+  if (!chunks.length) {
+    throw new IngestStageError('chunk', 'No content found to ingest');
+  }
+  return Promise.all(
+    mapChunkLines(chunks, document.lineMap).map(async (chunk) => ({
+      ...chunk,
+      contentHash: await hashChunkContent(chunk.content),
+    })),
+  );
+}
+
+/** Runs embed → persist → index for one batch of prepared chunks. */
+export async function ingestChunks(
+  pipeline: IngestPipeline,
+  context: IngestContext,
+  chunks: TextChunk[],
+): Promise<PersistedChunk[]> {
+  if (!chunks.length) {
+    return [];
+  }
+  const embedded = await pipeline.embed(context, chunks);
+  const persisted = await pipeline.persist(context, embedded);
+  await pipeline.index(context, persisted);
+  return persisted;
+}
@@ -0,0 +1,321 @@
+import { citationsFromMarkers } from './citations';
+import { withEmbeddingCache } from './embedding-cache';
+import { embedInBatches, type EmbeddingOptions } from './embeddings';
+import { envNumber } from './env';
+import { createLocalChatProvider, createLocalEmbeddingProvider, LOCAL_EMBEDDING_DIMENSIONS } from './local-models';
+import {
+  createOpenAIChatProvider,
+  createOpenAICompatibleChatProvider,
+  createOpenAIEmbeddingProvider,
+  OPENAI_BASE_URL,
+  OpenAIError,
+} from './openai';
+import {
+  createWorkersAIChatProvider,
+  createWorkersAIEmbeddingProvider,
+  WORKERS_AI_CHAT_MODEL,
+  WORKERS_AI_EMBEDDING_MODEL,
+} from './workers-ai';
+import { resolveActiveVectorIndex } from './vectorize';
+import type { ChatResult, MarbleBindings } from '../types';
+
+export type ProviderName = 'openai' | 'workers-ai' | 'openai-compatible' | 'local';
+
+export interface EmbeddingProvider {
+  name: ProviderName;
+  model: string;
+  /** Embeds one batch; batching and retries are handled by `createEmbeddings`. */
+  embed(input: string[]): Promise<number[][]>;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ContextBlock {
+  /** Set for retrieved chunks so citations can be traced back to them. */
+  chunkId?: string;
+  folderName: string;
+  fileName: string;
+  startLine: number;
+  endLine: number;
+  /** Page the lines are on, for PDF and DOCX files. */
+  page?: number | null;
+  /** Version of the file the lines were ingested from; cited with them. */
+  fileVersion?: number;
+  content: string;
+}
+
+export interface ChatRequest {
+  /** Full prompt, system messages included, ending with the user's question. */
+  messages: ChatMessage[];
+  /** The retrieved sources behind the prompt, for providers that work on them directly. */
+  contexts?: ContextBlock[];
+}
+
+export interface ChatProvider {
+  name: ProviderName;
+  model: string;
+  generate(request: ChatRequest): Promise<ChatResult>;
+  /** Yields plain-text answer deltas as they are produced. Optional; callers fall back to `generate`. */
+  stream?(request: ChatRequest): AsyncIterable<string>;
+}
+
+const PROVIDERS: ProviderName[] = ['openai', 'workers-ai', 'openai-compatible', 'local'];
+
+function resolveProvider(value: string | undefined, variable: string): ProviderName {
+  const name = (value ?? 'openai').trim().toLowerCase();
+  if (!PROVIDERS.includes(name as ProviderName)) {
+    throw new Error(`Unknown ${variable} "${value}"; expected one of ${PROVIDERS.join(', ')}`);
+  }
+  return name as ProviderName;
+}
+
+function compatibleBaseUrl(env: MarbleBindings): string {
+  if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+    throw new OpenAIError('Missing OPENAI_COMPATIBLE_BASE_URL binding');
+  }
+  return env.OPENAI_COMPATIBLE_BASE_URL;
+}
+
+function requireOpenAIKey(env: MarbleBindings): string {
+  if (!env.OPENAI_API_KEY) {
+    throw new OpenAIError('Missing OPENAI_API_KEY binding');
+  }
+  return env.OPENAI_API_KEY;
+}
+
+/**
+ * The configured embedding provider, or with `modelKey` (see {@link embeddingModelKey}) the one
+ * that produces that model's vectors, whatever the configuration now says.
+ */
+export function getEmbeddingProvider(env: MarbleBindings, modelKey?: string): EmbeddingProvider {
+  const separator = modelKey ? modelKey.indexOf('/') : -1;
+  const name = modelKey
+    ? resolveProvider(modelKey.slice(0, separator), 'embedding model')
+    : resolveProvider(env.EMBEDDING_PROVIDER, 'EMBEDDING_PROVIDER');
+  const model = modelKey && separator > 0 ? modelKey.slice(separator + 1) : undefined;
+
+  switch (name) {
+    case 'workers-ai':
+      return createWorkersAIEmbeddingProvider(env, model ?? env.WORKERS_AI_EMBEDDING_MODEL ?? WORKERS_AI_EMBEDDING_MODEL);
+    case 'openai-compatible':
+      return createOpenAIEmbeddingProvider(
+        {
+          baseUrl: compatibleBaseUrl(env),
+          apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+          model: model ?? env.OPENAI_COMPATIBLE_EMBEDDING_MODEL ?? env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-3-small',
+        },
+        'openai-compatible',
+      );
+    case 'local': {
+      const dimensions = /^local-hash-(\d+)$/.exec(model ?? '')?.[1] ?? env.LOCAL_EMBEDDING_DIMENSIONS;
+      return createLocalEmbeddingProvider(envNumber(dimensions, LOCAL_EMBEDDING_DIMENSIONS, { min: 1 }));
+    }
+    default:
+      return createOpenAIEmbeddingProvider({
+        baseUrl: OPENAI_BASE_URL,
+        apiKey: requireOpenAIKey(env),
+        model: model ?? env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-3-small',
+      });
+  }
+}
+
+export function getChatProvider(env: MarbleBindings): ChatProvider {
+  switch (resolveProvider(env.CHAT_PROVIDER, 'CHAT_PROVIDER')) {
+    case 'workers-ai':
+      return createWorkersAIChatProvider(env, env.WORKERS_AI_CHAT_MODEL ?? WORKERS_AI_CHAT_MODEL);
+    case 'openai-compatible':
+      return createOpenAICompatibleChatProvider({
+        baseUrl: compatibleBaseUrl(env),
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        model: env.OPENAI_COMPATIBLE_MODEL ?? env.OPENAI_MODEL ?? 'gpt-4.1-mini',
+      });
+    case 'local':
+      return createLocalChatProvider();
+    default:
+      return createOpenAIChatProvider({
+        baseUrl: OPENAI_BASE_URL,
+        apiKey: requireOpenAIKey(env),
+        model: env.OPENAI_MODEL ?? 'gpt-4.1-mini',
+      });
+  }
+}
+
+/** Identifies the vectors a provider produces: two providers serving the same model name may not agree. */
+export function embeddingModelKey(provider: EmbeddingProvider): string {
+  return `${provider.name}/${provider.model}`;
+}
+
+/** The model key the current configuration would embed with. */
+export function configuredEmbeddingModel(env: MarbleBindings): string {
+  return embeddingModelKey(getEmbeddingProvider(env));
+}
+
+/**
+ * The model the active vector index was built with, so queries and new chunks stay comparable
+ * with its vectors after the configuration changes. Falls back to the configured model until
+ * the index records one.
+ */
+export async function activeEmbeddingModel(env: MarbleBindings): Promise<string> {
+  return (await resolveActiveVectorIndex(env)).model ?? configuredEmbeddingModel(env);
+}
+
+export interface CreateEmbeddingsOptions extends EmbeddingOptions {
+  /** Model key to embed with; defaults to {@link activeEmbeddingModel}. */
+  model?: string;
+}
+
+/**
+ * Embeds `input` with the active index's model (or `options.model`), split into batches by
+ * count and estimated tokens. Rate limits and server errors are retried with backoff; `onProgress` fires after
+ * every batch. Hosted providers go through the embedding cache first, so only texts it
+ * hasn't seen are sent; the local model is cheaper to run than to look up.
+ */
+export async function createEmbeddings(
+  env: MarbleBindings,
+  input: string[],
+  options: CreateEmbeddingsOptions = {},
+): Promise<number[][]> {
+  const provider = getEmbeddingProvider(env, options.model ?? (await activeEmbeddingModel(env)));
+  const embed = (texts: string[]) => embedInBatches(env, texts, (batch) => provider.embed(batch), options);
+  if (provider.name === 'local') {
+    return embed(input);
+  }
+  return withEmbeddingCache(env, embeddingModelKey(provider), input, embed);
+}
+
+export const NO_MATCHES: ChatResult = {
+  answer: "I couldn't find anything relevant in your Marble files.",
+  citations: [],
+};
+
+const GROUNDED_INSTRUCTIONS =
+  'You are Marble, an assistant that answers questions about uploaded files. Do not fabricate information. When citing, ensure the citations array includes the exact folder, file, and inclusive line range used.';
+
+// Streamed answers are plain text, so citations travel as markers instead of a JSON array
+const STREAMED_GROUNDED_INSTRUCTIONS =
+  'You are Marble, an assistant that answers questions about uploaded files. Do not fabricate information. Answer in plain text and cite the sources you use by writing their number in square brackets, like [1] or [2, 3], right after the sentence they support.';
+
+const GENERAL_INSTRUCTIONS =
+  'You are Marble, a friendly assistant. Answer conversationally. If you are not explicitly given lookup context, respond from general knowledge and set the citations array to empty.';
+
+const STREAMED_GENERAL_INSTRUCTIONS =
+  'You are Marble, a friendly assistant. Answer conversationally in plain text from general knowledge.';
+
+/** Called with each chunk of answer text as a streaming provider produces it. */
+export type AnswerDeltaHandler = (text: string) => void | Promise<void>;
+
+function groundedRequest(
+  instructions: string,
+  question: string,
+  contexts: ContextBlock[],
+  history: ChatMessage[],
+): ChatRequest {
+  const contextMessage = contexts
+    .map((ctx, index) => {
+      const page = ctx.page ? `page ${ctx.page}, ` : '';
+      return `Source ${index + 1} [${ctx.folderName} / ${ctx.fileName} : ${page}lines ${ctx.startLine}-${ctx.endLine}]
+${ctx.content}`;
+    })
+    .join('\n\n');
+
+  return {
+    messages: [
+      { role: 'system', content: instructions },
+      { role: 'system', content: `Context:\n${contextMessage}` },
+      ...history,
+      { role: 'user', content: question },
+    ],
+    contexts,
+  };
+}
+
+function generalRequest(instructions: string, question: string, history: ChatMessage[]): ChatRequest {
+  return {
+    messages: [{ role: 'system', content: instructions }, ...history, { role: 'user', content: question }],
+  };
+}
+
+/**
+ * Streams through the provider when it can, collecting the text as it goes. Providers without
+ * `stream` answer through `generate` and hand the whole answer over as a single delta.
+ */
+async function streamOrGenerate(
+  provider: ChatProvider,
+  streamed: ChatRequest,
+  fallback: ChatRequest,
+  onDelta: AnswerDeltaHandler,
+): Promise<ChatResult | string> {
+  if (!provider.stream) {
+    const result = await provider.generate(fallback);
+    await onDelta(result.answer);
+    return result;
+  }
+
+  let answer = '';
+  for await (const delta of provider.stream(streamed)) {
+    answer += delta;
+    await onDelta(delta);
+  }
+  return answer;
+}
+
+/** `history` holds earlier turns of the conversation, oldest first; it goes between the system prompt and the question. */
+export async function generateStructuredAnswer(
+  env: MarbleBindings,
+  question: string,
+  contexts: ContextBlock[],
+  history: ChatMessage[] = [],
+): Promise<ChatResult> {
+  if (!contexts.length) {
+    return NO_MATCHES;
+  }
+  return getChatProvider(env).generate(groundedRequest(GROUNDED_INSTRUCTIONS, question, contexts, history));
+}
+
+/** Streaming counterpart of `generateStructuredAnswer`; citations come from the `[n]` markers in the text. */
+export async function streamStructuredAnswer(
+  env: MarbleBindings,
+  question: string,
+  contexts: ContextBlock[],
+  history: ChatMessage[],
+  onDelta: AnswerDeltaHandler,
+): Promise<ChatResult> {
+  if (!contexts.length) {
+    await onDelta(NO_MATCHES.answer);
+    return NO_MATCHES;
+  }
+
+  const result = await streamOrGenerate(
+    getChatProvider(env),
+    groundedRequest(STREAMED_GROUNDED_INSTRUCTIONS, question, contexts, history),
+    groundedRequest(GROUNDED_INSTRUCTIONS, question, contexts, history),
+    onDelta,
+  );
+  return typeof result === 'string' ? { answer: result, citations: citationsFromMarkers(result, contexts) } : result;
+}
+
+export async function generateGeneralAnswer(
+  env: MarbleBindings,
+  question: string,
+  history: ChatMessage[] = [],
+): Promise<ChatResult> {
+  return getChatProvider(env).generate(generalRequest(GENERAL_INSTRUCTIONS, question, history));
+}
+
+export async function streamGeneralAnswer(
+  env: MarbleBindings,
+  question: string,
+  history: ChatMessage[],
+  onDelta: AnswerDeltaHandler,
+): Promise<ChatResult> {
+  const result = await streamOrGenerate(
+    getChatProvider(env),
+    generalRequest(STREAMED_GENERAL_INSTRUCTIONS, question, history),
+    generalRequest(GENERAL_INSTRUCTIONS, question, history),
+    onDelta,
+  );
+  return typeof result === 'string' ? { answer: result, citations: [] } : result;
+}
@@ -0,0 +1,192 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  activateVectorIndex,
+  countChunksToReindex,
+  createInitialVectorIndex,
+  createVectorIndex,
+  failVectorIndex,
+  getVectorIndex,
+  listChunksToReindex,
+  listVectorIndexes,
+  markChunksReindexed,
+  markVectorIndexBuilding,
+  recordVectorIndexAttempt,
+  updateVectorIndexProgress,
+} from './db';
+import { envNumber } from './env';
+import { configuredEmbeddingModel, createEmbeddings } from './providers';
+import { chunkVectorMetadata, getVectorStore, resolveActiveVectorIndex } from './vectorize';
+import type { MarbleBindings, ReindexMessage, VectorIndexRecord } from '../types';
+
+/**
+ * Re-indexing builds the next generation of the vector index with the configured embedding
+ * model while the active generation keeps serving queries and taking new ingests. Batches walk
+ * the chunks that have no vector in the new generation yet, so chunks ingested mid-way are
+ * picked up too, and the cutover only happens once none are left.
+ */
+
+const MAX_REINDEX_ATTEMPTS = 3;
+
+export interface ReindexOptions {
+  /** Vectorize binding for the new generation; defaults to the active generation's. */
+  binding?: string;
+  createdBy: string;
+}
+
+/**
+ * Starts building a new generation with the configured embedding model. One probe embedding
+ * fixes its dimensions up front, so a Vectorize index that can't hold them is refused here
+ * rather than failing batch by batch.
+ */
+export async function startReindex(env: MarbleBindings, options: ReindexOptions): Promise<VectorIndexRecord> {
+  const indexes = await listVectorIndexes(env);
+  const building = indexes.find((index) => index.status === 'building');
+  if (building) {
+    throw new HTTPException(409, { message: `Vector index generation ${building.generation} is already being built` });
+  }
+
+  const active = await resolveActiveVectorIndex(env);
+  const model = configuredEmbeddingModel(env);
+  const binding = options.binding ?? active.binding;
+  const activeModel = active.model ?? model;
+  if (model === activeModel && binding === active.binding) {
+    throw new HTTPException(409, {
+      message: `The active vector index already uses ${model} in ${binding}; change the embedding model or pick another binding`,
+    });
+  }
+  const vectorize = (env.VECTOR_STORE ?? 'vectorize').trim().toLowerCase() === 'vectorize';
+  if (vectorize && !(env as unknown as Record<string, unknown>)[binding]) {
+    throw new HTTPException(400, { message: `No Vectorize binding named ${binding}` });
+  }
+  if (vectorize && binding === active.binding && active.generation <= 1 && !getVectorStore(env, active).namespaced) {
+    // Generation 1 vectors carry no generation to filter on, so a V2 index would rank the new
+    // generation's vectors against them and crowd them out of topK
+    throw new HTTPException(409, {
+      message: `${binding} is a V2 Vectorize index serving the first generation; re-index into another binding`,
+    });
+  }
+
+  const [probe] = await createEmbeddings(env, ['dimension probe'], { model });
+  const dimensions = probe?.length ?? 0;
+  if (vectorize && binding === active.binding && active.dimensions && dimensions !== active.dimensions) {
+    throw new HTTPException(400, {
+      message:
+        `${model} produces ${dimensions}-dimensional vectors but ${binding} holds ${active.dimensions}; ` +
+        `create a Vectorize index with ${dimensions} dimensions, bind it, and re-index into that binding`,
+    });
+  }
+
+  if (!indexes.length) {
+    // Pin the generation being replaced before a second one exists
+    await createInitialVectorIndex(env, { model: activeModel, dimensions: active.dimensions, binding: active.binding });
+  }
+  const generation = Math.max(1, ...indexes.map((index) => index.generation)) + 1;
+  await createVectorIndex(env, { generation, model, dimensions, binding, created_by: options.createdBy });
+
+  if (env.MARBLE_INGEST_QUEUE) {
+    await env.MARBLE_INGEST_QUEUE.send({ reindexGeneration: generation } satisfies ReindexMessage);
+  } else {
+    await runReindex(env, generation);
+  }
+
+  const index = await getVectorIndex(env, generation);
+  if (!index) {
+    throw new HTTPException(500, { message: 'Unable to load vector index' });
+  }
+  return index;
+}
+
+/**
+ * Embeds the next `INGEST_BATCH_SIZE` chunks that have no vector in the generation and writes
+ * them to its store. When none are left, swaps the generation in.
+ */
+export async function processReindexBatch(env: MarbleBindings, index: VectorIndexRecord): Promise<{ done: boolean }> {
+  if (index.status !== 'building') {
+    return { done: true };
+  }
+  const { generation } = index;
+  if (!index.started_at) {
+    await markVectorIndexBuilding(env, generation, await countChunksToReindex(env, generation));
+  }
+
+  const batchSize = Math.max(1, envNumber(env.INGEST_BATCH_SIZE, 50));
+  const rows = await listChunksToReindex(env, generation, batchSize);
+  if (!rows.length) {
+    await activateVectorIndex(env, generation);
+    const after = await getVectorIndex(env, generation);
+    if (after?.status === 'active') {
+      console.log('Re-index completed', { generation, model: index.model, chunks: index.processed_chunks });
+    }
+    // Still building means a chunk was stored since the last batch; the next batch takes it
+    return { done: after?.status !== 'building' };
+  }
+
+  // Chunks whose file or folder is gone are skipped; the file's purge removes them
+  const indexed = rows.filter((row) => row.file_name !== null && row.folder_name !== null);
+  if (indexed.length) {
+    const embeddings = await createEmbeddings(env, indexed.map((row) => row.content), { model: index.model });
+    const mismatched = embeddings.find((embedding) => embedding.length !== index.dimensions);
+    if (mismatched) {
+      await failVectorIndex(
+        env,
+        generation,
+        `${index.model} returned ${mismatched.length}-dimensional vectors; generation ${generation} holds ${index.dimensions}`,
+      );
+      return { done: true };
+    }
+    await getVectorStore(env, index).upsert(
+      indexed.map((row, position) => ({ id: row.id, values: embeddings[position], metadata: chunkVectorMetadata(row) })),
+    );
+  }
+  await markChunksReindexed(env, generation, rows.map((row) => row.id));
+  await updateVectorIndexProgress(env, generation, index.processed_chunks + rows.length);
+  return { done: false };
+}
+
+/** Builds the generation to completion in the current invocation. */
+export async function runReindex(env: MarbleBindings, generation: number): Promise<void> {
+  for (;;) {
+    const index = await getVectorIndex(env, generation);
+    if (!index) return;
+    try {
+      const { done } = await processReindexBatch(env, index);
+      if (done) return;
+    } catch (error) {
+      const message = (error as Error)?.message || String(error);
+      console.error('Inline re-index failed', { generation, error: message });
+      await failVectorIndex(env, generation, message);
+      return;
+    }
+  }
+}
+
+/**
+ * Queue consumer for re-index messages: one batch per message, re-enqueued until the cutover.
+ * A failed generation is simply never activated; the active one is untouched.
+ */
+export async function handleReindexMessage(message: Message<ReindexMessage>, env: MarbleBindings): Promise<void> {
+  const generation = message.body.reindexGeneration;
+  const index = await getVectorIndex(env, generation);
+  if (!index || index.status !== 'building') {
+    message.ack();
+    return;
+  }
+
+  try {
+    const { done } = await processReindexBatch(env, index);
+    if (!done && env.MARBLE_INGEST_QUEUE) {
+      await env.MARBLE_INGEST_QUEUE.send({ reindexGeneration: generation });
+    }
+    message.ack();
+  } catch (error) {
+    const reason = (error as Error)?.message || String(error);
+    console.error('Re-index batch failed', { generation, attempts: message.attempts, error: reason });
+    if (message.attempts >= MAX_REINDEX_ATTEMPTS) {
+      await failVectorIndex(env, generation, reason);
+      message.ack();
+    } else {
+      await recordVectorIndexAttempt(env, generation, reason);
+      message.retry({ delaySeconds: 2 ** message.attempts * 5 });
+    }
+  }
+}
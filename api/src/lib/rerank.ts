@@ -0,0 +1,207 @@
+import { envNumber } from './env';
+import { cosineSimilarity } from './local-vector-store';
+import { createEmbeddings, getChatProvider } from './providers';
+import { contentTerms } from './text';
+import type { MarbleBindings } from '../types';
+
+export type RerankerName = 'none' | 'lexical' | 'embedding' | 'llm';
+
+export interface RerankConfig {
+  reranker: RerankerName;
+  /** How many retrieval results to over-fetch before reranking down to `topK`. */
+  candidates: number;
+  /** MMR trade-off: 1 ranks on relevance alone, 0 on novelty alone. */
+  mmrLambda: number;
+}
+
+export interface RerankCandidate {
+  chunkId: string;
+  /** Score from retrieval (cosine, -bm25 or RRF, depending on the mode). */
+  score: number;
+  content: string;
+}
+
+export interface RerankedChunk {
+  chunkId: string;
+  retrievalScore: number;
+  retrievalRank: number;
+  /** Relevance from the reranker, normalized to 0..1. */
+  rerankScore: number;
+  /** The MMR objective at the point the chunk was selected. */
+  mmrScore: number;
+}
+
+const RERANKERS: RerankerName[] = ['none', 'lexical', 'embedding', 'llm'];
+const DEFAULT_CANDIDATE_MULTIPLIER = 3;
+const DEFAULT_MMR_LAMBDA = 0.7;
+/** Passages are clipped to this many characters when shown to the LLM reranker. */
+const LLM_PASSAGE_CHARS = 800;
+
+/** BM25 term-frequency saturation and length normalization. */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const LLM_RERANK_INSTRUCTIONS =
+  'You grade search results. For each numbered passage, rate from 0 to 10 how well it answers the query: 10 answers it directly, 0 is unrelated. Put only the scores in the answer field as comma-separated numbers in passage order, and leave citations empty.';
+
+function resolveReranker(value: string | undefined): RerankerName {
+  const name = (value ?? 'lexical').trim().toLowerCase();
+  if (!RERANKERS.includes(name as RerankerName)) {
+    throw new Error(`Unknown RERANK_PROVIDER "${value}"; expected one of ${RERANKERS.join(', ')}`);
+  }
+  return name as RerankerName;
+}
+
+/**
+ * Reads `RERANK_PROVIDER` (default `lexical`), `RERANK_CANDIDATES` (default three times
+ * `topK`) and `RERANK_MMR_LAMBDA` (default 0.7). `override` lets callers like the debug
+ * route try a different reranker without redeploying.
+ */
+export function rerankConfigFromEnv(env: MarbleBindings, topK: number, override?: string): RerankConfig {
+  const reranker = resolveReranker(override ?? env.RERANK_PROVIDER);
+  const overFetch = envNumber(env.RERANK_CANDIDATES, topK * DEFAULT_CANDIDATE_MULTIPLIER, { min: 1 });
+  const lambda = envNumber(env.RERANK_MMR_LAMBDA, DEFAULT_MMR_LAMBDA, { float: true });
+  return {
+    reranker,
+    candidates: reranker === 'none' ? topK : Math.max(topK, overFetch),
+    mmrLambda: Math.min(1, Math.max(0, lambda)),
+  };
+}
+
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : scores.length ? 1 : 0));
+}
+
+/** BM25 over the candidate pool itself, so it needs no index and works offline. */
+export function lexicalScores(query: string, contents: string[]): number[] {
+  const queryTerms = Array.from(new Set(contentTerms(query)));
+  const documents = contents.map((content) => contentTerms(content));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / Math.max(1, documents.length);
+
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const containing = documents.filter((terms) => terms.includes(term)).length;
+      return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+    }),
+  );
+
+  return documents.map((terms) =>
+    queryTerms.reduce((sum, term) => {
+      const frequency = terms.filter((entry) => entry === term).length;
+      if (!frequency) return sum;
+      const lengthNorm = 1 - BM25_B + (BM25_B * terms.length) / Math.max(1, averageLength);
+      return sum + (idf.get(term) ?? 0) * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+    }, 0),
+  );
+}
+
+async function llmScores(env: MarbleBindings, query: string, contents: string[]): Promise<number[]> {
+  const passages = contents
+    .map((content, index) => {
+      const clipped = content.length > LLM_PASSAGE_CHARS ? `${content.slice(0, LLM_PASSAGE_CHARS)}…` : content;
+      return `Passage ${index + 1}:\n${clipped}`;
+    })
+    .join('\n\n');
+  const result = await getChatProvider(env).generate({
+    messages: [
+      { role: 'system', content: LLM_RERANK_INSTRUCTIONS },
+      { role: 'user', content: `Query: ${query}\n\n${passages}` },
+    ],
+  });
+  const scores = (result.answer.match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+  if (scores.length !== contents.length) {
+    throw new Error(`LLM reranker returned ${scores.length} scores for ${contents.length} passages`);
+  }
+  return scores;
+}
+
+/** Jaccard overlap of content terms; overlapping neighbor chunks score high. */
+function termOverlap(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  const shared = Array.from(a).filter((term) => b.has(term)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly picks the candidate that best balances relevance
+ * against its similarity to what has already been picked, so near-duplicates sink.
+ */
+export function maximalMarginalRelevance(
+  relevance: number[],
+  similarity: (a: number, b: number) => number,
+  limit: number,
+  lambda: number,
+): Array<{ index: number; score: number }> {
+  const remaining = relevance.map((_, index) => index);
+  const selected: Array<{ index: number; score: number }> = [];
+
+  while (selected.length < limit && remaining.length) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, position) => {
+      const redundancy = selected.length ? Math.max(...selected.map(({ index }) => similarity(candidate, index))) : 0;
+      const score = lambda * relevance[candidate] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+    const [index] = remaining.splice(best, 1);
+    selected.push({ index, score: bestScore });
+  }
+
+  return selected;
+}
+
+/**
+ * Reorders over-fetched retrieval results with the configured reranker, then diversifies them
+ * with MMR and keeps `topK`. A hosted reranker that fails falls back to the lexical scorer
+ * rather than failing the lookup.
+ */
+export async function rerankChunks(
+  env: MarbleBindings,
+  options: { query: string; candidates: RerankCandidate[]; topK: number; config: RerankConfig },
+): Promise<RerankedChunk[]> {
+  const { query, candidates, topK, config } = options;
+  if (!candidates.length) return [];
+
+  const contents = candidates.map((candidate) => candidate.content);
+  let raw: number[];
+  let embeddings: number[][] | null = null;
+
+  if (config.reranker === 'none') {
+    raw = candidates.map((candidate) => candidate.score);
+  } else {
+    try {
+      if (config.reranker === 'embedding') {
+        const [queryVector, ...vectors] = await createEmbeddings(env, [query, ...contents]);
+        embeddings = vectors;
+        raw = vectors.map((vector) => cosineSimilarity(queryVector, vector));
+      } else if (config.reranker === 'llm') {
+        raw = await llmScores(env, query, contents);
+      } else {
+        raw = lexicalScores(query, contents);
+      }
+    } catch (err) {
+      console.warn(`Reranker "${config.reranker}" failed; using lexical scores`, err);
+      raw = lexicalScores(query, contents);
+    }
+  }
+
+  const relevance = normalize(raw);
+  const terms = contents.map((content) => new Set(contentTerms(content)));
+  const similarity = embeddings
+    ? (a: number, b: number) => cosineSimilarity(embeddings![a], embeddings![b])
+    : (a: number, b: number) => termOverlap(terms[a], terms[b]);
+  const lambda = config.reranker === 'none' ? 1 : config.mmrLambda;
+
+  return maximalMarginalRelevance(relevance, similarity, topK, lambda).map(({ index, score }) => ({
+    chunkId: candidates[index].chunkId,
+    retrievalScore: candidates[index].score,
+    retrievalRank: index + 1,
+    rerankScore: relevance[index],
+    mmrScore: score,
+  }));
+}
@@ -0,0 +1,145 @@
+import { HTTPException } from 'hono/http-exception';
+import { searchChunksByKeyword } from './db';
+import { createEmbeddings } from './providers';
+import { isStopWord } from './text';
+import { filterFromScope, privateNamespace, publicNamespace, queryNamespace, type VectorMatch } from './vectorize';
+import type { MarbleBindings, RetrievalScope } from '../types';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface RetrievedChunk {
+  chunkId: string;
+  /** Cosine similarity in vector mode, -bm25 in keyword mode, the RRF score in hybrid mode. */
+  score: number;
+  vectorRank: number | null;
+  keywordRank: number | null;
+}
+
+export interface RetrievalOptions {
+  query: string;
+  userId: string;
+  topK: number;
+  mode: RetrievalMode;
+  /** Restricts the search to some folders, files, visibility or creation dates. */
+  scope?: RetrievalScope;
+}
+
+/** Standard RRF damping constant from Cormack et al.; keeps a single #1 rank from dominating. */
+const RRF_K = 60;
+
+/**
+ * Turns free text into an FTS5 query: each whitespace-separated word becomes a quoted phrase
+ * (so `ERR_CONN-42` or `v1.2.3` keep their pieces together) and the phrases are OR-ed for BM25.
+ */
+export function buildKeywordQuery(text: string): string | null {
+  const phrases = text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, '').replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((word) => word && !isStopWord(word));
+  const unique = Array.from(new Set(phrases.map((word) => word.toLowerCase())));
+  return unique.length ? unique.map((word) => `"${word}"`).join(' OR ') : null;
+}
+
+/** Fuses ranked id lists: each list contributes 1 / (k + rank) for every id it contains. */
+export function reciprocalRankFusion(lists: string[][], k = RRF_K): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  lists.forEach((list) => {
+    list.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  });
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+}
+
+async function searchVectors(env: MarbleBindings, options: RetrievalOptions): Promise<VectorMatch[]> {
+  let embedding: number[];
+  try {
+    const [vector] = await createEmbeddings(env, [options.query]);
+    embedding = vector;
+  } catch (e: any) {
+    throw new HTTPException(500, { message: `Failed to embed lookup: ${e?.message || String(e)}` });
+  }
+
+  // Query public + private (unless scoped to one); if a namespace errors, it contributes nothing
+  const visibility = options.scope?.visibility ?? 'all';
+  const namespaces = [
+    ...(visibility === 'private' ? [] : [publicNamespace()]),
+    ...(visibility === 'public' ? [] : [privateNamespace(options.userId)]),
+  ];
+  const filter = filterFromScope(options.scope);
+  const results = await Promise.all(
+    namespaces.map(async (namespace) => {
+      try {
+        return await queryNamespace(env, { namespace, vector: embedding, topK: options.topK, filter });
+      } catch (err) {
+        // An index that can't answer this embedding at all has to be reported, not read as no matches
+        if (err instanceof HTTPException) throw err;
+        console.error('queryNamespace error for', namespace, err);
+        return [] as VectorMatch[];
+      }
+    }),
+  );
+
+  // Merge by best score per chunk
+  const merged = new Map<string, VectorMatch>();
+  results.flat().forEach((match) => {
+    const prev = merged.get(match.chunkId);
+    if (!prev || (match.score ?? 0) > prev.score) {
+      merged.set(match.chunkId, match);
+    }
+  });
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.topK);
+}
+
+async function searchKeywords(env: MarbleBindings, options: RetrievalOptions) {
+  const match = buildKeywordQuery(options.query);
+  if (!match) return [];
+  try {
+    return await searchChunksByKeyword(env, {
+      match,
+      ownerId: options.userId,
+      limit: options.topK,
+      scope: options.scope,
+    });
+  } catch (err) {
+    console.error('Keyword search failed', err);
+    return [];
+  }
+}
+
+/**
+ * Finds the chunks most relevant to `query` among public chunks and the user's private ones.
+ * Hybrid mode runs vector and BM25 search in parallel and fuses them with reciprocal rank fusion.
+ */
+export async function retrieveChunks(env: MarbleBindings, options: RetrievalOptions): Promise<RetrievedChunk[]> {
+  const [vectorMatches, keywordMatches] = await Promise.all([
+    options.mode === 'keyword' ? Promise.resolve([] as VectorMatch[]) : searchVectors(env, options),
+    options.mode === 'vector' ? Promise.resolve([]) : searchKeywords(env, options),
+  ]);
+
+  const vectorIds = vectorMatches.map((match) => match.chunkId);
+  const keywordIds = keywordMatches.map((match) => match.id);
+  const rankOf = (ids: string[], id: string) => {
+    const index = ids.indexOf(id);
+    return index === -1 ? null : index + 1;
+  };
+
+  let ranked: Array<{ id: string; score: number }>;
+  if (options.mode === 'vector') {
+    ranked = vectorMatches.map((match) => ({ id: match.chunkId, score: match.score }));
+  } else if (options.mode === 'keyword') {
+    ranked = keywordMatches.map((match) => ({ id: match.id, score: -match.rank }));
+  } else {
+    ranked = reciprocalRankFusion([vectorIds, keywordIds]);
+  }
+
+  return ranked.slice(0, options.topK).map(({ id, score }) => ({
+    chunkId: id,
+    score,
+    vectorRank: rankOf(vectorIds, id),
+    keywordRank: rankOf(keywordIds, id),
+  }));
+}
@@ -0,0 +1,56 @@
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Reads an upstream `text/event-stream` body event by event. Multi-line `data:` fields are
+ * joined with newlines; comments and other fields are ignored.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | null = null;
+  let data: string[] = [];
+
+  const readLine = (line: string): ServerSentEvent | null => {
+    if (!line) {
+      const dispatched = data.length ? { event, data: data.join('\n') } : null;
+      event = null;
+      data = [];
+      return dispatched;
+    }
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const dispatched = readLine(buffer.slice(0, newline).replace(/\r$/, ''));
+        buffer = buffer.slice(newline + 1);
+        if (dispatched) yield dispatched;
+      }
+
+      if (done) break;
+    }
+
+    // Servers don't always end the stream with a blank line
+    readLine(buffer.replace(/\r$/, ''));
+    const trailing = readLine('');
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
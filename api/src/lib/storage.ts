@@ -26,11 +26,7 @@ export function buildObjectKey(args: ObjectKeyArgs): string {
   return `${prefix}/${args.folderId}/${args.fileId}-${baseName}`;
 }
 
-export async function moveObject(env: MarbleBindings, fromKey: string, toKey: string): Promise<void> {
-  if (fromKey === toKey) {
-    return;
-  }
-
+export async function copyObject(env: MarbleBindings, fromKey: string, toKey: string): Promise<void> {
   const source = await env.MARBLE_FILES.get(fromKey);
   if (!source) {
     throw new Error(`Source object not found for key ${fromKey}`);
@@ -40,6 +36,14 @@ export async function moveObject(env: MarbleBindings, fromKey: string, toKey: st
     httpMetadata: source.httpMetadata,
     customMetadata: source.customMetadata,
   });
+}
+
+export async function moveObject(env: MarbleBindings, fromKey: string, toKey: string): Promise<void> {
+  if (fromKey === toKey) {
+    return;
+  }
+
+  await copyObject(env, fromKey, toKey);
   await env.MARBLE_FILES.delete(fromKey);
 }
 
@@ -47,6 +51,96 @@ export async function deleteObject(env: MarbleBindings, key: string): Promise<vo
   await env.MARBLE_FILES.delete(key);
 }
 
+export async function objectExists(env: MarbleBindings, key: string): Promise<boolean> {
+  return Boolean(await env.MARBLE_FILES.head(key));
+}
+
+/** One page of the bucket listing; pass the returned cursor back for the next, until there is none. */
+export async function listObjects(
+  env: MarbleBindings,
+  cursor?: string,
+): Promise<{ objects: Array<{ key: string; uploaded: Date }>; cursor?: string }> {
+  const page = await env.MARBLE_FILES.list({ cursor, limit: 1000 });
+  return {
+    objects: page.objects.map(({ key, uploaded }) => ({ key, uploaded })),
+    cursor: page.truncated ? page.cursor : undefined,
+  };
+}
+
 export async function streamObject(env: MarbleBindings, key: string): Promise<R2ObjectBody | null> {
   return env.MARBLE_FILES.get(key);
 }
+
+/**
+ * Text extracted from a binary upload (PDF, DOCX) is cached next to it under `derived/`, tagged
+ * with the etag of the object it came from so a replaced upload is never read through a stale copy.
+ */
+export function derivedTextKey(fileId: string): string {
+  return `derived/${fileId}.txt`;
+}
+
+/** The file a `derived/` key belongs to, or null for any other key. */
+export function derivedTextFileId(key: string): string | null {
+  return /^derived\/(.+)\.txt$/.exec(key)?.[1] ?? null;
+}
+
+/**
+ * Earlier versions of a file are archived under `versions/`. The key doesn't carry the file's
+ * folder or visibility, so renames and moves leave archived versions where they are.
+ */
+export function versionObjectKey(fileId: string, version: number): string {
+  return `versions/${fileId}/${version}`;
+}
+
+/** The file a `versions/` key belongs to, or null for any other key. */
+export function versionObjectFileId(key: string): string | null {
+  return /^versions\/(.+)\/\d+$/.exec(key)?.[1] ?? null;
+}
+
+/**
+ * An ingest job's prepared chunks and their diff against the stored ones, written by its first
+ * batch so the later ones page through the same list instead of preparing the file again.
+ */
+export function ingestPlanKey(fileId: string, jobId: string): string {
+  return `ingest-plans/${fileId}/${jobId}.json`;
+}
+
+/** The file an `ingest-plans/` key belongs to, or null for any other key. */
+export function ingestPlanFileId(key: string): string | null {
+  return /^ingest-plans\/(.+)\/[^/]+\.json$/.exec(key)?.[1] ?? null;
+}
+
+export async function getDerivedText(env: MarbleBindings, fileId: string, sourceEtag: string): Promise<string | null> {
+  const object = await env.MARBLE_FILES.get(derivedTextKey(fileId));
+  if (!object || object.customMetadata?.sourceEtag !== sourceEtag) {
+    return null;
+  }
+  return object.text();
+}
+
+export async function putDerivedText(
+  env: MarbleBindings,
+  fileId: string,
+  sourceEtag: string,
+  text: string,
+): Promise<void> {
+  await env.MARBLE_FILES.put(derivedTextKey(fileId), text, {
+    httpMetadata: { contentType: 'text/plain; charset=utf-8' },
+    customMetadata: { sourceEtag },
+  });
+}
+
+export async function getIngestPlan(env: MarbleBindings, fileId: string, jobId: string): Promise<string | null> {
+  const object = await env.MARBLE_FILES.get(ingestPlanKey(fileId, jobId));
+  return object ? object.text() : null;
+}
+
+export async function putIngestPlan(env: MarbleBindings, fileId: string, jobId: string, plan: string): Promise<void> {
+  await env.MARBLE_FILES.put(ingestPlanKey(fileId, jobId), plan, {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+export async function deleteIngestPlan(env: MarbleBindings, fileId: string, jobId: string): Promise<void> {
+  await env.MARBLE_FILES.delete(ingestPlanKey(fileId, jobId));
+}
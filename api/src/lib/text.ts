@@ -0,0 +1,24 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to',
+  'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function isStopWord(term: string): boolean {
+  return STOP_WORDS.has(term.toLowerCase());
+}
+
+/** Lower-cased tokens with stop words removed. */
+export function contentTerms(text: string): string[] {
+  return tokenize(text).filter((term) => !STOP_WORDS.has(term));
+}
+
+/** Hex-encoded SHA-256 of the UTF-8 bytes of `text`. */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,82 @@
+import { deleteFolder, listExpiredTrashedFiles, listExpiredTrashedFolders } from './db';
+import { envNumber } from './env';
+import { purgeFile } from './files';
+import { timestampToEpochMs } from './vectorize';
+import type { MarbleBindings } from '../types';
+
+/**
+ * Deleting a file or folder only moves it to its owner's trash: it disappears from listings and
+ * retrieval but keeps its R2 object, chunks and vectors, so a restore is just clearing
+ * `deleted_at`. Whatever stays in the trash past the retention window is purged for good by
+ * the Cron Trigger.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+/** `TRASH_RETENTION_DAYS`: how long trashed items can still be restored. */
+export function trashRetentionDays(env: MarbleBindings): number {
+  return envNumber(env.TRASH_RETENTION_DAYS, DEFAULT_RETENTION_DAYS, { min: 0 });
+}
+
+/** When an item trashed at `deletedAt` becomes due for purging, as an ISO timestamp. */
+export function trashPurgeAt(env: MarbleBindings, deletedAt: string): string {
+  return new Date(timestampToEpochMs(deletedAt) + trashRetentionDays(env) * DAY_MS).toISOString();
+}
+
+export interface TrashPurgeResult {
+  files: number;
+  folders: number;
+  failed: number;
+}
+
+/**
+ * Purges every file and folder that has been in the trash longer than the retention window.
+ * A folder waits for a later run if one of its files could not be purged, since deleting the
+ * folder row would cascade to that file's row and strand its object and vectors.
+ */
+export async function purgeExpiredTrash(env: MarbleBindings, now = Date.now()): Promise<TrashPurgeResult> {
+  const cutoff = new Date(now - trashRetentionDays(env) * DAY_MS).toISOString();
+  const result: TrashPurgeResult = { files: 0, folders: 0, failed: 0 };
+  const blockedFolders = new Set<string>();
+
+  let afterId = '';
+  for (;;) {
+    const files = await listExpiredTrashedFiles(env, cutoff, afterId, PAGE_SIZE);
+    for (const file of files) {
+      try {
+        await purgeFile(env, file);
+        result.files += 1;
+      } catch (error) {
+        result.failed += 1;
+        blockedFolders.add(file.folder_id);
+        console.error('Trash purge failed', { fileId: file.id, error: (error as Error)?.message || String(error) });
+      }
+    }
+    if (files.length < PAGE_SIZE) break;
+    afterId = files[files.length - 1].id;
+  }
+
+  afterId = '';
+  for (;;) {
+    const folders = await listExpiredTrashedFolders(env, cutoff, afterId, PAGE_SIZE);
+    for (const folder of folders) {
+      if (blockedFolders.has(folder.id)) continue;
+      try {
+        await deleteFolder(env, folder.id);
+        result.folders += 1;
+      } catch (error) {
+        result.failed += 1;
+        console.error('Trash purge failed', { folderId: folder.id, error: (error as Error)?.message || String(error) });
+      }
+    }
+    if (folders.length < PAGE_SIZE) break;
+    afterId = folders[folders.length - 1].id;
+  }
+
+  if (result.files || result.folders || result.failed) {
+    console.log('Expired trash purged', { cutoff, ...result });
+  }
+  return result;
+}
@@ -1,5 +1,8 @@
 // api/src/lib/vectorize.ts
-import type { MarbleBindings, Visibility } from '../types';
+import { HTTPException } from 'hono/http-exception';
+import { getActiveVectorIndex, listVectorIndexes, type ReindexChunkRow } from './db';
+import { createD1VectorStore, createMemoryVectorStore, matchesFilter } from './local-vector-store';
+import type { MarbleBindings, RetrievalScope, VectorIndexRecord, Visibility } from '../types';
 
 export interface VectorMetadata {
   chunkId: string;
@@ -11,14 +14,96 @@ export interface VectorMetadata {
   endLine: number;
   visibility: Visibility;
   ownerId: string;
+  /** File creation time in epoch milliseconds; absent on vectors indexed before scoped search. */
+  createdAt?: number;
+  /** Index generation the vector belongs to; absent in generation 1. */
+  generation?: number;
 }
 
 export interface VectorMatch extends VectorMetadata {
   score: number;
 }
 
-function partitionForVisibility(visibility: Visibility, ownerId: string): string {
-  return visibility === 'public' ? 'public' : `user:${ownerId}`;
+export interface StoredVector {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+/** A match as the store returns it, before it is normalised into a `VectorMatch`. */
+export interface RawVectorMatch {
+  id: string;
+  score?: number;
+  metadata?: Partial<VectorMetadata> | null;
+}
+
+export type VectorFilterValue = string | number | boolean | null;
+export type VectorFilterCondition =
+  | VectorFilterValue
+  | {
+      $eq?: VectorFilterValue;
+      $ne?: VectorFilterValue;
+      $in?: VectorFilterValue[];
+      $nin?: VectorFilterValue[];
+      $lt?: string | number;
+      $lte?: string | number;
+      $gt?: string | number;
+      $gte?: string | number;
+    };
+/** Metadata filter in Vectorize syntax; every key must match. */
+export type VectorFilter = Record<string, VectorFilterCondition>;
+
+export interface VectorLocation {
+  visibility: Visibility;
+  ownerId: string;
+  generation?: number;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  namespace: string;
+  /** Extra metadata conditions, applied together with the namespace. */
+  filter?: VectorFilter;
+  /** Generation to search; the active one when omitted. */
+  index?: VectorIndexTarget;
+}
+
+/** A generation of the vector index: where its vectors live and the model that made them. */
+export type VectorIndexTarget = Pick<VectorIndexRecord, 'generation' | 'binding' | 'dimensions'> & {
+  /** Null until the index records the model it is built with. */
+  model: string | null;
+};
+
+/** Generation 1 in the default binding: the index as it was before generations were recorded. */
+export const INITIAL_VECTOR_INDEX: VectorIndexTarget = {
+  generation: 1,
+  binding: 'MARBLE_VECTORS',
+  dimensions: null,
+  model: null,
+};
+
+/**
+ * Where chunk vectors live. `namespaced` stores keep one partition per namespace (Vectorize V1),
+ * so deletes must name the partition and moving a vector means removing the old copy.
+ */
+export interface VectorStore {
+  kind: 'vectorize' | 'd1' | 'memory';
+  namespaced: boolean;
+  upsert(vectors: StoredVector[]): Promise<void>;
+  delete(ids: string[], location: VectorLocation): Promise<void>;
+  getByIds(ids: string[]): Promise<Array<{ id: string; values: number[] }>>;
+  query(query: VectorQuery): Promise<RawVectorMatch[]>;
+  /** Every stored vector's id and metadata; Vectorize has no listing, so only the local stores have it. */
+  list?(): Promise<Array<{ id: string; metadata: VectorMetadata }>>;
+}
+
+function generationPrefix(generation: number | undefined): string {
+  return generation && generation > 1 ? `g${generation}:` : '';
+}
+
+function partitionForVisibility(visibility: Visibility, ownerId: string, generation?: number): string {
+  return generationPrefix(generation) + (visibility === 'public' ? 'public' : `user:${ownerId}`);
 }
 
 /** Detect V2 binding: remove()/describe() present or upsert/query single-arg form */
@@ -33,6 +118,233 @@ function isV2(binding: any): boolean {
   return false;
 }
 
+/** The metadata filter that stands in for a V1 namespace on stores without partitions. */
+export function filterFromNamespace(ns: string): VectorFilter {
+  if (ns === 'public') return { visibility: 'public' };
+  if (ns.startsWith('user:')) {
+    const ownerId = ns.slice('user:'.length);
+    return { visibility: 'private', ownerId };
+  }
+  return {};
+}
+
+/** D1 writes `YYYY-MM-DD HH:MM:SS` in UTC without a zone; ISO strings pass through as-is. */
+export function timestampToEpochMs(timestamp: string): number {
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp) ? `${timestamp.replace(' ', 'T')}Z` : timestamp;
+  return Date.parse(iso);
+}
+
+/** Metadata for a stored chunk's vector, from the chunk row joined to its file and folder. */
+export function chunkVectorMetadata(row: ReindexChunkRow): VectorMetadata {
+  return {
+    chunkId: row.id,
+    fileId: row.file_id,
+    folderId: row.folder_id,
+    folderName: row.folder_name ?? '',
+    fileName: row.file_name ?? '',
+    startLine: row.start_line,
+    endLine: row.end_line,
+    visibility: row.visibility,
+    ownerId: row.owner_id,
+    ...(row.file_created_at ? { createdAt: timestampToEpochMs(row.file_created_at) } : {}),
+  };
+}
+
+/** Translates a retrieval scope into Vectorize metadata conditions (visibility is handled by namespaces). */
+export function filterFromScope(scope: RetrievalScope | undefined): VectorFilter {
+  const filter: VectorFilter = {};
+  if (!scope) return filter;
+  if (scope.folderIds?.length) filter.folderId = { $in: scope.folderIds };
+  if (scope.fileIds?.length) filter.fileId = { $in: scope.fileIds };
+  if (scope.createdAfter || scope.createdBefore) {
+    filter.createdAt = {
+      ...(scope.createdAfter ? { $gte: timestampToEpochMs(scope.createdAfter) } : {}),
+      ...(scope.createdBefore ? { $lte: timestampToEpochMs(scope.createdBefore) } : {}),
+    };
+  }
+  return filter;
+}
+
+/* =========================
+   VECTORIZE STORE
+   ========================= */
+function createVectorizeStore(binding: any): VectorStore {
+  const v2 = isV2(binding);
+
+  return {
+    kind: 'vectorize',
+    namespaced: !v2,
+
+    async upsert(vectors) {
+      if (v2) {
+        await binding.upsert(vectors); // V2: single-arg
+        return;
+      }
+      // V1: namespaced, one call per partition
+      const byNamespace = new Map<string, StoredVector[]>();
+      vectors.forEach((vector) => {
+        const { visibility, ownerId, generation } = vector.metadata;
+        const namespace = partitionForVisibility(visibility, ownerId, generation);
+        byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), vector]);
+      });
+      for (const [namespace, group] of byNamespace) {
+        await binding.upsert(namespace, group);
+      }
+    },
+
+    async delete(ids, location) {
+      if (v2) {
+        // ✅ V2: only use remove()
+        if (typeof binding.remove === 'function') {
+          await binding.remove(ids);
+        } else if (typeof binding.deleteByIds === 'function') {
+          await binding.deleteByIds(ids);
+        } else {
+          throw new Error('Vectorize binding does not support delete/remove');
+        }
+      } else {
+        // ✅ V1: namespaced delete
+        await binding.delete(partitionForVisibility(location.visibility, location.ownerId, location.generation), ids);
+      }
+    },
+
+    async getByIds(ids) {
+      if (typeof binding.getByIds !== 'function') return [];
+      const vectors = ((await binding.getByIds(ids)) ?? []) as Array<{ id: string; values?: ArrayLike<number> }>;
+      return vectors
+        .filter((vector) => vector?.values && vector.values.length)
+        .map((vector) => ({ id: vector.id, values: Array.from(vector.values!) }));
+    },
+
+    async query({ vector, topK, namespace, filter: scopeFilter = {} }) {
+      const scoped = Object.keys(scopeFilter).length > 0;
+      if (!v2) {
+        const response = await binding.query(namespace, {
+          vector,
+          topK,
+          returnValues: false,
+          returnMetadata: true,
+          ...(scoped ? { filter: scopeFilter } : {}),
+        });
+        return response?.matches ?? [];
+      }
+
+      const filter = { ...filterFromNamespace(namespace), ...scopeFilter };
+      const response = await binding.query(vector, {
+        topK,
+        returnValues: false,
+        returnMetadata: true,
+        filter,
+      });
+      const matches = response?.matches ?? [];
+      if (matches.length || !Object.keys(filter).length) {
+        return matches;
+      }
+
+      // Fallback: retry without metadata filter in case the index has no metadata indexes to filter
+      // on. The namespace's visibility and owner, and the scope, still have to hold, so the whole
+      // filter is re-checked against whatever metadata came back.
+      const unfiltered = await binding.query(vector, {
+        topK,
+        returnValues: false,
+        returnMetadata: true,
+      });
+      const fallback = (unfiltered?.matches ?? []) as RawVectorMatch[];
+      return fallback.filter((match) => matchesFilter(match.metadata ?? {}, filter));
+    },
+  };
+}
+
+/**
+ * Keeps one generation's vectors apart from the others sharing its store. Generation 1 is stored
+ * as before generations existed; later ones prefix their ids (and V1 namespaces) with `g<n>:` and
+ * carry `generation` in their metadata, so their matches can be told apart. Generation 1 queries
+ * on the D1 and memory stores filter the later ones out before `topK` is taken; a V2 Vectorize
+ * index cannot filter on a missing field, so startReindex() never builds a generation in the
+ * binding generation 1 queries there.
+ */
+function forGeneration(store: VectorStore, generation: number): VectorStore {
+  const belongs = (match: RawVectorMatch) => (match.metadata?.generation ?? 1) === generation;
+  if (generation <= 1) {
+    const scope = (query: VectorQuery): VectorQuery =>
+      store.kind === 'vectorize' ? query : { ...query, filter: { ...query.filter, generation: { $in: [null, 1] } } };
+    return {
+      ...store,
+      query: async (query) => (await store.query(scope(query))).filter(belongs),
+      ...(store.list ? { list: async () => (await store.list!()).filter(belongs) } : {}),
+    };
+  }
+
+  const prefix = generationPrefix(generation);
+  const unprefix = (id: string) => (id.startsWith(prefix) ? id.slice(prefix.length) : id);
+  return {
+    kind: store.kind,
+    namespaced: store.namespaced,
+    upsert: (vectors) =>
+      store.upsert(
+        vectors.map((vector) => ({ ...vector, id: prefix + vector.id, metadata: { ...vector.metadata, generation } })),
+      ),
+    delete: (ids, location) => store.delete(ids.map((id) => prefix + id), { ...location, generation }),
+    getByIds: async (ids) =>
+      (await store.getByIds(ids.map((id) => prefix + id))).map((vector) => ({ ...vector, id: unprefix(vector.id) })),
+    query: async (query) => {
+      const scoped = store.namespaced
+        ? { ...query, namespace: prefix + query.namespace }
+        : { ...query, filter: { ...query.filter, generation } };
+      return (await store.query(scoped)).filter(belongs);
+    },
+    ...(store.list
+      ? { list: async () => (await store.list!()).filter(belongs).map((entry) => ({ ...entry, id: unprefix(entry.id) })) }
+      : {}),
+  };
+}
+
+/**
+ * Picks the vector store from `VECTOR_STORE`: `vectorize` (default) uses the index's Vectorize
+ * binding (MARBLE_VECTORS unless a re-index moved it); `d1` and `memory` run brute-force cosine
+ * search in-process for offline work.
+ */
+export function getVectorStore(env: MarbleBindings, index: VectorIndexTarget = INITIAL_VECTOR_INDEX): VectorStore {
+  let store: VectorStore;
+  switch ((env.VECTOR_STORE ?? 'vectorize').trim().toLowerCase()) {
+    case 'vectorize': {
+      const binding = (env as unknown as Record<string, unknown>)[index.binding];
+      if (!binding) {
+        throw new Error(`Vector index generation ${index.generation} uses binding ${index.binding}, which is not configured`);
+      }
+      store = createVectorizeStore(binding);
+      break;
+    }
+    case 'd1':
+      store = createD1VectorStore(env);
+      break;
+    case 'memory':
+      store = createMemoryVectorStore(env);
+      break;
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${env.VECTOR_STORE}"; expected vectorize, d1 or memory`);
+  }
+  return forGeneration(store, index.generation);
+}
+
+/** The generation serving queries and taking new ingests. */
+export async function resolveActiveVectorIndex(env: MarbleBindings): Promise<VectorIndexTarget> {
+  return (await getActiveVectorIndex(env)) ?? INITIAL_VECTOR_INDEX;
+}
+
+/** The active generation followed by any being built; deletes and moves have to reach all of them. */
+async function liveVectorIndexes(env: MarbleBindings): Promise<VectorIndexTarget[]> {
+  const indexes = (await listVectorIndexes(env)).filter((index) => index.status === 'active' || index.status === 'building');
+  const active = indexes.filter((index) => index.status === 'active');
+  const building = indexes.filter((index) => index.status === 'building');
+  return [...(active.length ? active : [INITIAL_VECTOR_INDEX]), ...building];
+}
+
+/** Retired generations whose vectors the consistency check's repair hasn't purged yet. */
+export async function unpurgedVectorIndexes(env: MarbleBindings): Promise<VectorIndexRecord[]> {
+  return (await listVectorIndexes(env)).filter((index) => index.status === 'retired' && !index.purged_at);
+}
+
 /* =========================
    UPSERT
    ========================= */
@@ -41,16 +353,10 @@ export async function upsertChunkVector(
   chunkId: string,
   embedding: number[],
   metadata: VectorMetadata,
+  index?: VectorIndexTarget,
 ): Promise<void> {
-  const vectors = [{ id: chunkId, values: embedding, metadata }];
-  const binding: any = env.MARBLE_VECTORS;
-
-  if (isV2(binding)) {
-    await binding.upsert(vectors); // V2: single-arg
-  } else {
-    const namespace = partitionForVisibility(metadata.visibility, metadata.ownerId);
-    await binding.upsert(namespace, vectors); // V1: namespaced
-  }
+  const target = index ?? (await resolveActiveVectorIndex(env));
+  await getVectorStore(env, target).upsert([{ id: chunkId, values: embedding, metadata }]);
 }
 
 /* =========================
@@ -63,44 +369,74 @@ export async function deleteChunkVectors(
   ownerId: string,
 ): Promise<void> {
   if (!chunkIds.length) return;
-  const binding: any = env.MARBLE_VECTORS;
-
-  if (isV2(binding)) {
-    // ✅ V2: only use remove()
-    if (typeof binding.remove === 'function') {
-      await binding.remove(chunkIds);
-    } else if (typeof binding.deleteByIds === 'function') {
-      await binding.deleteByIds(chunkIds);
-    } else {
-      throw new Error('Vectorize binding does not support delete/remove');
-    }
-  } else {
-    // ✅ V1: namespaced delete
-    const namespace = partitionForVisibility(visibility, ownerId);
-    await binding.delete(namespace, chunkIds);
+  for (const index of [...(await liveVectorIndexes(env)), ...(await unpurgedVectorIndexes(env))]) {
+    await getVectorStore(env, index).delete(chunkIds, { visibility, ownerId });
   }
 }
 
-/* ==============
-   QUERY
-   ============== */
-interface QueryOptions {
-  vector: number[];
-  topK: number;
-  namespace: string;
+/* =========================
+   RELOCATE
+   ========================= */
+
+async function relocateInStore(
+  store: VectorStore,
+  metadata: VectorMetadata[],
+  previous: VectorLocation,
+): Promise<VectorMetadata[]> {
+  const ids = metadata.map((entry) => entry.chunkId);
+  const stored = new Map((await store.getByIds(ids)).map((vector) => [vector.id, vector.values]));
+
+  const missing: VectorMetadata[] = [];
+  for (const entry of metadata) {
+    const values = stored.get(entry.chunkId);
+    if (!values) {
+      missing.push(entry);
+      continue;
+    }
+    await store.upsert([{ id: entry.chunkId, values, metadata: entry }]);
+  }
+
+  if (store.namespaced) {
+    // Partitioned stores keep the old copies unless they are removed explicitly
+    const targets = new Set(metadata.map((entry) => partitionForVisibility(entry.visibility, entry.ownerId)));
+    const previousNamespace = partitionForVisibility(previous.visibility, previous.ownerId);
+    if (!targets.has(previousNamespace)) {
+      await store.delete(ids, previous);
+    }
+  }
+
+  return missing;
 }
 
-function filterFromNamespace(ns: string): Record<string, unknown> {
-  if (ns === 'public') return { visibility: 'public' };
-  if (ns.startsWith('user:')) {
-    const ownerId = ns.slice('user:'.length);
-    return { visibility: 'private', ownerId };
+/**
+ * Re-writes stored vectors with fresh metadata, moving them to the namespace that matches the
+ * new visibility, in the active generation and any being built. Values are read back from the
+ * index; ids whose values could not be read from the active generation are returned so the
+ * caller can re-embed them. A generation being built picks those up from the re-index. Retired
+ * generations that aren't purged yet just lose the old copies.
+ */
+export async function relocateChunkVectors(
+  env: MarbleBindings,
+  metadata: VectorMetadata[],
+  previous: VectorLocation,
+): Promise<{ missing: VectorMetadata[] }> {
+  if (!metadata.length) return { missing: [] };
+  const [active, ...building] = await liveVectorIndexes(env);
+  const missing = await relocateInStore(getVectorStore(env, active), metadata, previous);
+  for (const index of building) {
+    await relocateInStore(getVectorStore(env, index), metadata, previous);
   }
-  return {};
+  const ids = metadata.map((entry) => entry.chunkId);
+  for (const index of await unpurgedVectorIndexes(env)) {
+    await getVectorStore(env, index).delete(ids, previous);
+  }
+  return { missing };
 }
 
-export async function queryNamespace(env: MarbleBindings, options: QueryOptions): Promise<VectorMatch[]> {
-  const binding: any = env.MARBLE_VECTORS;
+/* ==============
+   QUERY
+   ============== */
+export async function queryNamespace(env: MarbleBindings, options: VectorQuery): Promise<VectorMatch[]> {
   const buildMatch = (raw: any): VectorMatch | null => {
     if (!raw) return null;
     const metadata = (raw.metadata ?? null) as Partial<VectorMetadata> | null;
@@ -126,43 +462,21 @@ export async function queryNamespace(env: MarbleBindings, options: QueryOptions)
       endLine: metadata?.endLine ?? 0,
       visibility,
       ownerId,
+      ...(typeof metadata?.createdAt === 'number' ? { createdAt: metadata.createdAt } : {}),
       score: raw.score ?? 0,
     };
   };
 
-  if (isV2(binding)) {
-    const filter = filterFromNamespace(options.namespace);
-    const baseOptions = {
-      topK: options.topK,
-      returnValues: false,
-      returnMetadata: true,
-      filter,
-    };
-
-    let response = await binding.query(options.vector, baseOptions);
-    let matches = (response?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
-
-    if (!matches.length && filter && Object.keys(filter).length) {
-      // Fallback: retry without metadata filter in case vectors were stored without it
-      response = await binding.query(options.vector, {
-        topK: options.topK,
-        returnValues: false,
-        returnMetadata: true,
-      });
-      matches = (response?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
-    }
-
-    return matches;
+  const index = options.index ?? (await resolveActiveVectorIndex(env));
+  if (index.dimensions && options.vector.length !== index.dimensions) {
+    throw new HTTPException(409, {
+      message:
+        `Query embedding has ${options.vector.length} dimensions but vector index generation ${index.generation}` +
+        ` (${index.model ?? 'unknown model'}) holds ${index.dimensions}-dimensional vectors`,
+    });
   }
-
-  // V1 fallback
-  const rV1 = await binding.query(options.namespace, {
-    vector: options.vector,
-    topK: options.topK,
-    returnValues: false,
-    returnMetadata: true,
-  });
-  return (rV1?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
+  const matches = await getVectorStore(env, index).query(options);
+  return matches.map(buildMatch).filter(Boolean) as VectorMatch[];
 }
 
 /* Helpers */
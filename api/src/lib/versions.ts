@@ -0,0 +1,87 @@
+import { HTTPException } from 'hono/http-exception';
+import { getFileVersion, recordFileVersion, type FileWithFolder } from './db';
+import { extractPagedText, fromPagedText, isPagedFormat, resolveFormat } from './extractors';
+import { enqueueIngest } from './ingestion';
+import { foldLineEndings } from './pipeline';
+import { copyObject, versionObjectKey } from './storage';
+import type { AuthenticatedUser, FileVersionRecord, IngestJobRecord, MarbleBindings } from '../types';
+
+export interface NewVersion {
+  body: ArrayBuffer;
+  mimeType: string;
+  /** The version a rollback copies. */
+  restoredFrom?: number;
+}
+
+/**
+ * Makes `next` the file's current version. The object it replaces is copied to its archive key
+ * first, then the new bytes take the file's key and the file is ingested again; unchanged chunks
+ * keep their embeddings, so only what the version changed is embedded.
+ */
+export async function createFileVersion(
+  env: MarbleBindings,
+  file: FileWithFolder,
+  next: NewVersion,
+  user: Pick<AuthenticatedUser, 'id'>,
+): Promise<{ version: number; job: IngestJobRecord }> {
+  const current = file.current_version ?? 1;
+  const version = current + 1;
+  const archivedKey = versionObjectKey(file.id, current);
+
+  await copyObject(env, file.r2_key, archivedKey);
+  try {
+    await recordFileVersion(env, { id: file.id, current_version: current }, archivedKey, {
+      version,
+      size: next.body.byteLength,
+      mime_type: next.mimeType,
+      restored_from: next.restoredFrom ?? null,
+      created_by: user.id,
+    });
+  } catch (error) {
+    // Another upload got this version number first; the archive copy is still the one it made
+    console.error('Recording file version failed', { fileId: file.id, version, error: (error as Error)?.message });
+    throw new HTTPException(409, { message: 'The file changed while uploading; try again' });
+  }
+
+  await env.MARBLE_FILES.put(file.r2_key, next.body, {
+    httpMetadata: { contentType: next.mimeType },
+    customMetadata: { fileId: file.id, ownerId: file.owner_id, version: String(version) },
+  });
+
+  const job = await enqueueIngest(env, file);
+  return { version, job };
+}
+
+/** Loads a version's record and bytes; archived versions are read from their own key. */
+export async function readFileVersion(
+  env: MarbleBindings,
+  file: FileWithFolder,
+  version: number,
+): Promise<{ record: FileVersionRecord; body: ArrayBuffer }> {
+  const record = await getFileVersion(env, file.id, version);
+  if (!record) {
+    throw new HTTPException(404, { message: `Version ${version} not found` });
+  }
+  const object = await env.MARBLE_FILES.get(record.r2_key ?? file.r2_key);
+  if (!object) {
+    throw new HTTPException(404, { message: `The contents of version ${version} are missing` });
+  }
+  return { record, body: await object.arrayBuffer() };
+}
+
+/**
+ * A version's text as lines for diffing: what the extractor reads from PDF and DOCX bytes, and
+ * the file itself, with its line endings folded, for every other format.
+ */
+export async function readVersionLines(
+  file: FileWithFolder,
+  record: FileVersionRecord,
+  body: ArrayBuffer,
+): Promise<string[]> {
+  const format = resolveFormat(file.file_name, record.mime_type);
+  const text =
+    format && isPagedFormat(format)
+      ? fromPagedText(format, await extractPagedText(format, new Uint8Array(body))).text
+      : foldLineEndings(new TextDecoder().decode(body));
+  return text.split('\n');
+}
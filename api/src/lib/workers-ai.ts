@@ -0,0 +1,66 @@
+import { JSON_ANSWER_INSTRUCTIONS, parseChatResultText } from './openai';
+import { readServerSentEvents } from './sse';
+import type { ChatProvider, EmbeddingProvider } from './providers';
+import type { MarbleBindings } from '../types';
+
+export const WORKERS_AI_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+export const WORKERS_AI_CHAT_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+export class WorkersAIError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkersAIError';
+  }
+}
+
+function requireBinding(env: MarbleBindings): any {
+  if (!env.AI) {
+    throw new WorkersAIError('Missing AI binding; add an [ai] block to wrangler.toml');
+  }
+  return env.AI;
+}
+
+export function createWorkersAIEmbeddingProvider(env: MarbleBindings, model: string): EmbeddingProvider {
+  return {
+    name: 'workers-ai',
+    model,
+    async embed(input) {
+      const result = (await requireBinding(env).run(model, { text: input })) as { data?: number[][] };
+      if (!Array.isArray(result?.data)) {
+        throw new WorkersAIError(`Unexpected embedding response from ${model}`);
+      }
+      return result.data;
+    },
+  };
+}
+
+export function createWorkersAIChatProvider(env: MarbleBindings, model: string): ChatProvider {
+  return {
+    name: 'workers-ai',
+    model,
+    async generate(request) {
+      const result = (await requireBinding(env).run(model, {
+        messages: [...request.messages, { role: 'system', content: JSON_ANSWER_INSTRUCTIONS }],
+      })) as { response?: unknown };
+      const response = result?.response;
+      if (response && typeof response === 'object') {
+        // Models with JSON mode hand back the parsed object directly
+        return parseChatResultText(JSON.stringify(response));
+      }
+      return parseChatResultText(typeof response === 'string' ? response : '');
+    },
+    async *stream(request) {
+      const body = (await requireBinding(env).run(model, {
+        messages: request.messages,
+        stream: true,
+      })) as ReadableStream<Uint8Array>;
+      for await (const event of readServerSentEvents(body)) {
+        if (event.data === '[DONE]') return;
+        const { response } = JSON.parse(event.data) as { response?: unknown };
+        if (typeof response === 'string' && response) {
+          yield response;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+
+/**
+ * Tenant-wide operations (consistency checks, re-indexing) are limited to the users listed in
+ * `ADMIN_EMAILS`, compared case-insensitively.
+ */
+export function assertAdmin(c: AppContext, message: string): void {
+  const admins = (c.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!admins.includes(c.get('user').email.toLowerCase())) {
+    throw new HTTPException(403, { message });
+  }
+}
@@ -1,29 +1,42 @@
 import { HTTPException } from 'hono/http-exception';
+import { streamSSE } from 'hono/streaming';
 import type { AppContext } from '../context';
-import { createEmbeddings, generateGeneralAnswer, generateStructuredAnswer } from '../lib/openai';
+import {
+  generateGeneralAnswer,
+  generateStructuredAnswer,
+  NO_MATCHES,
+  streamGeneralAnswer,
+  streamStructuredAnswer,
+  type AnswerDeltaHandler,
+  type ChatMessage,
+} from '../lib/providers';
 import { chatInput } from '../schemas';
-import { getChunksByIds, recordChat } from '../lib/db';
-import { privateNamespace, publicNamespace, queryNamespace, type VectorMatch } from '../lib/vectorize';
-
-// Normalize embedding provider output to number[]
-function normalizeQuestionEmbedding(maybe: any): number[] {
-  // OpenAI embeddings: { data: [{ embedding: number[] }] }
-  if (maybe && Array.isArray(maybe.data) && maybe.data[0]?.embedding) {
-    return maybe.data[0].embedding as number[];
-  }
-  // number[][] (e.g. direct return from createEmbeddings)
-  if (Array.isArray(maybe) && Array.isArray(maybe[0])) {
-    return maybe[0] as number[];
-  }
-  // Already number[]
-  if (Array.isArray(maybe) && typeof maybe[0] === 'number') {
-    return maybe as number[];
-  }
-  // Some wrappers: { vectors: number[][] }
-  if (maybe && Array.isArray(maybe.vectors) && Array.isArray(maybe.vectors[0])) {
-    return maybe.vectors[0] as number[];
-  }
-  throw new Error('Question embedding not in a known format');
+import {
+  createConversation,
+  getChunksByIds,
+  getConversation,
+  listConversationMessages,
+  recordChat,
+} from '../lib/db';
+import { buildHistory, conversationTitle, historyBudgetFromEnv, rewriteQuery } from '../lib/conversation';
+import { classifyChatMode, type ChatMode } from '../lib/chat-mode';
+import { groundResult } from '../lib/citations';
+import { expandContexts, expansionConfigFromEnv } from '../lib/expansion';
+import { rerankChunks, rerankConfigFromEnv } from '../lib/rerank';
+import { retrieveChunks } from '../lib/retrieval';
+import type { ChatResult, ConversationRecord, MarbleBindings } from '../types';
+
+/** Produces the answer, streaming it through `onDelta` when the client asked for SSE. */
+type Answerer = (onDelta?: AnswerDeltaHandler) => Promise<ChatResult>;
+
+const noMatches: Answerer = async (onDelta) => {
+  await onDelta?.(NO_MATCHES.answer);
+  return NO_MATCHES;
+};
+
+function wantsStream(c: AppContext): boolean {
+  const flag = c.req.query('stream');
+  return c.req.path.endsWith('/stream') || flag === '1' || flag === 'true';
 }
 
 function parseTopK(value: string | undefined): number {
@@ -31,6 +44,34 @@ function parseTopK(value: string | undefined): number {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : 8;
 }
 
+/** Continues the caller's conversation, or starts one titled after the first question. */
+async function resolveConversation(
+  env: MarbleBindings,
+  userId: string,
+  conversationId: string | undefined,
+  question: string,
+): Promise<{ conversation: ConversationRecord; history: ChatMessage[] }> {
+  if (conversationId) {
+    const conversation = await getConversation(env, conversationId, userId);
+    if (!conversation) {
+      throw new HTTPException(404, { message: 'Conversation not found' });
+    }
+    const messages = await listConversationMessages(env, conversation.id);
+    return { conversation, history: buildHistory(messages, historyBudgetFromEnv(env)) };
+  }
+
+  const now = new Date().toISOString();
+  const conversation: ConversationRecord = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    title: conversationTitle(question),
+    created_at: now,
+    updated_at: now,
+  };
+  await createConversation(env, conversation);
+  return { conversation, history: [] };
+}
+
 export async function handleChat(c: AppContext) {
   const user = c.get('user');
   const requestBody = await c.req.json();
@@ -44,123 +85,135 @@ export async function handleChat(c: AppContext) {
     throw new HTTPException(400, { message: 'Question cannot be empty' });
   }
 
+  // `/lookup` predates `mode` and still forces retrieval
   const lookupMatch = rawQuestion.match(/^\/lookup\s*(.*)$/i);
-  const isLookup = Boolean(lookupMatch);
+  const lookupQuery = lookupMatch ? lookupMatch[1].trim() : rawQuestion;
+  if (lookupMatch && !lookupQuery) {
+    throw new HTTPException(400, { message: 'Lookup query cannot be empty' });
+  }
 
-  if (!isLookup) {
-    const chatId = crypto.randomUUID();
-    const structured = await generateGeneralAnswer(c.env, rawQuestion);
+  const { conversation, history } = await resolveConversation(c.env, user.id, parsed.data.conversationId, rawQuestion);
+
+  const scope = parsed.data.scope;
+  let mode: ChatMode;
+  if (lookupMatch || parsed.data.mode === 'knowledge') {
+    mode = 'knowledge';
+  } else if (parsed.data.mode === 'general') {
+    mode = 'general';
+  } else {
+    const decision = await classifyChatMode(c.env, { question: rawQuestion, userId: user.id, scope });
+    console.log('Chat mode classified', decision);
+    mode = decision.mode;
+  }
 
+  const streaming = wantsStream(c);
+
+  const record = async (result: ChatResult, retrievalQuery?: string) => {
+    const chatId = crypto.randomUUID();
+    const citations = result.citations ?? [];
     await recordChat(c.env, {
       id: chatId,
       user_id: user.id,
+      conversation_id: conversation.id,
       question: rawQuestion,
-      answer: structured.answer,
-      citations: JSON.stringify(structured.citations ?? []),
+      answer: result.answer,
+      citations: JSON.stringify(citations),
+      retrieval_query: retrievalQuery ?? null,
     });
-
-    return c.json({
+    return {
       id: chatId,
-      answer: structured.answer,
-      citations: structured.citations ?? [],
-      sources: [],
-    });
-  }
-
-  const lookupQuery = (lookupMatch?.[1] ?? '').trim();
-  if (!lookupQuery) {
-    throw new HTTPException(400, { message: 'Lookup query cannot be empty' });
-  }
-
-  // 1) Embed & normalize to number[]
-  let embedding: number[];
-  try {
-    const raw = await createEmbeddings(c.env, [lookupQuery]);
-    embedding = normalizeQuestionEmbedding(raw);
-  } catch (e: any) {
-    throw new HTTPException(500, { message: `Failed to embed lookup: ${e?.message || String(e)}` });
-  }
-
-  const topK = parseTopK(c.env.VECTOR_TOP_K);
+      conversationId: conversation.id,
+      answer: result.answer,
+      citations,
+      ...(result.grounding ? { grounding: result.grounding } : {}),
+    };
+  };
+
+  /**
+   * JSON clients get the whole reply at once. SSE clients get a `sources` event first, then
+   * `delta` events with answer text, then `done` with the citations and persisted message id.
+   */
+  const respond = async (answer: Answerer, sources: unknown[], retrievalQuery?: string) => {
+    const extra = { mode, ...(retrievalQuery !== undefined ? { retrievalQuery } : {}) };
+    if (!streaming) {
+      const message = await record(await answer(), retrievalQuery);
+      return c.json({ ...message, sources, ...extra });
+    }
 
-  // 2) Query public + private; if a namespace errors, return []
-  const namespaces = [publicNamespace(), privateNamespace(user.id)];
-  const results = await Promise.all(
-    namespaces.map(async (namespace) => {
+    return streamSSE(c, async (stream) => {
+      await stream.writeSSE({ event: 'sources', data: JSON.stringify({ conversationId: conversation.id, sources, ...extra }) });
       try {
-        return await queryNamespace(c.env, { namespace, vector: embedding, topK });
+        const result = await answer((text) => stream.writeSSE({ event: 'delta', data: JSON.stringify({ text }) }));
+        const message = await record(result, retrievalQuery);
+        await stream.writeSSE({ event: 'done', data: JSON.stringify({ ...message, ...extra }) });
       } catch (err) {
-        console.error('queryNamespace error for', namespace, err);
-        return [] as VectorMatch[];
+        console.error('Streaming chat failed', err);
+        const error = err instanceof Error ? err.message : String(err);
+        await stream.writeSSE({ event: 'error', data: JSON.stringify({ error }) });
       }
-    }),
-  );
-
-  // 3) Merge by best score per chunk
-  const merged = new Map<string, { score: number; match: VectorMatch }>();
-  results.flat().forEach((match) => {
-    const prev = merged.get(match.chunkId);
-    if (!prev || (match.score ?? 0) > prev.score) {
-      merged.set(match.chunkId, { score: match.score ?? 0, match });
-    }
-  });
+    });
+  };
+
+  if (mode === 'general') {
+    return respond(
+      (onDelta) =>
+        onDelta
+          ? streamGeneralAnswer(c.env, rawQuestion, history, onDelta)
+          : generateGeneralAnswer(c.env, rawQuestion, history),
+      [],
+    );
+  }
 
-  const topMatches = Array.from(merged.values())
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK);
+  // Follow-ups like "what about the second one?" need the thread to mean anything to the index
+  const retrievalQuery = await rewriteQuery(c.env, history, lookupQuery);
 
-  const chunkIds = topMatches.map((e) => e.match.chunkId);
-  console.log('Lookup results', {
-    query: lookupQuery,
-    topK,
-    matches: topMatches.length,
+  const topK = parseTopK(c.env.VECTOR_TOP_K);
+  const retrievalMode = parsed.data.retrieval?.mode ?? 'hybrid';
+  const rerank = rerankConfigFromEnv(c.env, topK);
+
+  // 1) Vector and/or keyword search, fused when hybrid, over-fetched for the reranker
+  const candidates = await retrieveChunks(c.env, {
+    query: retrievalQuery,
+    userId: user.id,
+    topK: rerank.candidates,
+    mode: retrievalMode,
+    scope,
   });
-  if (!chunkIds.length) {
-    const chatId = crypto.randomUUID();
-    return c.json({
-      id: chatId,
-      answer: "I couldn't find anything relevant in your Marble files.",
-      citations: [],
-      sources: [],
-    });
+
+  if (!candidates.length) {
+    return respond(noMatches, [], retrievalQuery);
   }
 
-  // 4) Pull chunk rows (for content)
-  const chunks = await getChunksByIds(c.env, chunkIds);
+  // 2) Pull chunk rows (for content)
+  const chunks = await getChunksByIds(c.env, candidates.map((entry) => entry.chunkId), user.id, scope);
   const byId = new Map(chunks.map((ch) => [ch.id, ch]));
 
-  const contexts = topMatches
-    .map((e, index) => {
-      const ch = byId.get(e.match.chunkId);
-      if (!ch) return null;
-      return {
-        order: index,
-        chunkId: ch.id,
-        folderName: ch.folder_name,
-        fileName: ch.file_name,
-        startLine: ch.start_line,
-        endLine: ch.end_line,
-        content: ch.content,
-      };
-    })
-    .filter(Boolean) as Array<{
-      order: number;
-      chunkId: string;
-      folderName: string;
-      fileName: string;
-      startLine: number;
-      endLine: number;
-      content: string;
-    }>;
+  // 3) Rerank and diversify, so overlapping neighbors don't crowd out other sources
+  const retrieved = await rerankChunks(c.env, {
+    query: retrievalQuery,
+    candidates: candidates
+      .filter((entry) => byId.has(entry.chunkId))
+      .map((entry) => ({ chunkId: entry.chunkId, score: entry.score, content: byId.get(entry.chunkId)!.content })),
+    topK,
+    config: rerank,
+  });
+  console.log('Lookup results', {
+    query: retrievalQuery,
+    mode: retrievalMode,
+    reranker: rerank.reranker,
+    candidates: candidates.length,
+    matches: retrieved.length,
+  });
+
+  // 4) Widen hits with neighboring chunks and fit them into the context budget
+  const hits = retrieved.map((entry) => byId.get(entry.chunkId)!);
+  const contexts = (await expandContexts(c.env, hits, expansionConfigFromEnv(c.env))).map((context, order) => ({
+    order,
+    ...context,
+  }));
 
   if (!contexts.length) {
-    const chatId = crypto.randomUUID();
-    return c.json({
-      id: chatId,
-      answer: "I couldn't find anything relevant in your Marble files.",
-      citations: [],
-      sources: [],
-    });
+    return respond(noMatches, [], retrievalQuery);
   }
 
   console.log('Lookup contexts selected', {
@@ -170,31 +223,27 @@ export async function handleChat(c: AppContext) {
   });
 
   // 5) Ask your LLM to synthesize
-  const structured = await generateStructuredAnswer(
-    c.env,
-    lookupQuery,
-    contexts.map((cxt) => ({
-      folderName: cxt.folderName,
-      fileName: cxt.fileName,
-      startLine: cxt.startLine,
-      endLine: cxt.endLine,
-      content: cxt.content,
-    })),
+  const blocks = contexts.map((cxt) => ({
+    chunkId: cxt.chunkId,
+    folderName: cxt.folderName,
+    fileName: cxt.fileName,
+    startLine: cxt.startLine,
+    endLine: cxt.endLine,
+    page: cxt.page,
+    fileVersion: cxt.fileVersion,
+    content: cxt.content,
+  }));
+
+  // 6) Drop or repair citations the retrieved chunks don't back, and score the answer against them
+  return respond(
+    async (onDelta) =>
+      groundResult(
+        onDelta
+          ? await streamStructuredAnswer(c.env, lookupQuery, blocks, history, onDelta)
+          : await generateStructuredAnswer(c.env, lookupQuery, blocks, history),
+        blocks,
+      ),
+    contexts,
+    retrievalQuery,
   );
-
-  const chatId = crypto.randomUUID();
-  await recordChat(c.env, {
-    id: chatId,
-    user_id: user.id,
-    question: rawQuestion,
-    answer: structured.answer,
-    citations: JSON.stringify(structured.citations),
-  });
-
-  return c.json({
-    id: chatId,
-    answer: structured.answer,
-    citations: structured.citations,
-    sources: contexts,
-  });
 }
@@ -0,0 +1,58 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { runConsistencyCheck } from '../lib/consistency';
+import { getConsistencyRun, listConsistencyRuns } from '../lib/db';
+import { consistencyRunInput } from '../schemas';
+import type { ConsistencyReport, ConsistencyRunRecord } from '../types';
+import { assertAdmin } from './admin';
+
+const RECENT_RUNS = 20;
+
+/** The checks span every tenant, so only admins may run them. */
+const ADMIN_ONLY = 'Consistency checks are limited to admins';
+
+export function serializeConsistencyRun(run: ConsistencyRunRecord) {
+  return {
+    id: run.id,
+    mode: run.mode,
+    trigger: run.trigger,
+    status: run.status,
+    report: run.report ? (JSON.parse(run.report) as ConsistencyReport) : null,
+    error: run.error,
+    createdBy: run.created_by,
+    startedAt: run.started_at,
+    completedAt: run.completed_at,
+  };
+}
+
+/** POST /api/consistency { mode?: 'report' | 'repair' } — runs a check now and returns its report. */
+export async function handleStartConsistencyRun(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const input = await c.req.json().catch(() => ({}));
+  const parsed = consistencyRunInput.safeParse(input ?? {});
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const run = await runConsistencyCheck(c.env, { mode: parsed.data.mode, trigger: 'manual', createdBy: c.get('user').id });
+  return c.json({ run: serializeConsistencyRun(run) }, run.status === 'failed' ? 500 : 200);
+}
+
+/** GET /api/consistency — the most recent runs, scheduled and manual. */
+export async function handleListConsistencyRuns(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const runs = await listConsistencyRuns(c.env, RECENT_RUNS);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ runs: runs.map(serializeConsistencyRun) });
+}
+
+/** GET /api/consistency/:id */
+export async function handleConsistencyRun(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const run = await getConsistencyRun(c.env, c.req.param('id'));
+  if (!run) {
+    throw new HTTPException(404, { message: 'Consistency run not found' });
+  }
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ run: serializeConsistencyRun(run) });
+}
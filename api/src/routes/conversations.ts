@@ -0,0 +1,96 @@
+import type { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { AppEnv, AppContext } from '../context';
+import {
+  deleteConversation,
+  getConversation,
+  listConversationMessages,
+  listConversations,
+  renameConversation,
+  type ConversationSummary,
+} from '../lib/db';
+import { renameConversationInput } from '../schemas';
+import type { ChatCitation, ConversationRecord, MessageRecord } from '../types';
+
+function serializeConversation(conversation: ConversationRecord | ConversationSummary) {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    ...('message_count' in conversation ? { messageCount: conversation.message_count } : {}),
+    createdAt: conversation.created_at,
+    updatedAt: conversation.updated_at,
+  };
+}
+
+function serializeMessage(message: MessageRecord) {
+  let citations: ChatCitation[] = [];
+  try {
+    citations = JSON.parse(message.citations) as ChatCitation[];
+  } catch {
+    // Leave malformed rows citation-less rather than failing the whole thread
+  }
+  return {
+    id: message.id,
+    question: message.question,
+    answer: message.answer,
+    citations,
+    retrievalQuery: message.retrieval_query,
+    createdAt: message.created_at,
+  };
+}
+
+async function requireConversation(c: AppContext): Promise<ConversationRecord> {
+  const conversation = await getConversation(c.env, c.req.param('id'), c.get('user').id);
+  if (!conversation) {
+    throw new HTTPException(404, { message: 'Conversation not found' });
+  }
+  return conversation;
+}
+
+async function handleList(c: AppContext) {
+  const conversations = await listConversations(c.env, c.get('user').id);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ conversations: conversations.map(serializeConversation) });
+}
+
+async function handleDetail(c: AppContext) {
+  const conversation = await requireConversation(c);
+  const messages = await listConversationMessages(c.env, conversation.id);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    conversation: serializeConversation(conversation),
+    messages: messages.map(serializeMessage),
+  });
+}
+
+async function handleRename(c: AppContext) {
+  const conversation = await requireConversation(c);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = renameConversationInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  await renameConversation(c.env, conversation.id, parsed.data.title);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    conversation: serializeConversation({
+      ...conversation,
+      title: parsed.data.title,
+      updated_at: new Date().toISOString(),
+    }),
+  });
+}
+
+async function handleDelete(c: AppContext) {
+  const conversation = await requireConversation(c);
+  await deleteConversation(c.env, conversation.id);
+  return c.json({ deleted: true });
+}
+
+export function registerConversationRoutes(api: Hono<AppEnv>) {
+  api.get('/conversations', handleList);
+  api.get('/conversations/:id', handleDetail);
+  api.patch('/conversations/:id', handleRename);
+  api.delete('/conversations/:id', handleDelete);
+}
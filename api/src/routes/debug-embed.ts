@@ -1,7 +1,7 @@
 // api/src/routes/debug-embed.ts
 import type { AppContext } from '../context';
 import { HTTPException } from 'hono/http-exception';
-import { createEmbeddings } from '../lib/openai';
+import { createEmbeddings } from '../lib/providers';
 
 /**
  * GET /api/debug/embed?q=some+text
@@ -1,20 +1,54 @@
 // api/src/routes/debug.ts
 import type { AppContext } from '../context';
 import { HTTPException } from 'hono/http-exception';
-import { createEmbeddings } from '../lib/openai';
-import { publicNamespace, privateNamespace, queryNamespace } from '../lib/vectorize';
+import { getChunksByIds, getEmbeddingCacheStats } from '../lib/db';
+import { embeddingCacheLimit } from '../lib/embedding-cache';
+import { activeEmbeddingModel, createEmbeddings } from '../lib/providers';
+import { rerankChunks, rerankConfigFromEnv, type RerankConfig } from '../lib/rerank';
+import { filterFromScope, publicNamespace, privateNamespace, queryNamespace } from '../lib/vectorize';
+import { retrievalScopeInput } from '../schemas';
+
+/** Reads `folderIds`/`fileIds` as comma-separated or repeated params, plus the date bounds. */
+function scopeFromSearchParams(params: URLSearchParams) {
+  const list = (name: string) => {
+    const values = params.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+    return values.length ? values : undefined;
+  };
+  const parsed = retrievalScopeInput.safeParse({
+    folderIds: list('folderIds'),
+    fileIds: list('fileIds'),
+    createdAfter: params.get('createdAfter') || undefined,
+    createdBefore: params.get('createdBefore') || undefined,
+  });
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+  return parsed.data;
+}
 
 /**
- * GET /api/debug/query?q=some+text[&scope=public|private|both]
+ * GET /api/debug/query?q=some+text[&scope=public|private|both][&folderIds=a,b][&fileIds=c]
+ *   [&createdAfter=ISO][&createdBefore=ISO][&rerank=none|lexical|embedding|llm]
  * Uses your real embeddings + vector index. Helpful to verify search end-to-end.
+ * `matches` are the over-fetched vector results; `reranked` is what lookup would keep.
  */
 export async function handleDebugQuery(c: AppContext) {
   const user = c.get('user');
   const url = new URL(c.req.url);
   const q = (url.searchParams.get('q') || '').trim();
-  const scope = url.searchParams.get('scope') || 'both'; // 'public' | 'private' | 'both'
+  const scope = url.searchParams.get('scope') || url.searchParams.get('visibility') || 'both'; // 'public' | 'private' | 'both'
 
   if (!q) throw new HTTPException(400, { message: 'Missing q' });
+  const retrievalScope = scopeFromSearchParams(url.searchParams);
+  const filter = filterFromScope(retrievalScope);
+
+  const topK = parseTopK(c.env.VECTOR_TOP_K, 8);
+  let rerank: RerankConfig;
+  try {
+    rerank = rerankConfigFromEnv(c.env, topK, url.searchParams.get('rerank') || undefined);
+  } catch (e: any) {
+    throw new HTTPException(400, { message: String(e?.message || e) });
+  }
 
   // 1) Embed the query
   const vectors = await createEmbeddings(c.env, [q]);
@@ -22,27 +56,40 @@ export async function handleDebugQuery(c: AppContext) {
   const vectorDims = Array.isArray(vec) ? vec.length : -1;
 
   // 2) Query vector index (public/private/both)
-  const topK = parseTopK(c.env.VECTOR_TOP_K, 8);
-
   try {
     const promises: Array<Promise<any>> = [];
-    if (scope === 'public' || scope === 'both') {
+    if (scope === 'public' || scope === 'both' || scope === 'all') {
       promises.push(
-        queryNamespace(c.env, { namespace: publicNamespace(), vector: vec, topK })
+        queryNamespace(c.env, { namespace: publicNamespace(), vector: vec, topK: rerank.candidates, filter })
       );
     }
-    if (scope === 'private' || scope === 'both') {
+    if (scope === 'private' || scope === 'both' || scope === 'all') {
       promises.push(
-        queryNamespace(c.env, { namespace: privateNamespace(user.id), vector: vec, topK })
+        queryNamespace(c.env, { namespace: privateNamespace(user.id), vector: vec, topK: rerank.candidates, filter })
       );
     }
 
-    const results = (await Promise.all(promises)).flat();
+    const results = (await Promise.all(promises)).flat().sort((a: any, b: any) => b.score - a.score);
+
+    // 3) Rerank the way lookup does
+    const chunks = await getChunksByIds(c.env, results.map((m: any) => m.chunkId), user.id, retrievalScope);
+    const contentById = new Map(chunks.map((chunk) => [chunk.id, chunk.content]));
+    const reranked = await rerankChunks(c.env, {
+      query: q,
+      candidates: results
+        .filter((m: any) => contentById.has(m.chunkId))
+        .map((m: any) => ({ chunkId: m.chunkId, score: m.score, content: contentById.get(m.chunkId)! })),
+      topK,
+      config: rerank,
+    });
 
     return c.json({
       q,
       vectorDims,
-      matches: results.map((m: any) => ({
+      filter,
+      rerank,
+      matches: results.map((m: any, index: number) => ({
+        rank: index + 1,
         score: m.score,
         chunkId: m.chunkId,
         fileId: m.fileId,
@@ -53,7 +100,9 @@ export async function handleDebugQuery(c: AppContext) {
         ownerId: m.ownerId,
         startLine: m.startLine,
         endLine: m.endLine,
+        createdAt: m.createdAt ?? null,
       })),
+      reranked: reranked.map((entry, index) => ({ rank: index + 1, ...entry })),
     });
   } catch (e: any) {
     return c.json(
@@ -77,7 +126,7 @@ export async function handleDebugFile(c: AppContext) {
   if (!fileId) throw new HTTPException(400, { message: 'Missing fileId' });
 
   const rows = await c.env.MARBLE_DB.prepare(
-    `SELECT id, file_id, folder_id, owner_id, visibility, chunk_index, start_line, end_line, content
+    `SELECT id, file_id, folder_id, owner_id, visibility, chunk_index, start_line, end_line, content, chunk_strategy
      FROM chunks WHERE file_id = ? ORDER BY chunk_index ASC`
   )
     .bind(fileId)
@@ -90,6 +139,7 @@ export async function handleDebugFile(c: AppContext) {
     sample: results.slice(0, 3).map((r: any) => ({
       chunkId: r.id,
       range: [r.start_line, r.end_line],
+      strategy: r.chunk_strategy ?? null,
       preview: (r.content || '').slice(0, 200),
     })),
     chunkIds: results.map((r: any) => r.id),
@@ -157,6 +207,26 @@ export async function handleDebugStats(c: AppContext) {
   }
 }
 
+/**
+ * GET /api/debug/embedding-cache
+ * Hit rate and size of the embedding cache per model; `model` is the one currently in use.
+ */
+export async function handleDebugEmbeddingCache(c: AppContext) {
+  const stats = await getEmbeddingCacheStats(c.env);
+  return c.json({
+    model: await activeEmbeddingModel(c.env),
+    maxEntries: embeddingCacheLimit(c.env),
+    models: stats.map((row) => ({
+      model: row.model,
+      entries: row.entries,
+      hits: row.hits,
+      misses: row.misses,
+      hitRate: row.hits + row.misses ? Number((row.hits / (row.hits + row.misses)).toFixed(3)) : null,
+      updatedAt: row.updated_at,
+    })),
+  });
+}
+
 /* utils */
 function parseTopK(v: string | undefined, fallback: number) {
   const n = v ? Number.parseInt(v, 10) : Number.NaN;
@@ -1,8 +1,9 @@
 import { HTTPException } from 'hono/http-exception';
 import type { AppContext } from '../context';
-import { deleteChunkVectors } from '../lib/vectorize';
-import { deleteChunksForFile, deleteFile, getFile } from '../lib/db';
+import { getFile, trashFile } from '../lib/db';
+import { trashPurgeAt } from '../lib/trash';
 
+/** DELETE /api/files/:id — moves the file to its owner's trash; the purge comes later. */
 export async function handleDeleteFile(c: AppContext) {
   const user = c.get('user');
   const fileId = c.req.param('id');
@@ -16,12 +17,8 @@ export async function handleDeleteFile(c: AppContext) {
     throw new HTTPException(403, { message: 'You can only delete your own files' });
   }
 
-  await c.env.MARBLE_FILES.delete(file.r2_key);
-  const chunkIds = await deleteChunksForFile(c.env, fileId);
-  await deleteFile(c.env, fileId);
-  if (chunkIds.length) {
-    await deleteChunkVectors(c.env, chunkIds, file.visibility, file.owner_id);
-  }
+  await trashFile(c.env, file.id);
+  const deletedAt = new Date().toISOString();
 
-  return c.json({ deleted: true });
+  return c.json({ deleted: true, trashed: true, purgeAt: trashPurgeAt(c.env, deletedAt) });
 }
@@ -1,7 +1,31 @@
 import type { AppContext } from '../context';
-import { listFiles } from '../lib/db';
+import { listFiles, type FileWithFolder } from '../lib/db';
 import { listFilesQuery } from '../schemas';
 
+export function serializeFile(file: FileWithFolder) {
+  return {
+    id: file.id,
+    name: file.file_name,
+    visibility: file.visibility,
+    status: file.status,
+    size: file.size,
+    mimeType: file.mime_type ?? null,
+    version: file.current_version ?? 1,
+    folder: {
+      id: file.folder_id,
+      name: file.folder_name,
+      visibility: file.folder_visibility,
+    },
+    owner: {
+      id: file.owner_id,
+      email: file.owner_email,
+      displayName: file.owner_display_name ?? null,
+    },
+    createdAt: file.created_at,
+    updatedAt: file.updated_at,
+  };
+}
+
 export async function handleListFiles(c: AppContext) {
   const user = c.get('user');
   const query = c.req.query();
@@ -10,24 +34,13 @@ export async function handleListFiles(c: AppContext) {
     return c.json({ error: parsed.error.message }, 400);
   }
 
-  const folderId = parsed.data.folder_id;
-  const visibility = parsed.data.visibility;
-
-  if (visibility === 'public') {
-    const files = await listFiles(c.env, { folderId, visibility: 'public' });
-    return c.json({ files });
-  }
-
-  if (visibility === 'private') {
-    const files = await listFiles(c.env, { folderId, visibility: 'private', ownerId: user.id });
-    return c.json({ files });
-  }
-
-  const [publicFiles, privateFiles] = await Promise.all([
-    listFiles(c.env, { folderId, visibility: 'public' }),
-    listFiles(c.env, { folderId, visibility: 'private', ownerId: user.id }),
-  ]);
+  const files = await listFiles(c.env, {
+    tenant: user.tenant,
+    ownerId: user.id,
+    folderId: parsed.data.folderId ?? parsed.data.folder_id,
+    visibility: parsed.data.visibility ?? 'all',
+  });
 
-  const merged = [...publicFiles, ...privateFiles].sort((a, b) => (a.created_at > b.created_at ? -1 : 1));
-  return c.json({ files: merged });
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ files: files.map(serializeFile) });
 }
@@ -1,14 +1,28 @@
 import type { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import type { AppEnv, AppContext } from '../context';
-import { createFolder, listFolders, updateFolder, getFolderById, assertFolderAccess } from '../lib/db';
+import {
+  assertFolderAccess,
+  assertFolderOwner,
+  createFolder,
+  getFolderById,
+  getTrashedFolder,
+  listFolderFiles,
+  listFolders,
+  restoreFolder,
+  trashFolder,
+  updateFolder,
+} from '../lib/db';
+import { applyFolderVisibility } from '../lib/files';
 import { createFolderInput, listFoldersQuery, updateFolderInput } from '../schemas';
+import { serializeTrashedFolder } from './trash';
 
 function serializeFolder(folder: Awaited<ReturnType<typeof listFolders>>[number]) {
   return {
     id: folder.id,
     name: folder.name,
     visibility: folder.visibility,
+    chunkStrategy: folder.chunk_strategy ?? null,
     fileCount: folder.file_count,
     owner: folder.owner_email
       ? {
@@ -56,6 +70,7 @@ async function handleCreate(c: AppContext) {
     ownerId: user.id,
     name: parsed.data.name,
     visibility: parsed.data.visibility,
+    chunkStrategy: parsed.data.chunkStrategy,
   });
 
   c.header('Cache-Control', 'private, no-store');
@@ -65,6 +80,7 @@ async function handleCreate(c: AppContext) {
         id,
         name: parsed.data.name,
         visibility: parsed.data.visibility,
+        chunkStrategy: parsed.data.chunkStrategy ?? null,
         fileCount: 0,
         owner: {
           id: user.id,
@@ -94,7 +110,11 @@ async function handleUpdate(c: AppContext) {
     ownerId: user.id,
     name: parsed.data.name,
     visibility: parsed.data.visibility,
+    chunkStrategy: parsed.data.chunkStrategy,
   });
+  if (parsed.data.visibility) {
+    await applyFolderVisibility(c.env, next.id, next.visibility, user);
+  }
 
   const [summary] = await listFolders(c.env, {
     tenant: user.tenant,
@@ -110,6 +130,7 @@ async function handleUpdate(c: AppContext) {
           id: next.id,
           name: next.name,
           visibility: next.visibility,
+          chunkStrategy: next.chunk_strategy ?? null,
           fileCount: 0,
           owner: {
             id: user.id,
@@ -126,28 +147,70 @@ async function handleDetail(c: AppContext) {
   const user = c.get('user');
   const id = c.req.param('id');
   const folder = await getFolderById(c.env, id);
-  assertFolderAccess(folder, user.id);
+  assertFolderAccess(folder, user);
 
   c.header('Cache-Control', 'private, no-store');
   return c.json({
-    folder: folder
-      ? {
-          id: folder.id,
-          name: folder.name,
-          visibility: folder.visibility,
-          createdAt: folder.created_at,
-          updatedAt: folder.updated_at,
-          owner: folder.owner_email
-            ? { id: folder.owner_id, email: folder.owner_email, displayName: folder.owner_display_name }
-            : null,
-        }
-      : null,
+    folder: {
+      id: folder.id,
+      name: folder.name,
+      visibility: folder.visibility,
+      chunkStrategy: folder.chunk_strategy ?? null,
+      createdAt: folder.created_at,
+      updatedAt: folder.updated_at,
+      owner: folder.owner_email
+        ? { id: folder.owner_id, email: folder.owner_email, displayName: folder.owner_display_name }
+        : null,
+    },
+  });
+}
+
+async function handleDelete(c: AppContext) {
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const folder = await getFolderById(c.env, id);
+  assertFolderAccess(folder, user);
+  assertFolderOwner(folder, user.id);
+
+  const files = await listFolderFiles(c.env, id);
+  if (files.some((file) => file.owner_id !== user.id)) {
+    throw new HTTPException(409, { message: 'Folder contains files owned by other users' });
+  }
+
+  await trashFolder(c.env, id);
+  const trashed = await getTrashedFolder(c.env, id);
+
+  console.log('Folder moved to trash', { folderId: id, files: files.length });
+
+  return c.json({
+    deleted: true,
+    files: files.length,
+    folder: trashed ? serializeTrashedFolder(c.env, trashed) : null,
   });
 }
 
+/** POST /api/folders/:id/restore — brings the folder back with the files that were trashed with it. */
+async function handleRestore(c: AppContext) {
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const folder = await getTrashedFolder(c.env, id);
+  if (!folder || folder.tenant !== user.tenant) {
+    throw new HTTPException(404, { message: 'Folder not found in trash' });
+  }
+  assertFolderOwner(folder, user.id);
+
+  await restoreFolder(c.env, id);
+  const restored = await getFolderById(c.env, id);
+  assertFolderAccess(restored, user);
+
+  return c.json({ folder: serializeFolder({ ...restored, file_count: folder.file_count }), files: folder.file_count });
+}
+
 export function registerFolderRoutes(api: Hono<AppEnv>) {
   api.get('/folders', handleList);
   api.get('/folders/:id', handleDetail);
   api.post('/folders', handleCreate);
   api.patch('/folders/:id', handleUpdate);
+  api.delete('/folders/:id', handleDelete);
+  api.post('/folders/:id/restore', handleRestore);
 }
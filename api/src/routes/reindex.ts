@@ -0,0 +1,80 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { getVectorIndex, listVectorIndexes } from '../lib/db';
+import { activeEmbeddingModel, configuredEmbeddingModel } from '../lib/providers';
+import { startReindex } from '../lib/reindex';
+import { reindexInput } from '../schemas';
+import type { VectorIndexRecord } from '../types';
+import { assertAdmin } from './admin';
+
+/** Re-indexing swaps the index every tenant searches, so it is an admin operation. */
+const ADMIN_ONLY = 'Re-indexing is limited to admins';
+
+export function serializeVectorIndex(index: VectorIndexRecord) {
+  return {
+    generation: index.generation,
+    model: index.model,
+    dimensions: index.dimensions,
+    binding: index.binding,
+    status: index.status,
+    totalChunks: index.total_chunks,
+    processedChunks: index.processed_chunks,
+    progress: index.total_chunks ? Math.min(1, index.processed_chunks / index.total_chunks) : null,
+    attempts: index.attempts,
+    error: index.error,
+    createdBy: index.created_by,
+    createdAt: index.created_at,
+    updatedAt: index.updated_at,
+    startedAt: index.started_at,
+    activatedAt: index.activated_at,
+    retiredAt: index.retired_at,
+    purgedAt: index.purged_at,
+  };
+}
+
+/** POST /api/reindex { binding? } — builds a new index generation with the configured model. */
+export async function handleStartReindex(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const user = c.get('user');
+  const input = await c.req.json().catch(() => ({}));
+  const parsed = reindexInput.safeParse(input ?? {});
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const index = await startReindex(c.env, { binding: parsed.data.binding, createdBy: user.id });
+  return c.json({ index: serializeVectorIndex(index) }, 202);
+}
+
+/**
+ * GET /api/reindex
+ * Every index generation with its progress, plus whether the configured embedding model has
+ * moved away from the one the active generation was built with.
+ */
+export async function handleReindexStatus(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const indexes = await listVectorIndexes(c.env);
+  const activeModel = await activeEmbeddingModel(c.env);
+  const configuredModel = configuredEmbeddingModel(c.env);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    activeModel,
+    configuredModel,
+    reindexRequired: activeModel !== configuredModel,
+    indexes: indexes.map(serializeVectorIndex),
+  });
+}
+
+/** GET /api/reindex/:generation */
+export async function handleVectorIndexStatus(c: AppContext) {
+  assertAdmin(c, ADMIN_ONLY);
+  const generation = Number.parseInt(c.req.param('generation'), 10);
+  const index = Number.isFinite(generation) ? await getVectorIndex(c.env, generation) : null;
+  if (!index) {
+    throw new HTTPException(404, { message: 'Vector index generation not found' });
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ index: serializeVectorIndex(index) });
+}
@@ -0,0 +1,80 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import {
+  getFile,
+  getTrashedFile,
+  listTrashedFiles,
+  listTrashedFolders,
+  restoreFile,
+  type TrashedFileRow,
+  type TrashedFolderRow,
+} from '../lib/db';
+import { trashPurgeAt, trashRetentionDays } from '../lib/trash';
+import type { MarbleBindings } from '../types';
+import { serializeFile } from './files';
+
+function serializeTrashedFile(env: MarbleBindings, file: TrashedFileRow) {
+  return {
+    ...serializeFile(file),
+    deletedAt: file.deleted_at,
+    purgeAt: trashPurgeAt(env, file.deleted_at),
+    // The folder is in the trash too and has to be restored first
+    folderDeleted: Boolean(file.folder_deleted_at),
+  };
+}
+
+export function serializeTrashedFolder(env: MarbleBindings, folder: TrashedFolderRow) {
+  return {
+    id: folder.id,
+    name: folder.name,
+    visibility: folder.visibility,
+    fileCount: folder.file_count,
+    deletedAt: folder.deleted_at,
+    purgeAt: trashPurgeAt(env, folder.deleted_at),
+  };
+}
+
+/**
+ * GET /api/trash
+ * The caller's trashed folders, and the files they trashed on their own; files that went to the
+ * trash with their folder come back with it.
+ */
+export async function handleListTrash(c: AppContext) {
+  const user = c.get('user');
+  const [files, folders] = await Promise.all([
+    listTrashedFiles(c.env, user.tenant, user.id),
+    listTrashedFolders(c.env, user.tenant, user.id),
+  ]);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    retentionDays: trashRetentionDays(c.env),
+    folders: folders.map((folder) => serializeTrashedFolder(c.env, folder)),
+    files: files.map((file) => serializeTrashedFile(c.env, file)),
+  });
+}
+
+/** POST /api/files/:id/restore */
+export async function handleRestoreFile(c: AppContext) {
+  const user = c.get('user');
+  const fileId = c.req.param('id');
+
+  const file = await getTrashedFile(c.env, fileId);
+  if (!file || file.tenant !== user.tenant) {
+    throw new HTTPException(404, { message: 'File not found in trash' });
+  }
+  if (file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only restore your own files' });
+  }
+  if (file.folder_deleted_at) {
+    throw new HTTPException(409, { message: `Restore the folder "${file.folder_name}" first` });
+  }
+
+  await restoreFile(c.env, file.id);
+  const restored = await getFile(c.env, file.id);
+  if (!restored) {
+    throw new HTTPException(500, { message: 'Unable to load restored file' });
+  }
+
+  return c.json({ file: serializeFile(restored) });
+}
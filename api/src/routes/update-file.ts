@@ -0,0 +1,36 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { getFile } from '../lib/db';
+import { applyFileChanges } from '../lib/files';
+import { updateFileInput } from '../schemas';
+import { serializeFile } from './files';
+
+export async function handleUpdateFile(c: AppContext) {
+  const user = c.get('user');
+  const fileId = c.req.param('id');
+
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = updateFileInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const file = await getFile(c.env, fileId);
+  if (!file || file.tenant !== user.tenant) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+
+  if (file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only update your own files' });
+  }
+
+  await applyFileChanges(c.env, file, parsed.data, user);
+
+  const updated = await getFile(c.env, fileId);
+  if (!updated) {
+    throw new HTTPException(500, { message: 'Unable to load updated file' });
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ file: serializeFile(updated) });
+}
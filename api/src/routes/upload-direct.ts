@@ -1,11 +1,8 @@
 import type { AppContext } from '../context';
 import { HTTPException } from 'hono/http-exception';
-import {
-  assertFolderVisibility,
-  createFileRecord,
-  ensureFolder,
-  getFolder,
-} from '../lib/db';
+import { createFileRecord, resolveUploadFolder } from '../lib/db';
+import { assertSupportedFile, mimeTypeForFile } from '../lib/extractors';
+import { enqueueIngest } from '../lib/ingestion';
 
 function sanitizeFileName(fileName: string): string {
   return fileName
@@ -14,7 +11,7 @@ function sanitizeFileName(fileName: string): string {
     .toLowerCase();
 }
 
-// Accepts raw text body. Query params: folderId, folderName, visibility, fileName, size
+// Accepts the raw file as the body (text, PDF or DOCX). Query params: folderId, folderName, visibility, fileName, size
 export async function handleUploadDirect(c: AppContext) {
   const env = c.env;
   const user = c.get('user');
@@ -32,38 +29,21 @@ export async function handleUploadDirect(c: AppContext) {
   if (visibility !== 'public' && visibility !== 'private') {
     throw new HTTPException(400, { message: "visibility must be 'public' or 'private'" });
   }
-  if (!fileName.toLowerCase().endsWith('.txt')) {
-    throw new HTTPException(400, { message: 'Only .txt files are supported' });
-  }
+  assertSupportedFile(fileName);
 
-  let folder = await getFolder(env, folderId);
-  if (!folder) {
-    await ensureFolder(
-      env,
-      folderId,
-      folderName,
-      visibility,
-      visibility === 'public' ? null : user.id
-    );
-    folder = await getFolder(env, folderId);
-  }
-  if (!folder) {
-    throw new HTTPException(500, { message: 'Unable to resolve folder' });
-  }
-
-  assertFolderVisibility(folder, user.id);
+  await resolveUploadFolder(env, user, { id: folderId, name: folderName, visibility });
 
   const fileId = crypto.randomUUID();
   const safeName = sanitizeFileName(fileName);
   const basePath = visibility === 'public' ? 'public' : `users/${user.id}`;
   const key = `${basePath}/${folderId}/${fileId}-${safeName}`;
 
-  const text = await c.req.text(); // raw text body
-  const contentType = 'text/plain';
+  const body = await c.req.arrayBuffer(); // raw bytes, so binary uploads arrive intact
+  const contentType = mimeTypeForFile(fileName, c.req.header('content-type'));
 
   // Write directly to R2
   try {
-    await env.MARBLE_FILES.put(key, text, {
+    await env.MARBLE_FILES.put(key, body, {
       httpMetadata: { contentType },
     });
   } catch (e: any) {
@@ -71,17 +51,21 @@ export async function handleUploadDirect(c: AppContext) {
     throw new HTTPException(500, { message: 'Failed to upload to R2' });
   }
 
-  // Create DB record (ready)
+  // Create DB record; it flips to ready once the ingest job finishes
   await createFileRecord(env, {
     id: fileId,
+    tenant: user.tenant,
     folder_id: folderId,
     owner_id: user.id,
     visibility,
     file_name: fileName,
     r2_key: key,
-    size: text.length, // or parseInt(sizeParam||'0')
-    status: 'ready',
+    mime_type: contentType,
+    size: body.byteLength, // or parseInt(sizeParam||'0')
+    status: 'uploading',
   });
 
-  return c.json({ fileId, key, uploaded: true });
+  const job = await enqueueIngest(env, { id: fileId, owner_id: user.id, tenant: user.tenant });
+
+  return c.json({ fileId, key, uploaded: true, jobId: job.id });
 }
@@ -0,0 +1,82 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { assertFolderAccess, createFileRecord, getFile, getFolder } from '../lib/db';
+import { assertSupportedFile, mimeTypeForFile } from '../lib/extractors';
+import { enqueueIngest } from '../lib/ingestion';
+import { buildObjectKey } from '../lib/storage';
+import { uploadFileInput } from '../schemas';
+import { serializeFile } from './files';
+import { serializeIngestJob } from './ingest';
+
+// Multipart form fields: file, folderId, visibility (optional), name (optional display name)
+export async function handleUploadFile(c: AppContext) {
+  const env = c.env;
+  const user = c.get('user');
+
+  const body = await c.req.parseBody().catch(() => {
+    throw new HTTPException(400, { message: 'Expected multipart/form-data body' });
+  });
+
+  const upload = body.file;
+  if (!(upload instanceof File)) {
+    throw new HTTPException(400, { message: 'Missing file field' });
+  }
+
+  const parsed = uploadFileInput.safeParse({
+    folderId: body.folderId,
+    visibility: body.visibility || undefined,
+    name: body.name || undefined,
+  });
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const fileName = parsed.data.name ?? upload.name;
+  assertSupportedFile(fileName);
+
+  const folder = await getFolder(env, parsed.data.folderId);
+  assertFolderAccess(folder, user);
+
+  const visibility = parsed.data.visibility ?? folder.visibility;
+  const fileId = crypto.randomUUID();
+  const key = buildObjectKey({
+    visibility,
+    ownerId: user.id,
+    folderId: folder.id,
+    fileId,
+    fileName,
+  });
+  const mimeType = mimeTypeForFile(fileName, upload.type);
+
+  try {
+    await env.MARBLE_FILES.put(key, await upload.arrayBuffer(), {
+      httpMetadata: { contentType: mimeType },
+      customMetadata: { fileId, ownerId: user.id },
+    });
+  } catch (e: any) {
+    console.error('R2 put error:', e?.message || e);
+    throw new HTTPException(500, { message: 'Failed to upload to R2' });
+  }
+
+  await createFileRecord(env, {
+    id: fileId,
+    tenant: user.tenant,
+    folder_id: folder.id,
+    owner_id: user.id,
+    visibility,
+    file_name: fileName,
+    r2_key: key,
+    size: upload.size,
+    mime_type: mimeType,
+    status: 'uploading',
+  });
+
+  const job = await enqueueIngest(env, { id: fileId, owner_id: user.id, tenant: user.tenant });
+
+  const file = await getFile(env, fileId);
+  if (!file) {
+    throw new HTTPException(500, { message: 'Unable to load uploaded file' });
+  }
+
+  return c.json({ file: serializeFile(file), ingestJob: serializeIngestJob(job) }, 201);
+}
@@ -1,12 +1,8 @@
 import { HTTPException } from 'hono/http-exception';
 import type { AppContext } from '../context';
 import { uploadUrlInput } from '../schemas';
-import {
-  assertFolderVisibility,
-  createFileRecord,
-  ensureFolder,
-  getFolder,
-} from '../lib/db';
+import { createFileRecord, resolveUploadFolder } from '../lib/db';
+import { assertSupportedFile, mimeTypeForFile } from '../lib/extractors';
 
 function sanitizeFileName(fileName: string): string {
   return fileName
@@ -28,26 +24,9 @@ export async function handleUploadUrl(c: AppContext) {
 
     const { folderId, folderName, visibility, fileName, size } = parsed.data;
 
-    if (!fileName.toLowerCase().endsWith('.txt')) {
-      throw new HTTPException(400, { message: 'Only .txt files are supported' });
-    }
-
-    let folder = await getFolder(env, folderId);
-    if (!folder) {
-      await ensureFolder(
-        env,
-        folderId,
-        folderName,
-        visibility,
-        visibility === 'public' ? null : user.id
-      );
-      folder = await getFolder(env, folderId);
-    }
-    if (!folder) {
-      throw new HTTPException(500, { message: 'Unable to resolve folder' });
-    }
+    assertSupportedFile(fileName);
 
-    assertFolderVisibility(folder, user.id);
+    await resolveUploadFolder(env, user, { id: folderId, name: folderName, visibility });
 
     const fileId = crypto.randomUUID();
     const safeName = sanitizeFileName(fileName);
@@ -56,17 +35,19 @@ export async function handleUploadUrl(c: AppContext) {
 
     await createFileRecord(env, {
       id: fileId,
+      tenant: user.tenant,
       folder_id: folderId,
       owner_id: user.id,
       visibility,
       file_name: fileName,
       r2_key: key,
+      mime_type: mimeTypeForFile(fileName),
       size,
       status: 'uploading',
     });
 
     // ---- Try presign (several variants). If all fail, return the exact reason. ----
-    const contentType = 'text/plain';
+    const contentType = mimeTypeForFile(fileName);
     let urlStr: string | null = null;
     const reasons: string[] = [];
 
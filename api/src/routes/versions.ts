@@ -0,0 +1,148 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { getFile, listFileVersions, type FileWithFolder } from '../lib/db';
+import { diffLines, DiffTooLargeError } from '../lib/diff';
+import { mimeTypeForFile, resolveFormat } from '../lib/extractors';
+import { createFileVersion, readFileVersion, readVersionLines } from '../lib/versions';
+import { fileDiffQuery, rollbackFileInput } from '../schemas';
+import type { AuthenticatedUser, FileVersionRecord, IngestJobRecord } from '../types';
+import { serializeFile } from './files';
+import { serializeIngestJob } from './ingest';
+
+function serializeFileVersion(version: FileVersionRecord, current: number) {
+  return {
+    version: version.version,
+    current: version.version === current,
+    size: version.size,
+    mimeType: version.mime_type ?? null,
+    restoredFrom: version.restored_from ?? null,
+    createdBy: version.created_by ?? null,
+    createdAt: version.created_at,
+  };
+}
+
+/** Public files are readable across the tenant; private ones only by their owner. */
+async function loadFile(c: AppContext, user: AuthenticatedUser, access: 'read' | 'write'): Promise<FileWithFolder> {
+  const file = await getFile(c.env, c.req.param('id'));
+  const readable = file && file.tenant === user.tenant && (file.visibility === 'public' || file.owner_id === user.id);
+  if (!file || !readable) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  if (access === 'write' && file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only change versions of your own files' });
+  }
+  return file;
+}
+
+async function versionResponse(c: AppContext, fileId: string, version: number, job: IngestJobRecord) {
+  const file = await getFile(c.env, fileId);
+  if (!file) {
+    throw new HTTPException(500, { message: 'Unable to load file' });
+  }
+  return c.json({ file: serializeFile(file), version, ingestJob: serializeIngestJob(job) }, 201);
+}
+
+/** GET /api/files/:id/versions — newest first. */
+export async function handleListVersions(c: AppContext) {
+  const file = await loadFile(c, c.get('user'), 'read');
+  const versions = await listFileVersions(c.env, file.id);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    file: serializeFile(file),
+    versions: versions.map((version) => serializeFileVersion(version, file.current_version ?? 1)),
+  });
+}
+
+/**
+ * POST /api/files/:id/versions
+ * Multipart field `file`: the corrected document. It keeps the file's id and name, so it has to
+ * be the same format as the version it replaces.
+ */
+export async function handleUploadVersion(c: AppContext) {
+  const user = c.get('user');
+  const file = await loadFile(c, user, 'write');
+
+  const body = await c.req.parseBody().catch(() => {
+    throw new HTTPException(400, { message: 'Expected multipart/form-data body' });
+  });
+  const upload = body.file;
+  if (!(upload instanceof File)) {
+    throw new HTTPException(400, { message: 'Missing file field' });
+  }
+
+  const format = resolveFormat(file.file_name, file.mime_type);
+  if (resolveFormat(upload.name, upload.type) !== format) {
+    throw new HTTPException(400, { message: `A new version of ${file.file_name} must be a ${format} file` });
+  }
+
+  const { version, job } = await createFileVersion(
+    c.env,
+    file,
+    { body: await upload.arrayBuffer(), mimeType: mimeTypeForFile(file.file_name, upload.type) },
+    user,
+  );
+  return versionResponse(c, file.id, version, job);
+}
+
+/**
+ * GET /api/files/:id/diff?from=&to=
+ * Line diff between two versions; `to` defaults to the current one. PDF and DOCX files are
+ * compared by their extracted text.
+ */
+export async function handleDiffVersions(c: AppContext) {
+  const file = await loadFile(c, c.get('user'), 'read');
+  const parsed = fileDiffQuery.safeParse(c.req.query());
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+  const from = parsed.data.from;
+  const to = parsed.data.to ?? file.current_version ?? 1;
+
+  const [before, after] = await Promise.all(
+    [from, to].map(async (version) => {
+      const { record, body } = await readFileVersion(c.env, file, version);
+      return readVersionLines(file, record, body);
+    }),
+  );
+
+  let diff;
+  try {
+    diff = diffLines(before, after);
+  } catch (error) {
+    if (error instanceof DiffTooLargeError) {
+      throw new HTTPException(422, { message: error.message });
+    }
+    throw error;
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId: file.id, from, to, ...diff });
+}
+
+/**
+ * POST /api/files/:id/rollback { version }
+ * Restores an earlier version by copying it into a new one, so the history is never rewritten.
+ */
+export async function handleRollback(c: AppContext) {
+  const user = c.get('user');
+  const file = await loadFile(c, user, 'write');
+  const parsed = rollbackFileInput.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const target = parsed.data.version;
+  if (target === (file.current_version ?? 1)) {
+    throw new HTTPException(409, { message: `Version ${target} is already the current version` });
+  }
+  const { record, body } = await readFileVersion(c.env, file, target);
+
+  const { version, job } = await createFileVersion(
+    c.env,
+    file,
+    { body, mimeType: record.mime_type ?? mimeTypeForFile(file.file_name), restoredFrom: target },
+    user,
+  );
+  return versionResponse(c, file.id, version, job);
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CHUNK_STRATEGIES } from './lib/chunk';
 
 export const visibilityEnum = z.enum(['public', 'private']);
 
@@ -14,11 +15,136 @@ export const ingestInput = z.object({
   fileId: z.string().min(1),
 });
 
-export const chatInput = z.object({
+export const reindexInput = z.object({
+  /** Vectorize binding for the new generation, e.g. `MARBLE_VECTORS_V2`. */
+  binding: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9_]*$/, 'Binding names are upper-case letters, digits and underscores')
+    .optional(),
+});
+
+export const consistencyRunInput = z.object({
+  /** `report` only looks; `repair` also fixes what it finds. */
+  mode: z.enum(['report', 'repair']).default('report'),
+});
+
+export const retrievalModeEnum = z.enum(['vector', 'keyword', 'hybrid']);
+
+export const chatModeEnum = z.enum(['general', 'knowledge', 'auto']);
+
+const timestampInput = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Expected an ISO date or timestamp',
+});
+
+export const retrievalScopeInput = z
+  .object({
+    folderIds: z.array(z.string().min(1)).max(50).optional(),
+    fileIds: z.array(z.string().min(1)).max(100).optional(),
+    visibility: z.enum(['public', 'private', 'all']).optional(),
+    createdAfter: timestampInput.optional(),
+    createdBefore: timestampInput.optional(),
+  })
+  .refine(
+    (scope) => !scope.createdAfter || !scope.createdBefore || Date.parse(scope.createdAfter) <= Date.parse(scope.createdBefore),
+    { message: 'createdAfter must not be later than createdBefore' },
+  );
+
+/**
+ * Version 1 of the chat request. `mode` picks general chat, knowledge (retrieval) or `auto`,
+ * where a classifier decides; a `/lookup` prefix still forces knowledge mode.
+ */
+export const chatInputV1 = z.object({
+  version: z.literal(1).optional(),
   question: z.string().min(1, 'Question is required'),
+  mode: chatModeEnum.default('auto'),
+  conversationId: z.string().min(1).optional(),
+  retrieval: z
+    .object({
+      mode: retrievalModeEnum.optional(),
+    })
+    .optional(),
+  scope: retrievalScopeInput.optional(),
+});
+
+/** What the SPA posted before the contract was versioned. */
+export const legacyChatInput = z.object({
+  message: z.string(),
+  knowledgeMode: z.boolean().optional(),
+  conversationId: z.string().min(1).optional(),
+});
+
+/** Accepts either shape; legacy bodies are upgraded to version 1 before validation. */
+export const chatInput = z.preprocess((value) => {
+  if (!value || typeof value !== 'object' || 'question' in value || !('message' in value)) {
+    return value;
+  }
+  const legacy = legacyChatInput.safeParse(value);
+  if (!legacy.success) return value;
+  return {
+    question: legacy.data.message,
+    mode: legacy.data.knowledgeMode ? 'knowledge' : 'general',
+    conversationId: legacy.data.conversationId,
+  };
+}, chatInputV1);
+
+export const renameConversationInput = z.object({
+  title: z.string().trim().min(1, 'Title cannot be empty').max(120),
 });
 
 export const listFilesQuery = z.object({
   folder_id: z.string().optional(),
+  folderId: z.string().optional(),
+  visibility: z.enum(['public', 'private', 'all']).optional(),
+});
+
+export const uploadFileInput = z.object({
+  folderId: z.string().min(1, 'folderId is required'),
   visibility: visibilityEnum.optional(),
+  name: z.string().trim().min(1).max(255).optional(),
+});
+
+export const listFoldersQuery = z.object({
+  visibility: z.enum(['public', 'private', 'all']).optional(),
+});
+
+export const chunkStrategyEnum = z.enum(CHUNK_STRATEGIES);
+
+export const createFolderInput = z.object({
+  name: z.string().trim().min(1, 'Folder name is required').max(120),
+  visibility: visibilityEnum,
+  /** Omitted or null: files use their format's strategy, then the workspace's `CHUNK_STRATEGY`. */
+  chunkStrategy: chunkStrategyEnum.nullable().optional(),
+});
+
+export const updateFolderInput = z
+  .object({
+    name: z.string().trim().min(1, 'Folder name cannot be empty').max(120).optional(),
+    visibility: visibilityEnum.optional(),
+    chunkStrategy: chunkStrategyEnum.nullable().optional(),
+  })
+  .refine(
+    (value) => value.name !== undefined || value.visibility !== undefined || value.chunkStrategy !== undefined,
+    { message: 'Provide a name, visibility or chunkStrategy to update' },
+  );
+
+export const updateFileInput = z
+  .object({
+    name: z.string().trim().min(1, 'File name cannot be empty').max(255).optional(),
+    visibility: visibilityEnum.optional(),
+    folderId: z.string().min(1).optional(),
+  })
+  .refine((value) => value.name !== undefined || value.visibility !== undefined || value.folderId !== undefined, {
+    message: 'Provide a name, visibility or folderId to update',
+  });
+
+const versionNumber = z.coerce.number().int().positive();
+
+export const fileDiffQuery = z.object({
+  from: versionNumber,
+  /** Omitted: the file's current version. */
+  to: versionNumber.optional(),
+});
+
+export const rollbackFileInput = z.object({
+  version: z.number().int().positive(),
 });
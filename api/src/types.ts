@@ -6,15 +6,47 @@ export interface MarbleBindings {
   MARBLE_DB: D1Database;
   MARBLE_FILES: R2Bucket;
   MARBLE_VECTORS: VectorizeIndex;
+  MARBLE_INGEST_QUEUE?: Queue<QueueMessage>;
+  AI?: Ai;
   OPENAI_API_KEY: string;
   OPENAI_MODEL?: string;
   OPENAI_EMBEDDING_MODEL?: string;
+  EMBEDDING_PROVIDER?: string;
+  CHAT_PROVIDER?: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_MODEL?: string;
+  OPENAI_COMPATIBLE_EMBEDDING_MODEL?: string;
+  WORKERS_AI_CHAT_MODEL?: string;
+  WORKERS_AI_EMBEDDING_MODEL?: string;
+  LOCAL_EMBEDDING_DIMENSIONS?: string;
   VECTOR_TOP_K?: string;
+  RERANK_PROVIDER?: string;
+  RERANK_CANDIDATES?: string;
+  RERANK_MMR_LAMBDA?: string;
+  CONTEXT_EXPANSION_RADIUS?: string;
+  CONTEXT_TOKEN_BUDGET?: string;
+  CHAT_HISTORY_TOKENS?: string;
+  VECTOR_STORE?: string;
   CHUNK_SIZE?: string;
   CHUNK_OVERLAP?: string;
+  CHUNK_STRATEGY?: string;
+  CHUNK_TOKENS?: string;
+  CHUNK_OVERLAP_TOKENS?: string;
+  INGEST_BATCH_SIZE?: string;
+  EMBEDDING_BATCH_SIZE?: string;
+  EMBEDDING_BATCH_TOKENS?: string;
+  EMBEDDING_MAX_RETRIES?: string;
+  EMBEDDING_CACHE_MAX_ENTRIES?: string;
+  CONSISTENCY_CRON_MODE?: string;
+  CONSISTENCY_GRACE_MINUTES?: string;
+  CONSISTENCY_VECTOR_PROBES?: string;
+  ADMIN_EMAILS?: string;
+  TRASH_RETENTION_DAYS?: string;
   CF_ACCESS_AUD?: string;
   CF_ACCESS_TEAM_DOMAIN?: string;
   SKIP_ACCESS_CHECK?: string;
+  ALLOWED_ORIGIN?: string;
 }
 
 export interface MarbleContext {
@@ -33,22 +65,45 @@ export interface AuthenticatedUser {
 
 export interface FolderRecord {
   id: string;
+  tenant: string;
   name: string;
   visibility: Visibility;
   owner_id: string | null;
+  /** Chunking strategy for files ingested into this folder; null uses `CHUNK_STRATEGY`. */
+  chunk_strategy?: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface FileRecord {
   id: string;
+  tenant: string;
   folder_id: string;
   owner_id: string;
   visibility: Visibility;
   file_name: string;
   r2_key: string;
   size: number;
+  mime_type: string | null;
   status: 'uploading' | 'ready';
   created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  /** Bumped by every new upload or rollback; the object at `r2_key` holds this version. */
+  current_version?: number;
+}
+
+export interface FileVersionRecord {
+  file_id: string;
+  version: number;
+  /** Where an older version's object was archived; null for the current version, which lives at the file's `r2_key`. */
+  r2_key: string | null;
+  size: number;
+  mime_type: string | null;
+  /** Set when the version was created by rolling back to an earlier one. */
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
 }
 
 export interface ChunkRecord {
@@ -61,16 +116,183 @@ export interface ChunkRecord {
   start_line: number;
   end_line: number;
   content: string;
+  /** Strategy that cut the chunk; null for chunks from custom pipeline stages. */
+  chunk_strategy?: string | null;
+  ingest_job_id?: string | null;
+  /** Page and paragraph the chunk starts at; null for formats without pages. */
+  page?: number | null;
+  paragraph?: number | null;
+  /** SHA-256 of the normalized content; null for chunks stored before hashes were recorded. */
+  content_hash?: string | null;
+  /** Model key and length of the vector that serves the chunk; null until its index records them. */
+  embedding_model?: string | null;
+  embedding_dimensions?: number | null;
+  /** Newest vector index generation holding a vector for the chunk. */
+  vector_generation?: number;
   created_at: string;
 }
 
+export type IngestJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IngestJobRecord {
+  id: string;
+  file_id: string;
+  owner_id: string;
+  tenant: string;
+  status: IngestJobStatus;
+  /** Chunks this job embeds: new or changed ones. Unchanged chunks are carried over. */
+  total_chunks: number;
+  processed_chunks: number;
+  /** Chunks of the previous ingest kept with their vectors because their content hash matched. */
+  unchanged_chunks: number;
+  /** Chunks of the previous ingest dropped once the job completes. */
+  removed_chunks: number;
+  /** The file version the job ingested; null for jobs from before versioning, which ingested version 1. */
+  file_version?: number | null;
+  attempts: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface IngestMessage {
+  jobId: string;
+  fileId: string;
+}
+
+/** Advances the re-index building vector index `reindexGeneration` by one batch. */
+export interface ReindexMessage {
+  reindexGeneration: number;
+}
+
+export type QueueMessage = IngestMessage | ReindexMessage;
+
+export type VectorIndexStatus = 'building' | 'active' | 'retired' | 'failed';
+
+export interface VectorIndexRecord {
+  /** 1 is the index as it was before re-indexing; every re-index builds the next one. */
+  generation: number;
+  /** Embedding model key, `provider/model`, e.g. `openai/text-embedding-3-small`. */
+  model: string;
+  /** Length of the vectors, recorded when the first ones are written. */
+  dimensions: number | null;
+  /** The Vectorize binding holding the vectors (ignored by the D1 and memory stores). */
+  binding: string;
+  status: VectorIndexStatus;
+  /** Chunks a re-index has to embed; grows when files are ingested while it runs. */
+  total_chunks: number;
+  processed_chunks: number;
+  attempts: number;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  activated_at: string | null;
+  retired_at: string | null;
+  /** When a retired generation's vectors were deleted; until then deletes and moves still reach it. */
+  purged_at: string | null;
+}
+
+export type ConsistencyMode = 'report' | 'repair';
+export type ConsistencyTrigger = 'manual' | 'cron';
+export type ConsistencyRunStatus = 'running' | 'succeeded' | 'failed';
+
+/** One kind of drift between D1, Vectorize and R2. */
+export interface ConsistencyFinding {
+  found: number;
+  repaired: number;
+  /** Chunk ids, file ids, R2 keys or generations; the first 100. */
+  items: string[];
+}
+
+export interface ConsistencyReport {
+  mode: ConsistencyMode;
+  /** Vector index generation that was checked: the active one. */
+  generation: number;
+  /** `full` lists every stored vector; Vectorize can't, so its namespaces are `sampled` by query. */
+  vectorScan: 'full' | 'sampled' | 'skipped';
+  /** Vectors whose chunk is gone from D1. */
+  orphanedVectors: ConsistencyFinding;
+  /** Chunks of ingested files with no vector in the active generation. */
+  chunksMissingVectors: ConsistencyFinding;
+  /** Retired generations whose vectors are still stored. */
+  retiredVectors: ConsistencyFinding;
+  /** Files whose R2 object is gone. */
+  filesMissingObjects: ConsistencyFinding;
+  /** R2 objects that no `files` row points at. */
+  objectsWithoutFiles: ConsistencyFinding;
+  /** Repairs that failed; the run carries on with the next item. */
+  errors: string[];
+}
+
+export interface ConsistencyRunRecord {
+  id: string;
+  mode: ConsistencyMode;
+  trigger: ConsistencyTrigger;
+  status: ConsistencyRunStatus;
+  /** JSON-encoded ConsistencyReport, once the run completes. */
+  report: string | null;
+  error: string | null;
+  created_by: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+/** Narrows retrieval; every field is optional and the fields combine with AND. */
+export interface RetrievalScope {
+  folderIds?: string[];
+  fileIds?: string[];
+  visibility?: Visibility | 'all';
+  /** Inclusive bounds on when the chunk's file was created, as ISO timestamps. */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
 export interface ChatCitation {
   folder: string;
   file: string;
   lines: [number, number];
+  /** Page the cited lines are on, for PDF and DOCX files; lines then count lines of the extracted text. */
+  page?: number;
+  /** Retrieved chunk the citation was checked against; absent on citations straight from a model. */
+  chunkId?: string;
+  /** Version of the file the cited chunk was ingested from, so stored answers keep pointing at what they quoted. */
+  fileVersion?: number;
+}
+
+/** How much of a knowledge answer is backed by the text it cites. */
+export interface GroundingReport {
+  /** `supported / sentences`, rounded to two places. */
+  score: number;
+  sentences: number;
+  supported: number;
 }
 
 export interface ChatResult {
   answer: string;
   citations: ChatCitation[];
+  grounding?: GroundingReport;
+}
+
+export interface ConversationRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageRecord {
+  id: string;
+  user_id: string;
+  conversation_id: string | null;
+  question: string;
+  answer: string;
+  /** JSON-encoded ChatCitation[]. */
+  citations: string;
+  retrieval_query: string | null;
+  created_at: string;
 }
@@ -1,15 +1,21 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { HTTPException } from 'hono/http-exception';
 import type { AppEnv } from './context';
-import type { AuthenticatedUser } from './types';
+import type { AuthenticatedUser, MarbleBindings, QueueMessage } from './types';
 import { authenticateRequest } from './lib/access';
 import { ensureUser } from './lib/db';
 import { handleWhoAmI } from './routes/whoami';
 import { handleUploadUrl } from './routes/upload-url';
 import { handleUploadDirect } from './routes/upload-direct';
-import { handleIngest } from './routes/ingest';
+import { handleIngest, handleIngestStatus } from './routes/ingest';
+import { handleIngestQueue } from './lib/ingestion';
+import { consistencyCronMode, runConsistencyCheck } from './lib/consistency';
+import { purgeExpiredTrash } from './lib/trash';
 import { handleListFiles } from './routes/files';
+import { handleUploadFile } from './routes/upload-file';
 import { handleDeleteFile } from './routes/delete-file';
+import { handleUpdateFile } from './routes/update-file';
 import { handleChat } from './routes/chat';
 import { handleDebugEmbed } from './routes/debug-embed';
 import {
@@ -17,8 +23,15 @@ import {
   handleDebugFile,
   handleDebugProbeFile,
   handleDebugStats,
+  handleDebugEmbeddingCache,
 } from './routes/debug';
 import { handleSession } from './routes/session';
+import { handleReindexStatus, handleStartReindex, handleVectorIndexStatus } from './routes/reindex';
+import { handleConsistencyRun, handleListConsistencyRuns, handleStartConsistencyRun } from './routes/consistency';
+import { registerFolderRoutes } from './routes/folders';
+import { handleListTrash, handleRestoreFile } from './routes/trash';
+import { handleDiffVersions, handleListVersions, handleRollback, handleUploadVersion } from './routes/versions';
+import { registerConversationRoutes } from './routes/conversations';
 
 
 
@@ -33,7 +46,7 @@ app.use(
   '/api/*',
   cors({
     origin: (origin, c) => c.env.ALLOWED_ORIGIN ?? 'http://localhost:5173',
-    allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization'],
     credentials: true,
     maxAge: 86400,
@@ -119,21 +132,58 @@ api.get('/whoami', handleWhoAmI);
 api.post('/upload-url', handleUploadUrl);
 api.post('/upload-direct', handleUploadDirect);
 api.post('/ingest', handleIngest);
+api.get('/ingest/:jobId', handleIngestStatus);
+api.post('/reindex', handleStartReindex);
+api.get('/reindex', handleReindexStatus);
+api.get('/reindex/:generation', handleVectorIndexStatus);
+api.post('/consistency', handleStartConsistencyRun);
+api.get('/consistency', handleListConsistencyRuns);
+api.get('/consistency/:id', handleConsistencyRun);
 api.get('/files', handleListFiles);
+api.post('/files', handleUploadFile);
+api.patch('/files/:id', handleUpdateFile);
 api.delete('/files/:id', handleDeleteFile);
+api.post('/files/:id/restore', handleRestoreFile);
+api.get('/files/:id/versions', handleListVersions);
+api.post('/files/:id/versions', handleUploadVersion);
+api.get('/files/:id/diff', handleDiffVersions);
+api.post('/files/:id/rollback', handleRollback);
+api.get('/trash', handleListTrash);
+registerFolderRoutes(api);
 api.post('/chat', handleChat);
+api.post('/chat/stream', handleChat);
+registerConversationRoutes(api);
 api.get('/debug/embed', handleDebugEmbed);
 api.get('/debug/query', handleDebugQuery);
 api.get('/debug/file', handleDebugFile);
 api.get('/debug/probe-file', handleDebugProbeFile);
 api.get('/debug/stats', handleDebugStats);
+api.get('/debug/embedding-cache', handleDebugEmbeddingCache);
 
 // Log any unhandled errors and return a JSON message instead of plain 500
 app.onError((err, c) => {
+  if (err instanceof HTTPException) {
+    return c.json({ error: err.message }, err.status);
+  }
   console.error('UNHANDLED ERROR:', err instanceof Error ? err.stack || err.message : String(err));
   const msg = err instanceof Error ? err.message : String(err);
   return c.json({ error: msg }, 500);
 });
 
+/** Cron Trigger: purge trash past its retention window, then check the stores still agree. */
+async function handleScheduled(_controller: ScheduledController, env: MarbleBindings, ctx: ExecutionContext) {
+  ctx.waitUntil(
+    (async () => {
+      await purgeExpiredTrash(env).catch((error) =>
+        console.error('Trash purge failed', { error: (error as Error)?.message || String(error) }),
+      );
+      await runConsistencyCheck(env, { mode: consistencyCronMode(env), trigger: 'cron' });
+    })(),
+  );
+}
 
-export default app;
+export default {
+  fetch: app.fetch,
+  queue: handleIngestQueue,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<MarbleBindings, QueueMessage>;
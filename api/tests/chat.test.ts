@@ -1,5 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import app from '../src/worker';
+import { classifyChatMode } from '../src/lib/chat-mode';
+import { insertChunk } from '../src/lib/db';
 import { createTestEnv } from './helpers/mock-env';
 
 vi.mock('../src/lib/access', () => ({
@@ -103,6 +105,7 @@ describe('chat route', () => {
                       answer: 'Marble lets the org chat with shared text files.',
                       citations: [
                         { folder: 'Org Shared', file: 'handbook.txt', lines: [1, 4] },
+                        { folder: 'Org Shared', file: 'roadmap.txt', lines: [1, 2] },
                       ],
                     }),
                   },
@@ -133,14 +136,20 @@ describe('chat route', () => {
     const data = (await response.json()) as {
       answer: string;
       citations: Array<{ folder: string; file: string; lines: [number, number] }>;
+      grounding: { score: number; sentences: number };
     };
 
     expect(data.answer).toContain('Marble lets the org chat');
-    expect(data.citations[0]).toEqual({
-      folder: 'Org Shared',
-      file: 'handbook.txt',
-      lines: [1, 4],
-    });
+    expect(data.citations).toEqual([
+      {
+        folder: 'Org Shared',
+        file: 'handbook.txt',
+        lines: [1, 4],
+        chunkId: 'chunk-1',
+        fileVersion: 1,
+      },
+    ]);
+    expect(data.grounding).toMatchObject({ sentences: 1 });
     expect(db.messages).toHaveLength(1);
   });
 
@@ -197,3 +206,75 @@ describe('chat route', () => {
     expect(db.messages).toHaveLength(1);
   });
 });
+
+describe('chat modes', () => {
+  const headers = { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' };
+
+  async function seed() {
+    const test = createTestEnv();
+    test.env.EMBEDDING_PROVIDER = 'local';
+    test.env.CHAT_PROVIDER = 'local';
+    const base = { folder_id: 'folder-1', chunk_index: 0, start_line: 1, end_line: 1 };
+    await insertChunk(test.env, {
+      ...base,
+      id: 'private-note',
+      file_id: 'file-1',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      content: 'The staging database password rotates every Monday.',
+    });
+    await insertChunk(test.env, {
+      ...base,
+      id: 'public-note',
+      file_id: 'file-2',
+      owner_id: 'admin@example.com',
+      visibility: 'public',
+      content: 'The production database password rotates monthly.',
+    });
+    return test;
+  }
+
+  it('classifies auto questions without calling a model', async () => {
+    const { env } = await seed();
+    const classify = (question: string) => classifyChatMode(env, { question, userId: 'user@example.com' });
+
+    expect(await classify('Hello there!')).toEqual({ mode: 'general', reason: 'small-talk' });
+    expect(await classify('What does our handbook say about leave?')).toEqual({
+      mode: 'knowledge',
+      reason: 'workspace-reference',
+    });
+    expect(await classify('When does the staging database password rotate?')).toEqual({
+      mode: 'knowledge',
+      reason: 'keyword-match',
+    });
+    expect(await classify('Write a haiku about autumn leaves')).toEqual({ mode: 'general', reason: 'no-match' });
+  });
+
+  it('routes version 1 requests by mode and scope', async () => {
+    const { env, ctx } = await seed();
+    const chat = (body: Record<string, unknown>) =>
+      app.fetch(new Request('https://example.com/api/chat', { method: 'POST', body: JSON.stringify(body), headers }), env, ctx);
+
+    const auto = await chat({ version: 1, question: 'How often does the database password rotate?', mode: 'auto' });
+    const autoData = (await auto.json()) as { mode: string; sources: Array<{ chunkId: string }> };
+    expect(autoData.mode).toBe('knowledge');
+    expect(autoData.sources.map((source) => source.chunkId).sort()).toEqual(['private-note', 'public-note']);
+
+    const scoped = await chat({
+      question: 'How often does the database password rotate?',
+      mode: 'knowledge',
+      scope: { visibility: 'public' },
+      retrieval: { mode: 'keyword' },
+    });
+    const scopedData = (await scoped.json()) as { sources: Array<{ chunkId: string }> };
+    expect(scopedData.sources.map((source) => source.chunkId)).toEqual(['public-note']);
+
+    const general = await chat({ question: 'How often does the database password rotate?', mode: 'general' });
+    expect(await general.json()).toMatchObject({ mode: 'general', sources: [] });
+
+    const legacy = await chat({ message: 'How often does the database password rotate?', knowledgeMode: true });
+    expect(((await legacy.json()) as { mode: string }).mode).toBe('knowledge');
+
+    expect((await chat({ version: 2, question: 'Hi' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHUNK_STRATEGIES,
+  chunkWithStrategy,
+  countTokens,
+  hashChunkContent,
+  resolveChunkStrategy,
+  type ChunkOptions,
+  type ChunkStrategyName,
+  type TextChunk,
+} from '../src/lib/chunk';
+
+/** Small seeded PRNG (mulberry32) so failing cases can be replayed from their seed. */
+function random(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return { next, int, pick: <T>(items: T[]) => items[int(0, items.length - 1)] };
+}
+
+type Random = ReturnType<typeof random>;
+
+const WORDS = ['queue', 'ingest', 'vector', 'restart', 'the', 'a', 'key', 'rotate', 'worker', 'd1', 'chunk', 'ok,', 'done.'];
+
+function sentence(rng: Random, words: number): string {
+  return Array.from({ length: words }, () => rng.pick(WORDS)).join(' ');
+}
+
+/**
+ * A Markdown-ish document: prose, blank runs, headings and fenced code whose comments look like
+ * headings. `long` mixes in lines bigger than any chunk. Documents start and end on text.
+ */
+function generateDocument(rng: Random, { long }: { long: boolean }): string {
+  const lines: string[] = [sentence(rng, rng.int(1, 8))];
+  const blocks = rng.int(1, 40);
+  for (let block = 0; block < blocks; block++) {
+    const kind = rng.int(0, 9);
+    if (kind <= 3) {
+      lines.push(sentence(rng, rng.int(1, 8)));
+    } else if (kind <= 5) {
+      lines.push(...Array.from({ length: rng.int(1, 3) }, () => ''));
+    } else if (kind === 6) {
+      lines.push(`${'#'.repeat(rng.int(1, 3))} ${sentence(rng, rng.int(1, 3))}`);
+    } else if (kind === 7) {
+      lines.push('```', `# ${sentence(rng, 2)}`, sentence(rng, rng.int(1, 5)), '```');
+    } else if (long) {
+      lines.push(sentence(rng, rng.int(60, 120)));
+    } else {
+      lines.push(`- ${sentence(rng, rng.int(1, 6))}`);
+    }
+  }
+  lines.push(sentence(rng, rng.int(1, 8)));
+  return lines.join('\n');
+}
+
+function generateOptions(rng: Random): ChunkOptions {
+  const chunkSize = rng.int(200, 500);
+  return { chunkSize, overlap: rng.int(0, 60), maxTokens: rng.int(30, 80), overlapTokens: rng.int(0, 10) };
+}
+
+/** Line numbers of headings outside code fences, mirroring how the heading strategy reads them. */
+function headingLines(source: string): Set<number> {
+  const headings = new Set<number>();
+  let fenced = false;
+  source.split('\n').forEach((line, index) => {
+    if (!fenced && /^#{1,6} /.test(line)) headings.add(index + 1);
+    if (line.startsWith('```')) fenced = !fenced;
+  });
+  return headings;
+}
+
+const LINE_PRESERVING: ChunkStrategyName[] = ['line', 'paragraph', 'markdown-heading', 'code-block', 'token'];
+const RUNS = 150;
+
+function forEachCase(long: boolean, check: (source: string, options: ChunkOptions, seed: number) => void) {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    const rng = random(seed);
+    check(generateDocument(rng, { long }), generateOptions(rng), seed);
+  }
+}
+
+function spannedLines(source: string, chunk: TextChunk): string {
+  return source
+    .split('\n')
+    .slice(chunk.startLine - 1, chunk.endLine)
+    .join('\n');
+}
+
+describe('chunking strategies', () => {
+  it.each(CHUNK_STRATEGIES)('%s covers every line with line ranges that match the content', (strategy) => {
+    [false, true].forEach((long) =>
+      forEachCase(long, (source, options, seed) => {
+        const chunks = chunkWithStrategy(strategy, source, options);
+        const context = `${strategy} seed ${seed} long ${long}`;
+
+        expect(chunks.map((chunk) => chunk.index), context).toEqual(chunks.map((_, index) => index));
+        expect(chunks.every((chunk) => chunk.strategy === strategy), context).toBe(true);
+        expect(chunks[0].startLine, context).toBe(1);
+        expect(chunks[chunks.length - 1].endLine, context).toBe(source.split('\n').length);
+
+        chunks.forEach((chunk, index) => {
+          expect(chunk.startLine, context).toBeLessThanOrEqual(chunk.endLine);
+          if (index > 0) {
+            const previous = chunks[index - 1];
+            // No gaps, and never moving backwards
+            expect(chunk.startLine, context).toBeGreaterThanOrEqual(previous.startLine);
+            expect(chunk.startLine, context).toBeLessThanOrEqual(previous.endLine + 1);
+          }
+
+          // The content sits inside its line range and touches both the first and the last line;
+          // only fixed-char chunks can end on the newline that closes their last line
+          const content = strategy === 'fixed-char' ? chunk.content.replace(/\n$/, '') : chunk.content;
+          expect(spannedLines(source, chunk).includes(content), context).toBe(true);
+          expect(content.split('\n').length, context).toBe(chunk.endLine - chunk.startLine + 1);
+        });
+      }),
+    );
+  });
+
+  it.each(LINE_PRESERVING)('%s keeps whole lines within the size limit when every line fits', (strategy) => {
+    forEachCase(false, (source, options, seed) => {
+      const context = `${strategy} seed ${seed}`;
+      chunkWithStrategy(strategy, source, options).forEach((chunk) => {
+        expect(chunk.content, context).toBe(spannedLines(source, chunk));
+        if (strategy === 'token') {
+          expect(countTokens(chunk.content), context).toBeLessThanOrEqual(options.maxTokens!);
+        } else {
+          expect(chunk.content.length, context).toBeLessThanOrEqual(options.chunkSize);
+        }
+      });
+    });
+  });
+
+  it('starts a new chunk at every heading outside code fences', () => {
+    forEachCase(false, (source, options, seed) => {
+      const lines = source.split('\n');
+      const headings = headingLines(source);
+      const firstTextLines = chunkWithStrategy('markdown-heading', source, options).map((chunk) => {
+        const firstText = lines.findIndex((line, index) => index + 1 >= chunk.startLine && line.trim()) + 1;
+        // A heading may only open a chunk, never sit further down in one
+        for (let line = firstText + 1; line <= chunk.endLine; line++) {
+          expect(headings.has(line), `seed ${seed} line ${line}`).toBe(false);
+        }
+        return firstText;
+      });
+      headings.forEach((line) => expect(firstTextLines, `seed ${seed}`).toContain(line));
+    });
+  });
+
+  it('keeps paragraphs together and splits oversized ones by line', () => {
+    const source = ['alpha one', 'alpha two', '', 'beta one', 'beta two', '', 'gamma'].join('\n');
+    const chunks = chunkWithStrategy('paragraph', source, { chunkSize: 22, overlap: 0 });
+    expect(chunks.map(({ content, startLine, endLine }) => ({ content, startLine, endLine }))).toEqual([
+      { content: 'alpha one\nalpha two\n', startLine: 1, endLine: 3 },
+      { content: 'beta one\nbeta two\n', startLine: 4, endLine: 6 },
+      { content: 'gamma', startLine: 7, endLine: 7 },
+    ]);
+
+    const narrow = chunkWithStrategy('paragraph', source, { chunkSize: 12, overlap: 0 });
+    expect(narrow.map((chunk) => chunk.content)).toEqual(['alpha one', 'alpha two\n', 'beta one', 'beta two\n', 'gamma']);
+  });
+
+  it('cuts code at top-level blocks, keeping comments with the block below them', () => {
+    const source = [
+      "import { a } from './a';",
+      '',
+      '// Adds one',
+      'export function inc(value) {',
+      '  const next = value + 1;',
+      '',
+      '  return next;',
+      '}',
+      '',
+      'export const two = inc(1);',
+    ].join('\n');
+    const chunks = chunkWithStrategy('code-block', source, { chunkSize: 90, overlap: 0 });
+    expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 2],
+      [3, 9],
+      [10, 10],
+    ]);
+  });
+
+  it('resolves strategy names and rejects unknown ones', () => {
+    expect(resolveChunkStrategy(undefined)).toBe('fixed-char');
+    expect(resolveChunkStrategy(null)).toBe('fixed-char');
+    expect(resolveChunkStrategy(' Markdown-Heading ')).toBe('markdown-heading');
+    expect(() => resolveChunkStrategy('sentence')).toThrow('Unknown chunk strategy "sentence"');
+  });
+
+  it('hashes chunk content ignoring line endings, trailing whitespace and Unicode composition', async () => {
+    const hash = await hashChunkContent('Café menu\nSoup');
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashChunkContent('Cafe\u0301 menu  \r\nSoup\n')).toBe(hash);
+    expect(await hashChunkContent('Café menu\n  Soup')).not.toBe(hash);
+  });
+});
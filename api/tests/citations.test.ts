@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { groundResult, scoreGrounding, validateCitations } from '../src/lib/citations';
+import type { ContextBlock } from '../src/lib/providers';
+
+const contexts: ContextBlock[] = [
+  {
+    chunkId: 'deploy-1',
+    folderName: 'Runbooks',
+    fileName: 'deploy.md',
+    startLine: 1,
+    endLine: 3,
+    content: 'Deploys run from the main branch.\nRun migrations before deploying the worker.\nTag the release afterwards.',
+  },
+  {
+    chunkId: 'deploy-2',
+    folderName: 'Runbooks',
+    fileName: 'deploy.md',
+    startLine: 20,
+    endLine: 21,
+    content: 'Roll back by redeploying the previous tag.\nNotify the on-call channel.',
+  },
+];
+
+describe('citation validation', () => {
+  it('drops unretrieved files and repairs ranges onto retrieved chunks', () => {
+    expect(
+      validateCitations(
+        [
+          { folder: 'Runbooks', file: 'deploy.md', lines: [2, 9] },
+          { folder: 'Runbooks', file: 'secrets.md', lines: [1, 2] },
+          { folder: 'Other', file: 'Runbooks/DEPLOY.md', lines: [17, 17] },
+          { folder: 'Runbooks', file: 'deploy.md', lines: [3, 2] },
+          { folder: 'Runbooks', file: 'deploy.md', lines: 'all' as unknown as [number, number] },
+        ],
+        contexts,
+      ),
+    ).toEqual([
+      { folder: 'Runbooks', file: 'deploy.md', lines: [2, 3], chunkId: 'deploy-1' },
+      { folder: 'Runbooks', file: 'deploy.md', lines: [20, 21], chunkId: 'deploy-2' },
+      { folder: 'Runbooks', file: 'deploy.md', lines: [1, 3], chunkId: 'deploy-1' },
+    ]);
+  });
+
+  it('scores the share of sentences backed by the cited lines', () => {
+    const citations = validateCitations([{ folder: 'Runbooks', file: 'deploy.md', lines: [2, 2] }], contexts);
+    expect(
+      scoreGrounding('Run migrations before deploying the worker [1]. Then page the database team.', citations, contexts),
+    ).toEqual({ score: 0.5, sentences: 2, supported: 1 });
+    expect(scoreGrounding('Tag the release afterwards.', citations, contexts).supported).toBe(0);
+    expect(scoreGrounding('', citations, contexts)).toEqual({ score: 0, sentences: 0, supported: 0 });
+
+    const grounded = groundResult(
+      { answer: 'Roll back by redeploying the previous tag.', citations: [{ folder: 'Runbooks', file: 'deploy.md', lines: [20, 20] }] },
+      contexts,
+    );
+    expect(grounded.grounding?.score).toBe(1);
+    expect(grounded.citations[0].chunkId).toBe('deploy-2');
+  });
+
+  it('scores normalized sources against the whole chunk', () => {
+    // Lines 40-52 of the page hold the table that extracted to these two lines
+    const normalized: ContextBlock[] = [
+      {
+        chunkId: 'limits-1',
+        folderName: 'Docs',
+        fileName: 'limits.html',
+        startLine: 40,
+        endLine: 52,
+        content: '## Rate limits\nEach API key may send 600 requests per minute.',
+      },
+    ];
+    const citations = validateCitations([{ folder: 'Docs', file: 'limits.html', lines: [51, 51] }], normalized);
+    expect(citations).toEqual([{ folder: 'Docs', file: 'limits.html', lines: [51, 51], chunkId: 'limits-1' }]);
+    expect(scoreGrounding('Each API key may send 600 requests per minute [1].', citations, normalized)).toEqual({
+      score: 1,
+      sentences: 1,
+      supported: 1,
+    });
+  });
+
+  it('cites the page of PDF and DOCX contexts', () => {
+    const paged: ContextBlock[] = [
+      { chunkId: 'policy-4', folderName: 'HR', fileName: 'policy.pdf', startLine: 12, endLine: 20, page: 4, content: 'Leave' },
+    ];
+    expect(validateCitations([{ folder: 'HR', file: 'policy.pdf', lines: [14, 30] }], paged)).toEqual([
+      { folder: 'HR', file: 'policy.pdf', lines: [14, 20], page: 4, chunkId: 'policy-4' },
+    ]);
+  });
+});
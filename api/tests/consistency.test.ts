@@ -0,0 +1,220 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { getVectorStore } from '../src/lib/vectorize';
+import type { ConsistencyReport } from '../src/types';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+type TestEnv = ReturnType<typeof createTestEnv>;
+
+const LONG_AGO = '2024-01-01 00:00:00';
+
+function seedFolder({ db }: TestEnv) {
+  db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    name: 'My Space',
+    visibility: 'private',
+    owner_id: 'user@example.com',
+    created_at: LONG_AGO,
+    updated_at: LONG_AGO,
+  });
+}
+
+function seedFile({ db }: TestEnv, id: string, status: 'uploading' | 'ready' = 'ready') {
+  db.files.set(id, {
+    id,
+    tenant: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    visibility: 'private',
+    file_name: `${id}.txt`,
+    r2_key: `users/user@example.com/private-root/${id}-${id}.txt`,
+    size: 12,
+    mime_type: 'text/plain',
+    status,
+    created_at: LONG_AGO,
+    updated_at: LONG_AGO,
+    deleted_at: null,
+  });
+}
+
+function seedChunk({ db }: TestEnv, id: string, fileId: string, content: string) {
+  db.chunks.set(id, {
+    id,
+    file_id: fileId,
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    visibility: 'private',
+    chunk_index: 0,
+    start_line: 1,
+    end_line: 1,
+    content,
+    created_at: LONG_AGO,
+  });
+}
+
+function request(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+describe('consistency checks', () => {
+  it('reports each kind of drift, repairs it, and comes back clean', async () => {
+    const test = createTestEnv();
+    const { env, db, r2, ctx } = test;
+    env.EMBEDDING_PROVIDER = 'local';
+    env.LOCAL_EMBEDDING_DIMENSIONS = '3';
+    env.VECTOR_STORE = 'memory';
+    env.ADMIN_EMAILS = 'ops@example.com, User@Example.com';
+
+    seedFolder(test);
+    seedFile(test, 'file-1');
+    seedChunk(test, 'chunk-1', 'file-1', 'Restart the deploy worker');
+    seedChunk(test, 'chunk-2', 'file-1', 'Rotate the signing keys');
+    await r2.put(db.files.get('file-1')!.r2_key, 'Restart the deploy worker\nRotate the signing keys');
+    // file-2 lost its object; its chunk and vector go with it on repair
+    seedFile(test, 'file-2');
+    seedChunk(test, 'chunk-3', 'file-2', 'Page the on-call engineer');
+    // file-3 never finished uploading, so its chunkless state is no drift
+    seedFile(test, 'file-3', 'uploading');
+    await r2.put(db.files.get('file-3')!.r2_key, 'Still uploading');
+    await r2.put('users/user@example.com/private-root/stray-notes.txt', 'No row points here');
+    await r2.put('derived/file-9.txt', 'Text of a file that is gone');
+    r2.objects.forEach((object) => (object.uploaded = new Date(LONG_AGO.replace(' ', 'T') + 'Z')));
+
+    const store = getVectorStore(env);
+    const metadata = (chunkId: string, fileId: string) => ({
+      chunkId,
+      fileId,
+      folderId: 'private-root',
+      folderName: 'My Space',
+      fileName: `${fileId}.txt`,
+      startLine: 1,
+      endLine: 1,
+      visibility: 'private' as const,
+      ownerId: 'user@example.com',
+    });
+    await store.upsert([
+      { id: 'chunk-1', values: [1, 0, 0], metadata: metadata('chunk-1', 'file-1') },
+      { id: 'chunk-3', values: [0, 1, 0], metadata: metadata('chunk-3', 'file-2') },
+      { id: 'ghost', values: [0, 0, 1], metadata: metadata('ghost', 'file-0') },
+    ]);
+
+    const run = async (mode?: 'report' | 'repair') => {
+      const response = await app.fetch(request('/consistency', { method: 'POST', body: JSON.stringify({ mode }) }), env, ctx);
+      expect(response.status).toBe(200);
+      return ((await response.json()) as { run: { id: string; status: string; report: ConsistencyReport } }).run;
+    };
+
+    const report = (await run()).report;
+    expect(report).toMatchObject({
+      mode: 'report',
+      generation: 1,
+      vectorScan: 'full',
+      filesMissingObjects: { found: 1, repaired: 0, items: ['file-2'] },
+      objectsWithoutFiles: {
+        found: 2,
+        repaired: 0,
+        items: ['derived/file-9.txt', 'users/user@example.com/private-root/stray-notes.txt'],
+      },
+      chunksMissingVectors: { found: 1, repaired: 0, items: ['chunk-2'] },
+      orphanedVectors: { found: 1, repaired: 0, items: ['ghost'] },
+      errors: [],
+    });
+    expect(db.files.has('file-2')).toBe(true);
+    expect(r2.objects.has('derived/file-9.txt')).toBe(true);
+
+    const repair = await run('repair');
+    expect(repair.report).toMatchObject({
+      filesMissingObjects: { found: 1, repaired: 1 },
+      objectsWithoutFiles: { found: 2, repaired: 2 },
+      chunksMissingVectors: { found: 1, repaired: 1 },
+      orphanedVectors: { found: 1, repaired: 1 },
+      errors: [],
+    });
+    expect(Array.from(db.files.keys()).sort()).toEqual(['file-1', 'file-3']);
+    expect(Array.from(db.chunks.keys()).sort()).toEqual(['chunk-1', 'chunk-2']);
+    expect((await store.list!()).map((entry) => entry.id).sort()).toEqual(['chunk-1', 'chunk-2']);
+    expect(Array.from(r2.objects.keys()).sort()).toEqual([db.files.get('file-1')!.r2_key, db.files.get('file-3')!.r2_key]);
+
+    const clean = (await run()).report;
+    for (const finding of [clean.filesMissingObjects, clean.objectsWithoutFiles, clean.chunksMissingVectors, clean.orphanedVectors]) {
+      expect(finding.found).toBe(0);
+    }
+
+    const list = await app.fetch(request('/consistency'), env, ctx);
+    const { runs } = (await list.json()) as { runs: Array<{ id: string; mode: string; trigger: string; createdBy: string }> };
+    expect(runs.map((entry) => entry.mode)).toEqual(['report', 'repair', 'report']);
+    expect(runs[0]).toMatchObject({ trigger: 'manual', createdBy: 'user@example.com' });
+    const single = await app.fetch(request(`/consistency/${repair.id}`), env, ctx);
+    expect(await single.json()).toMatchObject({ run: { id: repair.id, status: 'succeeded', mode: 'repair' } });
+    expect((await app.fetch(request('/consistency/missing'), env, ctx)).status).toBe(404);
+  });
+
+  it('samples Vectorize namespaces on a schedule and leaves recent writes alone', async () => {
+    const test = createTestEnv();
+    const { env, db, r2, vector } = test;
+    seedFolder(test);
+    seedFile(test, 'file-1');
+    seedChunk(test, 'chunk-1', 'file-1', 'Restart the deploy worker');
+    await r2.put(db.files.get('file-1')!.r2_key, 'Restart the deploy worker');
+    await r2.put('users/user@example.com/private-root/just-uploaded.txt', 'An upload whose row is on its way');
+    await vector.upsert('user:user@example.com', {
+      id: 'chunk-1',
+      values: [1, 0, 0],
+      metadata: { chunkId: 'chunk-1', visibility: 'private', ownerId: 'user@example.com' },
+    });
+    vector.queryResults['user:user@example.com'] = [
+      { id: 'chunk-1', score: 0.9, metadata: { chunkId: 'chunk-1', visibility: 'private', ownerId: 'user@example.com' } },
+      { id: 'ghost', score: 0.4, metadata: { chunkId: 'ghost', visibility: 'private', ownerId: 'user@example.com' } },
+    ];
+
+    const pending: Array<Promise<unknown>> = [];
+    const ctx = { ...test.ctx, waitUntil: (promise: Promise<unknown>) => void pending.push(promise) };
+    await app.scheduled({ cron: '30 3 * * *', scheduledTime: Date.now(), noRetry: () => undefined }, env, ctx);
+    await Promise.all(pending);
+
+    const [run] = Array.from(db.consistencyRuns.values());
+    expect(run).toMatchObject({ trigger: 'cron', mode: 'report', status: 'succeeded', created_by: null });
+    const report = JSON.parse(run.report!) as ConsistencyReport;
+    expect(report).toMatchObject({
+      vectorScan: 'sampled',
+      orphanedVectors: { found: 1, items: ['ghost'] },
+      chunksMissingVectors: { found: 0 },
+      objectsWithoutFiles: { found: 0 },
+    });
+    // Three random probes of the private namespace and three of the public one, all 3-dimensional
+    expect(vector.queries.map((query) => [query.namespace, query.vector.length])).toEqual([
+      ['public', 3],
+      ['public', 3],
+      ['public', 3],
+      ['user:user@example.com', 3],
+      ['user:user@example.com', 3],
+      ['user:user@example.com', 3],
+    ]);
+    expect(vector.deletions).toEqual([]);
+
+    env.CONSISTENCY_CRON_MODE = 'repair';
+    await app.scheduled({ cron: '30 3 * * *', scheduledTime: Date.now(), noRetry: () => undefined }, env, ctx);
+    await Promise.all(pending);
+    expect(vector.deletions).toEqual([{ namespace: 'user:user@example.com', ids: ['ghost'] }]);
+  });
+
+  it('is limited to admins', async () => {
+    const { env, ctx } = createTestEnv();
+    expect((await app.fetch(request('/consistency', { method: 'POST', body: '{}' }), env, ctx)).status).toBe(403);
+    env.ADMIN_EMAILS = 'ops@example.com';
+    expect((await app.fetch(request('/consistency'), env, ctx)).status).toBe(403);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { buildHistory, expandFollowUp, rewriteQuery } from '../src/lib/conversation';
+import type { MessageRecord } from '../src/types';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+const headers = { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' };
+
+function message(question: string, answer: string): MessageRecord {
+  return {
+    id: crypto.randomUUID(),
+    user_id: 'user@example.com',
+    conversation_id: 'conversation-1',
+    question,
+    answer,
+    citations: '[]',
+    retrieval_query: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+describe('conversations', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('keeps the newest turns that fit in the history budget', () => {
+    const messages = [
+      message('first question', 'x'.repeat(400)),
+      message('/lookup second question', 'short answer'),
+      message('third question', 'another short answer'),
+    ];
+
+    const history = buildHistory(messages, 20);
+    expect(history).toEqual([
+      { role: 'user', content: 'second question' },
+      { role: 'assistant', content: 'short answer' },
+      { role: 'user', content: 'third question' },
+      { role: 'assistant', content: 'another short answer' },
+    ]);
+    expect(buildHistory(messages, 0)).toEqual([]);
+  });
+
+  it('rewrites follow-ups into standalone queries', async () => {
+    const history = buildHistory([message('/lookup how do I rotate the signing keys?', 'Run the rotate script.')], 1000);
+
+    expect(expandFollowUp(history, 'what about staging for those?')).toBe('what about staging for those? rotate signing keys');
+    expect(expandFollowUp(history, 'list every production database replica')).toBe('list every production database replica');
+
+    const { env } = createTestEnv();
+    env.CHAT_PROVIDER = 'openai';
+    env.OPENAI_API_KEY = 'test';
+    const bodies: Array<{ input: Array<{ role: string; content: string }> }> = [];
+    global.fetch = vi.fn(async (_input, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(
+        JSON.stringify({ output_text: JSON.stringify({ answer: 'rotate signing keys in staging', citations: [] }) }),
+        { status: 200 },
+      );
+    }) as typeof fetch;
+
+    expect(await rewriteQuery(env, history, 'what about staging?')).toBe('rotate signing keys in staging');
+    expect(bodies[0].input[1].content).toContain('User: how do I rotate the signing keys?');
+    expect(await rewriteQuery(env, [], 'what about staging?')).toBe('what about staging?');
+    expect(bodies).toHaveLength(1);
+
+    global.fetch = vi.fn(async () => new Response('nope', { status: 400 })) as typeof fetch;
+    expect(await rewriteQuery(env, history, 'what about staging?')).toBe('what about staging? rotate signing keys');
+  });
+
+  it('threads chat turns into a conversation that can be listed, renamed and deleted', async () => {
+    const { env, db, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'local';
+
+    const chat = async (body: Record<string, unknown>) =>
+      app.fetch(new Request('https://example.com/api/chat', { method: 'POST', body: JSON.stringify(body), headers }), env, ctx);
+
+    const first = await chat({ question: '/lookup how do I deploy the worker?' });
+    expect(first.status).toBe(200);
+    const { conversationId } = (await first.json()) as { conversationId: string };
+    expect(db.conversations.get(conversationId)?.title).toBe('how do I deploy the worker?');
+
+    const second = await chat({ question: '/lookup does it need migrations?', conversationId });
+    const followUp = (await second.json()) as { conversationId: string; retrievalQuery: string };
+    expect(followUp.conversationId).toBe(conversationId);
+    expect(followUp.retrievalQuery).toBe('does it need migrations? deploy worker');
+    expect(db.messages.map((entry) => entry.conversation_id)).toEqual([conversationId, conversationId]);
+
+    const missing = await chat({ question: 'hello', conversationId: 'not-a-conversation' });
+    expect(missing.status).toBe(404);
+
+    const list = await app.fetch(new Request('https://example.com/api/conversations', { headers }), env, ctx);
+    expect(((await list.json()) as { conversations: unknown[] }).conversations).toEqual([
+      expect.objectContaining({ id: conversationId, messageCount: 2 }),
+    ]);
+
+    const renamed = await app.fetch(
+      new Request(`https://example.com/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ title: 'Deploying' }),
+        headers,
+      }),
+      env,
+      ctx,
+    );
+    expect(renamed.status).toBe(200);
+
+    const detail = await app.fetch(new Request(`https://example.com/api/conversations/${conversationId}`, { headers }), env, ctx);
+    const thread = (await detail.json()) as { conversation: { title: string }; messages: Array<{ question: string }> };
+    expect(thread.conversation.title).toBe('Deploying');
+    expect(thread.messages.map((entry) => entry.question)).toEqual([
+      '/lookup how do I deploy the worker?',
+      '/lookup does it need migrations?',
+    ]);
+
+    db.conversations.get(conversationId)!.user_id = 'other@example.com';
+    const hidden = await app.fetch(new Request(`https://example.com/api/conversations/${conversationId}`, { headers }), env, ctx);
+    expect(hidden.status).toBe(404);
+    db.conversations.get(conversationId)!.user_id = 'user@example.com';
+
+    const deleted = await app.fetch(
+      new Request(`https://example.com/api/conversations/${conversationId}`, { method: 'DELETE', headers }),
+      env,
+      ctx,
+    );
+    expect(deleted.status).toBe(200);
+    expect(db.conversations.size).toBe(0);
+    expect(db.messages).toHaveLength(0);
+  });
+});
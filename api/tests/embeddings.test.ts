@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEmbeddingCacheStats } from '../src/lib/db';
+import { planEmbeddingBatches, type EmbeddingBatchProgress } from '../src/lib/embeddings';
+import { createEmbeddings } from '../src/lib/providers';
+import { createTestEnv } from './helpers/mock-env';
+
+describe('embedding client', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('splits batches by item count and estimated tokens', () => {
+    const short = 'a'.repeat(40); // ~10 tokens
+    const long = 'b'.repeat(400); // ~100 tokens
+
+    expect(planEmbeddingBatches([short, short, short, short, short], { maxItems: 2, maxTokens: 1000 })).toEqual([
+      [short, short],
+      [short, short],
+      [short],
+    ]);
+    expect(planEmbeddingBatches([short, long, short, short], { maxItems: 10, maxTokens: 110 })).toEqual([
+      [short, long],
+      [short, short],
+    ]);
+    expect(planEmbeddingBatches([long, long], { maxItems: 10, maxTokens: 50 })).toEqual([[long], [long]]);
+  });
+
+  it('keeps input order across batches and reports progress', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_BATCH_SIZE = '2';
+
+    const requests: string[][] = [];
+    global.fetch = vi.fn(async (_input, init) => {
+      const body = JSON.parse(init?.body as string) as { input: string[] };
+      requests.push(body.input);
+      // Return items out of order; `index` says where each one belongs
+      const data = body.input
+        .map((text, index) => ({ index, embedding: [Number(text.slice(5))] }))
+        .reverse();
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    });
+
+    const progress: EmbeddingBatchProgress[] = [];
+    const input = ['text-0', 'text-1', 'text-2', 'text-3', 'text-4'];
+    const embeddings = await createEmbeddings(env, input, { onProgress: (update) => void progress.push(update) });
+
+    expect(embeddings).toEqual([[0], [1], [2], [3], [4]]);
+    expect(requests).toEqual([['text-0', 'text-1'], ['text-2', 'text-3'], ['text-4']]);
+    expect(progress).toEqual([
+      { batch: 1, batches: 3, embedded: 2, total: 5 },
+      { batch: 2, batches: 3, embedded: 4, total: 5 },
+      { batch: 3, batches: 3, embedded: 5, total: 5 },
+    ]);
+  });
+
+  it('serves repeated texts from the cache per model and evicts the least recently used', async () => {
+    const { env, db } = createTestEnv();
+    env.EMBEDDING_CACHE_MAX_ENTRIES = '2';
+
+    const requests: string[][] = [];
+    global.fetch = vi.fn(async (_input, init) => {
+      const body = JSON.parse(init?.body as string) as { input: string[]; model: string };
+      requests.push(body.input);
+      const scale = body.model === 'text-embedding-3-large' ? 10 : 1;
+      const data = body.input.map((text, index) => ({ index, embedding: [text.length * scale] }));
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    });
+
+    expect(await createEmbeddings(env, ['a', 'bb', 'a'])).toEqual([[1], [2], [1]]);
+    expect(await createEmbeddings(env, ['bb', 'ccc'])).toEqual([[2], [3]]);
+    expect(requests).toEqual([['a', 'bb'], ['ccc']]);
+    expect(Array.from(db.embeddingCache.values(), (entry) => entry.embedding).sort()).toEqual(['[2]', '[3]']);
+    expect(await getEmbeddingCacheStats(env)).toEqual([
+      expect.objectContaining({ model: 'openai/text-embedding-3-small', hits: 1, misses: 4, entries: 2 }),
+    ]);
+
+    env.OPENAI_EMBEDDING_MODEL = 'text-embedding-3-large';
+    expect(await createEmbeddings(env, ['bb'])).toEqual([[20]]);
+    expect(requests).toEqual([['a', 'bb'], ['ccc'], ['bb']]);
+    expect(Array.from(db.embeddingCache.values(), (entry) => entry.model)).toEqual(['openai/text-embedding-3-large']);
+  });
+
+  it('retries rate limits and server errors, waiting at least Retry-After', async () => {
+    vi.useFakeTimers();
+    const { env } = createTestEnv();
+    // Hashing for the cache lookup runs off the fake clock; keep the first request on it
+    env.EMBEDDING_CACHE_MAX_ENTRIES = '0';
+
+    const responses = [
+      new Response('slow down', { status: 429, headers: { 'Retry-After': '7' } }),
+      new Response('bad gateway', { status: 502 }),
+      new Response(JSON.stringify({ data: [{ index: 0, embedding: [1, 2, 3] }] }), { status: 200 }),
+    ];
+    const fetchMock = vi.fn(async () => responses.shift()!);
+    global.fetch = fetchMock;
+
+    const pending = createEmbeddings(env, ['hello']);
+
+    await vi.advanceTimersByTimeAsync(6_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.runAllTimersAsync();
+    await expect(pending).resolves.toEqual([[1, 2, 3]]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { env } = createTestEnv();
+    const fetchMock = vi.fn(async () => new Response('bad input', { status: 400 }));
+    global.fetch = fetchMock;
+
+    await expect(createEmbeddings(env, ['hello'])).rejects.toThrow('Embedding request failed: 400');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
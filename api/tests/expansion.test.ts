@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { chunkText } from '../src/lib/chunk';
+import { insertChunk, type ChunkSpanRow } from '../src/lib/db';
+import { joinOverlapping, mergeChunkSpan } from '../src/lib/expansion';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+const lines = Array.from({ length: 30 }, (_, index) => `Line ${index + 1} covers step ${index + 1} of the rollout.`);
+lines[14] = 'Line 15 flips the canary flag.';
+const source = lines.join('\n');
+
+function rows(overlap: number): ChunkSpanRow[] {
+  return chunkText(source, { chunkSize: 100, overlap }).map((chunk) => ({
+    id: `chunk-${chunk.index}`,
+    file_id: 'file-1',
+    chunk_index: chunk.index,
+    start_line: chunk.startLine,
+    end_line: chunk.endLine,
+    content: chunk.content,
+  }));
+}
+
+describe('context expansion', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges overlapping neighbors into whole lines with exact line numbers', () => {
+    const chunks = rows(30);
+    expect(joinOverlapping(chunks[0].content, chunks[1].content, 30)).toBe(source.slice(0, chunks[0].content.length + 70));
+    // Ingested with a different overlap than configured: the real overlap is found anyway
+    expect(joinOverlapping(chunks[0].content, chunks[1].content, 200)).toBe(source.slice(0, 170));
+
+    for (let index = 1; index < chunks.length - 1; index += 1) {
+      const merged = mergeChunkSpan(chunks.slice(index - 1, index + 2), 30, {
+        before: chunks[index - 2],
+        after: chunks[index + 2],
+      });
+      expect(merged.content).toBe(lines.slice(merged.startLine - 1, merged.endLine).join('\n'));
+      expect(merged.startLine).toBeLessThanOrEqual(chunks[index].start_line);
+      expect(merged.endLine).toBeGreaterThanOrEqual(chunks[index].start_line);
+    }
+
+    const whole = mergeChunkSpan(chunks, 30);
+    expect(whole).toEqual({ startLine: 1, endLine: 30, content: source });
+  });
+
+  it('widens lookup hits with their neighbors within the context budget', async () => {
+    const { env, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'local';
+    env.CHUNK_OVERLAP = '30';
+    env.CONTEXT_EXPANSION_RADIUS = '1';
+    const chunks = rows(30);
+    for (const row of chunks) {
+      await insertChunk(env, { ...row, folder_id: 'folder-1', owner_id: 'user@example.com', visibility: 'private' });
+    }
+    const [hit] = chunks.filter((row) => row.content.includes('canary'));
+
+    const lookup = async () => {
+      const response = await app.fetch(
+        new Request('https://example.com/api/chat', {
+          method: 'POST',
+          body: JSON.stringify({ question: '/lookup canary', retrieval: { mode: 'keyword' } }),
+          headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+      expect(response.status).toBe(200);
+      return ((await response.json()) as {
+        sources: Array<{ chunkId: string; chunkIds: string[]; startLine: number; endLine: number; content: string }>;
+      }).sources;
+    };
+
+    const sources = await lookup();
+    expect(sources).toHaveLength(1);
+    const [expanded] = sources;
+    expect(expanded.chunkIds).toContain(`chunk-${hit.chunk_index - 1}`);
+    expect(expanded.chunkIds).toContain(`chunk-${hit.chunk_index + 1}`);
+    expect(expanded.content).toBe(lines.slice(expanded.startLine - 1, expanded.endLine).join('\n'));
+    expect(expanded.content).toContain('canary');
+
+    env.CONTEXT_TOKEN_BUDGET = '10';
+    const [clipped] = await lookup();
+    expect(clipped.chunkIds).toEqual([clipped.chunkId]);
+    expect(clipped.content).toContain('canary');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { chunkWithStrategy } from '../src/lib/chunk';
+import {
+  extractDocument,
+  extractPagedText,
+  fromPagedText,
+  isSupportedFile,
+  mapChunkLines,
+  mimeTypeForFile,
+} from '../src/lib/extractors';
+import { buildDocx, buildPdf, mappedGlyphs } from './helpers/documents';
+
+describe('extractors', () => {
+  it('picks formats by extension, then MIME type, and records a MIME type for each', () => {
+    expect(extractDocument('notes.md', 'application/octet-stream', '# Title')?.format).toBe('markdown');
+    expect(extractDocument('export', 'text/csv; charset=utf-8', 'a,b\n1,2')?.format).toBe('csv');
+    expect(extractDocument('main.py', null, 'print(1)')).toMatchObject({ format: 'code', lineMap: null });
+    expect(extractDocument('photo.png', 'image/png', '')).toBeNull();
+
+    expect(isSupportedFile('Config.JSON')).toBe(true);
+    expect(isSupportedFile('setup.exe')).toBe(false);
+    expect(mimeTypeForFile('README.md', '')).toBe('text/markdown');
+    expect(mimeTypeForFile('data.csv', 'application/vnd.ms-excel')).toBe('text/csv');
+    expect(mimeTypeForFile('index.ts', 'video/mp2t')).toBe('text/x-typescript');
+    expect(mimeTypeForFile('notes.txt', 'text/plain;charset=UTF-8')).toBe('text/plain');
+  });
+
+  it('turns CSV rows into records prefixed with their headers', () => {
+    const source = 'name,team,notes\nAda,Infra,"Owns the\nqueue, mostly"\n\nGrace,,"Said ""hi"""';
+    expect(extractDocument('people.csv', null, source)).toEqual({
+      format: 'csv',
+      text: 'name: Ada; team: Infra; notes: Owns the queue, mostly\nname: Grace; notes: Said "hi"',
+      lineMap: [
+        [2, 3],
+        [5, 5],
+      ],
+    });
+    expect(extractDocument('people.tsv', null, 'name\tteam\nAda\tInfra')?.text).toBe('name: Ada; team: Infra');
+  });
+
+  it('flattens JSON into path: value lines at the lines they came from', () => {
+    const source = '{\n  "server": {\n    "port": 8080,\n    "hosts": ["a", "b"]\n  },\n  "feature flags": {},\n  "note": "two\\nlines"\n}';
+    expect(extractDocument('config.json', null, source)).toEqual({
+      format: 'json',
+      text: 'server.port: 8080\nserver.hosts[0]: a\nserver.hosts[1]: b\n["feature flags"]: {}\nnote: two lines',
+      lineMap: [
+        [3, 3],
+        [4, 4],
+        [4, 4],
+        [6, 6],
+        [7, 7],
+      ],
+    });
+    expect(extractDocument('broken.json', null, '{"a": 1,')).toEqual({ format: 'json', text: '{"a": 1,', lineMap: null });
+  });
+
+  it('strips HTML to readable text that keeps headings, lists, tables and preformatted lines', () => {
+    const source = [
+      '<!DOCTYPE html>',
+      '<html><head><title>Runbook</title>',
+      '<style>body { color: red; }</style></head>',
+      '<body>',
+      '<h2>Restart &amp; recover</h2>',
+      '<p>Rotate the <b>keys</b>,',
+      'then restart.</p>',
+      '<ul><li>One</li><li>Two</li></ul>',
+      '<table><tr><th>Step</th><th>Owner</th></tr></table>',
+      '<pre>npm run deploy',
+      '  --env prod</pre>',
+      '<script>if (a < b) { alert("x") }</script>',
+      '</body></html>',
+    ].join('\n');
+
+    const extracted = extractDocument('runbook.html', null, source)!;
+    expect(extracted.text).toBe(
+      [
+        'Runbook',
+        '',
+        '## Restart & recover',
+        '',
+        'Rotate the keys, then restart.',
+        '',
+        '- One',
+        '- Two',
+        '',
+        'Step | Owner',
+        '',
+        'npm run deploy',
+        '  --env prod',
+      ].join('\n'),
+    );
+    expect(extracted.lineMap).toEqual([
+      [2, 2],
+      [2, 2],
+      [5, 5],
+      [5, 5],
+      [6, 7],
+      [7, 7],
+      [8, 8],
+      [8, 8],
+      [8, 8],
+      [9, 9],
+      [9, 9],
+      [10, 10],
+      [11, 11],
+    ]);
+  });
+
+  it('maps chunk line ranges from extracted text back onto the original file', () => {
+    const extracted = extractDocument('people.csv', null, 'name,role\nAda,"lead\ndeveloper"\nGrace,manager\nLinus,intern')!;
+    const chunks = mapChunkLines(chunkWithStrategy('line', extracted.text, { chunkSize: 40, overlap: 0 }), extracted.lineMap);
+    expect(chunks.map(({ content, startLine, endLine }) => ({ content, startLine, endLine }))).toEqual([
+      { content: 'name: Ada; role: lead developer', startLine: 2, endLine: 3 },
+      { content: 'name: Grace; role: manager', startLine: 4, endLine: 4 },
+      { content: 'name: Linus; role: intern', startLine: 5, endLine: 5 },
+    ]);
+  });
+
+  it('reads PDF pages from plain and compressed streams, with paragraphs from vertical gaps', async () => {
+    const pdf = await buildPdf([
+      {
+        content: [
+          'BT /F1 12 Tf 72 720 Td (Quarterly report \\(draft\\)) Tj',
+          '0 -14 Td [(Reve) 30 (nue) -250 (grew.)] TJ',
+          '0 -40 Td (Costs fell.) Tj ET',
+        ].join('\n'),
+      },
+      {
+        content: `BT /F2 11 Tf 1 0 0 1 72 700 Tm ${mappedGlyphs('mapped glyphs')} Tj 14 TL T* ${mappedGlyphs('read')} Tj ET`,
+        compressed: true,
+      },
+    ]);
+
+    const paged = await extractPagedText('pdf', pdf);
+    expect(paged).toBe('Quarterly report (draft)\nRevenue grew.\n\nCosts fell.\n\fmapped glyphs\nread');
+    expect(fromPagedText('pdf', paged)).toEqual({
+      format: 'pdf',
+      text: 'Quarterly report (draft)\nRevenue grew.\n\nCosts fell.\nmapped glyphs\nread',
+      lineMap: null,
+      positions: [
+        { page: 1, paragraph: 1 },
+        { page: 1, paragraph: 1 },
+        { page: 1, paragraph: 1 },
+        { page: 1, paragraph: 2 },
+        { page: 2, paragraph: 1 },
+        { page: 2, paragraph: 1 },
+      ],
+    });
+    await expect(extractPagedText('pdf', new TextEncoder().encode('plain text'))).rejects.toThrow('Not a PDF file');
+  });
+
+  it('reads DOCX paragraphs, headings, lists and tables, paging at explicit breaks', async () => {
+    const body = [
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Onboarding</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t xml:space="preserve">Read the </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>handbook</w:t></w:r><w:r><w:t> &amp; sign.</w:t></w:r></w:p>',
+      '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Laptop</w:t></w:r></w:p>',
+      '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Owner</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>IT</w:t></w:r></w:p></w:tc></w:tr></w:tbl>',
+      '<w:p><w:r><w:br w:type="page"/><w:t>Second page.</w:t></w:r></w:p>',
+      '<w:p><w:pPr><w:pageBreakBefore/></w:pPr><w:r><w:t>Third page.</w:t></w:r></w:p>',
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/></w:sectPr>',
+    ].join('');
+
+    for (const compressed of [true, false]) {
+      const paged = await extractPagedText('docx', await buildDocx(body, { compressed }));
+      expect(paged).toBe('# Onboarding\n\nRead the handbook & sign.\n\n- Laptop\n\nOwner | IT\n\fSecond page.\n\fThird page.');
+    }
+    expect(fromPagedText('docx', '# Onboarding\n\nRead.\n\fSecond page.').positions).toEqual([
+      { page: 1, paragraph: 1 },
+      { page: 1, paragraph: 1 },
+      { page: 1, paragraph: 2 },
+      { page: 2, paragraph: 1 },
+    ]);
+  });
+
+  it('lets Word\'s own rendered page breaks decide the pages when the file has them', async () => {
+    const body = [
+      '<w:p><w:r><w:t>One</w:t></w:r></w:p>',
+      '<w:p><w:r><w:br w:type="page"/></w:r></w:p>',
+      '<w:p><w:r><w:t>Still one</w:t></w:r><w:r><w:lastRenderedPageBreak/><w:t>Two</w:t></w:r></w:p>',
+    ].join('');
+    expect(await extractPagedText('docx', await buildDocx(body))).toBe('One\n\nStill one\n\fTwo');
+  });
+});
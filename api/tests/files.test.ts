@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+describe('file routes', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('uploads multipart files and returns a file summary', async () => {
+    const { env, db, r2, vector, queue, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+
+    global.fetch = vi.fn(async (input, init) => {
+      if (typeof input === 'string' && input.endsWith('/embeddings')) {
+        const body = JSON.parse(init?.body as string);
+        return new Response(
+          JSON.stringify({ data: body.input.map(() => ({ embedding: [0.1, 0.2, 0.3] })) }),
+          { status: 200 },
+        );
+      }
+      return new Response('{}', { status: 200 });
+    });
+
+    const form = new FormData();
+    form.append('file', new File(['First line\nSecond line'], 'notes.txt', { type: 'text/plain' }));
+    form.append('folderId', 'private-root');
+    form.append('visibility', 'private');
+    form.append('name', 'Meeting Notes.txt');
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/files', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(201);
+    const { file, ingestJob } = (await response.json()) as {
+      file: {
+        id: string;
+        name: string;
+        status: string;
+        mimeType: string;
+        folder: { id: string; name: string };
+        owner: { email: string };
+      };
+      ingestJob: { id: string; status: string };
+    };
+
+    expect(file.name).toBe('Meeting Notes.txt');
+    expect(file.status).toBe('uploading');
+    expect(ingestJob.status).toBe('queued');
+    expect(file.mimeType).toBe('text/plain');
+    expect(file.folder).toMatchObject({ id: 'private-root', name: 'My Space' });
+    expect(file.owner.email).toBe('user@example.com');
+
+    const stored = db.files.get(file.id);
+    expect(stored?.tenant).toBe('default');
+    expect(stored?.r2_key).toBe(`users/user@example.com/private-root/${file.id}-meeting-notes.txt`);
+    expect(r2.objects.get(stored!.r2_key)?.body).toBe('First line\nSecond line');
+
+    await queue.drain((batch) => app.queue(batch, env));
+    expect(db.files.get(file.id)?.status).toBe('ready');
+    expect(db.chunks.size).toBeGreaterThan(0);
+    expect(vector.upserts.length).toBe(db.chunks.size);
+
+    const listed = await app.fetch(
+      new Request('https://example.com/api/files?visibility=private&folderId=private-root', {
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    const { files } = (await listed.json()) as { files: Array<{ id: string }> };
+    expect(files.map((entry) => entry.id)).toEqual([file.id]);
+  });
+
+  it('ingests Markdown and CSV uploads with their MIME type and original line numbers', async () => {
+    const { env, db, queue, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+
+    const upload = (file: File) => {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('folderId', 'private-root');
+      return app.fetch(
+        new Request('https://example.com/api/files', {
+          method: 'POST',
+          body: form,
+          headers: { 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+    };
+
+    const markdown = await upload(new File(['# Setup\nInstall it.\n\n# Deploy\nShip it.'], 'guide.md'));
+    const csv = await upload(
+      new File(['host,region\napi-1,"eu\nwest"\napi-2,us'], 'hosts.csv', { type: 'application/vnd.ms-excel' }),
+    );
+    expect(markdown.status).toBe(201);
+    expect(csv.status).toBe(201);
+    const guide = ((await markdown.json()) as { file: { id: string; mimeType: string } }).file;
+    const hosts = ((await csv.json()) as { file: { id: string; mimeType: string } }).file;
+    expect(guide.mimeType).toBe('text/markdown');
+    expect(hosts.mimeType).toBe('text/csv');
+
+    await queue.drain((batch) => app.queue(batch, env));
+    const chunksOf = (fileId: string) =>
+      Array.from(db.chunks.values())
+        .filter((chunk) => chunk.file_id === fileId)
+        .map(({ content, start_line, end_line, chunk_strategy }) => [content, start_line, end_line, chunk_strategy]);
+    expect(chunksOf(guide.id)).toEqual([
+      ['# Setup\nInstall it.\n', 1, 3, 'markdown-heading'],
+      ['# Deploy\nShip it.', 4, 5, 'markdown-heading'],
+    ]);
+    expect(chunksOf(hosts.id)).toEqual([['host: api-1; region: eu west\nhost: api-2; region: us', 2, 4, 'line']]);
+
+    const rejected = await upload(new File(['MZ'], 'setup.exe'));
+    expect(rejected.status).toBe(400);
+    expect(((await rejected.json()) as { error: string }).error).toContain('Unsupported file type');
+  });
+
+  it('rejects uploads into another user\'s private folder', async () => {
+    const { env, db, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('someone-else', {
+      id: 'someone-else',
+      tenant: 'default',
+      name: 'Private',
+      visibility: 'private',
+      owner_id: 'other@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+
+    const form = new FormData();
+    form.append('file', new File(['secret'], 'secret.txt', { type: 'text/plain' }));
+    form.append('folderId', 'someone-else');
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/files', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(403);
+    expect(db.files.size).toBe(0);
+  });
+
+  it('moves the object and vectors when a private file is made public', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      file_name: 'notes.txt',
+      r2_key: 'users/user@example.com/private-root/file-1-notes.txt',
+      size: 11,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    db.chunks.set('chunk-1', {
+      id: 'chunk-1',
+      file_id: 'file-1',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      chunk_index: 0,
+      start_line: 1,
+      end_line: 1,
+      content: 'Hello world',
+      created_at: timestamp,
+    });
+    await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Hello world');
+    vector.upserts.push({
+      namespace: 'user:user@example.com',
+      vector: { id: 'chunk-1', values: [0.5, 0.5, 0.5], metadata: { chunkId: 'chunk-1' } },
+    });
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/files/file-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ visibility: 'public', name: 'shared-notes.txt' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    const { file } = (await response.json()) as { file: { name: string; visibility: string } };
+    expect(file).toMatchObject({ name: 'shared-notes.txt', visibility: 'public' });
+
+    const newKey = 'public-root/private-root/file-1-shared-notes.txt';
+    expect(db.files.get('file-1')?.r2_key).toBe(newKey);
+    expect(r2.objects.has(newKey)).toBe(true);
+    expect(r2.objects.has('users/user@example.com/private-root/file-1-notes.txt')).toBe(false);
+    expect(db.chunks.get('chunk-1')?.visibility).toBe('public');
+
+    const moved = vector.upserts[vector.upserts.length - 1];
+    expect(moved.namespace).toBe('public');
+    expect(moved.vector).toEqual([
+      expect.objectContaining({
+        id: 'chunk-1',
+        values: [0.5, 0.5, 0.5],
+        metadata: expect.objectContaining({ visibility: 'public', fileName: 'shared-notes.txt' }),
+      }),
+    ]);
+    expect(vector.deletions).toEqual([{ namespace: 'user:user@example.com', ids: ['chunk-1'] }]);
+  });
+});
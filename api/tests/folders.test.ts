@@ -0,0 +1,281 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { purgeExpiredTrash } from '../src/lib/trash';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+function apiRequest(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'cf-access-jwt-assertion': 'test-token',
+    },
+  });
+}
+
+describe('folder routes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates, lists and renames folders within the tenant', async () => {
+    const { env, db, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('other-tenant', {
+      id: 'other-tenant',
+      tenant: 'elsewhere',
+      name: 'Not Mine',
+      visibility: 'public',
+      owner_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+
+    const created = await app.fetch(
+      apiRequest('/api/folders', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Research', visibility: 'private' }),
+      }),
+      env,
+      ctx,
+    );
+    expect(created.status).toBe(201);
+    const { folder } = (await created.json()) as { folder: { id: string; name: string } };
+    expect(folder.name).toBe('Research');
+
+    const listed = await app.fetch(apiRequest('/api/folders?visibility=all'), env, ctx);
+    expect(listed.status).toBe(200);
+    const { folders } = (await listed.json()) as {
+      folders: Array<{ id: string; fileCount: number; owner: { email: string } | null }>;
+    };
+    expect(folders.map((entry) => entry.id)).toEqual([folder.id]);
+    expect(folders[0].fileCount).toBe(0);
+    expect(folders[0].owner?.email).toBe('user@example.com');
+
+    const renamed = await app.fetch(
+      apiRequest(`/api/folders/${folder.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name: 'Research Notes' }),
+      }),
+      env,
+      ctx,
+    );
+    expect(renamed.status).toBe(200);
+    expect(db.folders.get(folder.id)?.name).toBe('Research Notes');
+
+    const foreign = await app.fetch(apiRequest('/api/folders/other-tenant'), env, ctx);
+    expect(foreign.status).toBe(404);
+  });
+
+  it('stores a per-folder chunk strategy and resets it with null', async () => {
+    const { env, db, ctx } = createTestEnv();
+
+    const created = await app.fetch(
+      apiRequest('/api/folders', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Handbook', visibility: 'private', chunkStrategy: 'markdown-heading' }),
+      }),
+      env,
+      ctx,
+    );
+    expect(created.status).toBe(201);
+    const { folder } = (await created.json()) as { folder: { id: string; chunkStrategy: string | null } };
+    expect(folder.chunkStrategy).toBe('markdown-heading');
+    expect(db.folders.get(folder.id)?.chunk_strategy).toBe('markdown-heading');
+
+    const update = (body: unknown) =>
+      app.fetch(apiRequest(`/api/folders/${folder.id}`, { method: 'PATCH', body: JSON.stringify(body) }), env, ctx);
+
+    expect((await update({ chunkStrategy: 'sentences' })).status).toBe(400);
+    const reset = await update({ chunkStrategy: null });
+    expect(reset.status).toBe(200);
+    expect(((await reset.json()) as { folder: { chunkStrategy: string | null } }).folder.chunkStrategy).toBeNull();
+    expect(db.folders.get(folder.id)?.chunk_strategy).toBeNull();
+  });
+
+  it('moves the files of a folder whose visibility changes', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('research', {
+      id: 'research',
+      tenant: 'default',
+      name: 'Research',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    for (const id of ['file-1', 'file-2']) {
+      const key = `users/user@example.com/research/${id}-${id}.txt`;
+      db.files.set(id, {
+        id,
+        tenant: 'default',
+        folder_id: 'research',
+        owner_id: 'user@example.com',
+        visibility: 'private',
+        file_name: `${id}.txt`,
+        r2_key: key,
+        size: 11,
+        mime_type: 'text/plain',
+        status: 'ready',
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      });
+      db.chunks.set(`${id}-chunk`, {
+        id: `${id}-chunk`,
+        file_id: id,
+        folder_id: 'research',
+        owner_id: 'user@example.com',
+        visibility: 'private',
+        chunk_index: 0,
+        start_line: 1,
+        end_line: 1,
+        content: 'Hello world',
+        created_at: timestamp,
+      });
+      await r2.put(key, 'Hello world');
+      vector.upserts.push({
+        namespace: 'user:user@example.com',
+        vector: { id: `${id}-chunk`, values: [0.5, 0.5, 0.5], metadata: { chunkId: `${id}-chunk` } },
+      });
+    }
+
+    const response = await app.fetch(
+      apiRequest('/api/folders/research', { method: 'PATCH', body: JSON.stringify({ visibility: 'public' }) }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ folder: { id: 'research', visibility: 'public', fileCount: 2 } });
+
+    for (const id of ['file-1', 'file-2']) {
+      const key = `public-root/research/${id}-${id}.txt`;
+      expect(db.files.get(id)).toMatchObject({ visibility: 'public', r2_key: key });
+      expect(r2.objects.has(key)).toBe(true);
+      expect(r2.objects.has(`users/user@example.com/research/${id}-${id}.txt`)).toBe(false);
+      expect(db.chunks.get(`${id}-chunk`)?.visibility).toBe('public');
+    }
+    expect(vector.upserts.slice(-2)).toEqual([
+      { namespace: 'public', vector: [expect.objectContaining({ id: 'file-1-chunk', values: [0.5, 0.5, 0.5] })] },
+      { namespace: 'public', vector: [expect.objectContaining({ id: 'file-2-chunk', values: [0.5, 0.5, 0.5] })] },
+    ]);
+    expect(vector.deletions).toEqual([
+      { namespace: 'user:user@example.com', ids: ['file-1-chunk'] },
+      { namespace: 'user:user@example.com', ids: ['file-2-chunk'] },
+    ]);
+  });
+
+  it("won't make a folder private while other users have files in it", async () => {
+    const { env, db, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('shared', {
+      id: 'shared',
+      tenant: 'default',
+      name: 'Shared',
+      visibility: 'public',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      folder_id: 'shared',
+      owner_id: 'other@example.com',
+      visibility: 'public',
+      file_name: 'theirs.txt',
+      r2_key: 'public-root/shared/file-1-theirs.txt',
+      size: 11,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+
+    const response = await app.fetch(
+      apiRequest('/api/folders/shared', { method: 'PATCH', body: JSON.stringify({ visibility: 'private' }) }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(409);
+    expect(db.folders.get('shared')?.visibility).toBe('public');
+    expect(db.files.get('file-1')?.visibility).toBe('public');
+  });
+
+  it('moves a folder and its files to the trash, then purges them after the retention window', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      file_name: 'notes.txt',
+      r2_key: 'users/user@example.com/private-root/file-1-notes.txt',
+      size: 12,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    db.chunks.set('chunk-1', {
+      id: 'chunk-1',
+      file_id: 'file-1',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      chunk_index: 0,
+      start_line: 1,
+      end_line: 1,
+      content: 'Hello world',
+      created_at: timestamp,
+    });
+    await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Hello world');
+
+    const response = await app.fetch(apiRequest('/api/folders/private-root', { method: 'DELETE' }), env, ctx);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ deleted: true, files: 1, folder: { id: 'private-root', fileCount: 1 } });
+
+    expect(db.folders.get('private-root')?.deleted_at).toBeTruthy();
+    expect(db.files.get('file-1')?.deleted_at).toBe(db.folders.get('private-root')?.deleted_at);
+    expect(db.chunks.size).toBe(1);
+    expect(r2.objects.size).toBe(1);
+    expect(vector.deletions).toEqual([]);
+    const folders = await app.fetch(apiRequest('/api/folders'), env, ctx);
+    expect(((await folders.json()) as { folders: unknown[] }).folders).toEqual([]);
+
+    await purgeExpiredTrash(env, Date.now() + 31 * 24 * 60 * 60 * 1000);
+
+    expect(db.folders.has('private-root')).toBe(false);
+    expect(db.files.size).toBe(0);
+    expect(db.chunks.size).toBe(0);
+    expect(r2.objects.size).toBe(0);
+    expect(vector.deletions).toEqual([{ namespace: 'user:user@example.com', ids: ['chunk-1'] }]);
+  });
+});
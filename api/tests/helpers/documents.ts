@@ -0,0 +1,147 @@
+import { Buffer } from 'node:buffer';
+
+async function compress(bytes: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export interface PdfPageFixture {
+  /** Content stream operators for the page. */
+  content: string;
+  /** Store the content stream FlateDecode-compressed. */
+  compressed?: boolean;
+}
+
+/**
+ * A minimal PDF with two fonts: `/F1` is Helvetica read as Latin-1, `/F2` has a ToUnicode map
+ * from two-byte codes `0001`–`001A` onto `a`–`z` and `0020` onto a space.
+ */
+export async function buildPdf(pages: PdfPageFixture[]): Promise<Uint8Array> {
+  const objects: Array<string | Uint8Array[]> = [];
+  const add = (value: string | Uint8Array[]) => objects.push(value) && objects.length;
+
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '1 beginbfchar <0020> <0020> endbfchar',
+    '1 beginbfrange <0001> <001A> <0061> endbfrange',
+    'endcmap end end',
+  ].join('\n');
+  const catalog = add('<< /Type /Catalog /Pages 2 0 R >>');
+  const tree = add('');
+  const helvetica = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  const toUnicode = add(`<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`);
+  const mapped = add(`<< /Type /Font /Subtype /Type0 /BaseFont /Mapped /ToUnicode ${toUnicode} 0 R >>`);
+
+  const kids: number[] = [];
+  for (const page of pages) {
+    let stream: Uint8Array = Buffer.from(page.content, 'latin1');
+    let filter = '';
+    if (page.compressed) {
+      stream = await compress(stream, 'deflate');
+      filter = ' /Filter /FlateDecode';
+    }
+    const content = add([
+      Buffer.from(`<< /Length ${stream.length}${filter} >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+    kids.push(add(`<< /Type /Page /Parent ${tree} 0 R /MediaBox [0 0 612 792] /Contents ${content} 0 R >>`));
+  }
+  objects[tree - 1] =
+    `<< /Type /Pages /Kids [${kids.map((kid) => `${kid} 0 R`).join(' ')}] /Count ${kids.length} ` +
+    `/Resources << /Font << /F1 ${helvetica} 0 R /F2 ${mapped} 0 R >> >> >>`;
+
+  const parts: Uint8Array[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((object, index) => {
+    const body = typeof object === 'string' ? [Buffer.from(object, 'latin1')] : object;
+    const chunks = [Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), ...body, Buffer.from('\nendobj\n', 'latin1')];
+    offsets.push(length);
+    chunks.forEach((chunk) => {
+      parts.push(chunk);
+      length += chunk.length;
+    });
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(xref, 'latin1'));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/** Two-byte codes for `/F2` in a PDF from {@link buildPdf}, as a hex string operand. */
+export function mappedGlyphs(text: string): string {
+  const codes = Array.from(text.toLowerCase()).map((char) =>
+    char === ' ' ? '0020' : (char.charCodeAt(0) - 0x60).toString(16).padStart(4, '0'),
+  );
+  return `<${codes.join('')}>`;
+}
+
+/** A ZIP archive whose entries are stored as-is or compressed with raw DEFLATE. */
+export async function buildZip(entries: Record<string, string>, { compressed = true } = {}): Promise<Uint8Array> {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(entries)) {
+    const fileName = Buffer.from(name, 'utf8');
+    const raw = Buffer.from(text, 'utf8');
+    const data = compressed ? Buffer.from(await compress(raw, 'deflate-raw')) : raw;
+    const method = compressed ? 8 : 0;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(raw.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    local.push(header, fileName, data);
+    central.push(entry, fileName);
+    offset += header.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...local, directory, end]));
+}
+
+/** A .docx holding `body` (the children of `w:body`) as its main document. */
+export function buildDocx(body: string, options?: { compressed?: boolean }): Promise<Uint8Array> {
+  return buildZip(
+    {
+      '[Content_Types].xml':
+        '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+      'word/document.xml':
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+        `<w:body>${body}</w:body></w:document>`,
+    },
+    options,
+  );
+}
@@ -1,5 +1,16 @@
 // @ts-nocheck
-import type { ChunkRecord, FileRecord, FolderRecord, Visibility } from '../../src/types';
+import type {
+  ChunkRecord,
+  ConsistencyRunRecord,
+  ConversationRecord,
+  FileRecord,
+  FileVersionRecord,
+  FolderRecord,
+  IngestJobRecord,
+  MessageRecord,
+  VectorIndexRecord,
+  Visibility,
+} from '../../src/types';
 
 interface UserRow {
   id: string;
@@ -20,7 +31,31 @@ export class MockD1 implements D1Database {
   folders = new Map<string, FolderRecord & { deleted_at?: string | null }>();
   files = new Map<string, FileRecord>();
   chunks = new Map<string, ChunkRecord>();
-  messages: unknown[] = [];
+  ingestJobs = new Map<string, IngestJobRecord>();
+  chunkVectors = new Map<string, { id: string; visibility: Visibility; owner_id: string; embedding: string; metadata: string }>();
+  /** Chunk ids indexed in chunks_fts, with the content that was indexed. */
+  ftsIndex = new Map<string, string>();
+  conversations = new Map<string, ConversationRecord>();
+  messages: MessageRecord[] = [];
+  /** Keyed by `${model} ${content_hash}`; `used` orders entries by recency like last_used_at. */
+  embeddingCache = new Map<
+    string,
+    { model: string; content_hash: string; dimensions: number; embedding: string; hits: number; used: number }
+  >();
+  embeddingCacheStats = new Map<string, { model: string; hits: number; misses: number; updated_at: string }>();
+  vectorIndexes = new Map<number, VectorIndexRecord>();
+  consistencyRuns = new Map<string, ConsistencyRunRecord>();
+  /** Keyed by `${file_id}:${version}`. */
+  fileVersions = new Map<string, FileVersionRecord>();
+  private cacheClock = 0;
+
+  async batch(statements: Array<{ run: () => Promise<unknown> }>) {
+    const results = [];
+    for (const statement of statements) {
+      results.push(await statement.run());
+    }
+    return results;
+  }
 
   prepare(query: string) {
     const db = this;
@@ -60,13 +95,696 @@ export class MockD1 implements D1Database {
       folders: Array.from(this.folders.values()),
       files: Array.from(this.files.values()),
       chunks: Array.from(this.chunks.values()),
+      ingestJobs: Array.from(this.ingestJobs.values()),
+      conversations: Array.from(this.conversations.values()),
       messages: this.messages,
     };
   }
 
+  /** Mirrors scopeConditions() in db.ts: folder ids, file ids, visibility, created after, created before. */
+  private inScope(chunk: ChunkRecord, [folderIds, fileIds, visibility, after, before]: Array<string | null>) {
+    const file = this.files.get(chunk.file_id);
+    const created = file ? Date.parse(file.created_at) : NaN;
+    if (folderIds && !JSON.parse(folderIds).includes(chunk.folder_id)) return false;
+    if (fileIds && !JSON.parse(fileIds).includes(chunk.file_id)) return false;
+    if (visibility && chunk.visibility !== visibility) return false;
+    if (after && !(created >= Date.parse(after))) return false;
+    if (before && !(created <= Date.parse(before))) return false;
+    return true;
+  }
+
+  private executeFts(normalized: string, args: unknown[]) {
+    if (normalized.startsWith('insert into chunks_fts')) {
+      const chunk = this.chunks.get(args[0] as string);
+      if (chunk) this.ftsIndex.set(chunk.id, chunk.content);
+      return null;
+    }
+
+    if (normalized.startsWith('delete from chunks_fts where rowid = (select rowid from chunks where id = ?1)')) {
+      this.ftsIndex.delete(args[0] as string);
+      return null;
+    }
+
+    if (normalized.startsWith('delete from chunks_fts where rowid in (select rowid from chunks where file_id = ?1')) {
+      const [fileId, jobId] = args as [string, string | undefined];
+      const staleOnly = normalized.includes('ingest_job_id');
+      this.chunks.forEach((chunk) => {
+        if (chunk.file_id === fileId && (!staleOnly || chunk.ingest_job_id !== jobId)) {
+          this.ftsIndex.delete(chunk.id);
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('select c.id, bm25(chunks_fts)')) {
+      // Approximates MATCH over quoted OR-ed terms; rank is negative term frequency like bm25()
+      const [match, ownerId, limit, ...scope] = args as [string, string, number, ...Array<string | null>];
+      const terms = Array.from(match.matchAll(/"([^"]+)"/g)).map((entry) => entry[1].toLowerCase());
+      const results: Array<{ id: string; rank: number }> = [];
+      this.ftsIndex.forEach((content, id) => {
+        const chunk = this.chunks.get(id);
+        if (!chunk || !(chunk.visibility === 'public' || chunk.owner_id === ownerId)) return;
+        if (this.files.get(chunk.file_id)?.deleted_at) return;
+        if (!this.inScope(chunk, scope)) return;
+        const tokens = content.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+        const hits = tokens.filter((token) => terms.some((term) => token === term || token.startsWith(term))).length;
+        if (hits) results.push({ id, rank: -hits });
+      });
+      return results.sort((a, b) => a.rank - b.rank).slice(0, limit);
+    }
+
+    throw new Error(`Unsupported FTS query in mock: ${normalized}`);
+  }
+
+  private executeConversations(normalized: string, args: unknown[]) {
+    const now = new Date().toISOString();
+
+    if (normalized.startsWith('insert into messages')) {
+      const [id, userId, question, answer, citations, conversationId, retrievalQuery] = args as string[];
+      this.messages.push({
+        id,
+        user_id: userId,
+        question,
+        answer,
+        citations,
+        conversation_id: conversationId ?? null,
+        retrieval_query: retrievalQuery ?? null,
+        created_at: now,
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('insert into conversations')) {
+      const [id, userId, title] = args as string[];
+      this.conversations.set(id, { id, user_id: userId, title, created_at: now, updated_at: now });
+      return null;
+    }
+
+    if (normalized.startsWith('select id, user_id, title')) {
+      const [id, userId] = args as string[];
+      const conversation = this.conversations.get(id);
+      return conversation && conversation.user_id === userId ? { ...conversation } : null;
+    }
+
+    if (normalized.startsWith('select c.id, c.user_id, c.title')) {
+      const [userId] = args as string[];
+      return Array.from(this.conversations.values())
+        .filter((conversation) => conversation.user_id === userId)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .map((conversation) => ({
+          ...conversation,
+          message_count: this.messages.filter((message) => message.conversation_id === conversation.id).length,
+        }));
+    }
+
+    if (normalized.startsWith('select id, user_id, conversation_id')) {
+      const [conversationId] = args as string[];
+      return this.messages.filter((message) => message.conversation_id === conversationId).map((message) => ({ ...message }));
+    }
+
+    if (normalized.startsWith('update conversations set')) {
+      const conversation = this.conversations.get(args[0] as string);
+      if (conversation) {
+        if (normalized.includes('title = ?2')) conversation.title = args[1] as string;
+        conversation.updated_at = now;
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('delete from messages where conversation_id')) {
+      this.messages = this.messages.filter((message) => message.conversation_id !== args[0]);
+      return null;
+    }
+
+    if (normalized.startsWith('delete from conversations')) {
+      this.conversations.delete(args[0] as string);
+      return null;
+    }
+
+    throw new Error(`Unsupported conversation query in mock: ${normalized}`);
+  }
+
+  private executeEmbeddingCache(normalized: string, args: unknown[]) {
+    if (normalized.startsWith('select content_hash, embedding from embedding_cache')) {
+      const [model, hashes] = args as [string, string];
+      return (JSON.parse(hashes) as string[])
+        .map((hash) => this.embeddingCache.get(`${model} ${hash}`))
+        .filter(Boolean)
+        .map((entry) => ({ content_hash: entry.content_hash, embedding: entry.embedding }));
+    }
+
+    if (normalized.startsWith('update embedding_cache set hits = hits + 1')) {
+      const [model, hashes] = args as [string, string];
+      (JSON.parse(hashes) as string[]).forEach((hash) => {
+        const entry = this.embeddingCache.get(`${model} ${hash}`);
+        if (entry) {
+          entry.hits += 1;
+          entry.used = ++this.cacheClock;
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('insert into embedding_cache_stats')) {
+      const [model, hits, misses] = args as [string, number, number];
+      const stats = this.embeddingCacheStats.get(model) ?? { model, hits: 0, misses: 0, updated_at: '' };
+      this.embeddingCacheStats.set(model, {
+        model,
+        hits: stats.hits + hits,
+        misses: stats.misses + misses,
+        updated_at: new Date().toISOString(),
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('insert into embedding_cache')) {
+      const [model, contentHash, dimensions, embedding] = args as [string, string, number, string];
+      const key = `${model} ${contentHash}`;
+      const hits = this.embeddingCache.get(key)?.hits ?? 0;
+      this.embeddingCache.set(key, { model, content_hash: contentHash, dimensions, embedding, hits, used: ++this.cacheClock });
+      return null;
+    }
+
+    if (normalized.startsWith('delete from embedding_cache where model != ?1')) {
+      const [model] = args as [string];
+      const live = new Set(
+        Array.from(this.vectorIndexes.values())
+          .filter((index) => index.status === 'active' || index.status === 'building')
+          .map((index) => index.model),
+      );
+      for (const [key, entry] of this.embeddingCache.entries()) {
+        if (entry.model !== model && !live.has(entry.model)) this.embeddingCache.delete(key);
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('delete from embedding_cache where rowid in')) {
+      const [keep] = args as [number];
+      Array.from(this.embeddingCache.entries())
+        .sort(([, a], [, b]) => b.used - a.used)
+        .slice(keep)
+        .forEach(([key]) => this.embeddingCache.delete(key));
+      return null;
+    }
+
+    if (normalized.startsWith('select s.model, s.hits, s.misses')) {
+      return Array.from(this.embeddingCacheStats.values())
+        .map((stats) => ({
+          ...stats,
+          entries: Array.from(this.embeddingCache.values()).filter((entry) => entry.model === stats.model).length,
+        }))
+        .sort((a, b) => b.hits + b.misses - (a.hits + a.misses));
+    }
+
+    throw new Error(`Unsupported embedding cache query in mock: ${normalized}`);
+  }
+
+  /** Mirrors the readiness check in activateVectorIndex(): every chunk is in the generation, which is still building. */
+  private vectorIndexReady(generation: number) {
+    return (
+      Array.from(this.chunks.values()).every((chunk) => (chunk.vector_generation ?? 1) >= generation) &&
+      this.vectorIndexes.get(generation)?.status === 'building'
+    );
+  }
+
+  private executeVectorIndexes(normalized: string, args: unknown[]) {
+    const now = new Date().toISOString();
+
+    if (normalized.startsWith('select generation, model')) {
+      const indexes = Array.from(this.vectorIndexes.values()).sort((a, b) => b.generation - a.generation);
+      if (normalized.includes("where status = 'active'")) {
+        return indexes.filter((index) => index.status === 'active').slice(0, 1).map((index) => ({ ...index }));
+      }
+      if (normalized.includes('where generation = ?1')) {
+        const index = this.vectorIndexes.get(args[0] as number);
+        return index ? { ...index } : null;
+      }
+      return indexes.map((index) => ({ ...index }));
+    }
+
+    if (normalized.startsWith('insert into vector_indexes')) {
+      const initial = normalized.includes('where not exists');
+      if (initial && this.vectorIndexes.size) return null;
+      const [generation, model, dimensions, binding, createdBy] = initial
+        ? [1, ...(args as [string, number | null, string]), null]
+        : (args as [number, string, number | null, string, string]);
+      this.vectorIndexes.set(generation, {
+        generation,
+        model,
+        dimensions,
+        binding,
+        status: initial ? 'active' : 'building',
+        total_chunks: 0,
+        processed_chunks: 0,
+        attempts: 0,
+        error: null,
+        created_by: createdBy,
+        created_at: now,
+        updated_at: now,
+        started_at: null,
+        activated_at: initial ? now : null,
+        retired_at: null,
+        purged_at: null,
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update chunks set embedding_model = ?1')) {
+      const [model, dimensions] = args as [string, number | null];
+      if (this.vectorIndexes.get(1)?.model !== model) return null;
+      this.chunks.forEach((chunk) => {
+        if ((chunk.vector_generation ?? 1) === 1 && !chunk.embedding_model) {
+          Object.assign(chunk, { embedding_model: model, embedding_dimensions: dimensions });
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update chunks set embedding_dimensions = ?2')) {
+      const [generation, dimensions] = args as [number, number];
+      if (this.vectorIndexes.get(generation)?.status !== 'active') return null;
+      this.chunks.forEach((chunk) => {
+        if ((chunk.vector_generation ?? 1) === generation && chunk.embedding_dimensions == null) {
+          chunk.embedding_dimensions = dimensions;
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update chunks set embedding_model = (select model')) {
+      const [generation] = args as [number];
+      const index = this.vectorIndexes.get(generation);
+      if (!index || !this.vectorIndexReady(generation)) return null;
+      this.chunks.forEach((chunk) => {
+        if (chunk.vector_generation === generation) {
+          Object.assign(chunk, { embedding_model: index.model, embedding_dimensions: index.dimensions });
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith("update vector_indexes set status = 'retired'")) {
+      const [generation] = args as [number];
+      if (!this.vectorIndexReady(generation)) return null;
+      this.vectorIndexes.forEach((index) => {
+        if (index.status === 'active' && index.generation !== generation) {
+          Object.assign(index, { status: 'retired', retired_at: now, updated_at: now });
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith("update vector_indexes set status = 'active'")) {
+      const [generation] = args as [number];
+      if (!this.vectorIndexReady(generation)) return null;
+      Object.assign(this.vectorIndexes.get(generation)!, { status: 'active', activated_at: now, updated_at: now });
+      return null;
+    }
+
+    if (normalized.startsWith('update vector_indexes set')) {
+      const [generation, value] = args as [number, unknown];
+      const index = this.vectorIndexes.get(generation);
+      if (!index) return null;
+      if (normalized.includes('set dimensions = ?2')) {
+        index.dimensions = index.dimensions ?? (value as number);
+      } else if (normalized.includes('set total_chunks = ?2')) {
+        Object.assign(index, { total_chunks: value, started_at: index.started_at ?? now });
+      } else if (normalized.includes('set processed_chunks = ?2')) {
+        Object.assign(index, {
+          processed_chunks: value,
+          total_chunks: Math.max(index.total_chunks, value as number),
+          error: null,
+        });
+      } else if (normalized.includes('set attempts = attempts + 1')) {
+        Object.assign(index, { attempts: index.attempts + 1, error: value });
+      } else if (normalized.includes('set purged_at')) {
+        if (index.status === 'retired') index.purged_at = now;
+      } else if (normalized.includes("set status = 'failed'")) {
+        if (index.status === 'building') Object.assign(index, { status: 'failed', error: value });
+      }
+      index.updated_at = now;
+      return null;
+    }
+
+    if (normalized.startsWith('select count(*) as count from chunks where vector_generation < ?1')) {
+      const [generation] = args as [number];
+      return { count: Array.from(this.chunks.values()).filter((chunk) => (chunk.vector_generation ?? 1) < generation).length };
+    }
+
+    if (normalized.startsWith('select c.id, c.file_id, c.folder_id, c.owner_id, c.visibility, c.start_line')) {
+      const [generation, limit] = args as [number, number];
+      return Array.from(this.chunks.values())
+        .filter((chunk) => (chunk.vector_generation ?? 1) < generation)
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, limit)
+        .map((chunk) => {
+          const file = this.files.get(chunk.file_id);
+          return {
+            ...chunk,
+            file_name: file?.file_name ?? null,
+            file_created_at: file?.created_at ?? null,
+            folder_name: this.folders.get(chunk.folder_id)?.name ?? null,
+          };
+        });
+    }
+
+    if (normalized.startsWith('update chunks set vector_generation = ?1')) {
+      const [generation, ids] = args as [number, string];
+      (JSON.parse(ids) as string[]).forEach((id) => {
+        const chunk = this.chunks.get(id);
+        if (chunk && (chunk.vector_generation ?? 1) < generation) chunk.vector_generation = generation;
+      });
+      return null;
+    }
+
+    throw new Error(`Unsupported vector index query in mock: ${normalized}`);
+  }
+
+  private executeConsistency(normalized: string, args: unknown[]) {
+    const byId = <T extends { id: string }>(a: T, b: T) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+    if (normalized.startsWith('select c.id, c.file_id') && normalized.includes('where c.id > ?1')) {
+      const [afterId, limit] = args as [string, number];
+      return Array.from(this.chunks.values())
+        .filter((chunk) => chunk.id > afterId)
+        .sort(byId)
+        .slice(0, limit)
+        .map((chunk) => {
+          const file = this.files.get(chunk.file_id);
+          const ingesting = Array.from(this.ingestJobs.values()).some(
+            (job) => job.file_id === chunk.file_id && (job.status === 'queued' || job.status === 'running'),
+          );
+          return {
+            ...chunk,
+            file_name: file?.file_name ?? null,
+            file_created_at: file?.created_at ?? null,
+            file_status: file?.status ?? null,
+            file_updated_at: file?.updated_at ?? null,
+            folder_name: this.folders.get(chunk.folder_id)?.name ?? null,
+            ingesting: ingesting ? 1 : 0,
+          };
+        });
+    }
+
+    if (normalized.startsWith('select id, tenant, folder_id') && normalized.includes('where id > ?1')) {
+      const [afterId, limit] = args as [string, number];
+      return Array.from(this.files.values())
+        .filter((file) => file.id > afterId)
+        .sort(byId)
+        .slice(0, limit)
+        .map((file) => ({ ...file }));
+    }
+
+    if (normalized.startsWith('select id from chunks where id in (select value from json_each(?1))')) {
+      return (JSON.parse(args[0] as string) as string[]).filter((id) => this.chunks.has(id)).map((id) => ({ id }));
+    }
+
+    if (normalized.startsWith('select id as owner_id from users union select owner_id from files')) {
+      const owners = new Set([...this.users.keys(), ...Array.from(this.files.values(), (file) => file.owner_id)]);
+      return Array.from(owners, (owner_id) => ({ owner_id }));
+    }
+
+    if (normalized.startsWith('select id, r2_key from files')) {
+      const keys = new Set(JSON.parse(args[0] as string) as string[]);
+      const ids = new Set(JSON.parse(args[1] as string) as string[]);
+      return Array.from(this.files.values())
+        .filter((file) => keys.has(file.r2_key) || ids.has(file.id))
+        .map((file) => ({ id: file.id, r2_key: file.r2_key }));
+    }
+
+    const now = new Date().toISOString();
+    if (normalized.startsWith('insert into consistency_runs')) {
+      const [id, mode, trigger, createdBy] = args as [string, 'report' | 'repair', 'manual' | 'cron', string | null];
+      this.consistencyRuns.set(id, {
+        id,
+        mode,
+        trigger,
+        status: 'running',
+        report: null,
+        error: null,
+        created_by: createdBy,
+        started_at: now,
+        completed_at: null,
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update consistency_runs set')) {
+      const [id, value] = args as [string, string];
+      const run = this.consistencyRuns.get(id);
+      if (!run) return null;
+      if (normalized.includes("status = 'succeeded'")) {
+        Object.assign(run, { status: 'succeeded', report: value, completed_at: now });
+      } else {
+        Object.assign(run, { status: 'failed', error: value, completed_at: now });
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('select id, mode, trigger')) {
+      if (normalized.includes('where id = ?1')) {
+        const run = this.consistencyRuns.get(args[0] as string);
+        return run ? { ...run } : null;
+      }
+      return Array.from(this.consistencyRuns.values())
+        .reverse()
+        .slice(0, args[0] as number)
+        .map((run) => ({ ...run }));
+    }
+
+    throw new Error(`Unsupported consistency query in mock: ${normalized}`);
+  }
+
+  private executeVersions(normalized: string, args: unknown[]) {
+    if (normalized.startsWith('insert into file_versions')) {
+      // createFileRecord binds version 1 as a literal; recordFileVersion binds every column
+      const [fileId, ...rest] = args as [string, ...unknown[]];
+      const [version, size, mimeType, restoredFrom, createdBy] =
+        rest.length === 3 ? [1, rest[0], rest[1], null, rest[2]] : rest;
+      const key = `${fileId}:${version}`;
+      if (this.fileVersions.has(key)) {
+        throw new Error('UNIQUE constraint failed: file_versions.file_id, file_versions.version');
+      }
+      this.fileVersions.set(key, {
+        file_id: fileId,
+        version: version as number,
+        r2_key: null,
+        size: size as number,
+        mime_type: (mimeType as string | null) ?? null,
+        restored_from: (restoredFrom as number | null) ?? null,
+        created_by: (createdBy as string | null) ?? null,
+        created_at: new Date().toISOString(),
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update file_versions set r2_key')) {
+      const [fileId, version, r2Key] = args as [string, number, string];
+      const row = this.fileVersions.get(`${fileId}:${version}`);
+      if (row) row.r2_key = r2Key;
+      return null;
+    }
+
+    if (normalized.startsWith('update files set current_version')) {
+      const [fileId, version, size, mimeType] = args as [string, number, number, string | null];
+      const file = this.files.get(fileId);
+      if (file) {
+        Object.assign(file, { current_version: version, size, mime_type: mimeType, status: 'uploading' });
+        file.updated_at = new Date().toISOString();
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('delete from file_versions')) {
+      const [fileId] = args as [string];
+      for (const [key, row] of this.fileVersions) {
+        if (row.file_id === fileId) this.fileVersions.delete(key);
+      }
+      return null;
+    }
+
+    if (normalized.includes('from file_versions where file_id = ?1 and version = ?2')) {
+      const [fileId, version] = args as [string, number];
+      const row = this.fileVersions.get(`${fileId}:${version}`);
+      return row ? { ...row } : null;
+    }
+
+    if (normalized.includes('from file_versions where file_id = ?1 order by version desc')) {
+      const [fileId] = args as [string];
+      return Array.from(this.fileVersions.values())
+        .filter((row) => row.file_id === fileId)
+        .sort((a, b) => b.version - a.version)
+        .map((row) => ({ ...row }));
+    }
+
+    throw new Error(`Unsupported version query in mock: ${normalized}`);
+  }
+
+  private executeTrash(normalized: string, args: unknown[]) {
+    const now = new Date().toISOString();
+    const withFolder = (file: FileRecord) => {
+      const folder = this.folders.get(file.folder_id);
+      if (!folder) return null;
+      const owner = this.users.get(file.owner_id);
+      return {
+        ...file,
+        folder_name: folder.name,
+        folder_visibility: folder.visibility,
+        folder_deleted_at: folder.deleted_at ?? null,
+        owner_email: owner?.email ?? '',
+        owner_display_name: owner?.display_name ?? null,
+      };
+    };
+    const withCount = (folder: FolderRecord & { deleted_at?: string | null }) => ({
+      ...folder,
+      file_count: Array.from(this.files.values()).filter(
+        (file) => file.folder_id === folder.id && file.deleted_at === folder.deleted_at,
+      ).length,
+    });
+    const expired = (deletedAt: string | null | undefined, cutoff: string) =>
+      Boolean(deletedAt) && Date.parse(deletedAt!) <= Date.parse(cutoff);
+
+    if (normalized.startsWith('update files set deleted_at = current_timestamp where id = ?1')) {
+      const file = this.files.get(args[0] as string);
+      if (file && !file.deleted_at) file.deleted_at = now;
+      return null;
+    }
+
+    if (normalized.startsWith('update files set deleted_at = null') && normalized.endsWith('where id = ?1')) {
+      const file = this.files.get(args[0] as string);
+      if (file) {
+        file.deleted_at = null;
+        file.updated_at = now;
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('update folders set deleted_at = current_timestamp')) {
+      const folder = this.folders.get(args[0] as string);
+      if (folder && !folder.deleted_at) folder.deleted_at = now;
+      return null;
+    }
+
+    if (normalized.startsWith('update files set deleted_at = (select deleted_at from folders')) {
+      const [folderId] = args as [string];
+      const deletedAt = this.folders.get(folderId)?.deleted_at ?? null;
+      this.files.forEach((file) => {
+        if (file.folder_id === folderId && !file.deleted_at) file.deleted_at = deletedAt;
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update files set deleted_at = null') && normalized.includes('where folder_id = ?1')) {
+      const [folderId] = args as [string];
+      const deletedAt = this.folders.get(folderId)?.deleted_at;
+      this.files.forEach((file) => {
+        if (file.folder_id === folderId && deletedAt && file.deleted_at === deletedAt) {
+          file.deleted_at = null;
+          file.updated_at = now;
+        }
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update folders set deleted_at = null')) {
+      const folder = this.folders.get(args[0] as string);
+      if (folder) {
+        folder.deleted_at = null;
+        folder.updated_at = now;
+      }
+      return null;
+    }
+
+    if (normalized.includes('from files f join folders d') && normalized.includes('where f.id = ?1')) {
+      const file = this.files.get(args[0] as string);
+      return file?.deleted_at ? withFolder(file) : null;
+    }
+
+    if (normalized.includes('from files f join folders d')) {
+      // Leaves out files that went to the trash with their folder
+      const [tenant, ownerId] = args as [string, string];
+      return Array.from(this.files.values())
+        .filter((file) => file.tenant === tenant && file.owner_id === ownerId && file.deleted_at)
+        .map(withFolder)
+        .filter((file) => file && file.folder_deleted_at !== file.deleted_at)
+        .sort((a, b) => Date.parse(b!.deleted_at!) - Date.parse(a!.deleted_at!));
+    }
+
+    if (normalized.includes('from folders f where f.id = ?1')) {
+      const folder = this.folders.get(args[0] as string);
+      return folder?.deleted_at ? withCount(folder) : null;
+    }
+
+    if (normalized.includes('from folders f where f.tenant = ?1')) {
+      const [tenant, ownerId] = args as [string, string];
+      return Array.from(this.folders.values())
+        .filter((folder) => folder.tenant === tenant && folder.owner_id === ownerId && folder.deleted_at)
+        .sort((a, b) => Date.parse(b.deleted_at!) - Date.parse(a.deleted_at!))
+        .map(withCount);
+    }
+
+    if (normalized.includes('from files where deleted_at is not null')) {
+      const [cutoff, afterId, limit] = args as [string, string, number];
+      return Array.from(this.files.values())
+        .filter((file) => expired(file.deleted_at, cutoff) && file.id > afterId)
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, limit)
+        .map((file) => ({ ...file }));
+    }
+
+    if (normalized.includes('from folders where deleted_at is not null')) {
+      const [cutoff, afterId, limit] = args as [string, string, number];
+      return Array.from(this.folders.values())
+        .filter((folder) => expired(folder.deleted_at, cutoff) && folder.id > afterId)
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, limit)
+        .map((folder) => ({ ...folder }));
+    }
+
+    throw new Error(`Unsupported trash query in mock: ${normalized}`);
+  }
+
   private execute(query: string, args: unknown[]) {
     const normalized = query.replace(/\s+/g, ' ').trim().toLowerCase();
 
+    if (
+      normalized.includes('consistency_runs') ||
+      normalized.includes('where c.id > ?1') ||
+      normalized.includes('where id > ?1') ||
+      normalized.startsWith('select id from chunks where id in (select value') ||
+      normalized.startsWith('select id as owner_id from users') ||
+      normalized.startsWith('select id, r2_key from files')
+    ) {
+      return this.executeConsistency(normalized, args);
+    }
+
+    if (normalized.includes('deleted_at is not null') || normalized.includes('set deleted_at')) {
+      return this.executeTrash(normalized, args);
+    }
+
+    if (
+      (normalized.includes('vector_indexes') && !normalized.includes('embedding_cache')) ||
+      /(where|set) (c\.)?vector_generation/.test(normalized)
+    ) {
+      return this.executeVectorIndexes(normalized, args);
+    }
+
+    if (normalized.includes('embedding_cache')) {
+      return this.executeEmbeddingCache(normalized, args);
+    }
+
+    if (normalized.includes('chunks_fts')) {
+      return this.executeFts(normalized, args);
+    }
+
+    if (normalized.includes('conversation')) {
+      return this.executeConversations(normalized, args);
+    }
+
+    if (normalized.includes('file_versions') || normalized.startsWith('update files set current_version')) {
+      return this.executeVersions(normalized, args);
+    }
+
     if (normalized.startsWith('insert into users')) {
       const [id, email, displayName, avatarUrl, tenant, lastSeen] = args as [
         string,
@@ -90,13 +808,17 @@ export class MockD1 implements D1Database {
     }
 
     if (normalized.startsWith('insert into folders')) {
-      const [id, tenant, ownerId, name, visibility] = args as [
+      const [id, tenant, ownerId, name, visibility, chunkStrategy] = args as [
         string,
         string,
         string | null,
         string,
         string,
+        string | null | undefined,
       ];
+      if (normalized.includes('on conflict(id) do nothing') && this.folders.has(id)) {
+        return null;
+      }
       const timestamp = new Date().toISOString();
       this.folders.set(id, {
         id,
@@ -104,6 +826,7 @@ export class MockD1 implements D1Database {
         owner_id: ownerId,
         name,
         visibility: visibility as 'public' | 'private',
+        chunk_strategy: chunkStrategy ?? null,
         created_at: timestamp,
         updated_at: timestamp,
         deleted_at: null,
@@ -111,7 +834,7 @@ export class MockD1 implements D1Database {
       return null;
     }
 
-    if (normalized.startsWith('select id, tenant, owner_id, name, visibility, created_at, updated_at from folders')) {
+    if (normalized.startsWith('select id, tenant, owner_id, name, visibility, created_at, updated_at, chunk_strategy from folders')) {
       const [id] = args as [string];
       const folder = this.folders.get(id);
       if (!folder || folder.deleted_at) {
@@ -123,6 +846,7 @@ export class MockD1 implements D1Database {
         owner_id: folder.owner_id,
         name: folder.name,
         visibility: folder.visibility,
+        chunk_strategy: folder.chunk_strategy ?? null,
         created_at: folder.created_at,
         updated_at: folder.updated_at,
       } satisfies FolderRecord;
@@ -132,15 +856,30 @@ export class MockD1 implements D1Database {
       const [id] = args as [string];
       const folder = this.folders.get(id);
       if (folder) {
-        const [, name, visibility] = args as [string, string, string];
+        const [, name, visibility, chunkStrategy] = args as [string, string, string, string | null];
         folder.name = name;
         folder.visibility = visibility as 'public' | 'private';
+        folder.chunk_strategy = chunkStrategy;
         folder.updated_at = new Date().toISOString();
       }
       return null;
     }
 
     if (normalized.startsWith('select')) {
+      if (normalized.includes('from folders f left join users u on u.id = f.owner_id where f.id = ?1')) {
+        const [id] = args as [string];
+        const folder = this.folders.get(id);
+        if (!folder || folder.deleted_at) {
+          return null;
+        }
+        const owner = folder.owner_id ? this.users.get(folder.owner_id) : undefined;
+        return {
+          ...folder,
+          owner_email: owner?.email ?? null,
+          owner_display_name: owner?.display_name ?? null,
+        };
+      }
+
       if (normalized.includes('from folders f left join users')) {
         const [tenant, maybeOwner] = args as [string, string | undefined];
         const includePrivate = normalized.includes('or (f.visibility =');
@@ -174,20 +913,6 @@ export class MockD1 implements D1Database {
         return results;
       }
 
-      if (normalized.includes('from folders f left join users u on u.id = f.owner_id where f.id = ?1')) {
-        const [id] = args as [string];
-        const folder = this.folders.get(id);
-        if (!folder || folder.deleted_at) {
-          return null;
-        }
-        const owner = folder.owner_id ? this.users.get(folder.owner_id) : undefined;
-        return {
-          ...folder,
-          owner_email: owner?.email ?? null,
-          owner_display_name: owner?.display_name ?? null,
-        };
-      }
-
       if (normalized.includes('from files f join folders d on d.id = f.folder_id')) {
         if (normalized.includes('where f.id = ?1')) {
           const [fileId] = args as [string];
@@ -197,21 +922,22 @@ export class MockD1 implements D1Database {
           }
           const folder = this.folders.get(file.folder_id);
           const owner = this.users.get(file.owner_id);
-          if (!folder || !owner) {
+          if (!folder) {
             return null;
           }
           return {
             ...file,
             folder_name: folder.name,
             folder_visibility: folder.visibility,
-            owner_email: owner.email,
-            owner_display_name: owner.display_name ?? null,
+            folder_chunk_strategy: folder.chunk_strategy ?? null,
+            owner_email: owner?.email ?? null,
+            owner_display_name: owner?.display_name ?? null,
           };
         }
 
         const [tenant, maybeOwner] = args as [string, string | undefined, string | undefined];
-        const isVisibilityPrivate = normalized.includes("f.visibility = 'private'") && !normalized.includes('or');
         const includePrivate = normalized.includes('or (f.visibility =');
+        const isVisibilityPrivate = normalized.includes("f.visibility = 'private'") && !includePrivate;
         const folderFilter = normalized.includes('f.folder_id = ?');
         const results = Array.from(this.files.values())
           .filter((file) => file.tenant === tenant && !file.deleted_at)
@@ -253,6 +979,52 @@ export class MockD1 implements D1Database {
         return results;
       }
 
+      if (normalized.includes('from files where folder_id = ?1')) {
+        const [folderId] = args as [string];
+        return Array.from(this.files.values()).filter((file) => file.folder_id === folderId && !file.deleted_at);
+      }
+
+      if (normalized.includes('from chunks where file_id = ?1 order by chunk_index')) {
+        const [fileId] = args as [string];
+        return Array.from(this.chunks.values())
+          .filter((chunk) => chunk.file_id === fileId)
+          .sort((a, b) => a.chunk_index - b.chunk_index)
+          .map((chunk) => ({ ...chunk }));
+      }
+
+      if (normalized.startsWith('select id from chunks where file_id = ?1 and (ingest_job_id')) {
+        const [fileId, jobId] = args as [string, string];
+        return Array.from(this.chunks.values())
+          .filter((chunk) => chunk.file_id === fileId && chunk.ingest_job_id !== jobId)
+          .map((chunk) => ({ id: chunk.id }));
+      }
+
+      if (normalized.includes('from chunk_vectors where id in')) {
+        return (args as string[]).map((id) => this.chunkVectors.get(id)).filter(Boolean);
+      }
+
+      if (normalized.includes('from chunk_vectors where')) {
+        const [visibility, ownerId] = args as [string | null, string | null];
+        return Array.from(this.chunkVectors.values()).filter(
+          (row) => (visibility === null || row.visibility === visibility) && (ownerId === null || row.owner_id === ownerId),
+        );
+      }
+
+      if (normalized.includes('from ingest_jobs j join files f on f.id = j.file_id')) {
+        const [fileId] = args as [string];
+        const version = this.files.get(fileId)?.current_version ?? 1;
+        const active = Array.from(this.ingestJobs.values()).filter(
+          (job) => job.file_id === fileId && ['queued', 'running'].includes(job.status) && job.file_version === version,
+        );
+        return active.length ? { ...active[active.length - 1] } : null;
+      }
+
+      if (normalized.includes('from ingest_jobs where id = ?1')) {
+        const [jobId] = args as [string];
+        const job = this.ingestJobs.get(jobId);
+        return job ? { ...job } : null;
+      }
+
       if (normalized.startsWith('select id from chunks where file_id')) {
         const [fileId] = args as [string];
         return Array.from(this.chunks.values())
@@ -260,18 +1032,35 @@ export class MockD1 implements D1Database {
           .map((chunk) => ({ id: chunk.id }));
       }
 
+      if (normalized.includes('join json_each(?1) w')) {
+        const windows = JSON.parse(args[0] as string) as Array<{ fileId: string; from: number; to: number }>;
+        return Array.from(this.chunks.values())
+          .filter((chunk) =>
+            windows.some((w) => w.fileId === chunk.file_id && chunk.chunk_index >= w.from && chunk.chunk_index <= w.to),
+          )
+          .sort((a, b) => a.file_id.localeCompare(b.file_id) || a.chunk_index - b.chunk_index);
+      }
+
       if (normalized.startsWith('select c.id')) {
-        const ids = args as string[];
-        return ids
+        const [ids, ownerId, ...scope] = args as [string, string, ...Array<string | null>];
+        return (JSON.parse(ids) as string[])
           .map((id) => this.chunks.get(id))
-          .filter(Boolean)
+          .filter(
+            (chunk) =>
+              chunk &&
+              !this.files.get(chunk.file_id)?.deleted_at &&
+              (chunk.visibility === 'public' || chunk.owner_id === ownerId) &&
+              this.inScope(chunk, scope),
+          )
           .map((chunk) => {
             const file = chunk ? this.files.get(chunk.file_id) : undefined;
             const folder = file ? this.folders.get(file.folder_id) : undefined;
+            const job = chunk?.ingest_job_id ? this.ingestJobs.get(chunk.ingest_job_id) : undefined;
             return {
               ...chunk!,
               file_name: file?.file_name ?? 'file.txt',
               folder_name: folder?.name ?? 'Folder',
+              file_version: job?.file_version ?? 1,
             };
           });
       }
@@ -305,6 +1094,7 @@ export class MockD1 implements D1Database {
         created_at: timestamp,
         updated_at: timestamp,
         deleted_at: null,
+        current_version: 1,
       });
       return null;
     }
@@ -346,12 +1136,124 @@ export class MockD1 implements D1Database {
       return null;
     }
 
-    if (normalized.startsWith('update files set deleted_at')) {
+    if (normalized.startsWith('delete from folders where id')) {
+      const [folderId] = args as [string];
+      this.folders.delete(folderId);
+      return null;
+    }
+
+    if (normalized.startsWith('delete from files where id')) {
       const [fileId] = args as [string];
-      const file = this.files.get(fileId);
-      if (file) {
-        file.deleted_at = new Date().toISOString();
-        file.updated_at = file.deleted_at;
+      this.files.delete(fileId);
+      return null;
+    }
+
+    if (normalized.startsWith('update chunks set folder_id')) {
+      const [fileId, folderId, visibility] = args as [string, string, Visibility];
+      for (const chunk of this.chunks.values()) {
+        if (chunk.file_id === fileId) {
+          chunk.folder_id = folderId;
+          chunk.visibility = visibility;
+        }
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('update chunks set chunk_index')) {
+      const [id, chunkIndex, startLine, endLine, chunkStrategy, page, paragraph, contentHash, jobId] = args as [
+        string, number, number, number, string | null, number | null, number | null, string | null, string,
+      ];
+      const chunk = this.chunks.get(id);
+      if (chunk) {
+        Object.assign(chunk, {
+          chunk_index: chunkIndex,
+          start_line: startLine,
+          end_line: endLine,
+          chunk_strategy: chunkStrategy,
+          page,
+          paragraph,
+          content_hash: contentHash,
+          ingest_job_id: jobId,
+        });
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('delete from chunks where file_id = ?1 and (ingest_job_id')) {
+      const [fileId, jobId] = args as [string, string];
+      for (const [chunkId, chunk] of this.chunks.entries()) {
+        if (chunk.file_id === fileId && chunk.ingest_job_id !== jobId) {
+          this.chunks.delete(chunkId);
+        }
+      }
+      return null;
+    }
+
+    if (normalized.startsWith('insert into chunk_vectors')) {
+      const [id, visibility, ownerId, embedding, metadata] = args as [string, Visibility, string, string, string];
+      this.chunkVectors.set(id, { id, visibility, owner_id: ownerId, embedding, metadata });
+      return null;
+    }
+
+    if (normalized.startsWith('delete from chunk_vectors where id in')) {
+      (args as string[]).forEach((id) => this.chunkVectors.delete(id));
+      return null;
+    }
+
+    if (normalized.startsWith('insert into ingest_jobs')) {
+      const [id, fileId, ownerId, tenant] = args as [string, string, string, string];
+      const fileVersion = this.files.get(fileId)?.current_version ?? 1;
+      // idx_ingest_jobs_active_version
+      const duplicate = Array.from(this.ingestJobs.values()).some(
+        (job) => job.file_id === fileId && job.file_version === fileVersion && ['queued', 'running'].includes(job.status),
+      );
+      if (duplicate) {
+        throw new Error('UNIQUE constraint failed: ingest_jobs.file_id, ingest_jobs.file_version');
+      }
+      const timestamp = new Date().toISOString();
+      this.ingestJobs.set(id, {
+        id,
+        file_id: fileId,
+        owner_id: ownerId,
+        tenant,
+        status: 'queued',
+        total_chunks: 0,
+        processed_chunks: 0,
+        unchanged_chunks: 0,
+        removed_chunks: 0,
+        file_version: fileVersion,
+        attempts: 0,
+        error: null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        started_at: null,
+        completed_at: null,
+      });
+      return null;
+    }
+
+    if (normalized.startsWith('update ingest_jobs set')) {
+      const job = this.ingestJobs.get(args[0] as string);
+      if (job) {
+        const timestamp = new Date().toISOString();
+        const setClause = normalized.split(' set ')[1].split(' where ')[0];
+        setClause.split(/,(?![^(]*\))/).forEach((clause) => {
+          const [column, value] = clause.split('=').map((part) => part.trim());
+          const placeholder = value.match(/^\?(\d+)$/);
+          if (placeholder) {
+            job[column] = args[Number(placeholder[1]) - 1];
+          } else if (value.startsWith("'")) {
+            job[column] = value.slice(1, -1);
+          } else if (value === 'null') {
+            job[column] = null;
+          } else if (value === `${column} + 1`) {
+            job[column] += 1;
+          } else if (value.startsWith('coalesce')) {
+            job[column] = job[column] ?? timestamp;
+          } else if (value === 'current_timestamp') {
+            job[column] = timestamp;
+          }
+        });
       }
       return null;
     }
@@ -367,17 +1269,8 @@ export class MockD1 implements D1Database {
     }
 
     if (normalized.startsWith('insert into chunks')) {
-      const [id, fileId, folderId, ownerId, visibility, chunkIndex, startLine, endLine, content] = args as [
-        string,
-        string,
-        string,
-        string,
-        string,
-        number,
-        number,
-        number,
-        string,
-      ];
+      const [id, fileId, folderId, ownerId, visibility, chunkIndex, startLine, endLine, content, ingestJobId, chunkStrategy, page, paragraph, contentHash, embeddingModel, embeddingDimensions, vectorGeneration] =
+        args as [string, string, string, string, string, number, number, number, string, string | null, string | null, number | null, number | null, string | null, string | null, number | null, number];
       this.chunks.set(id, {
         id,
         file_id: fileId,
@@ -388,23 +1281,19 @@ export class MockD1 implements D1Database {
         start_line: startLine,
         end_line: endLine,
         content,
+        chunk_strategy: chunkStrategy ?? null,
+        ingest_job_id: ingestJobId ?? null,
+        page: page ?? null,
+        paragraph: paragraph ?? null,
+        content_hash: contentHash ?? null,
+        embedding_model: embeddingModel ?? null,
+        embedding_dimensions: embeddingDimensions ?? null,
+        vector_generation: vectorGeneration ?? 1,
         created_at: new Date().toISOString(),
       });
       return null;
     }
 
-    if (normalized.startsWith('insert into messages')) {
-      const record = {
-        id: args[0],
-        user_id: args[1],
-        question: args[2],
-        answer: args[3],
-        citations: args[4],
-      };
-      this.messages.push(record);
-      return null;
-    }
-
     throw new Error(`Unsupported query in mock DB: ${query}`);
   }
 }
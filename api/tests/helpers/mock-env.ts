@@ -1,12 +1,19 @@
 // @ts-nocheck
 import { Buffer } from 'node:buffer';
+import { createHash } from 'node:crypto';
 import type { ExecutionContext, R2Bucket, VectorizeIndex } from '@cloudflare/workers-types';
-import type { MarbleBindings } from '../../src/types';
+import type { IngestMessage, MarbleBindings } from '../../src/types';
 import { MockD1 } from './mock-db';
 
 type R2ObjectStub = {
   key: string;
+  /** The stored bytes decoded as UTF-8, for assertions on text uploads. */
   body: string;
+  bytes: Uint8Array;
+  /** MD5 of the bytes, like R2's etag for single-part uploads. */
+  etag: string;
+  /** When the object was written; tests backdate it to get past grace periods. */
+  uploaded: Date;
   httpMetadata?: { contentType?: string };
   customMetadata?: Record<string, string>;
 };
@@ -20,14 +27,18 @@ class MockR2 {
       return null;
     }
     return {
+      key,
+      etag: object.etag,
       text: async () => object.body,
-      body: object.body,
+      arrayBuffer: async () => object.bytes.slice().buffer,
+      body: object.bytes,
       httpMetadata: object.httpMetadata ?? { contentType: 'text/plain' },
       customMetadata: object.customMetadata ?? {},
     };
   }
 
-  async put(key: string, body: string | ReadableStream, options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }) {
+  async put(key: string, body: string | ReadableStream | ArrayBuffer | ArrayBufferView, options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }) {
+    let bytes: Uint8Array;
     if (body instanceof ReadableStream) {
       const reader = body.getReader();
       const chunks: Uint8Array[] = [];
@@ -37,12 +48,42 @@ class MockR2 {
         if (done) break;
         if (value) chunks.push(value);
       }
-      const decoder = new TextDecoder();
-      const text = decoder.decode(Buffer.concat(chunks.map((chunk) => Buffer.from(chunk))));
-      this.objects.set(key, { key, body: text, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
+      bytes = new Uint8Array(Buffer.concat(chunks.map((chunk) => Buffer.from(chunk))));
+    } else if (body instanceof ArrayBuffer) {
+      bytes = new Uint8Array(body.slice(0));
+    } else if (ArrayBuffer.isView(body)) {
+      bytes = new Uint8Array(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength));
     } else {
-      this.objects.set(key, { key, body, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
+      bytes = new TextEncoder().encode(body);
     }
+    this.objects.set(key, {
+      key,
+      body: new TextDecoder().decode(bytes),
+      bytes,
+      etag: createHash('md5').update(bytes).digest('hex'),
+      uploaded: new Date(),
+      httpMetadata: options?.httpMetadata,
+      customMetadata: options?.customMetadata,
+    });
+  }
+
+  async head(key: string) {
+    const object = this.objects.get(key);
+    return object ? { key, etag: object.etag, uploaded: object.uploaded, size: object.bytes.length } : null;
+  }
+
+  /** Lists keys in order, `limit` at a time, with the last key of a page as its cursor. */
+  async list(options: { cursor?: string; limit?: number } = {}) {
+    const keys = Array.from(this.objects.keys())
+      .sort()
+      .filter((key) => !options.cursor || key > options.cursor);
+    const page = keys.slice(0, options.limit ?? 1000);
+    const truncated = page.length < keys.length;
+    return {
+      objects: page.map((key) => ({ key, uploaded: this.objects.get(key)!.uploaded, size: this.objects.get(key)!.bytes.length })),
+      truncated,
+      cursor: truncated ? page[page.length - 1] : undefined,
+    };
   }
 
   async delete(key: string) {
@@ -56,7 +97,7 @@ class MockR2 {
 
 class MockVectorize implements VectorizeIndex {
   upserts: Array<{ namespace: string; vector: { id: string; metadata: unknown; values: number[] } }> = [];
-  queries: Array<{ namespace: string; topK: number; vector: number[] }> = [];
+  queries: Array<{ namespace: string; topK: number; vector: number[]; filter?: Record<string, unknown> }> = [];
   deletions: Array<{ namespace: string; ids: string[] }> = [];
   queryResults: Record<string, Array<{ id: string; score: number; metadata?: unknown }>> = {};
 
@@ -64,8 +105,8 @@ class MockVectorize implements VectorizeIndex {
     this.upserts.push({ namespace, vector });
   }
 
-  async query(namespace: string, options: { vector: number[]; topK: number }) {
-    this.queries.push({ namespace, topK: options.topK, vector: options.vector });
+  async query(namespace: string, options: { vector: number[]; topK: number; filter?: Record<string, unknown> }) {
+    this.queries.push({ namespace, topK: options.topK, vector: options.vector, filter: options.filter });
     return {
       matches: this.queryResults[namespace] ?? [],
     };
@@ -74,6 +115,63 @@ class MockVectorize implements VectorizeIndex {
   async delete(namespace: string, ids: string[]) {
     this.deletions.push({ namespace, ids });
   }
+
+  async getByIds(ids: string[]) {
+    const latest = new Map<string, { id: string; metadata: unknown; values: number[] }>();
+    this.upserts
+      .flatMap((entry) => (Array.isArray(entry.vector) ? entry.vector : [entry.vector]))
+      .forEach((stored) => latest.set(stored.id, stored));
+    return ids.map((id) => latest.get(id)).filter(Boolean);
+  }
+}
+
+type QueuedMessage<Body> = { id: string; body: Body; attempts: number };
+
+/**
+ * In-memory stand-in for a Cloudflare Queue. Messages sit in `pending` until `drain` hands
+ * them to a consumer; retried messages go back on the queue with their attempt count bumped.
+ */
+class MockQueue<Body = unknown> {
+  pending: Array<QueuedMessage<Body>> = [];
+  sent: Body[] = [];
+  retries: Array<{ body: Body; delaySeconds?: number }> = [];
+
+  async send(body: Body) {
+    this.sent.push(body);
+    this.pending.push({ id: crypto.randomUUID(), body, attempts: 1 });
+  }
+
+  async sendBatch(messages: Array<{ body: Body }>) {
+    for (const message of messages) {
+      await this.send(message.body);
+    }
+  }
+
+  async drain(
+    consumer: (batch: MessageBatch<Body>) => Promise<void>,
+    { maxRounds = 50 }: { maxRounds?: number } = {},
+  ) {
+    for (let round = 0; round < maxRounds && this.pending.length; round += 1) {
+      const current = this.pending.splice(0, this.pending.length);
+      const messages = current.map((entry) => ({
+        id: entry.id,
+        timestamp: new Date(),
+        body: entry.body,
+        attempts: entry.attempts,
+        ack: () => undefined,
+        retry: (options?: { delaySeconds?: number }) => {
+          this.retries.push({ body: entry.body, delaySeconds: options?.delaySeconds });
+          this.pending.push({ ...entry, attempts: entry.attempts + 1 });
+        },
+      }));
+      await consumer({
+        queue: 'marble-ingest',
+        messages,
+        ackAll: () => undefined,
+        retryAll: () => undefined,
+      });
+    }
+  }
 }
 
 export interface TestContext {
@@ -81,6 +179,7 @@ export interface TestContext {
   db: MockD1;
   r2: MockR2;
   vector: MockVectorize;
+  queue: MockQueue<IngestMessage>;
   ctx: ExecutionContext;
 }
 
@@ -88,11 +187,13 @@ export function createTestEnv(): TestContext {
   const db = new MockD1();
   const r2 = new MockR2();
   const vector = new MockVectorize();
+  const queue = new MockQueue<IngestMessage>();
 
   const env: MarbleBindings = {
     MARBLE_DB: db,
     MARBLE_FILES: r2 as unknown as R2Bucket,
     MARBLE_VECTORS: vector,
+    MARBLE_INGEST_QUEUE: queue,
     OPENAI_API_KEY: 'test-key',
     OPENAI_MODEL: 'gpt-4.1-mini',
     OPENAI_EMBEDDING_MODEL: 'text-embedding-3-small',
@@ -108,5 +209,5 @@ export function createTestEnv(): TestContext {
     passThroughOnException: () => undefined,
   };
 
-  return { env, db, r2, vector, ctx };
+  return { env, db, r2, vector, queue, ctx };
 }
@@ -22,9 +22,7 @@ describe('ingest route', () => {
     global.fetch = originalFetch;
   });
 
-  it('chunks text files and upserts embeddings', async () => {
-    const { env, db, r2, vector, ctx } = createTestEnv();
-
+  function seedFile(db: ReturnType<typeof createTestEnv>['db']) {
     const timestamp = new Date().toISOString();
     db.folders.set('private-root', {
       id: 'private-root',
@@ -51,6 +49,25 @@ describe('ingest route', () => {
       updated_at: timestamp,
       deleted_at: null,
     });
+  }
+
+  function ingestRequest() {
+    return new Request('https://example.com/api/ingest', {
+      method: 'POST',
+      body: JSON.stringify({ fileId: 'file-1' }),
+      headers: {
+        'Content-Type': 'application/json',
+        'cf-access-jwt-assertion': 'test-token',
+      },
+    });
+  }
+
+  it('queues an ingest job and processes it in batches', async () => {
+    const { env, db, r2, vector, queue, ctx } = createTestEnv();
+    env.CHUNK_SIZE = '10';
+    env.CHUNK_OVERLAP = '0';
+    env.INGEST_BATCH_SIZE = '2';
+    seedFile(db);
 
     await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Line one\nLine two\nLine three');
 
@@ -68,21 +85,146 @@ describe('ingest route', () => {
       return new Response('{}', { status: 200 });
     });
 
-    const request = new Request('https://example.com/api/ingest', {
-      method: 'POST',
-      body: JSON.stringify({ fileId: 'file-1' }),
-      headers: {
-        'Content-Type': 'application/json',
-        'cf-access-jwt-assertion': 'test-token',
-      },
-    });
+    const response = await app.fetch(ingestRequest(), env, ctx);
+    expect(response.status).toBe(202);
+    const { job } = (await response.json()) as { job: { id: string; status: string } };
+    expect(job.status).toBe('queued');
+    expect(db.chunks.size).toBe(0);
+    expect(queue.sent).toEqual([{ jobId: job.id, fileId: 'file-1' }]);
+
+    const get = vi.spyOn(r2, 'get');
+    await queue.drain((batch) => app.queue(batch, env));
+
+    // 28 characters at 10 per chunk -> 3 chunks, embedded 2 at a time
+    expect(queue.sent.length).toBe(2);
+    expect(db.chunks.size).toBe(3);
+    expect(vector.upserts.length).toBe(3);
+    expect(db.files.get('file-1')?.status).toBe('ready');
+    // The file is read and chunked once; the second batch pages through the stored plan
+    expect(get.mock.calls.filter(([key]) => key === 'users/user@example.com/private-root/file-1-notes.txt')).toHaveLength(1);
+    expect(get.mock.calls.filter(([key]) => key === `ingest-plans/file-1/${job.id}.json`)).toHaveLength(1);
+    expect(Array.from(r2.objects.keys()).filter((key) => key.startsWith('ingest-plans/'))).toEqual([]);
+
+    const status = await app.fetch(
+      new Request(`https://example.com/api/ingest/${job.id}`, {
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(status.status).toBe(200);
+    const { job: finished } = (await status.json()) as {
+      job: { status: string; totalChunks: number; processedChunks: number; completedAt: string | null };
+    };
+    expect(finished).toMatchObject({ status: 'succeeded', totalChunks: 3, processedChunks: 3 });
+    expect(finished.completedAt).not.toBeNull();
+  });
+
+  it('re-ingests only changed chunks and keeps the vectors of unchanged ones', async () => {
+    const { env, db, r2, vector, queue, ctx } = createTestEnv();
+    env.CHUNK_STRATEGY = 'line';
+    env.CHUNK_SIZE = '10';
+    env.CHUNK_OVERLAP = '0';
+    seedFile(db);
+    const key = 'users/user@example.com/private-root/file-1-notes.txt';
+    await r2.put(key, 'Line one\nLine two\nLine three');
+
+    const embedded: string[][] = [];
+    global.fetch = vi.fn(async (input, init) => {
+      const body = JSON.parse(init?.body as string);
+      embedded.push(body.input);
+      return new Response(JSON.stringify({ data: body.input.map(() => ({ embedding: [1, 0, 0] })) }), { status: 200 });
+    }) as typeof fetch;
+
+    const ingest = async () => {
+      const response = await app.fetch(ingestRequest(), env, ctx);
+      const { job } = (await response.json()) as { job: { id: string } };
+      await queue.drain((batch) => app.queue(batch, env));
+      const status = await app.fetch(
+        new Request(`https://example.com/api/ingest/${job.id}`, { headers: { 'cf-access-jwt-assertion': 'test-token' } }),
+        env,
+        ctx,
+      );
+      return ((await status.json()) as { job: Record<string, unknown> }).job;
+    };
+
+    expect(await ingest()).toMatchObject({ status: 'succeeded', addedChunks: 3, unchangedChunks: 0, removedChunks: 0 });
+    const before = new Map(Array.from(db.chunks.values()).map((chunk) => [chunk.content.trim(), chunk.id]));
+    expect(Array.from(db.chunks.values()).every((chunk) => /^[0-9a-f]{64}$/.test(chunk.content_hash ?? ''))).toBe(true);
+
+    await r2.put(key, 'Line zero\nLine one\r\nLine two\r\nLine 3');
+    embedded.length = 0;
+    const upserted = vector.upserts.length;
+    expect(await ingest()).toMatchObject({ status: 'succeeded', addedChunks: 2, unchangedChunks: 2, removedChunks: 1 });
+
+    expect(embedded.flat().map((text) => text.trim())).toEqual(['Line zero', 'Line 3']);
+    const chunks = Array.from(db.chunks.values()).sort((a, b) => a.chunk_index - b.chunk_index);
+    expect(chunks.map((chunk) => [chunk.content.trim(), chunk.start_line, chunk.chunk_index])).toEqual([
+      ['Line zero', 1, 0],
+      ['Line one', 2, 1],
+      ['Line two', 3, 2],
+      ['Line 3', 4, 3],
+    ]);
+    expect(chunks[1].id).toBe(before.get('Line one'));
+    expect(chunks[2].id).toBe(before.get('Line two'));
+    expect(vector.deletions.flatMap((entry) => entry.ids)).toEqual([before.get('Line three')]);
+
+    // Kept vectors are re-written with their new line numbers rather than re-embedded
+    const moved = vector.upserts
+      .slice(upserted)
+      .flatMap((entry) => (Array.isArray(entry.vector) ? entry.vector : [entry.vector]))
+      .filter((stored) => stored.id === before.get('Line one'));
+    expect(moved).toEqual([expect.objectContaining({ values: [1, 0, 0], metadata: expect.objectContaining({ startLine: 2 }) })]);
+  });
+
+  it('hands back the job in flight instead of starting a second one for the same file', async () => {
+    const { env, db, r2, vector, queue, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHUNK_SIZE = '10';
+    env.CHUNK_OVERLAP = '0';
+    env.INGEST_BATCH_SIZE = '2';
+    seedFile(db);
+    await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Line one\nLine two\nLine three');
+
+    const responses = await Promise.all([app.fetch(ingestRequest(), env, ctx), app.fetch(ingestRequest(), env, ctx)]);
+    const jobs = await Promise.all(responses.map(async (response) => ((await response.json()) as { job: { id: string } }).job));
+    expect(responses.map((response) => response.status)).toEqual([202, 202]);
+    expect(jobs[1].id).toBe(jobs[0].id);
+    expect(db.ingestJobs.size).toBe(1);
+    expect(queue.sent).toHaveLength(1);
+
+    await queue.drain((batch) => app.queue(batch, env));
+    expect(db.chunks.size).toBe(3);
+    expect(new Set(vector.upserts.flatMap((entry) => entry.vector).map((stored) => stored.id)).size).toBe(3);
+    expect(db.files.get('file-1')?.status).toBe('ready');
+
+    // Once it has finished, a new ingest starts a new job and leaves the same three chunks
+    const again = await app.fetch(ingestRequest(), env, ctx);
+    expect(((await again.json()) as { job: { id: string } }).job.id).not.toBe(jobs[0].id);
+    await queue.drain((batch) => app.queue(batch, env));
+    expect(db.chunks.size).toBe(3);
+  });
+
+  it('retries failed batches and fails the job after the last attempt', async () => {
+    const { env, db, r2, queue, ctx } = createTestEnv();
+    env.EMBEDDING_MAX_RETRIES = '0';
+    seedFile(db);
+
+    await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Line one\nLine two');
+
+    global.fetch = vi.fn(async () => new Response('upstream unavailable', { status: 503 }));
+
+    const response = await app.fetch(ingestRequest(), env, ctx);
+    const { job } = (await response.json()) as { job: { id: string } };
 
-    const response = await app.fetch(request, env, ctx);
-    expect(response.status).toBe(200);
-    const json = (await response.json()) as { chunks: number };
+    await queue.drain((batch) => app.queue(batch, env));
 
-    expect(json.chunks).toBeGreaterThan(0);
-    expect(db.chunks.size).toBe(json.chunks);
-    expect(vector.upserts.length).toBe(json.chunks);
+    expect(queue.retries.map((entry) => entry.delaySeconds)).toEqual([10, 20]);
+    const stored = db.ingestJobs.get(job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.attempts).toBe(2);
+    expect(stored?.error).toContain('503');
+    expect(db.files.get('file-1')?.status).toBe('uploading');
+    expect(db.chunks.size).toBe(0);
   });
 });
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { getIngestJob } from '../src/lib/db';
+import { processIngestBatch } from '../src/lib/ingestion';
+import { createIngestPipeline, IngestStageError, prepareDocument, type IngestPipeline } from '../src/lib/pipeline';
+import { buildPdf } from './helpers/documents';
+import { createTestEnv } from './helpers/mock-env';
+
+function seed({ db, r2 }: ReturnType<typeof createTestEnv>, body: string | Uint8Array, fileName = 'notes.txt') {
+  const timestamp = new Date().toISOString();
+  db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    name: 'My Space',
+    visibility: 'private',
+    owner_id: 'user@example.com',
+    created_at: timestamp,
+    updated_at: timestamp,
+  });
+  db.files.set('file-1', {
+    id: 'file-1',
+    tenant: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    visibility: 'private',
+    file_name: fileName,
+    r2_key: `users/user@example.com/private-root/file-1-${fileName}`,
+    size: body.length,
+    mime_type: fileName.endsWith('.pdf') ? 'application/pdf' : 'text/plain',
+    status: 'uploading',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  return r2.put(`users/user@example.com/private-root/file-1-${fileName}`, body);
+}
+
+describe('ingest pipeline', () => {
+  it('runs replaced stages in place of the defaults', async () => {
+    const test = createTestEnv();
+    await seed(test, 'alpha\r\nbeta\r\ngamma');
+    await test.db.prepare('insert into ingest_jobs').bind('job-1', 'file-1', 'user@example.com', 'default').run();
+
+    const embedded: number[] = [];
+    const embed: IngestPipeline['embed'] = async (_context, chunks) => {
+      embedded.push(chunks.length);
+      return chunks.map((chunk) => ({ ...chunk, embedding: [chunk.index, 0, 1] }));
+    };
+    const pipeline = createIngestPipeline({
+      chunk: (_context, text) =>
+        text.split('\n').map((line, index) => ({ content: line, startLine: index + 1, endLine: index + 1, index })),
+      embed,
+    });
+
+    const job = await getIngestJob(test.env, 'job-1');
+    const result = await processIngestBatch(test.env, job!, pipeline);
+
+    expect(result).toEqual({ done: true });
+    expect(embedded).toEqual([3]);
+    expect(Array.from(test.db.chunks.values()).map((chunk) => chunk.content)).toEqual(['alpha', 'beta', 'gamma']);
+    expect(test.vector.upserts.map((entry) => entry.vector)).toEqual([
+      [expect.objectContaining({ id: 'job-1:0', values: [0, 0, 1] })],
+      [expect.objectContaining({ id: 'job-1:1', values: [1, 0, 1] })],
+      [expect.objectContaining({ id: 'job-1:2', values: [2, 0, 1] })],
+    ]);
+    expect(test.db.files.get('file-1')?.status).toBe('ready');
+  });
+
+  it('chunks with the folder strategy, falling back to CHUNK_STRATEGY', async () => {
+    const test = createTestEnv();
+    test.env.EMBEDDING_PROVIDER = 'local';
+    test.env.CHUNK_STRATEGY = 'line';
+    test.env.CHUNK_SIZE = '40';
+    test.env.CHUNK_OVERLAP = '0';
+    await seed(test, '# Setup\nInstall the worker.\n\n# Deploy\nRun wrangler deploy.');
+    await test.db.prepare('insert into ingest_jobs').bind('job-1', 'file-1', 'user@example.com', 'default').run();
+    test.db.folders.get('private-root')!.chunk_strategy = 'markdown-heading';
+
+    await processIngestBatch(test.env, (await getIngestJob(test.env, 'job-1'))!);
+    const chunks = Array.from(test.db.chunks.values());
+    expect(chunks.map((chunk) => [chunk.content, chunk.chunk_strategy])).toEqual([
+      ['# Setup\nInstall the worker.\n', 'markdown-heading'],
+      ['# Deploy\nRun wrangler deploy.', 'markdown-heading'],
+    ]);
+
+    const file = {
+      ...test.db.files.get('file-1')!,
+      folder_name: 'My Space',
+      folder_visibility: 'private' as const,
+      folder_chunk_strategy: null,
+      owner_email: 'user@example.com',
+      owner_display_name: null,
+    };
+    const fallback = await prepareDocument(createIngestPipeline(), { env: test.env, file, jobId: 'job-2' });
+    expect(fallback.map((chunk) => chunk.strategy)).toEqual(['line', 'line']);
+
+    test.env.CHUNK_STRATEGY = 'sentences';
+    await expect(
+      prepareDocument(createIngestPipeline(), { env: test.env, file, jobId: 'job-3' }),
+    ).rejects.toMatchObject({ stage: 'chunk', message: expect.stringContaining('Unknown chunk strategy') });
+  });
+
+  it('reports which stage rejected a document', async () => {
+    const test = createTestEnv();
+    await seed(test, '');
+    const file = {
+      ...test.db.files.get('file-1')!,
+      folder_name: 'My Space',
+      folder_visibility: 'private' as const,
+      owner_email: 'user@example.com',
+      owner_display_name: null,
+    };
+
+    await expect(
+      prepareDocument(createIngestPipeline(), { env: test.env, file, jobId: 'job-1' }),
+    ).rejects.toMatchObject({ stage: 'chunk', message: 'No content found to ingest' });
+    await expect(
+      prepareDocument(createIngestPipeline(), {
+        env: test.env,
+        file: { ...file, r2_key: 'missing.txt' },
+        jobId: 'job-1',
+      }),
+    ).rejects.toBeInstanceOf(IngestStageError);
+  });
+
+  it('chunks PDFs page by page and caches their text against the upload', async () => {
+    const test = createTestEnv();
+    test.env.EMBEDDING_PROVIDER = 'local';
+    test.env.CHUNK_SIZE = '40';
+    test.env.CHUNK_OVERLAP = '0';
+    const pdf = await buildPdf([
+      { content: 'BT /F1 12 Tf 72 720 Td (Backups run nightly.) Tj 0 -40 Td (Restores take an hour.) Tj ET' },
+      { content: 'BT /F1 12 Tf 72 720 Td (Escalate to the on-call lead.) Tj ET', compressed: true },
+    ]);
+    await seed(test, pdf, 'runbook.pdf');
+    await test.db.prepare('insert into ingest_jobs').bind('job-1', 'file-1', 'user@example.com', 'default').run();
+
+    await processIngestBatch(test.env, (await getIngestJob(test.env, 'job-1'))!);
+    expect(
+      Array.from(test.db.chunks.values()).map(({ content, start_line, end_line, page, paragraph, chunk_strategy }) => ({
+        content,
+        lines: [start_line, end_line],
+        page,
+        paragraph,
+        chunk_strategy,
+      })),
+    ).toEqual([
+      { content: 'Backups run nightly.\n', lines: [1, 2], page: 1, paragraph: 1, chunk_strategy: 'paragraph' },
+      { content: 'Restores take an hour.', lines: [3, 3], page: 1, paragraph: 2, chunk_strategy: 'paragraph' },
+      { content: 'Escalate to the on-call lead.', lines: [4, 4], page: 2, paragraph: 1, chunk_strategy: 'paragraph' },
+    ]);
+
+    const upload = test.r2.objects.get('users/user@example.com/private-root/file-1-runbook.pdf')!;
+    const derived = test.r2.objects.get('derived/file-1.txt')!;
+    expect(derived.body).toBe('Backups run nightly.\n\nRestores take an hour.\n\fEscalate to the on-call lead.');
+    expect(derived.customMetadata).toEqual({ sourceEtag: upload.etag });
+
+    const file = {
+      ...test.db.files.get('file-1')!,
+      folder_name: 'My Space',
+      folder_visibility: 'private' as const,
+      folder_chunk_strategy: null,
+      owner_email: 'user@example.com',
+      owner_display_name: null,
+    };
+    // The cached copy is read while the upload is unchanged, and ignored once it is replaced
+    await test.r2.put('derived/file-1.txt', 'From the cache.\n\fPage two.', { customMetadata: { sourceEtag: upload.etag } });
+    const cached = await prepareDocument(createIngestPipeline(), { env: test.env, file, jobId: 'job-2' });
+    expect(cached.map(({ content, page }) => [content, page])).toEqual([
+      ['From the cache.', 1],
+      ['Page two.', 2],
+    ]);
+
+    await test.r2.put(file.r2_key, await buildPdf([{ content: 'BT /F1 12 Tf 72 720 Td (Replaced.) Tj ET' }]));
+    const replaced = await prepareDocument(createIngestPipeline(), { env: test.env, file, jobId: 'job-3' });
+    expect(replaced.map(({ content, page }) => [content, page])).toEqual([['Replaced.', 1]]);
+    expect(test.r2.objects.get('derived/file-1.txt')?.body).toBe('Replaced.');
+  });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { hashEmbedding } from '../src/lib/local-models';
+import { createEmbeddings, generateStructuredAnswer, getChatProvider, getEmbeddingProvider } from '../src/lib/providers';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+function cosine(a: number[], b: number[]) {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+describe('model providers', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('hash embeddings are deterministic, normalised and similarity-preserving', () => {
+    const first = hashEmbedding('Quarterly revenue grew in the northern region', 256);
+    expect(hashEmbedding('Quarterly revenue grew in the northern region', 256)).toEqual(first);
+    expect(first).toHaveLength(256);
+    expect(cosine(first, first)).toBeCloseTo(1);
+
+    const related = hashEmbedding('How did revenue grow in the northern region?', 256);
+    const unrelated = hashEmbedding('Bring snacks to the team offsite', 256);
+    expect(cosine(first, related)).toBeGreaterThan(cosine(first, unrelated));
+  });
+
+  it('selects providers from the environment', () => {
+    const { env } = createTestEnv();
+    expect(getEmbeddingProvider(env).name).toBe('openai');
+    expect(getChatProvider(env).name).toBe('openai');
+
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'workers-ai';
+    expect(getEmbeddingProvider(env).model).toBe('local-hash-1536');
+    expect(getChatProvider(env).model).toBe('@cf/meta/llama-3.1-8b-instruct');
+
+    env.CHAT_PROVIDER = 'anthropic';
+    expect(() => getChatProvider(env)).toThrow('Unknown CHAT_PROVIDER');
+  });
+
+  it('talks to an OpenAI-compatible server at the configured base URL', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'openai-compatible';
+    env.CHAT_PROVIDER = 'openai-compatible';
+    env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1/';
+    env.OPENAI_COMPATIBLE_MODEL = 'llama3.1';
+    env.OPENAI_COMPATIBLE_EMBEDDING_MODEL = 'nomic-embed-text';
+
+    const calls: Array<{ url: string; body: Record<string, unknown>; auth: string | null }> = [];
+    global.fetch = vi.fn(async (input, init) => {
+      const body = JSON.parse(init?.body as string);
+      calls.push({ url: String(input), body, auth: new Headers(init?.headers).get('Authorization') });
+      if (String(input).endsWith('/embeddings')) {
+        return new Response(JSON.stringify({ data: [{ index: 0, embedding: [0.5, 0.5] }] }), { status: 200 });
+      }
+      const content = '```json\n{"answer":"Forty-two.","citations":[{"folder":"Docs","file":"a.txt","lines":[1,1]}]}\n```';
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+    });
+
+    await expect(createEmbeddings(env, ['hello'])).resolves.toEqual([[0.5, 0.5]]);
+    const result = await generateStructuredAnswer(env, 'What is the answer?', [
+      { folderName: 'Docs', fileName: 'a.txt', startLine: 1, endLine: 1, content: 'The answer is forty-two.' },
+    ]);
+
+    expect(result).toEqual({
+      answer: 'Forty-two.',
+      citations: [{ folder: 'Docs', file: 'a.txt', lines: [1, 1] }],
+    });
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://localhost:11434/v1/embeddings',
+      'http://localhost:11434/v1/chat/completions',
+    ]);
+    expect(calls[0].body.model).toBe('nomic-embed-text');
+    expect(calls[1].body.model).toBe('llama3.1');
+    expect(calls[0].auth).toBeNull();
+  });
+
+  it('runs embeddings and chat through the Workers AI binding', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'workers-ai';
+    env.CHAT_PROVIDER = 'workers-ai';
+    const run = vi.fn(async (model: string, inputs: Record<string, unknown>) => {
+      if (model.includes('bge')) {
+        return { shape: [2, 2], data: (inputs.text as string[]).map((_, index) => [index, 1]) };
+      }
+      return { response: '{"answer":"Hi there","citations":[]}' };
+    });
+    env.AI = { run } as unknown as Ai;
+
+    await expect(createEmbeddings(env, ['one', 'two'])).resolves.toEqual([
+      [0, 1],
+      [1, 1],
+    ]);
+    await expect(getChatProvider(env).generate({ messages: [{ role: 'user', content: 'Hello' }] })).resolves.toEqual({
+      answer: 'Hi there',
+      citations: [],
+    });
+    expect(run.mock.calls.map(([model]) => model)).toEqual(['@cf/baai/bge-base-en-v1.5', '@cf/meta/llama-3.1-8b-instruct']);
+  });
+
+  it('runs ingest and lookup chat fully offline with the local providers', async () => {
+    const { env, db, r2, vector, queue, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'local';
+    global.fetch = vi.fn(async () => {
+      throw new Error('network access is not allowed in this test');
+    });
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      file_name: 'offsite.txt',
+      r2_key: 'users/user@example.com/private-root/file-1-offsite.txt',
+      size: 80,
+      mime_type: 'text/plain',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    await r2.put(
+      'users/user@example.com/private-root/file-1-offsite.txt',
+      'Team offsite agenda\nThe offsite is in Lisbon on May 4.\nBring a laptop.',
+    );
+
+    const ingest = await app.fetch(
+      new Request('https://example.com/api/ingest', {
+        method: 'POST',
+        body: JSON.stringify({ fileId: 'file-1' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(ingest.status).toBe(202);
+    await queue.drain((batch) => app.queue(batch, env));
+    expect(db.files.get('file-1')?.status).toBe('ready');
+
+    const [stored] = vector.upserts.flatMap((entry) => entry.vector);
+    expect(stored.values).toHaveLength(1536);
+    vector.queryResults['user:user@example.com'] = [{ id: stored.id, score: 0.9, metadata: stored.metadata }];
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/chat', {
+        method: 'POST',
+        body: JSON.stringify({ question: '/lookup Where is the offsite?' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { answer: string; citations: unknown[] };
+    expect(data.answer).toContain('Lisbon');
+    expect(data.citations).toEqual([{ folder: 'My Space', file: 'offsite.txt', lines: [1, 2], chunkId: expect.any(String), fileVersion: 1 }]);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
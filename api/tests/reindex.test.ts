@@ -0,0 +1,204 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { checkConsistency } from '../src/lib/consistency';
+import { retrieveChunks } from '../src/lib/retrieval';
+import { deleteChunkVectors, getVectorStore, INITIAL_VECTOR_INDEX, queryNamespace } from '../src/lib/vectorize';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+describe('re-indexing', () => {
+  function seedFile(test: ReturnType<typeof createTestEnv>) {
+    const timestamp = new Date().toISOString();
+    test.db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    test.db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      file_name: 'runbook.txt',
+      r2_key: 'users/user@example.com/private-root/file-1-runbook.txt',
+      size: 64,
+      mime_type: 'text/plain',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    return test.r2.put(
+      'users/user@example.com/private-root/file-1-runbook.txt',
+      'Restart the deploy worker\nRotate the signing keys\nPage the on-call engineer',
+    );
+  }
+
+  function request(path: string, init: RequestInit = {}) {
+    return new Request(`https://example.com/api${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+    });
+  }
+
+  it('builds a new generation while the old one serves queries, then cuts over', async () => {
+    const test = createTestEnv();
+    const { env, db, queue, ctx } = test;
+    env.EMBEDDING_PROVIDER = 'local';
+    env.LOCAL_EMBEDDING_DIMENSIONS = '8';
+    env.VECTOR_STORE = 'memory';
+    env.CHUNK_STRATEGY = 'line';
+    env.CHUNK_SIZE = '30';
+    env.CHUNK_OVERLAP = '0';
+    env.INGEST_BATCH_SIZE = '2';
+    env.ADMIN_EMAILS = 'user@example.com';
+    await seedFile(test);
+
+    const ingest = await app.fetch(request('/ingest', { method: 'POST', body: JSON.stringify({ fileId: 'file-1' }) }), env, ctx);
+    expect(ingest.status).toBe(202);
+    await queue.drain((batch) => app.queue(batch, env));
+
+    expect(db.vectorIndexes.get(1)).toMatchObject({ model: 'local/local-hash-8', dimensions: 8, status: 'active' });
+    const chunkCount = db.chunks.size;
+    expect(chunkCount).toBe(3);
+    for (const chunk of db.chunks.values()) {
+      expect(chunk).toMatchObject({ embedding_model: 'local/local-hash-8', embedding_dimensions: 8, vector_generation: 1 });
+    }
+
+    env.LOCAL_EMBEDDING_DIMENSIONS = '16';
+    const before = await app.fetch(request('/reindex'), env, ctx);
+    expect(await before.json()).toMatchObject({
+      activeModel: 'local/local-hash-8',
+      configuredModel: 'local/local-hash-16',
+      reindexRequired: true,
+    });
+
+    const started = await app.fetch(request('/reindex', { method: 'POST', body: '{}' }), env, ctx);
+    expect(started.status).toBe(202);
+    expect(await started.json()).toMatchObject({
+      index: { generation: 2, model: 'local/local-hash-16', dimensions: 16, status: 'building' },
+    });
+    const again = await app.fetch(request('/reindex', { method: 'POST', body: '{}' }), env, ctx);
+    expect(again.status).toBe(409);
+
+    // The new generation shares the store; its vectors must not take the old generation's topK
+    const stored = await getVectorStore(env, INITIAL_VECTOR_INDEX).list!();
+    const probe = Array(8).fill(1);
+    await getVectorStore(env, db.vectorIndexes.get(2)).upsert(
+      stored.map(({ id, metadata }) => ({ id, values: probe, metadata })),
+    );
+    const matches = await queryNamespace(env, { vector: probe, topK: chunkCount, namespace: 'user:user@example.com' });
+    expect(matches.map((match) => match.chunkId).sort()).toEqual(stored.map((entry) => entry.id).sort());
+
+    // Until the cutover, queries embed with the old model and search the old generation
+    const query = { query: 'signing keys', userId: 'user@example.com', topK: 3, mode: 'vector' as const };
+    expect((await retrieveChunks(env, query)).length).toBe(chunkCount);
+
+    await queue.drain((batch) => app.queue(batch, env));
+
+    expect(db.vectorIndexes.get(1)?.status).toBe('retired');
+    expect(db.vectorIndexes.get(2)).toMatchObject({ status: 'active', processed_chunks: chunkCount, total_chunks: chunkCount });
+    for (const chunk of db.chunks.values()) {
+      expect(chunk).toMatchObject({ embedding_model: 'local/local-hash-16', embedding_dimensions: 16, vector_generation: 2 });
+    }
+    expect((await retrieveChunks(env, query)).length).toBe(chunkCount);
+
+    const status = await app.fetch(request('/reindex/2'), env, ctx);
+    expect(await status.json()).toMatchObject({ index: { status: 'active', progress: 1 } });
+    const after = await app.fetch(request('/reindex'), env, ctx);
+    expect(await after.json()).toMatchObject({ activeModel: 'local/local-hash-16', reindexRequired: false });
+    expect((await app.fetch(request('/reindex/7'), env, ctx)).status).toBe(404);
+
+    // The retired generation keeps its vectors until the consistency check's repair purges them
+    const retired = getVectorStore(env, db.vectorIndexes.get(1));
+    expect(await retired.list!()).toHaveLength(chunkCount);
+    // Deletes still reach it meanwhile, so the purge can't miss a vector whose chunk is gone
+    await deleteChunkVectors(env, [Array.from(db.chunks.keys())[0]], 'private', 'user@example.com');
+    expect(await retired.list!()).toHaveLength(chunkCount - 1);
+    expect((await checkConsistency(env, 'report')).retiredVectors).toEqual({ found: 1, repaired: 0, items: ['1'] });
+    expect((await checkConsistency(env, 'repair')).retiredVectors).toEqual({ found: 1, repaired: 1, items: ['1'] });
+    expect(await retired.list!()).toEqual([]);
+    expect(await getVectorStore(env, db.vectorIndexes.get(2)).list!()).toHaveLength(chunkCount - 1);
+    expect(db.vectorIndexes.get(1)?.purged_at).toBeTruthy();
+    expect((await checkConsistency(env, 'report')).retiredVectors.found).toBe(0);
+
+    await expect(
+      queryNamespace(env, { vector: Array(8).fill(1), topK: 3, namespace: 'user:user@example.com' }),
+    ).rejects.toThrow('Query embedding has 8 dimensions but vector index generation 2 (local/local-hash-16) holds 16-dimensional vectors');
+  });
+
+  it('refuses a re-index that would change nothing', async () => {
+    const { env, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.VECTOR_STORE = 'memory';
+    env.ADMIN_EMAILS = 'user@example.com';
+
+    const response = await app.fetch(request('/reindex', { method: 'POST', body: '{}' }), env, ctx);
+    expect(response.status).toBe(409);
+  });
+
+  it('refuses to build a generation in the V2 index serving the first one', async () => {
+    const { env, db, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.LOCAL_EMBEDDING_DIMENSIONS = '16';
+    env.ADMIN_EMAILS = 'user@example.com';
+    env.MARBLE_VECTORS = {
+      deleteByIds: async () => undefined,
+      query: async () => ({ matches: [] }),
+    } as unknown as VectorizeIndex;
+    const timestamp = new Date().toISOString();
+    db.vectorIndexes.set(1, {
+      generation: 1,
+      model: 'local/local-hash-8',
+      dimensions: 8,
+      binding: 'MARBLE_VECTORS',
+      status: 'active',
+      total_chunks: 0,
+      processed_chunks: 0,
+      attempts: 0,
+      error: null,
+      created_by: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      started_at: null,
+      activated_at: timestamp,
+      retired_at: null,
+      purged_at: null,
+    });
+
+    const response = await app.fetch(request('/reindex', { method: 'POST', body: '{}' }), env, ctx);
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: 'MARBLE_VECTORS is a V2 Vectorize index serving the first generation; re-index into another binding',
+    });
+    expect(db.vectorIndexes.size).toBe(1);
+  });
+
+  it('limits re-indexing to admins', async () => {
+    const { env, db, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.LOCAL_EMBEDDING_DIMENSIONS = '16';
+
+    const started = await app.fetch(request('/reindex', { method: 'POST', body: '{}' }), env, ctx);
+    expect(started.status).toBe(403);
+    expect(await started.json()).toEqual({ error: 'Re-indexing is limited to admins' });
+    expect(db.vectorIndexes.size).toBe(0);
+
+    env.ADMIN_EMAILS = 'ops@example.com';
+    expect((await app.fetch(request('/reindex'), env, ctx)).status).toBe(403);
+    expect((await app.fetch(request('/reindex/1'), env, ctx)).status).toBe(403);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { insertChunk } from '../src/lib/db';
+import { lexicalScores, rerankChunks, rerankConfigFromEnv, type RerankCandidate } from '../src/lib/rerank';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+const QUERY = 'how do I deploy the worker and roll back';
+
+// `deploy-b` repeats most of `deploy-a`, the way overlapping neighbor chunks do
+const candidates: RerankCandidate[] = [
+  { chunkId: 'deploy-a', score: 0.91, content: 'To deploy the worker, run migrations first and then deploy the worker with wrangler.' },
+  { chunkId: 'deploy-b', score: 0.9, content: 'run migrations first and then deploy the worker with wrangler. Tag the release.' },
+  { chunkId: 'audit', score: 0.88, content: 'The worker writes audit events for every upload.' },
+  { chunkId: 'rollback', score: 0.7, content: 'Roll back a failed worker deploy by redeploying the previous tag.' },
+];
+
+describe('reranking', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('reads RERANK_* settings and over-fetches candidates', () => {
+    const { env } = createTestEnv();
+    expect(rerankConfigFromEnv(env, 8)).toEqual({ reranker: 'lexical', candidates: 24, mmrLambda: 0.7 });
+    expect(rerankConfigFromEnv(env, 8, 'none')).toEqual({ reranker: 'none', candidates: 8, mmrLambda: 0.7 });
+
+    env.RERANK_PROVIDER = 'LLM';
+    env.RERANK_CANDIDATES = '4';
+    env.RERANK_MMR_LAMBDA = '2';
+    expect(rerankConfigFromEnv(env, 8)).toEqual({ reranker: 'llm', candidates: 8, mmrLambda: 1 });
+
+    env.RERANK_PROVIDER = 'cohere';
+    expect(() => rerankConfigFromEnv(env, 8)).toThrow(/Unknown RERANK_PROVIDER/);
+  });
+
+  it('scores lexically and lets MMR push near-duplicates down', async () => {
+    const { env } = createTestEnv();
+    const scores = lexicalScores(QUERY, candidates.map((candidate) => candidate.content));
+    expect(scores.indexOf(Math.max(...scores))).toBe(3);
+
+    const rerank = (lambda: number, reranker: 'none' | 'lexical' = 'lexical') =>
+      rerankChunks(env, { query: QUERY, candidates, topK: 3, config: { reranker, candidates: 4, mmrLambda: lambda } });
+
+    expect((await rerank(1)).map((entry) => entry.chunkId)).toEqual(['rollback', 'deploy-a', 'deploy-b']);
+    expect((await rerank(0.5)).map((entry) => entry.chunkId)).toEqual(['rollback', 'deploy-a', 'audit']);
+    expect((await rerank(0.5, 'none')).map((entry) => entry.chunkId)).toEqual(['deploy-a', 'deploy-b', 'audit']);
+
+    const [first] = await rerank(0.5);
+    expect(first).toMatchObject({ retrievalScore: 0.7, retrievalRank: 4, rerankScore: 1 });
+  });
+
+  it('asks the chat model for scores and falls back to lexical when it answers badly', async () => {
+    const { env } = createTestEnv();
+    env.OPENAI_API_KEY = 'test';
+    let answer = '2, 9, 1, 4';
+    global.fetch = vi.fn(async () =>
+      new Response(JSON.stringify({ output_text: JSON.stringify({ answer, citations: [] }) }), { status: 200 }),
+    ) as typeof fetch;
+
+    const config = { reranker: 'llm' as const, candidates: 4, mmrLambda: 1 };
+    const ranked = await rerankChunks(env, { query: QUERY, candidates, topK: 2, config });
+    expect(ranked.map((entry) => entry.chunkId)).toEqual(['deploy-b', 'rollback']);
+
+    answer = 'all of them look fine';
+    const fallback = await rerankChunks(env, { query: QUERY, candidates, topK: 1, config });
+    expect(fallback.map((entry) => entry.chunkId)).toEqual(['rollback']);
+  });
+
+  it('shows scores before and after reranking on the debug query endpoint', async () => {
+    const { env, vector, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    for (const [index, candidate] of candidates.entries()) {
+      await insertChunk(env, {
+        id: candidate.chunkId,
+        file_id: 'file-1',
+        folder_id: 'folder-1',
+        owner_id: 'user@example.com',
+        visibility: 'private',
+        chunk_index: index,
+        start_line: index + 1,
+        end_line: index + 1,
+        content: candidate.content,
+      });
+    }
+    vector.queryResults['user:user@example.com'] = candidates.map((candidate) => ({
+      id: candidate.chunkId,
+      score: candidate.score,
+      metadata: { chunkId: candidate.chunkId, fileId: 'file-1', folderId: 'folder-1' },
+    }));
+
+    const debugQuery = (params: string) =>
+      app.fetch(
+        new Request(`https://example.com/api/debug/query?q=${encodeURIComponent(QUERY)}&scope=private&${params}`, {
+          headers: { 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+
+    const response = await debugQuery('rerank=lexical');
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      matches: Array<{ rank: number; chunkId: string }>;
+      reranked: Array<{ rank: number; chunkId: string; retrievalRank: number; rerankScore: number }>;
+    };
+    expect(vector.queries[0].topK).toBe(24);
+    expect(data.matches.map((match) => match.chunkId)).toEqual(['deploy-a', 'deploy-b', 'audit', 'rollback']);
+    expect(data.reranked[0]).toMatchObject({ rank: 1, chunkId: 'rollback', retrievalRank: 4, rerankScore: 1 });
+
+    expect((await debugQuery('rerank=cohere')).status).toBe(400);
+  });
+});
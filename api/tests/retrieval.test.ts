@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { deleteChunksForFile, getChunksByIds, insertChunk } from '../src/lib/db';
+import { buildKeywordQuery, reciprocalRankFusion, retrieveChunks } from '../src/lib/retrieval';
+import { filterFromScope, getVectorStore, timestampToEpochMs } from '../src/lib/vectorize';
+import type { FileRecord } from '../src/types';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+function seedChunks({ db }: ReturnType<typeof createTestEnv>) {
+  const env = { MARBLE_DB: db } as never;
+  const base = { folder_id: 'folder-1', chunk_index: 0, start_line: 1, end_line: 1 };
+  return Promise.all([
+    insertChunk(env, {
+      ...base,
+      id: 'runbook',
+      file_id: 'file-1',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      content: 'If the deploy fails with E4021 the queue binding is missing.',
+    }),
+    insertChunk(env, {
+      ...base,
+      id: 'overview',
+      file_id: 'file-2',
+      owner_id: 'admin@example.com',
+      visibility: 'public',
+      content: 'Deploys run from CI after tests pass; failures page the on-call engineer.',
+    }),
+    insertChunk(env, {
+      ...base,
+      id: 'secret',
+      file_id: 'file-3',
+      owner_id: 'other@example.com',
+      visibility: 'private',
+      content: 'Private notes mentioning E4021 that belong to someone else.',
+    }),
+  ]);
+}
+
+describe('hybrid retrieval', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds FTS5 queries that keep identifiers intact and drop stop words', () => {
+    expect(buildKeywordQuery('What does ERR_CONN-42 mean in v1.2.3?')).toBe('"err_conn-42" OR "mean" OR "v1.2.3"');
+    expect(buildKeywordQuery('say "hi"')).toBe('"say" OR "hi"');
+    expect(buildKeywordQuery('is it the')).toBeNull();
+  });
+
+  it('fuses ranked lists with reciprocal rank fusion', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['c', 'a'],
+    ]);
+    expect(fused.map((entry) => entry.id)).toEqual(['a', 'c', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+
+  it('keeps the FTS index in step with chunk inserts and deletes', async () => {
+    const test = createTestEnv();
+    await seedChunks(test);
+    expect(Array.from(test.db.ftsIndex.keys()).sort()).toEqual(['overview', 'runbook', 'secret']);
+
+    await insertChunk(test.env, { ...test.db.chunks.get('runbook')!, content: 'Rewritten runbook' });
+    expect(test.db.ftsIndex.get('runbook')).toBe('Rewritten runbook');
+
+    await deleteChunksForFile(test.env, 'file-1');
+    expect(test.db.ftsIndex.has('runbook')).toBe(false);
+    expect(test.db.ftsIndex.size).toBe(2);
+  });
+
+  it('finds exact identifiers by keyword and fuses them with vector matches', async () => {
+    const test = createTestEnv();
+    const { env, vector } = test;
+    env.EMBEDDING_PROVIDER = 'local';
+    await seedChunks(test);
+
+    // The vector index only surfaces the loosely related overview
+    vector.queryResults.public = [{ id: 'overview', score: 0.82, metadata: { chunkId: 'overview' } }];
+
+    const options = { query: 'deploy error E4021', userId: 'user@example.com', topK: 5 };
+
+    const vectorOnly = await retrieveChunks(env, { ...options, mode: 'vector' });
+    expect(vectorOnly.map((entry) => entry.chunkId)).toEqual(['overview']);
+
+    const keywordOnly = await retrieveChunks(env, { ...options, mode: 'keyword' });
+    expect(keywordOnly[0].chunkId).toBe('runbook');
+    expect(keywordOnly.map((entry) => entry.chunkId)).not.toContain('secret');
+
+    const hybrid = await retrieveChunks(env, { ...options, mode: 'hybrid' });
+    expect(hybrid.map((entry) => entry.chunkId).sort()).toEqual(['overview', 'runbook']);
+    expect(hybrid.find((entry) => entry.chunkId === 'runbook')).toMatchObject({ vectorRank: null, keywordRank: 1 });
+    expect(vector.queries.length).toBe(4);
+  });
+
+  it('pushes folder, file and date scopes into vector filters and the D1 fetch', async () => {
+    const test = createTestEnv();
+    const { env, db } = test;
+    env.EMBEDDING_PROVIDER = 'local';
+    env.VECTOR_STORE = 'memory';
+    await seedChunks(test);
+
+    const file = (id: string, folderId: string, createdAt: string): FileRecord => ({
+      id,
+      tenant: 'default',
+      folder_id: folderId,
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      file_name: `${id}.txt`,
+      r2_key: id,
+      size: 1,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: createdAt,
+      updated_at: createdAt,
+      deleted_at: null,
+    });
+    db.files.set('file-1', file('file-1', 'folder-1', '2024-01-10 09:00:00'));
+    db.files.set('file-2', file('file-2', 'folder-2', '2024-06-01 09:00:00'));
+    db.chunks.get('overview')!.folder_id = 'folder-2';
+
+    const metadata = (chunkId: string, fileId: string, folderId: string, visibility: 'public' | 'private', ownerId: string) => ({
+      chunkId,
+      fileId,
+      folderId,
+      folderName: folderId,
+      fileName: `${fileId}.txt`,
+      startLine: 1,
+      endLine: 1,
+      visibility,
+      ownerId,
+      createdAt: timestampToEpochMs(db.files.get(fileId)!.created_at),
+    });
+    await getVectorStore(env).upsert([
+      { id: 'runbook', values: [1, 0], metadata: metadata('runbook', 'file-1', 'folder-1', 'private', 'user@example.com') },
+      { id: 'overview', values: [1, 0], metadata: metadata('overview', 'file-2', 'folder-2', 'public', 'admin@example.com') },
+    ]);
+
+    const scope = { createdAfter: '2024-05-01T00:00:00Z' };
+    expect(filterFromScope({ folderIds: ['folder-2'], ...scope })).toEqual({
+      folderId: { $in: ['folder-2'] },
+      createdAt: { $gte: Date.parse('2024-05-01T00:00:00Z') },
+    });
+
+    const options = { query: 'deploy E4021 failures', userId: 'user@example.com', topK: 5 };
+    const vectorOnly = await retrieveChunks(env, { ...options, mode: 'vector', scope });
+    const keywordOnly = await retrieveChunks(env, { ...options, mode: 'keyword', scope: { folderIds: ['folder-1'] } });
+    expect(vectorOnly.map((entry) => entry.chunkId)).toEqual(['overview']);
+    expect(keywordOnly.map((entry) => entry.chunkId)).toEqual(['runbook']);
+
+    const fetched = await getChunksByIds(env, ['runbook', 'overview'], 'user@example.com', { fileIds: ['file-1'] });
+    expect(fetched.map((chunk) => chunk.id)).toEqual(['runbook']);
+
+    // Someone else's private chunk stays out even when a vector store hands back its id
+    db.files.set('file-3', { ...file('file-3', 'folder-1', '2024-06-01 09:00:00'), owner_id: 'other@example.com' });
+    const unscoped = await getChunksByIds(env, ['runbook', 'overview', 'secret'], 'user@example.com');
+    expect(unscoped.map((chunk) => chunk.id)).toEqual(['runbook', 'overview']);
+  });
+
+  it('accepts scope filters on the debug query endpoint', async () => {
+    const { env, vector, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    const debugQuery = (params: string) =>
+      app.fetch(
+        new Request(`https://example.com/api/debug/query?q=deploy&${params}`, {
+          headers: { 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+
+    const response = await debugQuery('scope=private&folderIds=folder-1,folder-2&fileIds=file-9');
+    expect(response.status).toBe(200);
+    expect(vector.queries).toEqual([
+      expect.objectContaining({
+        namespace: 'user:user@example.com',
+        filter: { folderId: { $in: ['folder-1', 'folder-2'] }, fileId: { $in: ['file-9'] } },
+      }),
+    ]);
+
+    expect((await debugQuery('createdAfter=yesterday')).status).toBe(400);
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { citationsFromMarkers } from '../src/lib/citations';
+import { insertChunk } from '../src/lib/db';
+import { readServerSentEvents, type ServerSentEvent } from '../src/lib/sse';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+const headers = { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' };
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(body)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('streaming chat', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('parses server-sent events split across reads', async () => {
+    const events = await collect(
+      streamOf(': keep-alive\n\nevent: del', 'ta\ndata: {"a":1}\r\n\r\ndata: line one\ndata: line two\n\n', 'data: [DONE]'),
+    );
+    expect(events).toEqual([
+      { event: 'delta', data: '{"a":1}' },
+      { event: null, data: 'line one\nline two' },
+      { event: null, data: '[DONE]' },
+    ]);
+  });
+
+  it('maps source markers onto contexts and drops unknown ones', () => {
+    const contexts = [1, 2].map((index) => ({
+      folderName: 'Docs',
+      fileName: `file-${index}.txt`,
+      startLine: index * 10,
+      endLine: index * 10 + 5,
+      content: '',
+    }));
+    expect(citationsFromMarkers('First [2]. Second [1, 2, 7]. Again [2].', contexts)).toEqual([
+      { folder: 'Docs', file: 'file-2.txt', lines: [20, 25] },
+      { folder: 'Docs', file: 'file-1.txt', lines: [10, 15] },
+    ]);
+  });
+
+  it('streams sources, answer deltas and a final event for lookups', async () => {
+    const { env, db, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'local';
+    await insertChunk(env, {
+      id: 'runbook',
+      file_id: 'file-1',
+      folder_id: 'folder-1',
+      owner_id: 'user@example.com',
+      visibility: 'private',
+      chunk_index: 0,
+      start_line: 1,
+      end_line: 2,
+      content: 'Unrelated intro line.\nRestart the ingest queue consumer after rotating keys.',
+    });
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/chat/stream', {
+        method: 'POST',
+        body: JSON.stringify({ question: '/lookup how do I restart the ingest queue?', retrieval: { mode: 'keyword' } }),
+        headers,
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const events = await collect(response.body!);
+    const names = events.map((event) => event.event);
+    expect(names[0]).toBe('sources');
+    expect(names.at(-1)).toBe('done');
+    expect(names.filter((name) => name === 'delta').length).toBeGreaterThan(1);
+
+    const sources = JSON.parse(events[0].data) as { sources: Array<{ chunkId: string }> };
+    expect(sources.sources.map((source) => source.chunkId)).toEqual(['runbook']);
+
+    const streamed = events
+      .filter((event) => event.event === 'delta')
+      .map((event) => (JSON.parse(event.data) as { text: string }).text)
+      .join('');
+    const done = JSON.parse(events.at(-1)!.data) as {
+      id: string;
+      answer: string;
+      citations: unknown[];
+      grounding: { score: number };
+    };
+    expect(done.answer).toBe(streamed);
+    expect(done.answer).toBe('Restart the ingest queue consumer after rotating keys. [1]');
+    expect(done.citations).toEqual([{ folder: 'Folder', file: 'file.txt', lines: [1, 2], chunkId: 'runbook', fileVersion: 1 }]);
+    expect(done.grounding).toEqual({ score: 1, sentences: 1, supported: 1 });
+    expect(db.messages.map((message) => message.id)).toEqual([done.id]);
+  });
+
+  it('relays OpenAI response deltas for ?stream=1 and reports failures as error events', async () => {
+    const { env, db, ctx } = createTestEnv();
+    const requests: Array<Record<string, unknown>> = [];
+    global.fetch = vi.fn(async (_input, init) => {
+      requests.push(JSON.parse(init?.body as string));
+      return new Response(
+        streamOf(
+          'event: response.created\ndata: {"type":"response.created"}\n\n',
+          'event: response.output_text.delta\ndata: {"type":"response.output_text.delta","delta":"Hello"}\n\n',
+          'event: response.output_text.delta\ndata: {"type":"response.output_text.delta","delta":" there"}\n\n',
+          'event: response.completed\ndata: {"type":"response.completed"}\n\n',
+        ),
+        { status: 200, headers: { 'Content-Type': 'text/event-stream' } },
+      );
+    }) as typeof fetch;
+
+    const chat = () =>
+      app.fetch(
+        new Request('https://example.com/api/chat?stream=1', {
+          method: 'POST',
+          body: JSON.stringify({ question: 'Say hello' }),
+          headers,
+        }),
+        env,
+        ctx,
+      );
+
+    const events = await collect((await chat()).body!);
+    expect(events.map((event) => event.event)).toEqual(['sources', 'delta', 'delta', 'done']);
+    expect(JSON.parse(events[3].data)).toMatchObject({ answer: 'Hello there', citations: [] });
+    expect(requests[0]).toMatchObject({ stream: true, model: 'gpt-4.1-mini' });
+    expect(requests[0]).not.toHaveProperty('text');
+
+    global.fetch = vi.fn(async () => new Response('overloaded', { status: 503 })) as typeof fetch;
+    const failed = await collect((await chat()).body!);
+    expect(failed.map((event) => event.event)).toEqual(['sources', 'error']);
+    expect(JSON.parse(failed[1].data).error).toContain('503');
+    expect(db.messages).toHaveLength(1);
+  });
+});
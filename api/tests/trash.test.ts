@@ -0,0 +1,243 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { getChunksByIds, insertChunk } from '../src/lib/db';
+import { retrieveChunks } from '../src/lib/retrieval';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+type TestEnv = ReturnType<typeof createTestEnv>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+function seedFolder({ db }: TestEnv, id = 'private-root', ownerId = 'user@example.com', deletedAt: string | null = null) {
+  const timestamp = daysAgo(60);
+  db.folders.set(id, {
+    id,
+    tenant: 'default',
+    name: id === 'private-root' ? 'My Space' : id,
+    visibility: 'private',
+    owner_id: ownerId,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: deletedAt,
+  });
+}
+
+async function seedFile({ db, r2 }: TestEnv, id: string, folderId = 'private-root', deletedAt: string | null = null) {
+  const timestamp = daysAgo(60);
+  const r2Key = `users/user@example.com/${folderId}/${id}-${id}.txt`;
+  db.files.set(id, {
+    id,
+    tenant: 'default',
+    folder_id: folderId,
+    owner_id: 'user@example.com',
+    visibility: 'private',
+    file_name: `${id}.txt`,
+    r2_key: r2Key,
+    size: 12,
+    mime_type: 'text/plain',
+    status: 'ready',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: deletedAt,
+  });
+  await r2.put(r2Key, `Contents of ${id}`);
+}
+
+function seedChunk({ env }: TestEnv, id: string, fileId: string, content: string, folderId = 'private-root') {
+  return insertChunk(env, {
+    id,
+    file_id: fileId,
+    folder_id: folderId,
+    owner_id: 'user@example.com',
+    visibility: 'private',
+    chunk_index: 0,
+    start_line: 1,
+    end_line: 1,
+    content,
+  });
+}
+
+function request(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+describe('trash', () => {
+  it('hides a deleted file from listings and retrieval until it is restored', async () => {
+    const test = createTestEnv();
+    const { env, db, r2, vector, ctx } = test;
+    env.EMBEDDING_PROVIDER = 'local';
+    seedFolder(test);
+    await seedFile(test, 'file-1');
+    await seedChunk(test, 'chunk-1', 'file-1', 'Rotate the signing keys every quarter');
+    vector.queryResults['user:user@example.com'] = [{ id: 'chunk-1', score: 0.9, metadata: { chunkId: 'chunk-1' } }];
+
+    const query = { query: 'signing keys', userId: 'user@example.com', topK: 3 };
+    // Vector matches still come back for trashed chunks; loading them is what drops them, as in chat
+    const retrieved = async () => {
+      const matches = await retrieveChunks(env, { ...query, mode: 'vector' });
+      const chunks = await getChunksByIds(env, matches.map((entry) => entry.chunkId), 'user@example.com');
+      return {
+        vector: chunks.map((chunk) => chunk.id),
+        keyword: (await retrieveChunks(env, { ...query, mode: 'keyword' })).map((entry) => entry.chunkId),
+      };
+    };
+    const listed = async () => {
+      const response = await app.fetch(request('/files?visibility=private'), env, ctx);
+      return ((await response.json()) as { files: Array<{ id: string }> }).files.map((file) => file.id);
+    };
+    expect(await retrieved()).toEqual({ vector: ['chunk-1'], keyword: ['chunk-1'] });
+
+    const deleted = await app.fetch(request('/files/file-1', { method: 'DELETE' }), env, ctx);
+    expect(deleted.status).toBe(200);
+    expect(await deleted.json()).toMatchObject({ deleted: true, trashed: true });
+
+    expect(await listed()).toEqual([]);
+    expect(await retrieved()).toEqual({ vector: [], keyword: [] });
+    // Nothing is purged yet, so a restore has everything it needs
+    expect(db.chunks.has('chunk-1')).toBe(true);
+    expect(r2.objects.has(db.files.get('file-1')!.r2_key)).toBe(true);
+    expect(vector.deletions).toEqual([]);
+
+    const trash = await app.fetch(request('/trash'), env, ctx);
+    const body = (await trash.json()) as {
+      retentionDays: number;
+      folders: unknown[];
+      files: Array<{ id: string; deletedAt: string; purgeAt: string; folderDeleted: boolean }>;
+    };
+    expect(body.retentionDays).toBe(30);
+    expect(body.folders).toEqual([]);
+    expect(body.files).toMatchObject([{ id: 'file-1', folderDeleted: false }]);
+    expect(Date.parse(body.files[0].purgeAt) - Date.parse(body.files[0].deletedAt)).toBe(30 * DAY_MS);
+
+    const restored = await app.fetch(request('/files/file-1/restore', { method: 'POST' }), env, ctx);
+    expect(restored.status).toBe(200);
+    expect(await restored.json()).toMatchObject({ file: { id: 'file-1', name: 'file-1.txt' } });
+    expect(await listed()).toEqual(['file-1']);
+    expect(await retrieved()).toEqual({ vector: ['chunk-1'], keyword: ['chunk-1'] });
+
+    expect((await app.fetch(request('/files/file-1/restore', { method: 'POST' }), env, ctx)).status).toBe(404);
+  });
+
+  it('restores a folder with the files that were trashed along with it', async () => {
+    const test = createTestEnv();
+    const { env, db, ctx } = test;
+    seedFolder(test);
+    await seedFile(test, 'file-1');
+    // Trashed on its own the day before the folder
+    await seedFile(test, 'file-2', 'private-root', daysAgo(1));
+    seedFolder(test, 'someone-elses', 'other@example.com', daysAgo(1));
+
+    const deleted = await app.fetch(request('/folders/private-root', { method: 'DELETE' }), env, ctx);
+    expect(deleted.status).toBe(200);
+
+    const trash = await app.fetch(request('/trash'), env, ctx);
+    expect(await trash.json()).toMatchObject({
+      folders: [{ id: 'private-root', fileCount: 1 }],
+      files: [{ id: 'file-2', folderDeleted: true }],
+    });
+
+    const blocked = await app.fetch(request('/files/file-2/restore', { method: 'POST' }), env, ctx);
+    expect(blocked.status).toBe(409);
+    expect(await blocked.json()).toEqual({ error: 'Restore the folder "My Space" first' });
+
+    const restored = await app.fetch(request('/folders/private-root/restore', { method: 'POST' }), env, ctx);
+    expect(restored.status).toBe(200);
+    expect(await restored.json()).toMatchObject({ folder: { id: 'private-root', fileCount: 1 }, files: 1 });
+    expect(db.folders.get('private-root')?.deleted_at).toBeNull();
+    expect(db.files.get('file-1')?.deleted_at).toBeNull();
+    expect(db.files.get('file-2')?.deleted_at).toBeTruthy();
+
+    expect((await app.fetch(request('/files/file-2/restore', { method: 'POST' }), env, ctx)).status).toBe(200);
+    expect((await app.fetch(request('/folders/someone-elses/restore', { method: 'POST' }), env, ctx)).status).toBe(403);
+    expect((await app.fetch(request('/folders/private-root/restore', { method: 'POST' }), env, ctx)).status).toBe(404);
+  });
+
+  it('refuses uploads into a trashed folder instead of taking it over', async () => {
+    const test = createTestEnv();
+    const { env, db, r2, ctx } = test;
+    seedFolder(test, 'private-root', 'user@example.com', daysAgo(1));
+    seedFolder(test, 'someone-elses', 'other@example.com', daysAgo(1));
+
+    const upload = (folderId: string) => {
+      const params = new URLSearchParams({ folderId, folderName: 'Taken over', visibility: 'public', fileName: 'report.txt' });
+      return new Request(`https://example.com/api/upload-direct?${params}`, {
+        method: 'POST',
+        body: 'Quarterly numbers',
+        headers: { 'Content-Type': 'text/plain', 'cf-access-jwt-assertion': 'test-token' },
+      });
+    };
+
+    const own = await app.fetch(upload('private-root'), env, ctx);
+    expect(own.status).toBe(409);
+    expect(await own.json()).toEqual({ error: 'Restore the folder "My Space" first' });
+    expect((await app.fetch(upload('someone-elses'), env, ctx)).status).toBe(404);
+
+    const presign = await app.fetch(
+      request('/upload-url', {
+        method: 'POST',
+        body: JSON.stringify({
+          fileName: 'report.txt',
+          size: 17,
+          folderId: 'someone-elses',
+          folderName: 'Taken over',
+          visibility: 'public',
+        }),
+      }),
+      env,
+      ctx,
+    );
+    expect(presign.status).toBe(404);
+
+    expect(db.folders.get('private-root')).toMatchObject({
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+    });
+    expect(db.folders.get('someone-elses')).toMatchObject({
+      name: 'someone-elses',
+      visibility: 'private',
+      owner_id: 'other@example.com',
+    });
+    expect(db.files.size).toBe(0);
+    expect(r2.objects.size).toBe(0);
+  });
+
+  it('purges trash past the retention window on the schedule', async () => {
+    const test = createTestEnv();
+    const { env, db, r2, vector } = test;
+    env.TRASH_RETENTION_DAYS = '7';
+    seedFolder(test);
+    await seedFile(test, 'file-live');
+    await seedFile(test, 'file-expired', 'private-root', daysAgo(8));
+    await seedChunk(test, 'chunk-expired', 'file-expired', 'Old runbook');
+    await seedFile(test, 'file-recent', 'private-root', daysAgo(6));
+    seedFolder(test, 'old-folder', 'user@example.com', daysAgo(10));
+    await seedFile(test, 'file-in-folder', 'old-folder', db.folders.get('old-folder')!.deleted_at);
+
+    const pending: Array<Promise<unknown>> = [];
+    const ctx = { ...test.ctx, waitUntil: (promise: Promise<unknown>) => void pending.push(promise) };
+    await app.scheduled({ cron: '30 3 * * *', scheduledTime: Date.now(), noRetry: () => undefined }, env, ctx);
+    await Promise.all(pending);
+
+    expect(Array.from(db.files.keys()).sort()).toEqual(['file-live', 'file-recent']);
+    expect(Array.from(db.folders.keys())).toEqual(['private-root']);
+    expect(db.chunks.has('chunk-expired')).toBe(false);
+    expect(Array.from(r2.objects.keys()).sort()).toEqual([db.files.get('file-live')!.r2_key, db.files.get('file-recent')!.r2_key]);
+    expect(vector.deletions).toEqual([{ namespace: 'user:user@example.com', ids: ['chunk-expired'] }]);
+    // The consistency check still runs after the purge
+    expect(Array.from(db.consistencyRuns.values())).toMatchObject([{ trigger: 'cron', status: 'succeeded' }]);
+  });
+});
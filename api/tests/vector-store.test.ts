@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { matchesFilter } from '../src/lib/local-vector-store';
+import { getVectorStore, queryNamespace, type VectorMetadata } from '../src/lib/vectorize';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+function metadata(chunkId: string, overrides: Partial<VectorMetadata> = {}): VectorMetadata {
+  return {
+    chunkId,
+    fileId: 'file-1',
+    folderId: 'folder-1',
+    folderName: 'Folder',
+    fileName: 'notes.txt',
+    startLine: 1,
+    endLine: 1,
+    visibility: 'private',
+    ownerId: 'user@example.com',
+    ...overrides,
+  };
+}
+
+describe('local vector stores', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('matches Vectorize filter operators', () => {
+    const entry = metadata('a', { startLine: 10 });
+    expect(matchesFilter(entry, { visibility: 'private', ownerId: 'user@example.com' })).toBe(true);
+    expect(matchesFilter(entry, { visibility: 'public' })).toBe(false);
+    expect(matchesFilter(entry, { folderId: { $in: ['folder-1', 'folder-2'] } })).toBe(true);
+    expect(matchesFilter(entry, { fileId: { $nin: ['file-1'] } })).toBe(false);
+    expect(matchesFilter(entry, { startLine: { $gte: 5, $lt: 10 } })).toBe(false);
+    expect(matchesFilter(entry, { fileName: { $ne: 'other.txt' } })).toBe(true);
+  });
+
+  for (const kind of ['memory', 'd1'] as const) {
+    it(`${kind} store ranks by cosine similarity within the namespace filter`, async () => {
+      const { env } = createTestEnv();
+      env.VECTOR_STORE = kind;
+      const store = getVectorStore(env);
+
+      await store.upsert([
+        { id: 'near', values: [1, 0.1, 0], metadata: metadata('near') },
+        { id: 'far', values: [0, 1, 0], metadata: metadata('far') },
+        { id: 'public', values: [1, 0, 0], metadata: metadata('public', { visibility: 'public', ownerId: 'other@example.com' }) },
+        { id: 'someone-else', values: [1, 0, 0], metadata: metadata('someone-else', { ownerId: 'other@example.com' }) },
+      ]);
+
+      const mine = await queryNamespace(env, { namespace: 'user:user@example.com', vector: [1, 0, 0], topK: 5 });
+      expect(mine.map((match) => match.chunkId)).toEqual(['near', 'far']);
+      expect(mine[0].score).toBeGreaterThan(0.99);
+      expect(mine[0]).toMatchObject({ visibility: 'private', ownerId: 'user@example.com', fileName: 'notes.txt' });
+
+      const shared = await queryNamespace(env, { namespace: 'public', vector: [1, 0, 0], topK: 5 });
+      expect(shared.map((match) => match.chunkId)).toEqual(['public']);
+
+      await store.delete(['near'], { visibility: 'private', ownerId: 'user@example.com' });
+      expect(await store.getByIds(['near', 'far'])).toEqual([{ id: 'far', values: [0, 1, 0] }]);
+    });
+  }
+
+  it('re-applies the namespace filter when a Vectorize V2 query retries unfiltered', async () => {
+    const { env } = createTestEnv();
+    env.VECTOR_STORE = 'vectorize';
+    const stored = [
+      { id: 'mine', score: 0.9, metadata: metadata('mine') },
+      { id: 'theirs', score: 0.8, metadata: metadata('theirs', { ownerId: 'other@example.com' }) },
+      { id: 'shared', score: 0.7, metadata: metadata('shared', { visibility: 'public', ownerId: 'other@example.com' }) },
+    ];
+    // A V2 index without metadata indexes matches nothing once a filter is set
+    env.MARBLE_VECTORS = {
+      deleteByIds: async () => undefined,
+      query: async (_vector: number[], options: { filter?: unknown }) => ({ matches: options.filter ? [] : stored }),
+    } as unknown as VectorizeIndex;
+
+    const shared = await queryNamespace(env, { namespace: 'public', vector: [1, 0, 0], topK: 5 });
+    expect(shared.map((match) => match.chunkId)).toEqual(['shared']);
+    const mine = await queryNamespace(env, { namespace: 'user:user@example.com', vector: [1, 0, 0], topK: 5 });
+    expect(mine.map((match) => match.chunkId)).toEqual(['mine']);
+  });
+
+  it('serves lookup chat from real similarity search', async () => {
+    const { env, db, r2, queue, ctx } = createTestEnv();
+    env.VECTOR_STORE = 'memory';
+    env.EMBEDDING_PROVIDER = 'local';
+    env.CHAT_PROVIDER = 'local';
+    env.VECTOR_TOP_K = '1';
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      name: 'My Space',
+      visibility: 'private',
+      owner_id: 'user@example.com',
+      created_at: timestamp,
+      updated_at: timestamp,
+    });
+    const files = {
+      'file-1': ['recipes.txt', 'Sourdough needs flour, water, salt and a lively starter.'],
+      'file-2': ['deploys.txt', 'Deploy the worker with wrangler deploy after migrations run.'],
+    };
+    for (const [id, [name, body]] of Object.entries(files)) {
+      const key = `users/user@example.com/private-root/${id}-${name}`;
+      db.files.set(id, {
+        id,
+        tenant: 'default',
+        folder_id: 'private-root',
+        owner_id: 'user@example.com',
+        visibility: 'private',
+        file_name: name,
+        r2_key: key,
+        size: body.length,
+        mime_type: 'text/plain',
+        status: 'uploading',
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      });
+      await r2.put(key, body);
+      await app.fetch(
+        new Request('https://example.com/api/ingest', {
+          method: 'POST',
+          body: JSON.stringify({ fileId: id }),
+          headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+    }
+    await queue.drain((batch) => app.queue(batch, env));
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/chat', {
+        method: 'POST',
+        body: JSON.stringify({ question: '/lookup how do I deploy the worker?' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { sources: Array<{ fileName: string }>; citations: Array<{ file: string }> };
+    expect(data.sources.map((source) => source.fileName)).toEqual(['deploys.txt']);
+    expect(data.citations[0]?.file).toBe('deploys.txt');
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { purgeFile } from '../src/lib/files';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+  })),
+}));
+
+type TestEnv = ReturnType<typeof createTestEnv>;
+
+const HEADERS = { 'cf-access-jwt-assertion': 'test-token' };
+
+function setup() {
+  const test = createTestEnv();
+  test.env.EMBEDDING_PROVIDER = 'local';
+  test.env.CHAT_PROVIDER = 'local';
+  const timestamp = new Date().toISOString();
+  test.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    name: 'My Space',
+    visibility: 'private',
+    owner_id: 'user@example.com',
+    created_at: timestamp,
+    updated_at: timestamp,
+  });
+  return test;
+}
+
+function upload(path: string, contents: string, fileName = 'runbook.txt', fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('file', new File([contents], fileName, { type: 'text/plain' }));
+  Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+  return new Request(`https://example.com/api${path}`, { method: 'POST', body: form, headers: HEADERS });
+}
+
+function request(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...HEADERS },
+  });
+}
+
+async function createFile({ env, ctx, queue }: TestEnv, contents: string): Promise<string> {
+  const response = await app.fetch(upload('/files', contents, 'runbook.txt', { folderId: 'private-root' }), env, ctx);
+  expect(response.status).toBe(201);
+  await queue.drain((batch) => app.queue(batch, env));
+  return ((await response.json()) as { file: { id: string } }).file.id;
+}
+
+describe('file versions', () => {
+  it('uploads a new version, diffs it against the last and rolls back', async () => {
+    const test = setup();
+    const { env, db, r2, queue, ctx } = test;
+    const v1 = 'Rotate the signing keys\nevery quarter.\nPage the on-call lead.';
+    const v2 = 'Rotate the signing keys\nevery month.\nPage the on-call lead.\nFile a ticket.';
+    const fileId = await createFile(test, v1);
+    const key = db.files.get(fileId)!.r2_key;
+
+    const uploaded = await app.fetch(upload(`/files/${fileId}/versions`, v2), env, ctx);
+    expect(uploaded.status).toBe(201);
+    expect(await uploaded.json()).toMatchObject({
+      file: { id: fileId, version: 2, status: 'uploading' },
+      version: 2,
+      ingestJob: { fileVersion: 2 },
+    });
+    await queue.drain((batch) => app.queue(batch, env));
+
+    // The same id and key hold the new bytes; the old ones are archived
+    expect(r2.objects.get(key)?.body).toBe(v2);
+    expect(r2.objects.get(`versions/${fileId}/1`)?.body).toBe(v1);
+    expect(db.files.get(fileId)).toMatchObject({ status: 'ready', current_version: 2 });
+    expect(Array.from(db.chunks.values()).map((chunk) => chunk.content)).toEqual([v2]);
+
+    const listed = await app.fetch(request(`/files/${fileId}/versions`), env, ctx);
+    expect(await listed.json()).toMatchObject({
+      versions: [
+        { version: 2, current: true, restoredFrom: null },
+        { version: 1, current: false, createdBy: 'user@example.com' },
+      ],
+    });
+
+    const diff = await app.fetch(request(`/files/${fileId}/diff?from=1`), env, ctx);
+    expect(diff.status).toBe(200);
+    expect(await diff.json()).toEqual({
+      fileId,
+      from: 1,
+      to: 2,
+      added: 2,
+      removed: 1,
+      hunks: [
+        {
+          oldStart: 1,
+          oldLines: 3,
+          newStart: 1,
+          newLines: 4,
+          lines: [
+            { type: 'context', text: 'Rotate the signing keys', oldLine: 1, newLine: 1 },
+            { type: 'remove', text: 'every quarter.', oldLine: 2, newLine: null },
+            { type: 'add', text: 'every month.', oldLine: null, newLine: 2 },
+            { type: 'context', text: 'Page the on-call lead.', oldLine: 3, newLine: 3 },
+            { type: 'add', text: 'File a ticket.', oldLine: null, newLine: 4 },
+          ],
+        },
+      ],
+    });
+
+    const rolledBack = await app.fetch(
+      request(`/files/${fileId}/rollback`, { method: 'POST', body: JSON.stringify({ version: 1 }) }),
+      env,
+      ctx,
+    );
+    expect(rolledBack.status).toBe(201);
+    expect(await rolledBack.json()).toMatchObject({ version: 3, ingestJob: { fileVersion: 3 } });
+    await queue.drain((batch) => app.queue(batch, env));
+
+    expect(r2.objects.get(key)?.body).toBe(v1);
+    expect(r2.objects.get(`versions/${fileId}/2`)?.body).toBe(v2);
+    expect(db.fileVersions.get(`${fileId}:3`)).toMatchObject({ restored_from: 1, r2_key: null });
+    expect(Array.from(db.chunks.values()).map((chunk) => chunk.content)).toEqual([v1]);
+
+    const unchanged = await app.fetch(request(`/files/${fileId}/diff?from=1&to=3`), env, ctx);
+    expect(await unchanged.json()).toMatchObject({ added: 0, removed: 0, hunks: [] });
+
+    const again = await app.fetch(
+      request(`/files/${fileId}/rollback`, { method: 'POST', body: JSON.stringify({ version: 3 }) }),
+      env,
+      ctx,
+    );
+    expect(again.status).toBe(409);
+    expect((await app.fetch(request(`/files/${fileId}/diff?from=9`), env, ctx)).status).toBe(404);
+    expect((await app.fetch(upload(`/files/${fileId}/versions`, '%PDF-1.4', 'runbook.pdf'), env, ctx)).status).toBe(400);
+
+    // Purging the file takes its archived versions with it
+    await purgeFile(env, db.files.get(fileId)!);
+    expect(Array.from(r2.objects.keys()).filter((objectKey) => objectKey.startsWith('versions/'))).toEqual([]);
+    expect(db.fileVersions.size).toBe(0);
+  });
+
+  it('records the cited version on chat answers', async () => {
+    const test = setup();
+    const { env, db, vector, queue, ctx } = test;
+    const fileId = await createFile(test, 'Team offsite agenda\nThe offsite is in Porto on May 4.');
+
+    await app.fetch(upload(`/files/${fileId}/versions`, 'Team offsite agenda\nThe offsite is in Lisbon on May 4.'), env, ctx);
+    await queue.drain((batch) => app.queue(batch, env));
+
+    const [chunk] = Array.from(db.chunks.values());
+    const stored = vector.upserts.flatMap((entry) => entry.vector).find((entry) => entry.id === chunk.id)!;
+    vector.queryResults['user:user@example.com'] = [{ id: stored.id, score: 0.9, metadata: stored.metadata }];
+
+    const response = await app.fetch(
+      request('/chat', { method: 'POST', body: JSON.stringify({ question: '/lookup Where is the offsite?' }) }),
+      env,
+      ctx,
+    );
+    const data = (await response.json()) as { answer: string; citations: unknown[] };
+    expect(data.answer).toContain('Lisbon');
+    expect(data.citations).toEqual([
+      { folder: 'My Space', file: 'runbook.txt', lines: [1, 2], chunkId: chunk.id, fileVersion: 2 },
+    ]);
+    expect(JSON.parse(db.messages[0].citations as string)).toEqual(data.citations);
+  });
+
+  it('fails an ingest that a newer upload superseded', async () => {
+    const test = setup();
+    const { env, db, queue, ctx } = test;
+    const fileId = await createFile(test, 'First draft');
+
+    await app.fetch(upload(`/files/${fileId}/versions`, 'Second draft'), env, ctx);
+    await app.fetch(upload(`/files/${fileId}/versions`, 'Third draft'), env, ctx);
+    await queue.drain((batch) => app.queue(batch, env));
+
+    const jobs = Array.from(db.ingestJobs.values()).filter((job) => job.file_id === fileId);
+    expect(jobs.map((job) => [job.file_version, job.status, job.error])).toEqual([
+      [1, 'succeeded', null],
+      [2, 'failed', 'Superseded by version 3'],
+      [3, 'succeeded', null],
+    ]);
+    expect(Array.from(db.chunks.values()).map((chunk) => chunk.content)).toEqual(['Third draft']);
+  });
+});
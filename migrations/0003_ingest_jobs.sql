@@ -0,0 +1,23 @@
+-- Background ingestion jobs processed by the ingest queue consumer
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id TEXT PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  owner_id TEXT NOT NULL REFERENCES users(id),
+  tenant TEXT NOT NULL DEFAULT 'default',
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TEXT,
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_file ON ingest_jobs(file_id);
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_owner_status ON ingest_jobs(owner_id, status);
+
+-- Chunks written by a job are swapped in once the job completes
+ALTER TABLE chunks ADD COLUMN ingest_job_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_chunks_ingest_job ON chunks(file_id, ingest_job_id);
@@ -0,0 +1,11 @@
+-- Vectors for the in-process D1 vector store (VECTOR_STORE=d1), used offline instead of Vectorize
+CREATE TABLE IF NOT EXISTS chunk_vectors (
+  id TEXT PRIMARY KEY,
+  visibility TEXT NOT NULL CHECK (visibility IN ('public', 'private')),
+  owner_id TEXT NOT NULL,
+  embedding TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_chunk_vectors_scope ON chunk_vectors(visibility, owner_id);
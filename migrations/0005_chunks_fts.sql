@@ -0,0 +1,5 @@
+-- Full-text index over chunk content for keyword (BM25) retrieval. Rows share the rowid of
+-- their chunk and are maintained by insertChunk/deleteChunksForFile rather than triggers.
+CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(content, tokenize = 'porter unicode61');
+
+INSERT INTO chunks_fts (rowid, content) SELECT rowid, content FROM chunks;
@@ -0,0 +1,15 @@
+-- Chat threads; each message belongs to at most one conversation
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id, updated_at);
+
+ALTER TABLE messages ADD COLUMN conversation_id TEXT REFERENCES conversations(id) ON DELETE CASCADE;
+-- The standalone query retrieval ran with, after follow-up rewriting
+ALTER TABLE messages ADD COLUMN retrieval_query TEXT;
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at);
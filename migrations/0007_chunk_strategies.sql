@@ -0,0 +1,6 @@
+-- Per-folder chunking strategy (NULL falls back to CHUNK_STRATEGY) and the strategy behind each chunk
+ALTER TABLE folders ADD COLUMN chunk_strategy TEXT;
+ALTER TABLE chunks ADD COLUMN chunk_strategy TEXT;
+
+-- Everything ingested so far was cut at fixed character offsets
+UPDATE chunks SET chunk_strategy = 'fixed-char' WHERE chunk_strategy IS NULL;
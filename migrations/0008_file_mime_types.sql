@@ -0,0 +1,2 @@
+-- Uploads used to be .txt only; record that for rows written before mime_type was filled in
+UPDATE files SET mime_type = 'text/plain' WHERE mime_type IS NULL OR mime_type = '';
@@ -0,0 +1,3 @@
+-- Page and paragraph (within the page) each chunk starts at, for PDF and DOCX uploads
+ALTER TABLE chunks ADD COLUMN page INTEGER;
+ALTER TABLE chunks ADD COLUMN paragraph INTEGER;
@@ -0,0 +1,7 @@
+-- SHA-256 of each chunk's normalized content; re-ingests keep chunks (and vectors) whose hash is unchanged.
+-- Rows from before this migration are hashed from their content the next time their file is ingested.
+ALTER TABLE chunks ADD COLUMN content_hash TEXT;
+
+-- What a re-ingest changed: total_chunks counts the chunks it embeds (added or changed)
+ALTER TABLE ingest_jobs ADD COLUMN unchanged_chunks INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ingest_jobs ADD COLUMN removed_chunks INTEGER NOT NULL DEFAULT 0;
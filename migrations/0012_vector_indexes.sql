@@ -0,0 +1,29 @@
+-- Every generation of the vector index: the embedding model and dimensions its vectors come from,
+-- and the binding they live in. One generation is active and serves queries; a re-index builds
+-- the next one beside it and swaps it in once every chunk has a vector there.
+CREATE TABLE IF NOT EXISTS vector_indexes (
+  generation INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER,
+  binding TEXT NOT NULL DEFAULT 'MARBLE_VECTORS',
+  status TEXT NOT NULL CHECK (status IN ('building', 'active', 'retired', 'failed')),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TEXT,
+  activated_at TEXT,
+  retired_at TEXT
+);
+
+-- The model and dimensions of the vector that serves each chunk, and the newest generation that
+-- has one. Chunks from before this migration are in generation 1; their model is filled in
+-- when generation 1 records the model it was built with.
+ALTER TABLE chunks ADD COLUMN embedding_model TEXT;
+ALTER TABLE chunks ADD COLUMN embedding_dimensions INTEGER;
+ALTER TABLE chunks ADD COLUMN vector_generation INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_chunks_vector_generation ON chunks(vector_generation);
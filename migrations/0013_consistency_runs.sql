@@ -0,0 +1,15 @@
+-- Runs of the D1 / Vectorize / R2 consistency checker, with the report each one produced.
+-- Cron runs have no created_by; manual ones record the admin who started them.
+CREATE TABLE IF NOT EXISTS consistency_runs (
+  id TEXT PRIMARY KEY,
+  mode TEXT NOT NULL CHECK (mode IN ('report', 'repair')),
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron')),
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  report TEXT,
+  error TEXT,
+  created_by TEXT,
+  started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_consistency_runs_started ON consistency_runs(started_at);
@@ -0,0 +1,4 @@
+-- Deleted files and folders sit in their owner's trash (deleted_at set) until the scheduled purge.
+-- Partial indexes keep the per-user trash listing and the expiry scan off the live rows.
+CREATE INDEX IF NOT EXISTS idx_files_trash ON files(owner_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_folders_trash ON folders(owner_id, deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Every upload of a file is a version. The current version's bytes stay at files.r2_key; older
+-- ones are archived under versions/{file_id}/{version}, which file_versions.r2_key records.
+ALTER TABLE files ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS file_versions (
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- NULL for the current version
+  r2_key TEXT,
+  size INTEGER NOT NULL,
+  mime_type TEXT,
+  -- The version a rollback copied
+  restored_from INTEGER,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (file_id, version)
+);
+
+INSERT OR IGNORE INTO file_versions (file_id, version, size, mime_type, created_by, created_at)
+SELECT id, 1, size, mime_type, owner_id, created_at FROM files;
+
+-- The version an ingest read, so chunks (through their ingest job) and the citations built from
+-- them know which version they came from. Jobs from before versioning ingested version 1.
+ALTER TABLE ingest_jobs ADD COLUMN file_version INTEGER;
@@ -0,0 +1,15 @@
+-- At most one queued or running ingest job per file version. Every job ends by deleting the
+-- file's chunks it didn't write, so two of them side by side delete each other's chunks.
+UPDATE ingest_jobs
+SET status = 'failed', error = 'Replaced by a newer ingest of the same version', completed_at = CURRENT_TIMESTAMP
+WHERE status IN ('queued', 'running')
+  AND EXISTS (
+    SELECT 1 FROM ingest_jobs newer
+    WHERE newer.file_id = ingest_jobs.file_id
+      AND newer.file_version IS ingest_jobs.file_version
+      AND newer.status IN ('queued', 'running')
+      AND (newer.created_at, newer.id) > (ingest_jobs.created_at, ingest_jobs.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingest_jobs_active_version
+  ON ingest_jobs(file_id, file_version) WHERE status IN ('queued', 'running');
@@ -0,0 +1,3 @@
+-- When a retired generation's vectors were deleted. Until then, file deletes and moves still reach
+-- the generation, so the consistency check's repair can purge it without leaving strays behind.
+ALTER TABLE vector_indexes ADD COLUMN purged_at TEXT;
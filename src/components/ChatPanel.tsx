@@ -1,6 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { sendChat, type ChatResponse } from '../lib/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchConversation,
+  fetchConversations,
+  fetchFolders,
+  streamChat,
+  type ChatMode,
+  type ChatResponse,
+  type ChatScope,
+} from '../lib/api';
 
 interface ChatMessage {
   id: string;
@@ -10,40 +18,102 @@ interface ChatMessage {
   status: 'pending' | 'ready' | 'error';
   citations: ChatResponse['citations'];
   sources: ChatResponse['sources'];
+  grounding?: ChatResponse['grounding'];
   error?: string;
 }
 
-const KNOWLEDGE_STORAGE_KEY = 'marble-knowledge-mode';
+/** Answers scoring below this get flagged so readers check the sources themselves. */
+const WEAK_GROUNDING_SCORE = 0.5;
+
+const MODE_STORAGE_KEY = 'marble-chat-mode';
+/** Pre-`mode` boolean toggle; read once so existing users keep their choice. */
+const LEGACY_KNOWLEDGE_STORAGE_KEY = 'marble-knowledge-mode';
+
+const MODE_HINTS: Record<ChatMode, string> = {
+  auto: 'Searching your files when the question calls for it.',
+  knowledge: 'Referencing org and private folders.',
+  general: 'Staying model-only.',
+};
 
 export function ChatPanel() {
   const [prompt, setPrompt] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [status, setStatus] = useState<string | null>(null);
-  const [knowledgeMode, setKnowledgeMode] = useState(false);
+  const [mode, setMode] = useState<ChatMode>('auto');
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const conversationsQuery = useQuery({
+    queryKey: ['conversations'],
+    queryFn: fetchConversations,
+  });
+  const conversations = conversationsQuery.data?.conversations ?? [];
+
+  const [scopeFolderIds, setScopeFolderIds] = useState<string[]>([]);
+  const foldersQuery = useQuery({
+    queryKey: ['folders', 'all'],
+    queryFn: () => fetchFolders({ visibility: 'all' }),
+  });
+  const folders = foldersQuery.data?.folders ?? [];
+
+  const toggleScopeFolder = (folderId: string, checked: boolean) => {
+    setScopeFolderIds((prev) => (checked ? [...prev, folderId] : prev.filter((id) => id !== folderId)));
+  };
 
   useEffect(() => {
-    const saved = localStorage.getItem(KNOWLEDGE_STORAGE_KEY);
-    if (saved === 'true') setKnowledgeMode(true);
+    const saved = localStorage.getItem(MODE_STORAGE_KEY);
+    if (saved === 'auto' || saved === 'knowledge' || saved === 'general') {
+      setMode(saved);
+    } else if (localStorage.getItem(LEGACY_KNOWLEDGE_STORAGE_KEY) === 'true') {
+      setMode('knowledge');
+    }
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(KNOWLEDGE_STORAGE_KEY, knowledgeMode ? 'true' : 'false');
-  }, [knowledgeMode]);
+    localStorage.setItem(MODE_STORAGE_KEY, mode);
+  }, [mode]);
+
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => prev.map((message) => (message.id === id ? update(message) : message)));
+  };
 
   const mutation = useMutation({
-    mutationFn: async ({ id, question, knowledge }: { id: string; question: string; knowledge: boolean }) => {
-      const response = await sendChat(question, knowledge);
+    mutationFn: async ({
+      id,
+      question,
+      requestMode,
+      scope,
+    }: {
+      id: string;
+      question: string;
+      requestMode: ChatMode;
+      scope?: ChatScope;
+    }) => {
+      const response = await streamChat({ question, mode: requestMode, conversationId, scope }, {
+        onSources: (sources, nextConversationId, resolvedMode) => {
+          setConversationId(nextConversationId);
+          updateMessage(id, (message) => ({ ...message, sources, knowledgeMode: resolvedMode === 'knowledge' }));
+        },
+        onDelta: (text) => {
+          setStatus(null);
+          updateMessage(id, (message) => ({ ...message, answer: message.answer + text }));
+        },
+      });
       return { id, response };
     },
     onSuccess: ({ id, response }) => {
+      setConversationId(response.conversationId);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
       setMessages((prev) =>
         prev.map((message) =>
           message.id === id
             ? {
                 ...message,
                 answer: response.answer,
+                knowledgeMode: response.mode === 'knowledge',
                 citations: response.citations,
                 sources: response.sources,
+                grounding: response.grounding,
                 status: 'ready',
               }
             : message,
@@ -70,6 +140,37 @@ export function ChatPanel() {
 
   const hasMessages = useMemo(() => messages.length > 0, [messages.length]);
 
+  const startConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setStatus(null);
+  };
+
+  const openConversation = async (id: string) => {
+    if (!id) {
+      startConversation();
+      return;
+    }
+    try {
+      const { messages: history } = await fetchConversation(id);
+      setConversationId(id);
+      setMessages(
+        history.map((entry) => ({
+          id: entry.id,
+          prompt: entry.question,
+          answer: entry.answer,
+          knowledgeMode: entry.retrievalQuery !== null,
+          status: 'ready',
+          citations: entry.citations,
+          sources: [],
+        })),
+      );
+      setStatus(null);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to load conversation');
+    }
+  };
+
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!prompt.trim()) return;
@@ -83,13 +184,18 @@ export function ChatPanel() {
         id,
         prompt: question,
         answer: '',
-        knowledgeMode,
+        knowledgeMode: mode === 'knowledge',
         status: 'pending',
         citations: [],
         sources: [],
       },
     ]);
-    mutation.mutate({ id, question, knowledge: knowledgeMode });
+    mutation.mutate({
+      id,
+      question,
+      requestMode: mode,
+      scope: scopeFolderIds.length ? { folderIds: scopeFolderIds } : undefined,
+    });
   };
 
   return (
@@ -100,15 +206,61 @@ export function ChatPanel() {
           <p className="muted">Chat naturally and blend in workspace knowledge when you need it.</p>
         </div>
         <div className="chat-controls">
+          <div className="chat-thread">
+            <select
+              value={conversationId ?? ''}
+              onChange={(event) => void openConversation(event.target.value)}
+              disabled={mutation.isPending}
+              aria-label="Conversation"
+            >
+              <option value="">New conversation</option>
+              {conversations.map((conversation) => (
+                <option key={conversation.id} value={conversation.id}>
+                  {conversation.title}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="secondary" onClick={startConversation} disabled={mutation.isPending || !conversationId}>
+              New chat
+            </button>
+          </div>
           <label className="toggle">
-            <input
-              type="checkbox"
-              checked={knowledgeMode}
-              onChange={(event) => setKnowledgeMode(event.target.checked)}
-            />
-            <span>Knowledge Mode</span>
+            <span>Mode</span>
+            <select value={mode} onChange={(event) => setMode(event.target.value as ChatMode)}>
+              <option value="auto">Auto</option>
+              <option value="knowledge">Knowledge</option>
+              <option value="general">General</option>
+            </select>
           </label>
-          <small>{knowledgeMode ? 'Referencing org and private folders.' : 'Staying model-only.'}</small>
+          <small>{MODE_HINTS[mode]}</small>
+          {mode !== 'general' && folders.length > 0 && (
+            <details className="scope-picker">
+              <summary>
+                {scopeFolderIds.length
+                  ? `Searching ${scopeFolderIds.length} folder${scopeFolderIds.length === 1 ? '' : 's'}`
+                  : 'Searching all folders'}
+              </summary>
+              <ul>
+                {folders.map((folder) => (
+                  <li key={folder.id}>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={scopeFolderIds.includes(folder.id)}
+                        onChange={(event) => toggleScopeFolder(folder.id, event.target.checked)}
+                      />
+                      <span>{folder.name}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+              {scopeFolderIds.length > 0 && (
+                <button type="button" className="link" onClick={() => setScopeFolderIds([])}>
+                  Clear scope
+                </button>
+              )}
+            </details>
+          )}
         </div>
       </header>
 
@@ -128,6 +280,14 @@ export function ChatPanel() {
                 <span className="message__avatar assistant">Marv</span>
                 <div className="message__body">
                   {message.knowledgeMode && <span className="badge info message__badge">Knowledge Mode</span>}
+                  {message.grounding && message.grounding.score < WEAK_GROUNDING_SCORE && (
+                    <span
+                      className="badge warning message__badge"
+                      title={`${message.grounding.supported} of ${message.grounding.sentences} sentences match the cited lines`}
+                    >
+                      Weakly grounded
+                    </span>
+                  )}
                   {message.status === 'error' ? (
                     <p className="error-text">{message.error}</p>
                   ) : (
@@ -137,8 +297,9 @@ export function ChatPanel() {
                     <ul className="citations">
                       {message.citations.map((citation, index) => (
                         <li key={`${message.id}-${index}`}>
-                          <strong>#{index + 1}</strong> {citation.folder} / {citation.file} · lines {citation.lines[0]}–
-                          {citation.lines[1]}
+                          <strong>#{index + 1}</strong> {citation.folder} / {citation.file}
+                          {citation.fileVersion ? ` (v${citation.fileVersion})` : ''} ·{' '}
+                          {citation.page ? `p. ${citation.page}, ` : ''}lines {citation.lines[0]}–{citation.lines[1]}
                         </li>
                       ))}
                     </ul>
@@ -150,7 +311,8 @@ export function ChatPanel() {
                         {message.sources.map((source) => (
                           <li key={source.chunkId}>
                             <strong>
-                              {source.folderName} / {source.fileName} · lines {source.startLine}–{source.endLine}
+                              {source.folderName} / {source.fileName} · {source.page ? `p. ${source.page}, ` : ''}lines{' '}
+                              {source.startLine}–{source.endLine}
                             </strong>
                             <pre>{source.content}</pre>
                           </li>
@@ -163,7 +325,7 @@ export function ChatPanel() {
             </article>
           ))
         ) : (
-          <p className="placeholder">Flip on knowledge mode to reference uploads, or chat freely without it.</p>
+          <p className="placeholder">Pick Knowledge mode to reference uploads, General to chat freely, or let Auto decide.</p>
         )}
       </div>
 
@@ -6,9 +6,14 @@ import {
   deleteFile,
   fetchFiles,
   fetchFolders,
+  fetchTrash,
+  type ChunkStrategy,
   type FileSummary,
   type FolderSummary,
   type Visibility,
+  SUPPORTED_EXTENSIONS,
+  restoreFile,
+  restoreFolder,
   updateFile,
   uploadFile,
 } from '../lib/api';
@@ -17,6 +22,11 @@ interface FileManagerProps {
   currentUserId: string;
 }
 
+function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
 interface UploadDialogProps {
   open: boolean;
   visibility: Visibility;
@@ -108,7 +118,7 @@ function UploadDialog({ open, visibility, folders, onClose, onUpload, isUploadin
             <span>File</span>
             <input
               type="file"
-              accept=".txt"
+              accept={SUPPORTED_EXTENSIONS.map((extension) => `.${extension}`).join(',')}
               onChange={(event) => {
                 const chosen = event.target.files?.[0] ?? null;
                 if (!chosen) {
@@ -116,14 +126,14 @@ function UploadDialog({ open, visibility, folders, onClose, onUpload, isUploadin
                   setName('');
                   return;
                 }
-                if (!chosen.name.toLowerCase().endsWith('.txt')) {
-                  setError('Only .txt files are supported right now.');
+                if (!SUPPORTED_EXTENSIONS.includes(fileExtension(chosen.name))) {
+                  setError('Upload text, Markdown, CSV, JSON, HTML or source code files.');
                   setFile(null);
                   return;
                 }
                 setError(null);
                 setFile(chosen);
-                setName(chosen.name.replace(/\.txt$/i, ''));
+                setName(chosen.name.replace(/\.[^.]+$/, ''));
               }}
               disabled={isUploading}
             />
@@ -154,10 +164,11 @@ function UploadDialog({ open, visibility, folders, onClose, onUpload, isUploadin
                 return;
               }
               const trimmed = name.trim();
+              const extension = fileExtension(file.name);
               const finalName = trimmed
-                ? trimmed.toLowerCase().endsWith('.txt')
+                ? fileExtension(trimmed) === extension
                   ? trimmed
-                  : `${trimmed}.txt`
+                  : `${trimmed}.${extension}`
                 : undefined;
               onUpload({
                 file,
@@ -179,19 +190,21 @@ function UploadDialog({ open, visibility, folders, onClose, onUpload, isUploadin
 interface FolderDialogProps {
   open: boolean;
   onClose: () => void;
-  onCreate: (args: { name: string; visibility: Visibility }) => void;
+  onCreate: (args: { name: string; visibility: Visibility; chunkStrategy: ChunkStrategy | null }) => void;
   isSaving: boolean;
 }
 
 function FolderDialog({ open, onClose, onCreate, isSaving }: FolderDialogProps) {
   const [name, setName] = useState('');
   const [visibility, setVisibility] = useState<Visibility>('private');
+  const [chunkStrategy, setChunkStrategy] = useState<ChunkStrategy | ''>('');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!open) {
       setName('');
       setVisibility('private');
+      setChunkStrategy('');
       setError(null);
     }
   }, [open]);
@@ -236,6 +249,22 @@ function FolderDialog({ open, onClose, onCreate, isSaving }: FolderDialogProps)
               </button>
             </div>
           </label>
+          <label className="field">
+            <span>Chunking</span>
+            <select
+              value={chunkStrategy}
+              onChange={(event) => setChunkStrategy(event.target.value as ChunkStrategy | '')}
+              disabled={isSaving}
+            >
+              <option value="">Automatic (by file type)</option>
+              <option value="fixed-char">Fixed characters</option>
+              <option value="line">Whole lines</option>
+              <option value="paragraph">Paragraphs</option>
+              <option value="markdown-heading">Markdown headings</option>
+              <option value="code-block">Code blocks</option>
+              <option value="token">Tokens</option>
+            </select>
+          </label>
           {error && <p className="error-text">{error}</p>}
         </div>
         <footer className="dialog-footer">
@@ -249,7 +278,7 @@ function FolderDialog({ open, onClose, onCreate, isSaving }: FolderDialogProps)
                 setError('Folder name is required');
                 return;
               }
-              onCreate({ name: name.trim(), visibility });
+              onCreate({ name: name.trim(), visibility, chunkStrategy: chunkStrategy || null });
             }}
             disabled={isSaving}
           >
@@ -263,6 +292,7 @@ function FolderDialog({ open, onClose, onCreate, isSaving }: FolderDialogProps)
 
 export function FileManager({ currentUserId }: FileManagerProps) {
   const [visibilityFilter, setVisibilityFilter] = useState<Visibility>('private');
+  const [showTrash, setShowTrash] = useState(false);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [showFolderDialog, setShowFolderDialog] = useState(false);
@@ -301,9 +331,18 @@ export function FileManager({ currentUserId }: FileManagerProps) {
         folderId: selectedFolderId ?? undefined,
       }),
     enabled: Boolean(selectedFolderId) || visibilityFilter === 'public',
+    // Poll while any document is still being indexed in the background
+    refetchInterval: (query) =>
+      query.state.data?.files.some((file) => file.status === 'uploading') ? 3000 : false,
   });
 
   const files = filesQuery.data?.files ?? [];
+
+  const trashQuery = useQuery({
+    queryKey: ['trash'],
+    queryFn: fetchTrash,
+    enabled: showTrash,
+  });
   const timestampFormatter = useMemo(
     () => new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }),
     [],
@@ -326,7 +365,7 @@ export function FileManager({ currentUserId }: FileManagerProps) {
         queryClient.invalidateQueries({ queryKey: ['folders'] }),
       ]);
       setShowUpload(false);
-      setAlert({ type: 'info', message: 'Upload complete. Document is ready for search.' });
+      setAlert({ type: 'info', message: 'Upload complete. The document will be searchable once indexing finishes.' });
     },
     onError: (error: unknown) => {
       const message = error instanceof Error ? error.message : 'Upload failed';
@@ -377,12 +416,16 @@ export function FileManager({ currentUserId }: FileManagerProps) {
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => deleteFile(id),
-    onSuccess: async () => {
+    onSuccess: async ({ purgeAt }) => {
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['files'] }),
         queryClient.invalidateQueries({ queryKey: ['folders'] }),
+        queryClient.invalidateQueries({ queryKey: ['trash'] }),
       ]);
-      setAlert({ type: 'info', message: 'File deleted.' });
+      setAlert({
+        type: 'info',
+        message: `Moved to trash. You can restore it until ${timestampFormatter.format(new Date(purgeAt))}.`,
+      });
     },
     onError: (error: unknown) => {
       const message = error instanceof Error ? error.message : 'Delete failed';
@@ -390,6 +433,28 @@ export function FileManager({ currentUserId }: FileManagerProps) {
     },
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: 'file' | 'folder'; id: string }) => {
+      if (kind === 'file') {
+        await restoreFile(id);
+      } else {
+        await restoreFolder(id);
+      }
+    },
+    onSuccess: async (_result, { kind }) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['files'] }),
+        queryClient.invalidateQueries({ queryKey: ['folders'] }),
+        queryClient.invalidateQueries({ queryKey: ['trash'] }),
+      ]);
+      setAlert({ type: 'info', message: kind === 'file' ? 'File restored.' : 'Folder restored.' });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Restore failed';
+      setAlert({ type: 'error', message });
+    },
+  });
+
   const scopedFolders = visibilityFilter === 'private' ? foldersByVisibility.private : foldersByVisibility.public;
   const isOwner = (file: FileSummary) => file.owner.id === currentUserId;
   const isLoadingFiles = filesQuery.isLoading;
@@ -429,6 +494,7 @@ export function FileManager({ currentUserId }: FileManagerProps) {
                   <div className="file-card__title">{file.name}</div>
                   <div className="file-card__meta">
                     <span className={`badge ${file.visibility}`}>{visibilityLabel}</span>
+                    {file.status === 'uploading' && <span className="badge info">Indexing…</span>}
                     <span className="owner-chip">{ownerLabel}</span>
                     <span>{file.folder.name}</span>
                   </div>
@@ -477,6 +543,85 @@ export function FileManager({ currentUserId }: FileManagerProps) {
     );
   })();
 
+  const trashContent = (() => {
+    if (trashQuery.isLoading) {
+      return <div className="file-empty">Loading trash…</div>;
+    }
+    const trash = trashQuery.data;
+    if (!trash || (trash.folders.length === 0 && trash.files.length === 0)) {
+      return (
+        <div className="file-empty">
+          Trash is empty. Deleted files stay here for {trash?.retentionDays ?? 30} days before they are removed for good.
+        </div>
+      );
+    }
+    return (
+      <div className="card-list">
+        {trash.folders.map((folder) => (
+          <article key={folder.id} className="file-card">
+            <div className="file-card__header">
+              <div>
+                <div className="file-card__title">{folder.name}</div>
+                <div className="file-card__meta">
+                  <span className="badge warning">Folder</span>
+                  <span>
+                    {folder.fileCount} {folder.fileCount === 1 ? 'file' : 'files'}
+                  </span>
+                </div>
+              </div>
+            </div>
+            <div className="file-card__footer">
+              <span className="file-card__timestamp">
+                Deleted {timestampFormatter.format(new Date(folder.deletedAt))} · Removed{' '}
+                {timestampFormatter.format(new Date(folder.purgeAt))}
+              </span>
+              <div className="file-card__actions">
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => restoreMutation.mutate({ kind: 'folder', id: folder.id })}
+                  disabled={restoreMutation.isPending}
+                >
+                  Restore
+                </button>
+              </div>
+            </div>
+          </article>
+        ))}
+        {trash.files.map((file) => (
+          <article key={file.id} className="file-card">
+            <div className="file-card__header">
+              <div>
+                <div className="file-card__title">{file.name}</div>
+                <div className="file-card__meta">
+                  <span className={`badge ${file.visibility}`}>{file.visibility === 'public' ? 'Public' : 'Private'}</span>
+                  <span>{file.folder.name}</span>
+                </div>
+              </div>
+            </div>
+            <div className="file-card__footer">
+              <span className="file-card__timestamp">
+                Deleted {timestampFormatter.format(new Date(file.deletedAt))} · Removed{' '}
+                {timestampFormatter.format(new Date(file.purgeAt))}
+              </span>
+              <div className="file-card__actions">
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => restoreMutation.mutate({ kind: 'file', id: file.id })}
+                  disabled={restoreMutation.isPending || file.folderDeleted}
+                  title={file.folderDeleted ? `Restore the folder "${file.folder.name}" first` : undefined}
+                >
+                  Restore
+                </button>
+              </div>
+            </div>
+          </article>
+        ))}
+      </div>
+    );
+  })();
+
   return (
     <section className="panel file-manager prime">
       <header className="panel-header">
@@ -512,22 +657,37 @@ export function FileManager({ currentUserId }: FileManagerProps) {
         <div className="segmented" role="tablist" aria-label="Visibility filter">
           <button
             type="button"
-            className={visibilityFilter === 'private' ? 'active' : ''}
-            onClick={() => setVisibilityFilter('private')}
+            className={!showTrash && visibilityFilter === 'private' ? 'active' : ''}
+            onClick={() => {
+              setShowTrash(false);
+              setVisibilityFilter('private');
+            }}
             role="tab"
-            aria-selected={visibilityFilter === 'private'}
+            aria-selected={!showTrash && visibilityFilter === 'private'}
           >
             My Files
           </button>
           <button
             type="button"
-            className={visibilityFilter === 'public' ? 'active' : ''}
-            onClick={() => setVisibilityFilter('public')}
+            className={!showTrash && visibilityFilter === 'public' ? 'active' : ''}
+            onClick={() => {
+              setShowTrash(false);
+              setVisibilityFilter('public');
+            }}
             role="tab"
-            aria-selected={visibilityFilter === 'public'}
+            aria-selected={!showTrash && visibilityFilter === 'public'}
           >
             Org Shared
           </button>
+          <button
+            type="button"
+            className={showTrash ? 'active' : ''}
+            onClick={() => setShowTrash(true)}
+            role="tab"
+            aria-selected={showTrash}
+          >
+            Trash
+          </button>
         </div>
         <div className="file-stats">
           <div className="stat-card">
@@ -543,33 +703,42 @@ export function FileManager({ currentUserId }: FileManagerProps) {
         </div>
       </div>
 
-      <div className="file-folders">
-        <span className="file-folders__label">Folders</span>
-        <div className="folders-bar">
-          {scopedFolders.length === 0 ? (
-            <p className="muted">No folders yet. Create one to get started.</p>
-          ) : (
-            <ul>
-              {scopedFolders.map((folder) => (
-                <li key={folder.id}>
-                  <button
-                    className={selectedFolderId === folder.id ? 'active' : ''}
-                    onClick={() => setSelectedFolderId(folder.id)}
-                  >
-                    <span>{folder.name}</span>
-                    <span className="count">{folder.fileCount}</span>
-                  </button>
-                </li>
-              ))}
-            </ul>
-          )}
+      {showTrash ? (
+        <div className="file-collection">
+          <span className="file-folders__label">Trash</span>
+          {trashContent}
         </div>
-      </div>
+      ) : (
+        <>
+          <div className="file-folders">
+            <span className="file-folders__label">Folders</span>
+            <div className="folders-bar">
+              {scopedFolders.length === 0 ? (
+                <p className="muted">No folders yet. Create one to get started.</p>
+              ) : (
+                <ul>
+                  {scopedFolders.map((folder) => (
+                    <li key={folder.id}>
+                      <button
+                        className={selectedFolderId === folder.id ? 'active' : ''}
+                        onClick={() => setSelectedFolderId(folder.id)}
+                      >
+                        <span>{folder.name}</span>
+                        <span className="count">{folder.fileCount}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
 
-      <div className="file-collection">
-        <span className="file-folders__label">Documents</span>
-        {fileListContent}
-      </div>
+          <div className="file-collection">
+            <span className="file-folders__label">Documents</span>
+            {fileListContent}
+          </div>
+        </>
+      )}
 
       {renamingFile && (
         <div className="dialog-backdrop" role="dialog" aria-modal="true">
@@ -18,10 +18,21 @@ export interface SessionResponse {
 
 export type Visibility = 'public' | 'private';
 
+export type ChunkStrategy = 'fixed-char' | 'line' | 'paragraph' | 'markdown-heading' | 'code-block' | 'token';
+
+/** Mirrors the Worker's extractor registry; anything else is rejected on upload. */
+export const SUPPORTED_EXTENSIONS = [
+  'txt', 'text', 'log', 'md', 'markdown', 'mdx', 'csv', 'tsv', 'json', 'html', 'htm', 'xhtml',
+  'js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'py', 'go', 'rs', 'java', 'kt', 'rb', 'php', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'swift', 'sh', 'sql', 'css', 'scss', 'yaml', 'yml', 'toml', 'pdf', 'docx',
+];
+
 export interface FolderSummary {
   id: string;
   name: string;
   visibility: Visibility;
+  /** `null` when files use the workspace default. */
+  chunkStrategy: ChunkStrategy | null;
   fileCount: number;
   owner: {
     id: string;
@@ -39,6 +50,8 @@ export interface FileSummary {
   status: 'uploading' | 'ready';
   size: number;
   mimeType: string | null;
+  /** Bumped by every re-upload or rollback. */
+  version: number;
   folder: {
     id: string;
     name: string;
@@ -53,21 +66,147 @@ export interface FileSummary {
   updatedAt: string;
 }
 
+export interface TrashedFile extends FileSummary {
+  deletedAt: string;
+  /** When the scheduled purge removes it for good. */
+  purgeAt: string;
+  /** The folder is in the trash too and has to be restored first. */
+  folderDeleted: boolean;
+}
+
+export interface TrashedFolder {
+  id: string;
+  name: string;
+  visibility: Visibility;
+  /** Files that went to the trash with the folder and come back with it. */
+  fileCount: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface TrashResponse {
+  retentionDays: number;
+  folders: TrashedFolder[];
+  files: TrashedFile[];
+}
+
+export interface FileVersion {
+  version: number;
+  current: boolean;
+  size: number;
+  mimeType: string | null;
+  /** Set when the version was created by rolling back to this earlier one. */
+  restoredFrom: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface FileDiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface FileDiff {
+  fileId: string;
+  from: number;
+  to: number;
+  added: number;
+  removed: number;
+  hunks: Array<{ oldStart: number; oldLines: number; newStart: number; newLines: number; lines: FileDiffLine[] }>;
+}
+
+export interface IngestJob {
+  id: string;
+  fileId: string;
+  /** The file version the job ingests. */
+  fileVersion: number;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  /** Chunks the job embeds; on re-ingest only new or changed ones. */
+  totalChunks: number;
+  processedChunks: number;
+  addedChunks: number;
+  /** Chunks kept from the previous ingest, vectors included, because their content didn't change. */
+  unchangedChunks: number;
+  removedChunks: number;
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export type ChatMode = 'general' | 'knowledge' | 'auto';
+
+export interface ChatRequest {
+  question: string;
+  mode: ChatMode;
+  conversationId?: string | null;
+  scope?: ChatScope;
+}
+
+/** Narrows knowledge lookups; unset fields don't restrict anything. */
+export interface ChatScope {
+  folderIds?: string[];
+  fileIds?: string[];
+  visibility?: 'public' | 'private' | 'all';
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
 export interface ChatResponse {
   id: string;
+  conversationId: string;
+  /** What the server actually did; `auto` requests resolve to one of these. */
+  mode: 'general' | 'knowledge';
+  /** Standalone query used for retrieval when the question was a follow-up. */
+  retrievalQuery?: string;
   answer: string;
-  citations: Array<{ folder: string; file: string; lines: [number, number] }>;
+  /** `page` is set for PDF and DOCX files, whose lines count lines of the extracted text. */
+  citations: Array<{
+    folder: string;
+    file: string;
+    lines: [number, number];
+    page?: number;
+    chunkId?: string;
+    /** Version of the file the cited lines were read from. */
+    fileVersion?: number;
+  }>;
+  /** Knowledge answers only: the share of answer sentences backed by the cited lines. */
+  grounding?: { score: number; sentences: number; supported: number };
   sources: Array<{
     order: number;
     chunkId: string;
+    /** Neighboring chunks merged into this excerpt when context expansion is on. */
+    chunkIds?: string[];
     folderName: string;
     fileName: string;
     startLine: number;
     endLine: number;
+    page?: number | null;
     content: string;
   }>;
 }
 
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  messageCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  question: string;
+  answer: string;
+  citations: ChatResponse['citations'];
+  retrievalQuery: string | null;
+  createdAt: string;
+}
+
 // --- Base URL from env ---
 const BASE = import.meta.env.VITE_API_BASE ?? '';
 export const API_BASE = BASE;
@@ -92,21 +231,25 @@ function attachIdentity(init?: RequestInit): RequestInit {
 }
 
 // --- Fetch helper ---
+async function toApiError(response: Response): Promise<ApiError> {
+  const text = await response.text();
+  let message = text || `Request failed with ${response.status}`;
+  try {
+    const parsed = JSON.parse(text) as { error?: string };
+    if (parsed && typeof parsed.error === 'string' && parsed.error.trim().length > 0) {
+      message = parsed.error;
+    }
+  } catch {
+    // ignore parse errors; fall back to raw text
+  }
+  return new ApiError(response.status, message);
+}
+
 async function fetchJSON<T>(path: string, init?: RequestInit): Promise<T> {
   const url = `${BASE}${path}`;
   const response = await fetch(url, attachIdentity(init));
   if (!response.ok) {
-    const text = await response.text();
-    let message = text || `Request failed with ${response.status}`;
-    try {
-      const parsed = JSON.parse(text) as { error?: string };
-      if (parsed && typeof parsed.error === 'string' && parsed.error.trim().length > 0) {
-        message = parsed.error;
-      }
-    } catch {
-      // ignore parse errors; fall back to raw text
-    }
-    throw new ApiError(response.status, message);
+    throw await toApiError(response);
   }
   return response.json() as Promise<T>;
 }
@@ -126,7 +269,11 @@ export function fetchFolders(params: { visibility?: 'public' | 'private' | 'all'
   return fetchJSON(`/api/folders${query ? `?${query}` : ''}`);
 }
 
-export function createFolder(body: { name: string; visibility: Visibility }): Promise<{ folder: FolderSummary }> {
+export function createFolder(body: {
+  name: string;
+  visibility: Visibility;
+  chunkStrategy?: ChunkStrategy | null;
+}): Promise<{ folder: FolderSummary }> {
   return fetchJSON('/api/folders', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -134,7 +281,10 @@ export function createFolder(body: { name: string; visibility: Visibility }): Pr
   });
 }
 
-export function updateFolder(id: string, body: { name?: string; visibility?: Visibility }): Promise<{ folder: FolderSummary }>
+export function updateFolder(
+  id: string,
+  body: { name?: string; visibility?: Visibility; chunkStrategy?: ChunkStrategy | null },
+): Promise<{ folder: FolderSummary }>
 {
   return fetchJSON(`/api/folders/${id}`, {
     method: 'PATCH',
@@ -152,7 +302,7 @@ export function fetchFiles(params: { visibility?: 'public' | 'private' | 'all';
   return fetchJSON(`/api/files${query ? `?${query}` : ''}`);
 }
 
-export async function uploadFile(formData: FormData): Promise<{ file: FileSummary }> {
+export async function uploadFile(formData: FormData): Promise<{ file: FileSummary; ingestJob: IngestJob }> {
   const response = await fetch(`${BASE}/api/files`, attachIdentity({
     method: 'POST',
     body: formData,
@@ -164,6 +314,10 @@ export async function uploadFile(formData: FormData): Promise<{ file: FileSummar
   return response.json();
 }
 
+export function fetchIngestJob(jobId: string): Promise<{ job: IngestJob }> {
+  return fetchJSON(`/api/ingest/${jobId}`);
+}
+
 export function updateFile(id: string, body: { name?: string; visibility?: Visibility; folderId?: string }): Promise<{ file: FileSummary }>
 {
   return fetchJSON(`/api/files/${id}`, {
@@ -173,14 +327,222 @@ export function updateFile(id: string, body: { name?: string; visibility?: Visib
   });
 }
 
-export function deleteFile(id: string): Promise<{ deleted: boolean }> {
+export function deleteFile(id: string): Promise<{ deleted: boolean; trashed: boolean; purgeAt: string }> {
   return fetchJSON(`/api/files/${id}`, { method: 'DELETE' });
 }
 
-export function sendChat(message: string, knowledgeMode: boolean): Promise<ChatResponse> {
+export function fetchFileVersions(id: string): Promise<{ file: FileSummary; versions: FileVersion[] }> {
+  return fetchJSON(`/api/files/${id}/versions`);
+}
+
+export async function uploadFileVersion(
+  id: string,
+  file: File,
+): Promise<{ file: FileSummary; version: number; ingestJob: IngestJob }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(`${BASE}/api/files/${id}/versions`, attachIdentity({
+    method: 'POST',
+    body: formData,
+  }));
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  return response.json();
+}
+
+/** Line diff between two versions; `to` defaults to the current one. */
+export function fetchFileDiff(id: string, from: number, to?: number): Promise<FileDiff> {
+  const search = new URLSearchParams({ from: String(from) });
+  if (to !== undefined) search.set('to', String(to));
+  return fetchJSON(`/api/files/${id}/diff?${search.toString()}`);
+}
+
+export function rollbackFile(id: string, version: number): Promise<{ file: FileSummary; version: number; ingestJob: IngestJob }> {
+  return fetchJSON(`/api/files/${id}/rollback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ version }),
+  });
+}
+
+export function fetchTrash(): Promise<TrashResponse> {
+  return fetchJSON('/api/trash');
+}
+
+export function restoreFile(id: string): Promise<{ file: FileSummary }> {
+  return fetchJSON(`/api/files/${id}/restore`, { method: 'POST' });
+}
+
+export function restoreFolder(id: string): Promise<{ folder: FolderSummary; files: number }> {
+  return fetchJSON(`/api/folders/${id}/restore`, { method: 'POST' });
+}
+
+function chatBody(request: ChatRequest): string {
+  return JSON.stringify({ version: 1, ...request, conversationId: request.conversationId ?? undefined });
+}
+
+export function sendChat(request: ChatRequest): Promise<ChatResponse> {
   return fetchJSON('/api/chat', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ message, knowledgeMode }),
+    body: chatBody(request),
+  });
+}
+
+export interface ChatStreamHandlers {
+  onSources?: (sources: ChatResponse['sources'], conversationId: string, mode: ChatResponse['mode']) => void;
+  onDelta?: (text: string) => void;
+}
+
+type ChatSourcesEvent = Pick<ChatResponse, 'conversationId' | 'mode' | 'sources' | 'retrievalQuery'>;
+
+/** The events the Worker streams from `/api/chat?stream=1`, by name. */
+interface ChatStreamEvents {
+  sources: ChatSourcesEvent;
+  delta: { text: string };
+  done: Omit<ChatResponse, 'sources'>;
+  error: { error?: string };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isChatMode(value: unknown): value is ChatResponse['mode'] {
+  return value === 'general' || value === 'knowledge';
+}
+
+function isAnswer(value: unknown): value is ChatStreamEvents['done'] {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.conversationId === 'string' &&
+    isChatMode(value.mode) &&
+    typeof value.answer === 'string' &&
+    Array.isArray(value.citations)
+  );
+}
+
+function isChatResponse(value: unknown): value is ChatResponse {
+  return isRecord(value) && Array.isArray(value.sources) && isAnswer(value);
+}
+
+const chatEventGuards: { [K in keyof ChatStreamEvents]: (value: unknown) => value is ChatStreamEvents[K] } = {
+  sources: (value): value is ChatSourcesEvent =>
+    isRecord(value) && typeof value.conversationId === 'string' && isChatMode(value.mode) && Array.isArray(value.sources),
+  delta: (value): value is { text: string } => isRecord(value) && typeof value.text === 'string',
+  done: isAnswer,
+  error: (value): value is { error?: string } => isRecord(value) && (value.error === undefined || typeof value.error === 'string'),
+};
+
+/** Parses one streamed event's data, rejecting payloads that don't have the event's shape. */
+function parseChatEvent<K extends keyof ChatStreamEvents>(event: K, data: string): ChatStreamEvents[K] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    payload = undefined;
+  }
+  if (!chatEventGuards[event](payload)) {
+    throw new ApiError(502, `Malformed ${event} event in the chat stream`);
+  }
+  return payload;
+}
+
+function isChatEvent(event: string): event is keyof ChatStreamEvents {
+  return Object.prototype.hasOwnProperty.call(chatEventGuards, event);
+}
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : blocks.pop() ?? '';
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+      block.split(/\r?\n/).forEach((line) => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      });
+      if (data.length) yield { event, data: data.join('\n') };
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Streams a chat answer over server-sent events, calling `onSources` once retrieval is done
+ * and `onDelta` for every chunk of answer text. Falls back to the plain JSON endpoint when
+ * the browser or a proxy in between can't stream.
+ */
+export async function streamChat(request: ChatRequest, handlers: ChatStreamHandlers = {}): Promise<ChatResponse> {
+  const init = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: chatBody(request),
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${BASE}/api/chat?stream=1`, attachIdentity(init));
+  } catch {
+    return sendChat(request);
+  }
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const result: unknown = await response.json().catch(() => undefined);
+    if (!isChatResponse(result)) {
+      throw new ApiError(502, 'Malformed chat response');
+    }
+    handlers.onSources?.(result.sources, result.conversationId, result.mode);
+    handlers.onDelta?.(result.answer);
+    return result;
+  }
+
+  let sources: ChatResponse['sources'] = [];
+  for await (const { event, data } of readEvents(response.body)) {
+    if (!isChatEvent(event)) continue;
+    if (event === 'sources') {
+      const payload = parseChatEvent(event, data);
+      sources = payload.sources;
+      handlers.onSources?.(payload.sources, payload.conversationId, payload.mode);
+    } else if (event === 'delta') {
+      handlers.onDelta?.(parseChatEvent(event, data).text);
+    } else if (event === 'done') {
+      return { ...parseChatEvent(event, data), sources };
+    } else {
+      throw new ApiError(500, parseChatEvent(event, data).error ?? 'Chat failed');
+    }
+  }
+  throw new ApiError(500, 'Chat stream ended before the answer was complete');
+}
+
+export function fetchConversations(): Promise<{ conversations: ConversationSummary[] }> {
+  return fetchJSON('/api/conversations');
+}
+
+export function fetchConversation(
+  id: string,
+): Promise<{ conversation: ConversationSummary; messages: ConversationMessage[] }> {
+  return fetchJSON(`/api/conversations/${id}`);
+}
+
+export function renameConversation(id: string, title: string): Promise<{ conversation: ConversationSummary }> {
+  return fetchJSON(`/api/conversations/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title }),
   });
 }
+
+export function deleteConversation(id: string): Promise<{ deleted: boolean }> {
+  return fetchJSON(`/api/conversations/${id}`, { method: 'DELETE' });
+}